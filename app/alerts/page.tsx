@@ -0,0 +1,425 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, AlertCircle, Check, Plus, Send, Trash2, Loader2, Play } from 'lucide-react'
+import { fetchAlertConfig, saveAlertConfig, testAlertChannel, evaluateAlertsNow } from '@/lib/alertsClient'
+import { fetchRegistry } from '@/lib/registryClient'
+import type { RegistrySchedule } from '@/lib/registry'
+import type { AlertChannel, AlertChannelType, AlertConfig, AlertRule, AlertSeverity } from '@/lib/alerts'
+
+const inputClass = 'px-3 py-2 bg-input border border-border text-foreground text-sm focus:outline-none focus:ring-1 focus:ring-ring'
+
+const CHANNEL_LABELS: Record<AlertChannelType, string> = {
+  in_app: 'Notification center',
+  webhook: 'Webhook',
+  email: 'Email',
+}
+
+function newChannel(type: 'webhook' | 'email', existing: AlertChannel[]): AlertChannel {
+  let n = 1
+  while (existing.some(c => c.id === `${type}-${n}`)) n++
+  return type === 'webhook'
+    ? { id: `${type}-${n}`, name: `Webhook ${n}`, type, enabled: true, webhook: { url: '' } }
+    : { id: `${type}-${n}`, name: `Email ${n}`, type, enabled: true, email: { to: [] } }
+}
+
+// ---------------------------------------------------------------------------
+// Rule editor
+// ---------------------------------------------------------------------------
+
+function RuleEditor({
+  rule,
+  channels,
+  schedules,
+  onChange,
+}: {
+  rule: AlertRule
+  channels: AlertChannel[]
+  schedules: RegistrySchedule[]
+  onChange: (rule: AlertRule) => void
+}) {
+  const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter(x => x !== id) : [...list, id])
+
+  return (
+    <div className="border border-border bg-card p-5 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium">{rule.name}</h3>
+          <p className="text-xs text-muted-foreground">
+            {rule.type === 'missed_run'
+              ? 'An active schedule did not run within the grace period after it was due.'
+              : 'The latest runs failed, or succeeded without a usable digest.'}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={rule.enabled} onChange={(e) => onChange({ ...rule, enabled: e.target.checked })} />
+          Enabled
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rule.type === 'consecutive_failures' ? (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Bad runs in a row</label>
+            <input
+              type="number"
+              min={1}
+              value={rule.threshold ?? 1}
+              onChange={(e) => onChange({ ...rule, threshold: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Grace period (minutes)</label>
+            <input
+              type="number"
+              min={0}
+              value={rule.grace_minutes ?? 30}
+              onChange={(e) => onChange({ ...rule, grace_minutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Severity</label>
+          <select
+            value={rule.severity}
+            onChange={(e) => onChange({ ...rule, severity: e.target.value as AlertSeverity })}
+            className={`${inputClass} w-full`}
+          >
+            <option value="warning">Warning</option>
+            <option value="critical">Critical</option>
+          </select>
+        </div>
+      </div>
+
+      {rule.type === 'consecutive_failures' && (
+        <div className="flex flex-wrap gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!rule.count_invalid_output}
+              onChange={(e) => onChange({ ...rule, count_invalid_output: e.target.checked })}
+            />
+            Count runs with invalid digest output
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!rule.count_slack_not_posted}
+              onChange={(e) => onChange({ ...rule, count_slack_not_posted: e.target.checked })}
+            />
+            Count runs not posted to Slack
+          </label>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Notify</p>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {channels.map(channel => (
+            <label key={channel.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.channels.includes(channel.id)}
+                onChange={() => onChange({ ...rule, channels: toggle(rule.channels, channel.id) })}
+              />
+              {channel.name}
+              {!channel.enabled && <span className="text-xs text-muted-foreground">(disabled)</span>}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">
+          Schedules <span className="text-muted-foreground font-normal">(none selected = all registered schedules)</span>
+        </p>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {schedules.map(schedule => (
+            <label key={schedule.schedule_id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.schedule_ids.includes(schedule.schedule_id)}
+                onChange={() => onChange({ ...rule, schedule_ids: toggle(rule.schedule_ids, schedule.schedule_id) })}
+              />
+              {schedule.name || schedule.schedule_id}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Channel editor
+// ---------------------------------------------------------------------------
+
+function ChannelEditor({
+  channel,
+  saved,
+  onChange,
+  onRemove,
+}: {
+  channel: AlertChannel
+  /** Tests go through the saved config, so they are only offered for saved channels */
+  saved: boolean
+  onChange: (channel: AlertChannel) => void
+  onRemove?: () => void
+}) {
+  const [testing, setTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const handleTest = async () => {
+    setTesting(true)
+    setTestResult(null)
+    const result = await testAlertChannel(channel.id)
+    setTestResult(result.success ? { ok: true, text: 'Test alert sent' } : { ok: false, text: result.error || 'Test failed' })
+    setTesting(false)
+  }
+
+  return (
+    <div className="border border-border bg-card p-5 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-xs uppercase tracking-wide text-muted-foreground shrink-0">{CHANNEL_LABELS[channel.type]}</span>
+          <input
+            value={channel.name}
+            onChange={(e) => onChange({ ...channel, name: e.target.value })}
+            className={`${inputClass} min-w-0`}
+            aria-label="Channel name"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={channel.enabled} onChange={(e) => onChange({ ...channel, enabled: e.target.checked })} />
+            Enabled
+          </label>
+          <button
+            onClick={handleTest}
+            disabled={!saved || testing}
+            className="p-2 hover:bg-muted disabled:opacity-40"
+            aria-label="Send test alert"
+            title={saved ? 'Send test alert' : 'Save to test this channel'}
+          >
+            {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </button>
+          {onRemove && (
+            <button onClick={onRemove} className="p-2 hover:bg-muted text-destructive" aria-label="Remove channel">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {channel.type === 'webhook' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">URL</label>
+            <input
+              value={channel.webhook?.url || ''}
+              onChange={(e) => onChange({ ...channel, webhook: { ...channel.webhook, url: e.target.value } })}
+              placeholder="https://example.com/hooks/digest-alerts"
+              className={`${inputClass} w-full`}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Signing secret <span className="text-muted-foreground font-normal">(optional)</span></label>
+            <input
+              type="password"
+              value={channel.webhook?.secret || ''}
+              onChange={(e) => onChange({ ...channel, webhook: { url: channel.webhook?.url || '', secret: e.target.value || undefined } })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        </div>
+      )}
+
+      {channel.type === 'email' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Recipients <span className="text-muted-foreground font-normal">(comma-separated)</span></label>
+          <input
+            value={(channel.email?.to || []).join(', ')}
+            onChange={(e) => onChange({ ...channel, email: { to: e.target.value.split(',').map(s => s.trim()).filter(Boolean) } })}
+            placeholder="oncall@example.com"
+            className={`${inputClass} w-full`}
+          />
+          <p className="text-xs text-muted-foreground">Sent through the server&apos;s SMTP settings (SMTP_HOST, SMTP_USER, ...).</p>
+        </div>
+      )}
+
+      {testResult && (
+        <p className={`text-xs flex items-center gap-1 ${testResult.ok ? 'text-muted-foreground' : 'text-destructive'}`}>
+          {testResult.ok ? <Check className="w-3 h-3" /> : <AlertCircle className="w-3 h-3" />}
+          {testResult.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function AlertsPage() {
+  const [config, setConfig] = useState<AlertConfig | null>(null)
+  const [savedIds, setSavedIds] = useState<string[]>([])
+  const [schedules, setSchedules] = useState<RegistrySchedule[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [evaluating, setEvaluating] = useState(false)
+
+  useEffect(() => {
+    fetchAlertConfig().then(result => {
+      if (result.success && result.config) {
+        setConfig(result.config)
+        setSavedIds(result.config.channels.map(c => c.id))
+      } else {
+        setError(result.error || 'Failed to load alert settings')
+      }
+    })
+    fetchRegistry().then(result => {
+      if (result.success) setSchedules(result.schedules)
+    })
+  }, [])
+
+  const updateRule = (index: number, rule: AlertRule) => {
+    setConfig(prev => prev && { ...prev, rules: prev.rules.map((r, i) => (i === index ? rule : r)) })
+  }
+
+  const updateChannel = (index: number, channel: AlertChannel) => {
+    setConfig(prev => prev && { ...prev, channels: prev.channels.map((c, i) => (i === index ? channel : c)) })
+  }
+
+  const addChannel = (type: 'webhook' | 'email') => {
+    setConfig(prev => prev && { ...prev, channels: [...prev.channels, newChannel(type, prev.channels)] })
+  }
+
+  const removeChannel = (id: string) => {
+    setConfig(prev => prev && {
+      channels: prev.channels.filter(c => c.id !== id),
+      rules: prev.rules.map(r => ({ ...r, channels: r.channels.filter(c => c !== id) })),
+    })
+  }
+
+  const handleSave = async () => {
+    if (!config) return
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+    const result = await saveAlertConfig(config)
+    if (result.success && result.config) {
+      setConfig(result.config)
+      setSavedIds(result.config.channels.map(c => c.id))
+      setNotice('Alert settings saved')
+    } else {
+      setError(result.errors?.join('; ') || result.error || 'Failed to save alert settings')
+    }
+    setSaving(false)
+  }
+
+  const handleEvaluate = async () => {
+    setEvaluating(true)
+    setError(null)
+    setNotice(null)
+    const summary = await evaluateAlertsNow()
+    if (summary.success) {
+      const fired = summary.fired.length
+      setNotice(`Checked ${summary.schedules} schedule${summary.schedules === 1 ? '' : 's'}: ${fired === 0 ? 'no new alerts' : `${fired} new alert${fired === 1 ? '' : 's'}`}`)
+      if (summary.errors.length > 0) setError(summary.errors.map(e => `${e.schedule_id}: ${e.error}`).join('; '))
+    } else {
+      setError(summary.error || 'Alert check failed')
+    }
+    setEvaluating(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 border-b border-border bg-background z-40">
+        <div className="mx-auto max-w-5xl px-4 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 hover:bg-muted" aria-label="Back to digest">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="font-serif font-bold text-3xl tracking-tight">Alerts</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleEvaluate}
+              disabled={evaluating}
+              className="px-4 py-2 border border-border hover:bg-muted flex items-center gap-2 text-sm disabled:opacity-50"
+            >
+              {evaluating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Check now
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!config || saving}
+              className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-2 text-sm disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Save
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-8 space-y-8">
+        {error && (
+          <p className="text-sm text-destructive flex items-center gap-1">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+        {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+        {config && (
+          <>
+            <section className="space-y-3">
+              <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Rules</h2>
+              {config.rules.map((rule, i) => (
+                <RuleEditor
+                  key={rule.id}
+                  rule={rule}
+                  channels={config.channels}
+                  schedules={schedules}
+                  onChange={(next) => updateRule(i, next)}
+                />
+              ))}
+            </section>
+
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Channels</h2>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => addChannel('webhook')} className="px-3 py-1.5 border border-border hover:bg-muted flex items-center gap-1 text-xs">
+                    <Plus className="w-3 h-3" />
+                    Webhook
+                  </button>
+                  <button onClick={() => addChannel('email')} className="px-3 py-1.5 border border-border hover:bg-muted flex items-center gap-1 text-xs">
+                    <Plus className="w-3 h-3" />
+                    Email
+                  </button>
+                </div>
+              </div>
+              {config.channels.map((channel, i) => (
+                <ChannelEditor
+                  key={channel.id}
+                  channel={channel}
+                  saved={savedIds.includes(channel.id)}
+                  onChange={(next) => updateChannel(i, next)}
+                  onRemove={channel.type === 'in_app' ? undefined : () => removeChannel(channel.id)}
+                />
+              ))}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,309 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, RefreshCw, AlertCircle } from 'lucide-react'
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart'
+import { getRecentExecutions, type ExecutionLog } from '@/lib/scheduler'
+import { listDigests } from '@/lib/digests'
+import { fetchRegistry } from '@/lib/registryClient'
+import type { RegistryAgent } from '@/lib/registry'
+import type { StoredDigest } from '@/lib/digest'
+import { computeExecutionAnalytics, type ExecutionAnalytics } from '@/lib/executionAnalytics'
+
+const EXECUTIONS_PAGE_SIZE = 100
+const DIGESTS_PAGE_SIZE = 100
+// Upper bound on what one dashboard load pulls from the scheduler
+const MAX_EXECUTIONS = 2000
+
+const WINDOWS = [
+  { key: '24h', label: '24 hours', hours: 24 },
+  { key: '72h', label: '3 days', hours: 72 },
+  { key: '7d', label: '7 days', days: 7 },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+] as const
+
+type WindowKey = typeof WINDOWS[number]['key']
+
+const runsConfig = {
+  succeeded: { label: 'Succeeded', color: 'hsl(var(--chart-3))' },
+  failed: { label: 'Failed', color: 'hsl(var(--chart-2))' },
+  success_rate: { label: 'Success rate %', color: 'hsl(var(--chart-5))' },
+} satisfies ChartConfig
+
+const retriesConfig = {
+  retries: { label: 'Retries', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig
+
+const storiesConfig = {
+  total_stories: { label: 'Stories', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig
+
+function windowBounds(key: WindowKey): { hours?: number; days?: number; from: Date; to: Date } {
+  const option = WINDOWS.find(w => w.key === key) || WINDOWS[2]
+  const hours = 'hours' in option ? option.hours : option.days * 24
+  const to = new Date()
+  return {
+    hours: 'hours' in option ? option.hours : undefined,
+    days: 'days' in option ? option.days : undefined,
+    from: new Date(to.getTime() - hours * 60 * 60 * 1000),
+    to,
+  }
+}
+
+async function loadExecutions(params: { agentId?: string; hours?: number; days?: number }): Promise<{ executions: ExecutionLog[]; error?: string; truncated: boolean }> {
+  const executions: ExecutionLog[] = []
+  for (let skip = 0; skip < MAX_EXECUTIONS; skip += EXECUTIONS_PAGE_SIZE) {
+    const page = await getRecentExecutions({ ...params, skip, limit: EXECUTIONS_PAGE_SIZE })
+    if (!page.success) return { executions, error: page.error || 'Failed to load executions', truncated: false }
+    executions.push(...page.executions)
+    if (page.executions.length < EXECUTIONS_PAGE_SIZE || executions.length >= page.total) {
+      return { executions, truncated: false }
+    }
+  }
+  return { executions, truncated: true }
+}
+
+// Digests are newest first, so stop paging once past the window start
+async function loadDigests(agentId: string | undefined, from: Date): Promise<StoredDigest[]> {
+  const digests: StoredDigest[] = []
+  for (let skip = 0; ; skip += DIGESTS_PAGE_SIZE) {
+    const page = await listDigests({ agentId, skip, limit: DIGESTS_PAGE_SIZE })
+    digests.push(...page.digests)
+    const oldest = page.digests[page.digests.length - 1]
+    if (!page.success || page.digests.length < DIGESTS_PAGE_SIZE || !oldest || new Date(oldest.created_at) < from) {
+      return digests
+    }
+  }
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—'
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`
+  if (minutes < 60) return `${minutes}m`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function shortDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="border border-border p-4 space-y-1">
+      <p className="text-xs text-muted-foreground uppercase tracking-wide">{label}</p>
+      <p className="font-serif font-bold text-2xl">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  )
+}
+
+export default function AnalyticsPage() {
+  const [agents, setAgents] = useState<RegistryAgent[]>([])
+  const [agentId, setAgentId] = useState('')
+  const [windowKey, setWindowKey] = useState<WindowKey>('7d')
+  const [analytics, setAnalytics] = useState<ExecutionAnalytics | null>(null)
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [timeZone, setTimeZone] = useState('UTC')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    // Days are bucketed in the viewer's timezone
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+    setTimeZone(zone)
+    const { hours, days, from, to } = windowBounds(windowKey)
+    const [executions, digests] = await Promise.all([
+      loadExecutions({ agentId: agentId || undefined, hours, days }),
+      loadDigests(agentId || undefined, from),
+    ])
+    if (executions.error) setError(executions.error)
+    setTruncated(executions.truncated)
+    setAnalytics(computeExecutionAnalytics(executions.executions, digests, { from, to, timeZone: zone }))
+    setLoading(false)
+  }, [agentId, windowKey])
+
+  useEffect(() => {
+    fetchRegistry().then(result => {
+      if (result.success) setAgents(result.agents)
+    })
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const totals = analytics?.totals
+  const maxReasonCount = analytics?.failure_reasons[0]?.count ?? 0
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 border-b border-border bg-background z-40">
+        <div className="mx-auto max-w-5xl px-4 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 hover:bg-muted" aria-label="Back to digest">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="font-serif font-bold text-3xl tracking-tight">Analytics</h1>
+          </div>
+          <button
+            onClick={load}
+            disabled={loading}
+            className="p-2 hover:bg-muted disabled:opacity-50"
+            aria-label="Refresh"
+          >
+            <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        <div className="mx-auto max-w-5xl px-4 pb-4 flex flex-wrap items-center gap-3 text-sm">
+          <div className="flex border border-border">
+            {WINDOWS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setWindowKey(option.key)}
+                className={`px-3 py-1.5 text-xs ${windowKey === option.key ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground uppercase tracking-wide">Agent</span>
+            <select
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              className="px-3 py-1.5 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+            >
+              <option value="">All agents</option>
+              {agents.map(agent => (
+                <option key={agent.agent_id} value={agent.agent_id}>{agent.name}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-xs text-muted-foreground">Days in {timeZone}</span>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-8 space-y-8">
+        {error && (
+          <p className="text-sm text-destructive flex items-center gap-1">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+        {truncated && (
+          <p className="text-xs text-muted-foreground">
+            Showing the most recent {MAX_EXECUTIONS} executions; pick a shorter window for complete numbers.
+          </p>
+        )}
+
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard
+              label="Success rate"
+              value={totals.success_rate === null ? '—' : `${totals.success_rate}%`}
+              hint={`${totals.succeeded} of ${totals.runs} runs`}
+            />
+            <StatCard
+              label="Retries"
+              value={String(totals.retries)}
+              hint={`${totals.retried_runs} run${totals.retried_runs === 1 ? '' : 's'} retried · ${totals.avg_attempts ?? '—'} attempts avg`}
+            />
+            <StatCard
+              label="Time to success"
+              value={formatDuration(totals.avg_recovery_ms)}
+              hint="Average for runs that needed retries"
+            />
+            <StatCard
+              label="Stories per digest"
+              value={totals.avg_stories === null ? '—' : String(totals.avg_stories)}
+              hint={`${analytics.stories.length} digest${analytics.stories.length === 1 ? '' : 's'} archived`}
+            />
+          </div>
+        )}
+
+        {analytics && (
+          <>
+            <section className="space-y-3">
+              <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Runs per day</h2>
+              <ChartContainer config={runsConfig} className="h-64 w-full aspect-auto">
+                <ComposedChart data={analytics.daily}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="runs" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} width={36} unit="%" />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => shortDate(String(value))} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar yAxisId="runs" dataKey="succeeded" stackId="runs" fill="var(--color-succeeded)" />
+                  <Bar yAxisId="runs" dataKey="failed" stackId="runs" fill="var(--color-failed)" />
+                  <Line yAxisId="rate" dataKey="success_rate" stroke="var(--color-success_rate)" strokeWidth={2} dot={false} connectNulls />
+                </ComposedChart>
+              </ChartContainer>
+            </section>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <section className="space-y-3">
+                <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Retries per day</h2>
+                <ChartContainer config={retriesConfig} className="h-48 w-full aspect-auto">
+                  <BarChart data={analytics.daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => shortDate(String(value))} />} />
+                    <Bar dataKey="retries" fill="var(--color-retries)" />
+                  </BarChart>
+                </ChartContainer>
+              </section>
+
+              <section className="space-y-3">
+                <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Stories per digest</h2>
+                {analytics.stories.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No digests archived in this window.</p>
+                ) : (
+                  <ChartContainer config={storiesConfig} className="h-48 w-full aspect-auto">
+                    <LineChart data={analytics.stories}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => shortDate(String(value))} />} />
+                      <Line dataKey="total_stories" stroke="var(--color-total_stories)" strokeWidth={2} />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </section>
+            </div>
+
+            <section className="space-y-3">
+              <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Failure reasons</h2>
+              {analytics.failure_reasons.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No failed attempts in this window.</p>
+              ) : (
+                <div className="space-y-2">
+                  {analytics.failure_reasons.map(reason => (
+                    <div key={reason.reason} className="space-y-1" title={reason.example}>
+                      <div className="flex items-center justify-between gap-4 text-sm">
+                        <span className="font-mono text-xs truncate">{reason.reason}</span>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {reason.count}× · last {new Date(reason.last_seen).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="h-1 bg-muted">
+                        <div className="h-1 bg-destructive/60" style={{ width: `${(reason.count / maxReasonCount) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runAgentStream } from '@/lib/agentRunner'
+import { formatSSE } from '@/lib/sse'
+
+export const dynamic = 'force-dynamic'
+
+// POST — same body as /api/agent, answered as Server-Sent Events:
+//   event: chunk  data: { delta }              text as the agent produces it
+//   event: done   data: <the /api/agent body>  parsed, validated (and repaired) result
+//   event: error  data: <error body> + { status }
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    body = {}
+  }
+  const { message, agent_id, user_id, session_id, assets, repair } = body || {}
+
+  if (!message || !agent_id) {
+    return NextResponse.json(
+      {
+        success: false,
+        response: {
+          status: 'error',
+          result: {},
+          message: 'message and agent_id are required',
+        },
+        error: 'message and agent_id are required',
+      },
+      { status: 400 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  // Stops the upstream request once the client disconnects
+  const upstream = new AbortController()
+  const abort = () => upstream.abort()
+  request.signal.addEventListener('abort', abort)
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event, data)))
+        } catch {
+          // The reader went away between the check and the write
+          closed = true
+        }
+      }
+
+      try {
+        const { status, body: result } = await runAgentStream(
+          { message, agent_id, user_id, session_id, assets, repair },
+          delta => send('chunk', { delta }),
+          upstream.signal
+        )
+        send(result.success ? 'done' : 'error', { ...result, status })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Server error'
+        send('error', {
+          success: false,
+          status: 500,
+          response: {
+            status: 'error',
+            result: {},
+            message: errorMsg,
+          },
+          error: errorMsg,
+        })
+      } finally {
+        request.signal.removeEventListener('abort', abort)
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+      abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  })
+}
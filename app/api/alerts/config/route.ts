@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAlertConfig, saveAlertConfig } from '@/lib/alertEngine'
+import { validateAlertConfig } from '@/lib/alerts'
+
+// ---------------------------------------------------------------------------
+// GET — alert rules and channels
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const config = await getAlertConfig()
+    return NextResponse.json({ success: true, config })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — replace the alert config  body: { rules, channels }
+// ---------------------------------------------------------------------------
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const errors = validateAlertConfig(body)
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors[0], errors }, { status: 400 })
+    }
+
+    const config = await saveAlertConfig({ rules: body.rules, channels: body.channels })
+    return NextResponse.json({ success: true, config })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { evaluateAlerts, evaluateAlertsIfStale, listAlerts, markAlertsRead, sendTestAlert } from '@/lib/alertEngine'
+
+function parseIntParam(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+// ---------------------------------------------------------------------------
+// GET — notification center  ?unread=true&skip=&limit=
+//   Re-evaluates the alert rules first when the last evaluation is stale.
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    await evaluateAlertsIfStale({ baseUrl: url.origin })
+
+    const result = await listAlerts({
+      unreadOnly: url.searchParams.get('unread') === 'true',
+      skip: parseIntParam(url.searchParams.get('skip'), 0),
+      limit: parseIntParam(url.searchParams.get('limit'), 20),
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, alerts: [], unread: 0, total: 0, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — { action: 'evaluate' }                 run every rule now (for an external cron)
+//        { action: 'read', ids?: string[] }     mark alerts read (all when ids is omitted)
+//        { action: 'test', channel_id }         send a test alert through one channel
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action } = body || {}
+    const baseUrl = new URL(request.url).origin
+
+    switch (action) {
+      case 'evaluate': {
+        const summary = await evaluateAlerts({ baseUrl })
+        return NextResponse.json(summary, { status: summary.success ? 200 : 502 })
+      }
+
+      case 'read': {
+        if (body.ids !== undefined && !(Array.isArray(body.ids) && body.ids.every((id: unknown) => typeof id === 'string'))) {
+          return NextResponse.json({ success: false, error: 'ids must be an array of strings' }, { status: 400 })
+        }
+        const updated = await markAlertsRead(body.ids)
+        return NextResponse.json({ success: true, updated })
+      }
+
+      case 'test': {
+        if (!body.channel_id) {
+          return NextResponse.json({ success: false, error: 'channel_id is required' }, { status: 400 })
+        }
+        const delivery = await sendTestAlert(body.channel_id, baseUrl)
+        return NextResponse.json({ success: delivery.ok, delivery, error: delivery.error })
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'action must be one of: evaluate, read, test' },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getDeliveryConfig,
+  saveDeliveryConfig,
+  sendTestDelivery,
+  setScheduleRoute,
+  unavailableChannels,
+} from '@/lib/digestDelivery'
+import { validateDeliveryConfig } from '@/lib/delivery'
+
+// ---------------------------------------------------------------------------
+// GET — delivery targets, schedule routes and channels this server can't use
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const config = await getDeliveryConfig()
+    return NextResponse.json({ success: true, config, unavailable: unavailableChannels() })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — replace the delivery config  body: { targets, routes }
+// ---------------------------------------------------------------------------
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const errors = validateDeliveryConfig(body)
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors[0], errors }, { status: 400 })
+    }
+
+    const config = await saveDeliveryConfig({ targets: body.targets, routes: body.routes })
+    return NextResponse.json({ success: true, config })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — { action: 'test', target_id }                send a sample digest to one target
+//        { action: 'route', schedule_id, target_ids } set where a schedule's digests go
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action } = body || {}
+
+    switch (action) {
+      case 'test': {
+        if (!body.target_id) {
+          return NextResponse.json({ success: false, error: 'target_id is required' }, { status: 400 })
+        }
+        const delivery = await sendTestDelivery(body.target_id, new URL(request.url).origin)
+        if (!delivery) {
+          return NextResponse.json({ success: false, error: `Unknown target "${body.target_id}"` }, { status: 404 })
+        }
+        return NextResponse.json({ success: delivery.ok, delivery, error: delivery.error })
+      }
+
+      case 'route': {
+        if (!body.schedule_id || typeof body.schedule_id !== 'string') {
+          return NextResponse.json({ success: false, error: 'schedule_id is required' }, { status: 400 })
+        }
+        if (!(Array.isArray(body.target_ids) && body.target_ids.every((id: unknown) => typeof id === 'string'))) {
+          return NextResponse.json({ success: false, error: 'target_ids must be an array of strings' }, { status: 400 })
+        }
+        const config = await setScheduleRoute(body.schedule_id, body.target_ids)
+        return NextResponse.json({ success: true, config })
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'action must be one of: test, route' },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deliverDigest } from '@/lib/digestDelivery'
+
+// ---------------------------------------------------------------------------
+// POST — deliver an archived digest  { target_ids? }
+//   Without target_ids the digest goes to its schedule's routes.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const targetIds = body?.target_ids
+    if (targetIds !== undefined && !(Array.isArray(targetIds) && targetIds.every((id: unknown) => typeof id === 'string'))) {
+      return NextResponse.json({ success: false, error: 'target_ids must be an array of strings' }, { status: 400 })
+    }
+
+    const { digest, deliveries } = await deliverDigest(params.id, {
+      targetIds,
+      baseUrl: new URL(request.url).origin,
+    })
+    if (!digest) {
+      return NextResponse.json({ success: false, error: 'Digest not found' }, { status: 404 })
+    }
+    if (deliveries.length === 0) {
+      return NextResponse.json({ success: false, digest, deliveries, error: 'No enabled delivery targets' }, { status: 400 })
+    }
+
+    const failed = deliveries.filter(d => !d.ok)
+    if (failed.length > 0) {
+      return NextResponse.json(
+        { success: false, digest, deliveries, error: failed.map(d => `${d.target_name}: ${d.error}`).join('; ') },
+        { status: 502 }
+      )
+    }
+    return NextResponse.json({ success: true, digest, deliveries })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDigestStore } from '@/lib/digestStore'
+import { EXPORT_FORMATS, exportDigest, isExportFormat } from '@/lib/digestExport'
+
+// ---------------------------------------------------------------------------
+// GET — render an archived digest  ?format=markdown|html|rss|atom|json&download=1
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const url = new URL(request.url)
+    const format = url.searchParams.get('format') || 'markdown'
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const digest = await getDigestStore().get(params.id)
+    if (!digest) {
+      return NextResponse.json({ success: false, error: 'Digest not found' }, { status: 404 })
+    }
+
+    const { body, contentType, filename } = exportDigest(digest, format, {
+      baseUrl: url.origin,
+      feedUrl: url.toString(),
+    })
+
+    const headers: Record<string, string> = { 'Content-Type': contentType }
+    if (url.searchParams.get('download')) {
+      headers['Content-Disposition'] = `attachment; filename="${filename}"`
+    }
+    return new NextResponse(body, { headers })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
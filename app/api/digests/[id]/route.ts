@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDigestStore } from '@/lib/digestStore'
+
+// ---------------------------------------------------------------------------
+// GET — single archived digest
+// ---------------------------------------------------------------------------
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const digest = await getDigestStore().get(params.id)
+    if (!digest) {
+      return NextResponse.json({ success: false, error: 'Digest not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, digest })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a digest from the archive
+// ---------------------------------------------------------------------------
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const removed = await getDigestStore().delete(params.id)
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Digest not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, message: 'Digest deleted successfully', id: params.id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  parseInboundRequest,
+  startInboundDigest,
+  verifyInboundSignature,
+} from '@/lib/inboundDigest'
+
+// ---------------------------------------------------------------------------
+// POST — signed ad-hoc digest request (see lib/inboundDigest.ts)
+//   headers: X-Digest-Timestamp, X-Digest-Signature
+//   body: { agent_id?, hours?, categories?, topics?, max_stories?, post_to_slack?,
+//           slack_channel?, instructions?, callback_url?, reference?, wait? }
+//   202 { request_id } while the digest runs, or 200 with the result when `wait`
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text()
+    const verified = await verifyInboundSignature(
+      rawBody,
+      request.headers.get(TIMESTAMP_HEADER),
+      request.headers.get(SIGNATURE_HEADER)
+    )
+    if (!verified.ok) {
+      return NextResponse.json({ success: false, error: verified.error }, { status: verified.status })
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json({ success: false, error: 'Body must be valid JSON' }, { status: 400 })
+    }
+
+    const { request: inbound, errors } = await parseInboundRequest(body)
+    if (!inbound) {
+      return NextResponse.json({ success: false, error: errors[0], errors }, { status: 400 })
+    }
+
+    const { record, done } = await startInboundDigest(inbound)
+    if (!inbound.wait) {
+      return NextResponse.json({ success: true, request_id: record.id, status: record.status }, { status: 202 })
+    }
+
+    const final = await done
+    return NextResponse.json(
+      { success: final.status === 'succeeded', request_id: final.id, request: final, error: final.error ?? undefined },
+      { status: final.status === 'succeeded' ? 200 : 502 }
+    )
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ingestScheduledDigests } from '@/lib/digestIngest'
+
+// ---------------------------------------------------------------------------
+// POST — pull scheduled run outputs into the digest archive
+//   body: { scheduleId?, agentId?, hours?, days?, limit?, deliver? }
+//   `deliver: true` also delivers newly archived runs to their schedule's
+//   routes; run it that way from a cron, not from page loads.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { scheduleId, agentId, hours, days, limit, deliver } = body || {}
+
+    const summary = await ingestScheduledDigests({
+      scheduleId: scheduleId || undefined,
+      agentId: agentId || undefined,
+      hours: typeof hours === 'number' ? hours : undefined,
+      days: typeof days === 'number' ? days : undefined,
+      limit: typeof limit === 'number' ? limit : undefined,
+      deliver: deliver === true,
+      baseUrl: new URL(request.url).origin,
+    })
+
+    return NextResponse.json(summary, { status: summary.success ? 200 : 502 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
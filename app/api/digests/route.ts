@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { archiveDigest, getDigestStore, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/digestStore'
+import { formatValidationErrors, validateAgentResult } from '@/lib/schemaValidator'
+import type { DigestSource } from '@/lib/digest'
+
+const SOURCES: DigestSource[] = ['manual', 'scheduled', 'webhook']
+
+function parseIntParam(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+// ---------------------------------------------------------------------------
+// GET — list archived digests (newest first)  ?agentId=&source=&skip=&limit=
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const source = searchParams.get('source') as DigestSource | null
+    if (source && !SOURCES.includes(source)) {
+      return NextResponse.json(
+        { success: false, error: `source must be one of: ${SOURCES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const skip = Math.max(0, parseIntParam(searchParams.get('skip'), 0))
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseIntParam(searchParams.get('limit'), DEFAULT_PAGE_SIZE)))
+
+    const page = await getDigestStore().list({
+      agentId: searchParams.get('agentId') || undefined,
+      source: source || undefined,
+      skip,
+      limit,
+    })
+
+    return NextResponse.json({ success: true, ...page, skip, limit })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — archive a digest produced in the app
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { data, agent_id, session_id } = body
+
+    if (!agent_id || !data || typeof data !== 'object' || !Array.isArray(data.categories)) {
+      return NextResponse.json(
+        { success: false, error: 'agent_id and data with a categories array are required' },
+        { status: 400 }
+      )
+    }
+
+    // Same check the agent route applies, so only well-formed digests are archived
+    const validation = validateAgentResult(agent_id, data)
+    if (validation && !validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `data does not match the ${validation.schema} schema: ${formatValidationErrors(validation.errors)}`,
+          errors: validation.errors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const digest = await archiveDigest({
+      data,
+      agent_id,
+      source: 'manual',
+      session_id: session_id || null,
+    })
+
+    return NextResponse.json({ success: true, digest }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
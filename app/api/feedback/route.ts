@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPreferences, listFeedback, recordFeedback, removeFeedback } from '@/lib/feedbackStore'
+import { randomUUID } from 'crypto'
+import { validateFeedbackInput } from '@/lib/feedback'
+
+// Readers are identified by this cookie, issued here on first use; the client
+// never chooses the id, so one reader can't read or change another's ratings
+const READER_COOKIE = 'reader_id'
+const READER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60
+const READER_ID_RE = /^reader-[0-9a-f-]{36}$/
+
+interface Reader {
+  id: string
+  /** New id: the response sets the cookie */
+  issued: boolean
+  secure: boolean
+}
+
+function readerFor(request: NextRequest): Reader {
+  const secure = request.nextUrl.protocol === 'https:'
+  const saved = request.cookies.get(READER_COOKIE)?.value
+  if (saved && READER_ID_RE.test(saved)) return { id: saved, issued: false, secure }
+  return { id: `reader-${randomUUID()}`, issued: true, secure }
+}
+
+function withReader(response: NextResponse, reader: Reader): NextResponse {
+  if (reader.issued) {
+    response.cookies.set(READER_COOKIE, reader.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: reader.secure,
+      path: '/',
+      maxAge: READER_COOKIE_MAX_AGE,
+    })
+  }
+  return response
+}
+
+// ---------------------------------------------------------------------------
+// GET — the reader's ratings and derived preferences  ?digestIds=a,b
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const reader = readerFor(request)
+    const url = new URL(request.url)
+    const digestIds = url.searchParams.get('digestIds')?.split(',').filter(Boolean)
+
+    const [feedback, preferences] = await Promise.all([listFeedback(reader.id, digestIds), getPreferences(reader.id)])
+    return withReader(NextResponse.json({ success: true, feedback, preferences }), reader)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — rate a story  body: { digest_id, category, headline, source, vote, reasons }
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const reader = readerFor(request)
+    const body = await request.json().catch(() => null)
+    const input = body && typeof body === 'object' ? { ...body, user_id: reader.id } : body
+    const errors = validateFeedbackInput(input)
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: errors[0], errors }, { status: 400 })
+    }
+
+    const feedback = await recordFeedback(input)
+    const preferences = await getPreferences(reader.id)
+    return withReader(NextResponse.json({ success: true, feedback, preferences }), reader)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — clear a rating  ?digestId=&headline=
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const reader = readerFor(request)
+    const url = new URL(request.url)
+    const digestId = url.searchParams.get('digestId')
+    const headline = url.searchParams.get('headline')
+    if (!digestId || !headline) {
+      return NextResponse.json(
+        { success: false, error: 'digestId and headline are required' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await removeFeedback(reader.id, digestId, headline)
+    const preferences = await getPreferences(reader.id)
+    return withReader(NextResponse.json({ success: true, removed, preferences }), reader)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getMockScenario,
+  isMockUpstream,
+  listMockDeliveries,
+  listMockScenarios,
+  listMockSlackMessages,
+  setMockScenario,
+} from '@/lib/mockUpstream'
+
+const notEnabled = () =>
+  NextResponse.json({ success: false, enabled: false, error: 'Mock upstream is not enabled (LYZR_UPSTREAM=mock)' }, { status: 404 })
+
+// ---------------------------------------------------------------------------
+// GET — active scenario, the scenarios available, messages posted to mock Slack
+//   and digests delivered to mock Teams, Discord and email
+// ---------------------------------------------------------------------------
+export async function GET() {
+  if (!isMockUpstream()) return notEnabled()
+  const scenarios = Object.entries(listMockScenarios()).map(([name, scenario]) => ({
+    name,
+    description: scenario.description || '',
+  }))
+  return NextResponse.json({
+    success: true,
+    enabled: true,
+    scenario: getMockScenario(),
+    scenarios,
+    slack_messages: listMockSlackMessages(),
+    deliveries: listMockDeliveries(),
+  })
+}
+
+// ---------------------------------------------------------------------------
+// POST — switch scenario and reset its state  body: { scenario }
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  if (!isMockUpstream()) return notEnabled()
+  const body = await request.json().catch(() => null)
+  const scenario = typeof body?.scenario === 'string' ? body.scenario : ''
+  if (!setMockScenario(scenario)) {
+    return NextResponse.json({ success: false, error: `Unknown scenario "${scenario}"` }, { status: 400 })
+  }
+  return NextResponse.json({ success: true, enabled: true, scenario })
+}
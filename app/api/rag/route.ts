@@ -25,6 +25,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { isMockUpstream, upstreamFetch } from "@/lib/mockUpstream";
 
 const LYZR_RAG_BASE_URL = "https://rag-prod.studio.lyzr.ai/v3";
 const LYZR_API_KEY = process.env.LYZR_API_KEY || "";
@@ -52,7 +53,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (!LYZR_API_KEY) {
+    if (!LYZR_API_KEY && !isMockUpstream()) {
       return NextResponse.json(
         {
           success: false,
@@ -62,7 +63,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const response = await fetch(
+    const response = await upstreamFetch(
       `${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
       {
         method: "GET",
@@ -130,7 +131,7 @@ export async function GET(request: NextRequest) {
 // POST - Upload and train a document
 export async function POST(request: NextRequest) {
   try {
-    if (!LYZR_API_KEY) {
+    if (!LYZR_API_KEY && !isMockUpstream()) {
       return NextResponse.json(
         {
           success: false,
@@ -173,7 +174,7 @@ export async function POST(request: NextRequest) {
     trainFormData.append("chunk_overlap", "100");
     trainFormData.append("extra_info", "{}");
 
-    const trainResponse = await fetch(
+    const trainResponse = await upstreamFetch(
       `${LYZR_RAG_BASE_URL}/train/${fileType}/?rag_id=${encodeURIComponent(
         ragId
       )}`,
@@ -224,7 +225,7 @@ export async function POST(request: NextRequest) {
 // PATCH - Crawl a website and add content to knowledge base
 export async function PATCH(request: NextRequest) {
   try {
-    if (!LYZR_API_KEY) {
+    if (!LYZR_API_KEY && !isMockUpstream()) {
       return NextResponse.json(
         {
           success: false,
@@ -248,7 +249,7 @@ export async function PATCH(request: NextRequest) {
     }
 
 
-    const response = await fetch(`https://api.beta.architect.new/api/v1/rag/crawl`, {
+    const response = await upstreamFetch(`https://api.beta.architect.new/api/v1/rag/crawl`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -291,7 +292,7 @@ export async function PATCH(request: NextRequest) {
 // DELETE - Remove documents from knowledge base
 export async function DELETE(request: NextRequest) {
   try {
-    if (!LYZR_API_KEY) {
+    if (!LYZR_API_KEY && !isMockUpstream()) {
       return NextResponse.json(
         {
           success: false,
@@ -314,7 +315,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const response = await fetch(
+    const response = await upstreamFetch(
       `${LYZR_RAG_BASE_URL}/rag/${encodeURIComponent(ragId)}/docs/`,
       {
         method: "DELETE",
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRegistry, removeRegistryEntry, saveAgentOverride, saveScheduleOverride } from '@/lib/registryStore'
+
+const TYPES = ['agent', 'schedule'] as const
+type EntryType = (typeof TYPES)[number]
+
+function pick(body: Record<string, unknown>, keys: string[]) {
+  const out: Record<string, unknown> = {}
+  for (const key of keys) {
+    if (body[key] !== undefined) out[key] = body[key]
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// GET — merged registry (workflow_state.json + config overrides)
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const registry = await getRegistry()
+    return NextResponse.json({ success: true, ...registry })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, agents: [], schedules: [], error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — add or override an entry  { type: 'agent' | 'schedule', ...fields }
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const type = body.type as EntryType
+
+    if (type === 'agent') {
+      if (!body.agent_id) {
+        return NextResponse.json({ success: false, error: 'agent_id is required' }, { status: 400 })
+      }
+      await saveAgentOverride({
+        agent_id: body.agent_id,
+        ...pick(body, ['name', 'description', 'provider', 'model', 'tools']),
+      })
+    } else if (type === 'schedule') {
+      if (!body.schedule_id) {
+        return NextResponse.json({ success: false, error: 'schedule_id is required' }, { status: 400 })
+      }
+      await saveScheduleOverride({
+        schedule_id: body.schedule_id,
+        ...pick(body, ['agent_id', 'name', 'cron_expression', 'timezone', 'message']),
+      })
+    } else {
+      return NextResponse.json(
+        { success: false, error: `type must be one of: ${TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const registry = await getRegistry()
+    return NextResponse.json({ success: true, ...registry })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove an entry  ?type=agent|schedule&id=
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type') as EntryType | null
+    const id = searchParams.get('id')
+
+    if (!type || !TYPES.includes(type) || !id) {
+      return NextResponse.json(
+        { success: false, error: 'type (agent | schedule) and id are required' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await removeRegistryEntry(type, id)
+    if (!removed) {
+      return NextResponse.json({ success: false, error: `Unknown ${type}: ${id}` }, { status: 404 })
+    }
+
+    const registry = await getRegistry()
+    return NextResponse.json({ success: true, ...registry })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
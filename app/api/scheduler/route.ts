@@ -1,18 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { SCHEDULER_BASE_URL, getSchedulerHeaders as getHeaders, isLocalScheduler, schedulerFetch } from '@/lib/schedulerUpstream'
+import { SCHEDULE_EDITABLE_FIELDS, updateSchedule, type ScheduleChanges } from '@/lib/scheduleUpdate'
+import { withLineageLogs } from '@/lib/scheduleLineage'
+import { validateCron, isValidTimeZone } from '@/lib/cron'
+import { isMockUpstream } from '@/lib/mockUpstream'
 
-const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
 
-function getHeaders() {
-  return {
-    'Content-Type': 'application/json',
-    'accept': 'application/json',
-    'x-api-key': LYZR_API_KEY,
+// Reject bad cron expressions / timezones before they reach the scheduler
+function scheduleFieldsCheck(params: { cron_expression?: unknown; timezone?: unknown }) {
+  if (params.cron_expression !== undefined) {
+    if (typeof params.cron_expression !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid cron_expression: must be a string' },
+        { status: 400 }
+      )
+    }
+    const cron = validateCron(params.cron_expression)
+    if (!cron.valid) {
+      return NextResponse.json(
+        { success: false, error: `Invalid cron_expression: ${cron.error}`, field: cron.field },
+        { status: 400 }
+      )
+    }
   }
+  if (params.timezone !== undefined && (typeof params.timezone !== 'string' || !isValidTimeZone(params.timezone))) {
+    return NextResponse.json(
+      { success: false, error: `Invalid timezone: ${String(params.timezone)}` },
+      { status: 400 }
+    )
+  }
+  return null
 }
 
 function apiKeyCheck() {
-  if (!LYZR_API_KEY) {
+  if (!LYZR_API_KEY && !isLocalScheduler() && !isMockUpstream()) {
     return NextResponse.json(
       { success: false, error: 'LYZR_API_KEY not configured on server' },
       { status: 500 }
@@ -96,7 +118,7 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const response = await fetch(url, { headers: getHeaders() })
+    const response = await schedulerFetch(url, { headers: getHeaders() })
 
     if (!response.ok) {
       const errorText = await response.text()
@@ -107,6 +129,15 @@ export async function GET(request: NextRequest) {
     }
 
     const data = await response.json()
+
+    // Logs of schedules this one replaced (see `update`) are appended
+    if (action === 'logs' && scheduleId) {
+      const skip = parseInt(searchParams.get('skip') || '0', 10) || 0
+      const limit = parseInt(searchParams.get('limit') || '50', 10) || 50
+      const merged = await withLineageLogs(scheduleId, data, skip, limit)
+      return NextResponse.json({ success: true, ...data, ...merged })
+    }
+
     return NextResponse.json({ success: true, ...data })
   } catch (error) {
     return NextResponse.json(
@@ -117,7 +148,7 @@ export async function GET(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// POST — create | pause | resume | trigger
+// POST — create | update | pause | resume | trigger
 // ---------------------------------------------------------------------------
 export async function POST(request: NextRequest) {
   const check = apiKeyCheck()
@@ -127,6 +158,47 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { action, scheduleId, ...params } = body
 
+    // Edit cron / timezone / message / retries; PATCH when upstream supports it,
+    // otherwise create-new-then-delete-old (see lib/scheduleUpdate.ts)
+    if (action === 'update') {
+      if (!scheduleId) {
+        return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+      }
+      const changes: ScheduleChanges = {}
+      for (const field of SCHEDULE_EDITABLE_FIELDS) {
+        if (params[field] !== undefined) (changes as Record<string, unknown>)[field] = params[field]
+      }
+      if (Object.keys(changes).length === 0) {
+        return NextResponse.json(
+          { success: false, error: `At least one of ${SCHEDULE_EDITABLE_FIELDS.join(', ')} is required` },
+          { status: 400 }
+        )
+      }
+      const invalid = scheduleFieldsCheck(changes)
+      if (invalid) return invalid
+
+      const result = await updateSchedule(scheduleId, changes)
+      if (!result.ok) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            details: result.details,
+            changed: result.changed,
+            orphaned_id: result.orphaned_id ?? null,
+          },
+          { status: result.status >= 400 ? result.status : 502 }
+        )
+      }
+      return NextResponse.json({
+        success: true,
+        schedule: result.schedule,
+        changed: result.changed,
+        method: result.method,
+        replaced_id: result.replaced_id ?? null,
+      })
+    }
+
     let url: string
     let fetchBody: string | undefined
 
@@ -167,6 +239,8 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           )
         }
+        const invalid = scheduleFieldsCheck(params)
+        if (invalid) return invalid
         url = `${SCHEDULER_BASE_URL}/schedules/`
         fetchBody = JSON.stringify({
           agent_id: params.agent_id,
@@ -181,7 +255,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const response = await fetch(url, {
+    const response = await schedulerFetch(url, {
       method: 'POST',
       headers: getHeaders(),
       ...(fetchBody && { body: fetchBody }),
@@ -232,7 +306,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
     }
 
-    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
+    const response = await schedulerFetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
       method: 'DELETE',
       headers: getHeaders(),
     })
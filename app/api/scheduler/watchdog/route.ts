@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCatchUpPolicies, listCatchUps, runWatchdog, setCatchUpPolicy } from '@/lib/scheduleWatchdog'
+import { CATCH_UP_POLICIES } from '@/lib/catchUp'
+
+// ---------------------------------------------------------------------------
+// GET — missed runs per schedule (dry run), policies and catch-up history
+//   ?scheduleId=   limit the check and history to one schedule
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const scheduleId = new URL(request.url).searchParams.get('scheduleId') || undefined
+    const [report, policies, history] = await Promise.all([
+      runWatchdog({ dryRun: true, scheduleId }),
+      getCatchUpPolicies(),
+      listCatchUps({ scheduleId }),
+    ])
+    return NextResponse.json(
+      { ...report, default_policy: policies.default, policies: policies.policies, history },
+      { status: report.success ? 200 : 502 }
+    )
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — { action: 'run', scheduleId? }             detect missed runs and apply catch-up policies
+//        { action: 'policy', scheduleId, policy }  set a schedule's catch-up policy
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action, scheduleId, policy } = body || {}
+
+    switch (action) {
+      case 'run': {
+        const report = await runWatchdog({ scheduleId: scheduleId || undefined })
+        return NextResponse.json(report, { status: report.success ? 200 : 502 })
+      }
+
+      case 'policy': {
+        if (!scheduleId || !CATCH_UP_POLICIES.includes(policy)) {
+          return NextResponse.json(
+            { success: false, error: `scheduleId and policy (${CATCH_UP_POLICIES.join(', ')}) are required` },
+            { status: 400 }
+          )
+        }
+        await setCatchUpPolicy(scheduleId, policy)
+        return NextResponse.json({ success: true, schedule_id: scheduleId, policy })
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'action must be one of: run, policy' },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
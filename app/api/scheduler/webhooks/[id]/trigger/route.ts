@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isLocalScheduler, triggerUpstreamWebhook } from '@/lib/schedulerUpstream'
+
+// ---------------------------------------------------------------------------
+// POST — trigger a local webhook (SCHEDULER_BACKEND=local)  body: { message, ... }
+//   This is the `webhook_url` the local scheduler hands out; Lyzr webhooks are
+//   triggered on the scheduler's own URL.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!isLocalScheduler()) {
+      return NextResponse.json(
+        { success: false, error: 'Webhooks are only served here with SCHEDULER_BACKEND=local' },
+        { status: 404 }
+      )
+    }
+
+    const payload = await request.json().catch(() => null)
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return NextResponse.json({ success: false, error: 'Payload must be a JSON object' }, { status: 400 })
+    }
+
+    const result = await triggerUpstreamWebhook(params.id, payload)
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error, details: result.details },
+        { status: result.status >= 400 ? result.status : 502 }
+      )
+    }
+    return NextResponse.json({ success: true, message: 'Webhook triggered' }, { status: 202 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
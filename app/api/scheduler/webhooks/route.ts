@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createUpstreamWebhook,
+  deleteUpstreamWebhook,
+  fetchWebhooks,
+  patchUpstreamWebhook,
+  triggerUpstreamWebhook,
+  type UpstreamResult,
+} from '@/lib/schedulerUpstream'
+import type { Webhook } from '@/lib/scheduler'
+import { DEFAULT_DIGEST_MESSAGE } from '@/lib/curatorPrompt'
+
+function upstreamError(result: UpstreamResult<unknown>) {
+  return NextResponse.json(
+    { success: false, error: result.error, details: result.details },
+    { status: result.status >= 400 ? result.status : 502 }
+  )
+}
+
+// Local webhooks store an app-relative URL (see lib/localScheduler.ts)
+function withAbsoluteUrl(webhook: Webhook, origin: string): Webhook {
+  return webhook.webhook_url?.startsWith('/') ? { ...webhook, webhook_url: `${origin}${webhook.webhook_url}` } : webhook
+}
+
+const webhookIdRequired = () =>
+  NextResponse.json({ success: false, error: 'webhookId is required' }, { status: 400 })
+
+// ---------------------------------------------------------------------------
+// GET — list webhooks  ?agentId=&skip=&limit=
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams, origin } = new URL(request.url)
+    const result = await fetchWebhooks({
+      agentId: searchParams.get('agentId') || undefined,
+      skip: parseInt(searchParams.get('skip') || '', 10) || undefined,
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+    })
+    if (!result.ok) return upstreamError(result)
+    const webhooks = (result.data?.webhooks || []).map(webhook => withAbsoluteUrl(webhook, origin))
+    return NextResponse.json({ success: true, webhooks, total: result.data?.total ?? webhooks.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — { action: 'create', agent_id, description }
+//        { action: 'update', webhookId, is_active?, description? }
+//        { action: 'test', webhookId, payload? }   send a payload as an external system would
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action, webhookId } = body || {}
+    const { origin } = new URL(request.url)
+
+    switch (action) {
+      case 'create': {
+        if (!body.agent_id) {
+          return NextResponse.json({ success: false, error: 'agent_id is required' }, { status: 400 })
+        }
+        const result = await createUpstreamWebhook({
+          agent_id: body.agent_id,
+          description: typeof body.description === 'string' ? body.description.trim() : '',
+        })
+        if (!result.ok) return upstreamError(result)
+        return NextResponse.json({ success: true, webhook: result.data && withAbsoluteUrl(result.data, origin) })
+      }
+
+      case 'update': {
+        if (!webhookId) return webhookIdRequired()
+        const fields = {
+          ...(typeof body.is_active === 'boolean' && { is_active: body.is_active as boolean }),
+          ...(typeof body.description === 'string' && { description: body.description.trim() }),
+        }
+        if (Object.keys(fields).length === 0) {
+          return NextResponse.json({ success: false, error: 'is_active or description is required' }, { status: 400 })
+        }
+        const result = await patchUpstreamWebhook(webhookId, fields)
+        if (!result.ok) return upstreamError(result)
+        return NextResponse.json({ success: true, webhook: result.data && withAbsoluteUrl(result.data, origin) })
+      }
+
+      case 'test': {
+        if (!webhookId) return webhookIdRequired()
+        const payload = body.payload && typeof body.payload === 'object' && !Array.isArray(body.payload)
+          ? body.payload
+          : { message: DEFAULT_DIGEST_MESSAGE }
+        const result = await triggerUpstreamWebhook(webhookId, payload)
+        if (!result.ok) return upstreamError(result)
+        return NextResponse.json({ success: true, message: 'Test payload sent', status: result.status })
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'action must be one of: create, update, test' },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — { webhookId }  (upstream returns 204 No Content)
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const { webhookId } = await request.json().catch(() => ({}))
+    if (!webhookId) return webhookIdRequired()
+    const result = await deleteUpstreamWebhook(webhookId)
+    if (!result.ok) return upstreamError(result)
+    return NextResponse.json({ success: true, message: 'Webhook deleted successfully', webhookId })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { searchArchive } from '@/lib/searchIndex'
+
+function parseIntParam(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+// ---------------------------------------------------------------------------
+// GET — full-text search over archived stories  ?q=&agentId=&skip=&limit=
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const q = (searchParams.get('q') || '').trim()
+    if (!q) {
+      return NextResponse.json({ success: false, error: 'q is required' }, { status: 400 })
+    }
+
+    const result = await searchArchive(q, {
+      agentId: searchParams.get('agentId') || undefined,
+      skip: parseIntParam(searchParams.get('skip'), 0),
+      limit: parseIntParam(searchParams.get('limit'), 20),
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
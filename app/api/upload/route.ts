@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { isMockUpstream, upstreamFetch } from '@/lib/mockUpstream'
 
 const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
 
 export async function POST(request: NextRequest) {
   try {
-    if (!LYZR_API_KEY) {
+    if (!LYZR_API_KEY && !isMockUpstream()) {
       return NextResponse.json(
         {
           success: false,
@@ -50,7 +51,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
+    const response = await upstreamFetch(LYZR_UPLOAD_URL, {
       method: 'POST',
       headers: {
         'x-api-key': LYZR_API_KEY,
@@ -0,0 +1,326 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, AlertCircle, Check, Plus, Send, Trash2, Loader2 } from 'lucide-react'
+import { fetchDeliveryConfig, saveDeliveryConfig, testDeliveryTarget } from '@/lib/deliveryClient'
+import { fetchRegistry } from '@/lib/registryClient'
+import { scheduleLabel, type RegistrySchedule } from '@/lib/registry'
+import {
+  DELIVERY_CHANNEL_LABELS,
+  DELIVERY_CHANNEL_TYPES,
+  type DeliveryChannelType,
+  type DeliveryConfig,
+  type DeliveryTarget,
+} from '@/lib/delivery'
+
+const inputClass = 'px-3 py-2 bg-input border border-border text-foreground text-sm focus:outline-none focus:ring-1 focus:ring-ring'
+
+function newTarget(type: DeliveryChannelType, existing: DeliveryTarget[]): DeliveryTarget {
+  let n = 1
+  while (existing.some(t => t.id === `${type}-${n}`)) n++
+  const base = { id: `${type}-${n}`, name: `${DELIVERY_CHANNEL_LABELS[type]} ${n}`, type, enabled: true }
+  switch (type) {
+    case 'slack':
+      return { ...base, slack: { channel: '' } }
+    case 'teams':
+      return { ...base, teams: { webhook_url: '' } }
+    case 'discord':
+      return { ...base, discord: { webhook_url: '' } }
+    case 'email':
+      return { ...base, email: { to: [] } }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Target editor
+// ---------------------------------------------------------------------------
+
+function TargetEditor({
+  target,
+  saved,
+  unavailable,
+  onChange,
+  onRemove,
+}: {
+  target: DeliveryTarget
+  /** Tests go through the saved config, so they are only offered for saved targets */
+  saved: boolean
+  /** Why this channel type can't be used on the server */
+  unavailable?: string
+  onChange: (target: DeliveryTarget) => void
+  onRemove: () => void
+}) {
+  const [testing, setTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const handleTest = async () => {
+    setTesting(true)
+    setTestResult(null)
+    const result = await testDeliveryTarget(target.id)
+    setTestResult(result.success ? { ok: true, text: 'Sample digest sent' } : { ok: false, text: result.error || 'Test failed' })
+    setTesting(false)
+  }
+
+  return (
+    <div className="border border-border bg-card p-5 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-xs uppercase tracking-wide text-muted-foreground shrink-0">{DELIVERY_CHANNEL_LABELS[target.type]}</span>
+          <input
+            value={target.name}
+            onChange={(e) => onChange({ ...target, name: e.target.value })}
+            className={`${inputClass} min-w-0`}
+            aria-label="Target name"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={target.enabled} onChange={(e) => onChange({ ...target, enabled: e.target.checked })} />
+            Enabled
+          </label>
+          <button
+            onClick={handleTest}
+            disabled={!saved || testing}
+            className="p-2 hover:bg-muted disabled:opacity-40"
+            aria-label="Send sample digest"
+            title={saved ? 'Send sample digest' : 'Save to test this target'}
+          >
+            {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </button>
+          <button onClick={onRemove} className="p-2 hover:bg-muted text-destructive" aria-label="Remove target">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {target.type === 'slack' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Channel <span className="text-muted-foreground font-normal">(name or ID)</span></label>
+          <input
+            value={target.slack?.channel || ''}
+            onChange={(e) => onChange({ ...target, slack: { channel: e.target.value } })}
+            placeholder="#ai-news"
+            className={`${inputClass} w-full`}
+          />
+          <p className="text-xs text-muted-foreground">Posted with the server&apos;s bot token (SLACK_BOT_TOKEN); empty uses SLACK_DEFAULT_CHANNEL.</p>
+        </div>
+      )}
+
+      {(target.type === 'teams' || target.type === 'discord') && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Webhook URL</label>
+          <input
+            type="password"
+            value={(target.type === 'teams' ? target.teams?.webhook_url : target.discord?.webhook_url) || ''}
+            onChange={(e) => onChange(target.type === 'teams'
+              ? { ...target, teams: { webhook_url: e.target.value } }
+              : { ...target, discord: { webhook_url: e.target.value } })}
+            placeholder={target.type === 'teams'
+              ? 'https://example.webhook.office.com/webhookb2/...'
+              : 'https://discord.com/api/webhooks/...'}
+            className={`${inputClass} w-full`}
+          />
+          <p className="text-xs text-muted-foreground">
+            {target.type === 'teams'
+              ? 'Incoming webhook of the Teams channel; the digest arrives as an Adaptive Card.'
+              : 'Channel webhook from Server Settings → Integrations; the digest arrives as embeds.'}
+          </p>
+        </div>
+      )}
+
+      {target.type === 'email' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Recipients <span className="text-muted-foreground font-normal">(comma-separated)</span></label>
+          <input
+            value={(target.email?.to || []).join(', ')}
+            onChange={(e) => onChange({ ...target, email: { to: e.target.value.split(',').map(s => s.trim()).filter(Boolean) } })}
+            placeholder="partners@example.com"
+            className={`${inputClass} w-full`}
+          />
+          <p className="text-xs text-muted-foreground">Sent as HTML with a plain-text part through the server&apos;s SMTP settings (SMTP_HOST, SMTP_USER, ...).</p>
+        </div>
+      )}
+
+      {unavailable && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          Not available on this server: {unavailable}
+        </p>
+      )}
+
+      {testResult && (
+        <p className={`text-xs flex items-center gap-1 ${testResult.ok ? 'text-muted-foreground' : 'text-destructive'}`}>
+          {testResult.ok ? <Check className="w-3 h-3" /> : <AlertCircle className="w-3 h-3" />}
+          {testResult.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function DeliveryPage() {
+  const [config, setConfig] = useState<DeliveryConfig | null>(null)
+  const [unavailable, setUnavailable] = useState<Partial<Record<DeliveryChannelType, string>>>({})
+  const [savedIds, setSavedIds] = useState<string[]>([])
+  const [schedules, setSchedules] = useState<RegistrySchedule[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchDeliveryConfig().then(result => {
+      if (result.success && result.config) {
+        setConfig(result.config)
+        setUnavailable(result.unavailable || {})
+        setSavedIds(result.config.targets.map(t => t.id))
+      } else {
+        setError(result.error || 'Failed to load delivery settings')
+      }
+    })
+    fetchRegistry().then(result => {
+      if (result.success) setSchedules(result.schedules)
+    })
+  }, [])
+
+  const updateTarget = (index: number, target: DeliveryTarget) => {
+    setConfig(prev => prev && { ...prev, targets: prev.targets.map((t, i) => (i === index ? target : t)) })
+  }
+
+  const addTarget = (type: DeliveryChannelType) => {
+    setConfig(prev => prev && { ...prev, targets: [...prev.targets, newTarget(type, prev.targets)] })
+  }
+
+  const removeTarget = (id: string) => {
+    setConfig(prev => prev && {
+      targets: prev.targets.filter(t => t.id !== id),
+      routes: Object.fromEntries(Object.entries(prev.routes).map(([scheduleId, ids]) => [scheduleId, ids.filter(x => x !== id)])),
+    })
+  }
+
+  const toggleRoute = (scheduleId: string, targetId: string) => {
+    setConfig(prev => {
+      if (!prev) return prev
+      const current = prev.routes[scheduleId] || []
+      const next = current.includes(targetId) ? current.filter(x => x !== targetId) : [...current, targetId]
+      return { ...prev, routes: { ...prev.routes, [scheduleId]: next } }
+    })
+  }
+
+  const handleSave = async () => {
+    if (!config) return
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+    const result = await saveDeliveryConfig(config)
+    if (result.success && result.config) {
+      setConfig(result.config)
+      setSavedIds(result.config.targets.map(t => t.id))
+      setNotice('Delivery settings saved')
+    } else {
+      setError(result.errors?.join('; ') || result.error || 'Failed to save delivery settings')
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 border-b border-border bg-background z-40">
+        <div className="mx-auto max-w-5xl px-4 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/schedules" className="p-2 hover:bg-muted" aria-label="Back to schedules">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="font-serif font-bold text-3xl tracking-tight">Delivery</h1>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={!config || saving}
+            className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-2 text-sm disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Save
+          </button>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-8 space-y-8">
+        {error && (
+          <p className="text-sm text-destructive flex items-center gap-1">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+        {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+        {config && (
+          <>
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Targets</h2>
+                <div className="flex items-center gap-2">
+                  {DELIVERY_CHANNEL_TYPES.map(type => (
+                    <button key={type} onClick={() => addTarget(type)} className="px-3 py-1.5 border border-border hover:bg-muted flex items-center gap-1 text-xs">
+                      <Plus className="w-3 h-3" />
+                      {DELIVERY_CHANNEL_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {config.targets.length === 0 && (
+                <p className="text-sm text-muted-foreground">No delivery targets yet. Add one to send digests beyond the agent&apos;s own Slack post.</p>
+              )}
+              {config.targets.map((target, i) => (
+                <TargetEditor
+                  key={target.id}
+                  target={target}
+                  saved={savedIds.includes(target.id)}
+                  unavailable={unavailable[target.type]}
+                  onChange={(next) => updateTarget(i, next)}
+                  onRemove={() => removeTarget(target.id)}
+                />
+              ))}
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Schedule routing</h2>
+              <p className="text-xs text-muted-foreground">Each scheduled digest is sent to the checked targets when the ingest job archives it.</p>
+              {schedules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No registered schedules.</p>
+              ) : (
+                <div className="border border-border bg-card divide-y divide-border">
+                  {schedules.map(schedule => (
+                    <div key={schedule.schedule_id} className="p-4 space-y-2">
+                      <p className="text-sm font-medium truncate">{scheduleLabel(schedule)}</p>
+                      {config.targets.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Add a target first.</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          {config.targets.map(target => (
+                            <label key={target.id} className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={(config.routes[schedule.schedule_id] || []).includes(target.id)}
+                                onChange={() => toggleRoute(schedule.schedule_id, target.id)}
+                              />
+                              {target.name}
+                              {!target.enabled && <span className="text-xs text-muted-foreground">(disabled)</span>}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
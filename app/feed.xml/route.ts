@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDigestStore, MAX_PAGE_SIZE } from '@/lib/digestStore'
+import { EXPORT_FORMATS, digestAppUrl, digestFeedItems, renderFeed } from '@/lib/digestExport'
+
+export const dynamic = 'force-dynamic'
+
+const FEED_FORMATS = ['rss', 'atom', 'json'] as const
+type FeedFormat = (typeof FEED_FORMATS)[number]
+
+// ---------------------------------------------------------------------------
+// GET — archive feed, one item per digest  ?format=rss|atom|json&agentId=&limit=
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const format = (url.searchParams.get('format') || 'rss') as FeedFormat
+    if (!FEED_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${FEED_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const parsedLimit = parseInt(url.searchParams.get('limit') || '', 10)
+    const limit = Number.isFinite(parsedLimit) ? Math.min(MAX_PAGE_SIZE, Math.max(1, parsedLimit)) : 50
+
+    const page = await getDigestStore().list({
+      agentId: url.searchParams.get('agentId') || undefined,
+      skip: 0,
+      limit,
+    })
+
+    const items = digestFeedItems(page.digests, digest => digestAppUrl(url.origin, digest.id))
+    const body = renderFeed(format, {
+      title: 'AI News Digest',
+      description: 'Daily AI news digests curated by the AI News Curator agent',
+      home_url: `${url.origin}/`,
+      feed_url: url.toString(),
+    }, items)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format].contentType,
+        'Cache-Control': 'public, max-age=300',
+      },
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,38 +1,29 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { callAIAgent } from '@/lib/aiAgent'
-import { getSchedule, pauseSchedule, resumeSchedule, getScheduleLogs, cronToHuman, Schedule, ExecutionLog } from '@/lib/scheduler'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { callAIAgent, callAIAgentStream } from '@/lib/aiAgent'
+import { listDigests, getDigest, digestExportUrl, saveDigest, deleteDigest, syncScheduledDigests, deliverDigest } from '@/lib/digests'
+import type { Story, StoryDedupInfo, Category, DigestData, StoredDigest } from '@/lib/digest'
+import { DELIVERY_CHANNEL_LABELS, routesToSlack, type DeliveryTarget } from '@/lib/delivery'
+import { fetchDeliveryConfig, setScheduleDelivery } from '@/lib/deliveryClient'
+import { EXPORT_FORMATS, renderMarkdown, type ExportFormat } from '@/lib/digestExport'
+import { copyToClipboard } from '@/lib/clipboard'
+import { useRegistry, fetchRegistry, saveRegistryEntry } from '@/lib/registryClient'
+import { scheduleLabel } from '@/lib/registry'
+import { DigestSearch } from '@/components/DigestSearch'
+import { ScheduleBuilder } from '@/components/ScheduleBuilder'
+import { ScheduleRunNow } from '@/components/ScheduleRunNow'
+import { NotificationCenter } from '@/components/NotificationCenter'
+import { getSchedule, pauseSchedule, resumeSchedule, getScheduleLogs, createSchedule, updateSchedule, cronToHuman, timeToDailyCron, Schedule, ExecutionLog } from '@/lib/scheduler'
+import { nextRuns, formatRunTime, validateCron } from '@/lib/cron'
+import { CURATOR_CATEGORIES, buildCuratorMessage, buildDryRunMessage, buildFeedbackBlock, parseCuratorMessage, withReaderFeedback, type CuratorPreferences } from '@/lib/curatorPrompt'
+import { FEEDBACK_REASONS, explainStory, hasPreferences, type FeedbackPreferences, type FeedbackReason, type FeedbackVote, type PreferenceSignal, type StoryFeedback } from '@/lib/feedback'
+import { useStoryFeedback } from '@/lib/feedbackClient'
 import { FiSettings, FiRefreshCw, FiPlay, FiPause, FiChevronDown, FiChevronUp, FiClock, FiCalendar, FiCheck, FiX, FiAlertCircle } from 'react-icons/fi'
+import { Trash2, Copy, Download, Rss, BarChart2, Send, ThumbsUp, ThumbsDown, Info } from 'lucide-react'
 
-// TypeScript interfaces based on agent response schema
-interface Story {
-  headline: string
-  summary: string
-  source: string
-}
-
-interface Category {
-  category_name: string
-  stories: Story[]
-}
-
-interface DigestData {
-  digest_date: string
-  categories: Category[]
-  total_stories: number
-  slack_posted: boolean
-}
-
-interface DigestHistory {
-  id: string
-  date: string
-  data: DigestData
-  timestamp: number
-}
-
-const AGENT_ID = '698e0e01d53462d0905232e3'
-const SCHEDULE_ID = '698e0e07ebe6fd87d1dcc1b9'
+const HISTORY_PAGE_SIZE = 20
 
 // Helper component for status badges
 function StatusBadge({ status }: { status: 'sent' | 'pending' | 'failed' | 'active' | 'paused' }) {
@@ -77,12 +68,113 @@ function CategoryBadge({ category }: { category: string }) {
   )
 }
 
+// Marker for stories the archive has already seen
+function SeenBeforeMarker({ dedup }: { dedup: StoryDedupInfo }) {
+  const seenOn = dedup.seen_at
+    ? new Date(dedup.seen_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    : dedup.seen_digest_date
+
+  const label =
+    dedup.status === 'duplicate' ? `Also in ${dedup.also_in}`
+    : dedup.status === 'follow_up' ? `Follow-up · seen before on ${seenOn}`
+    : `Seen before on ${seenOn}`
+
+  return (
+    <span
+      className="inline-block px-2 py-1 text-xs text-muted-foreground bg-muted"
+      title={`${Math.round(dedup.similarity * 100)}% similar`}
+    >
+      {label}
+    </span>
+  )
+}
+
+interface StoryFeedbackProps {
+  rating: StoryFeedback | null
+  preferences: FeedbackPreferences | null
+  onRate: (vote: FeedbackVote, reasons: FeedbackReason[]) => void
+  onClear: () => void
+}
+
+const FEEDBACK_REASON_KEYS = Object.keys(FEEDBACK_REASONS) as FeedbackReason[]
+
+// Thumbs up/down with reason tags, plus the "why am I seeing this" explanation
+function StoryFeedbackBar({ story, category, feedback }: { story: Story; category: string; feedback: StoryFeedbackProps }) {
+  const [showWhy, setShowWhy] = useState(false)
+  const { rating, preferences, onRate, onClear } = feedback
+  const reasons = explainStory(story, preferences)
+
+  const vote = (value: FeedbackVote) => {
+    if (rating?.vote === value) onClear()
+    else onRate(value, [])
+  }
+
+  const toggleReason = (reason: FeedbackReason) => {
+    if (!rating) return
+    const next = rating.reasons.includes(reason) ? rating.reasons.filter(r => r !== reason) : [...rating.reasons, reason]
+    onRate(rating.vote, next)
+  }
+
+  return (
+    <div className="space-y-2 pt-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => vote('up')}
+          className={`p-1.5 border border-border transition-colors ${rating?.vote === 'up' ? 'bg-accent text-accent-foreground' : 'text-muted-foreground hover:bg-muted'}`}
+          aria-label="Useful story"
+          aria-pressed={rating?.vote === 'up'}
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => vote('down')}
+          className={`p-1.5 border border-border transition-colors ${rating?.vote === 'down' ? 'bg-destructive text-destructive-foreground' : 'text-muted-foreground hover:bg-muted'}`}
+          aria-label="Not useful story"
+          aria-pressed={rating?.vote === 'down'}
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+        </button>
+        {rating && FEEDBACK_REASON_KEYS.filter(key => FEEDBACK_REASONS[key].vote === rating.vote).map(key => (
+          <button
+            key={key}
+            onClick={() => toggleReason(key)}
+            className={`px-2 py-1 text-xs border border-border transition-colors ${rating.reasons.includes(key) ? 'bg-secondary text-secondary-foreground' : 'text-muted-foreground hover:bg-muted'}`}
+          >
+            {FEEDBACK_REASONS[key].label}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowWhy(prev => !prev)}
+          className="ml-auto text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+        >
+          <Info className="w-3 h-3" />
+          Why am I seeing this?
+        </button>
+      </div>
+      {showWhy && (
+        <div className="text-xs text-muted-foreground bg-muted/50 p-2 space-y-1">
+          <p>The curator picked this as one of the day&apos;s top {category} stories.</p>
+          {reasons.map((reason, idx) => <p key={idx}>{reason}</p>)}
+          {reasons.length === 0 && (
+            <p>
+              {hasPreferences(preferences)
+                ? 'It doesn\'t match any source or topic you have rated.'
+                : 'Rate stories to tune which sources and topics future digests favor.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Story card component
-function StoryCard({ story, category }: { story: Story; category: string }) {
+function StoryCard({ story, category, feedback }: { story: Story; category: string; feedback?: StoryFeedbackProps }) {
   return (
     <div className="border border-border bg-card p-4 space-y-3">
       <div className="flex items-start justify-between gap-3">
         <CategoryBadge category={category} />
+        {story.dedup && <SeenBeforeMarker dedup={story.dedup} />}
       </div>
       <h4 className="font-serif font-bold text-lg tracking-tight leading-tight">
         {story.headline}
@@ -93,34 +185,234 @@ function StoryCard({ story, category }: { story: Story; category: string }) {
       <p className="text-xs text-muted-foreground">
         Source: {story.source}
       </p>
+      {feedback && <StoryFeedbackBar story={story} category={category} feedback={feedback} />}
+    </div>
+  )
+}
+
+// Live preview of a digest while it is still streaming in
+function StreamingDigestPreview({ digest }: { digest: Partial<DigestData> }) {
+  const categories = Array.isArray(digest.categories) ? digest.categories : []
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <FiRefreshCw className="w-4 h-4 animate-spin" />
+        <span>Receiving digest{digest.digest_date ? ` for ${digest.digest_date}` : ''}...</span>
+      </p>
+      {categories.map((cat, catIdx) => (
+        <div key={catIdx} className="space-y-2">
+          {cat?.category_name && <CategoryBadge category={cat.category_name} />}
+          <div className="space-y-2">
+            {Array.isArray(cat?.stories) && cat.stories.map((story, storyIdx) => (
+              <div key={storyIdx} className="border border-border p-3 space-y-1">
+                {story?.headline && (
+                  <h4 className="font-serif font-bold tracking-tight leading-tight">{story.headline}</h4>
+                )}
+                {story?.summary && (
+                  <p className="text-sm leading-relaxed text-foreground/90">{story.summary}</p>
+                )}
+                {story?.source && (
+                  <p className="text-xs text-muted-foreground">Source: {story.source}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Export / share actions for an archived digest
+function DigestExportActions({ digest }: { digest: StoredDigest }) {
+  const [copied, setCopied] = useState(false)
+
+  async function copyMarkdown() {
+    const url = `${window.location.origin}/?digest=${encodeURIComponent(digest.id)}`
+    if (await copyToClipboard(renderMarkdown(digest.data, { url }))) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <button
+        onClick={copyMarkdown}
+        className="flex items-center gap-1 px-2 py-1 bg-secondary text-secondary-foreground hover:bg-secondary/80"
+      >
+        {copied ? <FiCheck className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+        {copied ? 'Copied' : 'Copy Markdown'}
+      </button>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+        <a
+          key={format}
+          href={digestExportUrl(digest.id, format, { download: true })}
+          className="flex items-center gap-1 px-2 py-1 bg-muted text-muted-foreground hover:text-foreground"
+        >
+          <Download className="w-3 h-3" />
+          {EXPORT_FORMATS[format].label}
+        </a>
+      ))}
+    </div>
+  )
+}
+
+// Per-target delivery status for an archived digest, plus sending it again
+function DigestDeliveryActions({
+  digest,
+  targets,
+  onUpdated,
+}: {
+  digest: StoredDigest
+  targets: DeliveryTarget[]
+  onUpdated: (digest: StoredDigest) => void
+}) {
+  const [targetId, setTargetId] = useState('')
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const deliveries = digest.deliveries || []
+  const selected = targetId || targets[0]?.id || ''
+
+  async function handleDeliver() {
+    if (!selected) return
+    setSending(true)
+    setError(null)
+    const result = await deliverDigest(digest.id, [selected])
+    if (result.digest) onUpdated(result.digest)
+    if (!result.success) setError(result.error || 'Delivery failed')
+    setSending(false)
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      {deliveries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {deliveries.map((delivery) => (
+            <span
+              key={delivery.target_id}
+              title={delivery.error || `Delivered ${new Date(delivery.delivered_at).toLocaleString()}`}
+              className={`flex items-center gap-1 px-2 py-1 ${delivery.ok ? 'bg-accent text-accent-foreground' : 'bg-destructive/10 text-destructive'}`}
+            >
+              {delivery.ok ? <FiCheck className="w-3 h-3" /> : <FiAlertCircle className="w-3 h-3" />}
+              {DELIVERY_CHANNEL_LABELS[delivery.type]} · {delivery.target_name}
+            </span>
+          ))}
+        </div>
+      )}
+      {targets.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selected}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="px-2 py-1 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+          >
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>
+                {DELIVERY_CHANNEL_LABELS[target.type]} · {target.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleDeliver}
+            disabled={sending || !selected}
+            className="flex items-center gap-1 px-2 py-1 bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50"
+          >
+            <Send className="w-3 h-3" />
+            {sending ? 'Sending...' : 'Deliver'}
+          </button>
+          {error && (
+            <span className="flex items-center gap-1 text-destructive">
+              <FiAlertCircle className="w-3 h-3" />
+              {error}
+            </span>
+          )}
+        </div>
+      ) : (
+        <Link href="/delivery" className="text-muted-foreground hover:text-foreground underline">
+          Set up delivery channels
+        </Link>
+      )}
     </div>
   )
 }
 
 // Settings modal component
-function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+const TIMEZONES = [
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/Denver', label: 'Mountain Time' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+]
+
+// One group of learned preferences, with the rated stories behind each
+function PreferenceSignalList({ title, signals }: { title: string; signals: PreferenceSignal[] }) {
+  if (signals.length === 0) return null
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{title}</p>
+      <ul className="space-y-1">
+        {signals.map(signal => (
+          <li key={signal.key} className="text-xs">
+            <span className="font-medium">{signal.label}</span>
+            <span className="text-muted-foreground"> · {signal.stories} rated {signal.stories === 1 ? 'story' : 'stories'}, e.g. &ldquo;{signal.examples[0]}&rdquo;</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function SettingsModal({
+  isOpen,
+  onClose,
+  agentId,
+  schedule,
+  onScheduleSaved,
+  feedbackPreferences,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  agentId: string | null
+  schedule: Schedule | null
+  onScheduleSaved: (saved: Schedule, created: boolean) => Promise<void>
+  feedbackPreferences: FeedbackPreferences | null
+}) {
   const [slackChannel, setSlackChannel] = useState('')
-  const [deliveryTime, setDeliveryTime] = useState('10:00')
+  const [cronExpression, setCronExpression] = useState('0 10 * * *')
   const [timezone, setTimezone] = useState('America/New_York')
-  const [categories, setCategories] = useState({
+  const [categories, setCategories] = useState<CuratorPreferences['categories']>({
     breaking: true,
     research: true,
     trends: true,
     startups: true,
   })
   const [statusMessage, setStatusMessage] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null)
+  const [deliveryTargets, setDeliveryTargets] = useState<DeliveryTarget[]>([])
+  const [routedTargets, setRoutedTargets] = useState<string[]>([])
+  const [slackAvailable, setSlackAvailable] = useState(false)
+  // The app posts to Slack itself only when this schedule routes to a Slack target
+  const directSlack = slackAvailable && routesToSlack(deliveryTargets, routedTargets)
 
   useEffect(() => {
     if (isOpen) {
+      setStatusMessage('')
+      setTestResult(null)
+
       // Load settings from localStorage
       const saved = localStorage.getItem('ai-news-digest-settings')
       if (saved) {
         try {
           const parsed = JSON.parse(saved)
           setSlackChannel(parsed.slackChannel || '')
-          setDeliveryTime(parsed.deliveryTime || '10:00')
+          // Older saves only stored a daily delivery time
+          setCronExpression(parsed.cronExpression || timeToDailyCron(parsed.deliveryTime || '10:00'))
           setTimezone(parsed.timezone || 'America/New_York')
-          setCategories(parsed.categories || categories)
+          setCategories(current => parsed.categories || current)
         } catch (e) {
           // Ignore parse errors
         }
@@ -128,18 +420,98 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
     }
   }, [isOpen])
 
-  function handleSave() {
-    const settings = { slackChannel, deliveryTime, timezone, categories }
+  // The live schedule wins over locally saved values (runs after the effect above)
+  useEffect(() => {
+    if (!isOpen) return
+
+    fetchDeliveryConfig().then(result => {
+      if (!result.success || !result.config) return
+      setSlackAvailable(!result.unavailable?.slack)
+      setDeliveryTargets(result.config.targets)
+      setRoutedTargets(schedule ? result.config.routes[schedule.id] || [] : [])
+    })
+
+    if (schedule) {
+      if (schedule.cron_expression) setCronExpression(schedule.cron_expression)
+      if (schedule.timezone) setTimezone(schedule.timezone)
+      const prefs = parseCuratorMessage(schedule.message)
+      if (prefs.slackChannel !== undefined) setSlackChannel(prefs.slackChannel)
+      if (prefs.categories) setCategories(prefs.categories)
+    }
+  }, [isOpen, schedule])
+
+  async function handleSave() {
+    const cronCheck = validateCron(cronExpression)
+    if (!cronCheck.valid) {
+      setStatusMessage('✗ Invalid schedule: ' + cronCheck.error)
+      return
+    }
+
+    const settings = { slackChannel, cronExpression, timezone, categories }
     localStorage.setItem('ai-news-digest-settings', JSON.stringify(settings))
-    setStatusMessage('Settings saved successfully')
+
+    if (!agentId) {
+      setStatusMessage('Settings saved locally (no agent selected)')
+      return
+    }
+
+    const changes = {
+      cron_expression: cronExpression.trim().replace(/\s+/g, ' '),
+      timezone,
+      message: buildCuratorMessage({ slackChannel, categories }, schedule?.message, { directSlack }),
+    }
+
+    setSaving(true)
+    setStatusMessage('Updating schedule...')
+    const result = schedule
+      ? await updateSchedule(schedule.id, changes, schedule)
+      : await createSchedule({ agent_id: agentId, ...changes })
+    if (!result.success || !result.schedule) {
+      setSaving(false)
+      setStatusMessage('✗ Failed to update schedule: ' + (result.error || 'Unknown error'))
+      return
+    }
+    const unchanged = 'method' in result && result.method === 'noop'
+    if (!unchanged) await onScheduleSaved(result.schedule, !schedule)
+    const routed = await setScheduleDelivery(result.schedule.id, routedTargets)
+    setSaving(false)
+    if (!routed.success) {
+      setStatusMessage('✗ Schedule saved, but delivery channels were not: ' + (routed.error || 'Unknown error'))
+      return
+    }
+
+    setStatusMessage(unchanged ? 'Settings saved successfully' : `Settings saved · ${cronToHuman(changes.cron_expression)} (${timezone})`)
     setTimeout(() => {
       setStatusMessage('')
       onClose()
     }, 1500)
   }
 
+  async function handleTestConnection() {
+    if (!agentId) return
+    setTesting(true)
+    setTestResult(null)
+    const started = Date.now()
+    const result = await callAIAgent(buildDryRunMessage({ slackChannel, categories }), agentId)
+    const seconds = ((Date.now() - started) / 1000).toFixed(1)
+
+    if (result.success && result.response?.status === 'success') {
+      setTestResult({ ok: true, message: `Agent responded in ${seconds}s (dry run, nothing posted)` })
+    } else {
+      setTestResult({
+        ok: false,
+        message: result.error || result.response?.message || 'Agent did not respond',
+      })
+    }
+    setTesting(false)
+  }
+
   if (!isOpen) return null
 
+  const timezoneOptions = TIMEZONES.some(tz => tz.value === timezone)
+    ? TIMEZONES
+    : [...TIMEZONES, { value: timezone, label: timezone }]
+
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div className="bg-card border border-border max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -163,25 +535,60 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
                 placeholder="C01234567890"
                 className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
               />
+              {directSlack && (
+                <p className="text-xs text-muted-foreground">
+                  Direct Slack delivery is on: the agent is told not to post, and digests go to the Slack targets checked under Delivery Channels.
+                </p>
+              )}
             </div>
-            <button className="px-4 py-2 bg-secondary text-secondary-foreground hover:bg-secondary/80">
-              Test Connection
+            <button
+              onClick={handleTestConnection}
+              disabled={testing || !agentId}
+              className="px-4 py-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50 flex items-center gap-2"
+            >
+              {testing && <FiRefreshCw className="w-4 h-4 animate-spin" />}
+              {testing ? 'Testing...' : 'Test Connection'}
             </button>
+            {testResult && (
+              <p className={`text-xs flex items-center gap-1 ${testResult.ok ? 'text-accent' : 'text-destructive'}`}>
+                {testResult.ok ? <FiCheck className="w-3 h-3" /> : <FiAlertCircle className="w-3 h-3" />}
+                {testResult.message}
+              </p>
+            )}
+          </div>
+
+          {/* Delivery Channels */}
+          <div className="space-y-3">
+            <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Delivery Channels</h3>
+            {deliveryTargets.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No delivery channels yet. <Link href="/delivery" className="underline hover:text-foreground">Add Teams, Discord, email or Slack targets</Link>.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {deliveryTargets.map((target) => (
+                  <label key={target.id} className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={routedTargets.includes(target.id)}
+                      onChange={(e) => setRoutedTargets(prev => (e.target.checked ? [...prev, target.id] : prev.filter(id => id !== target.id)))}
+                      className="w-4 h-4 bg-input border border-border focus:ring-1 focus:ring-ring"
+                    />
+                    <span className="text-sm">{target.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {DELIVERY_CHANNEL_LABELS[target.type]}{!target.enabled && ' (disabled)'}
+                    </span>
+                  </label>
+                ))}
+                <p className="text-xs text-muted-foreground">Scheduled digests are sent to the checked channels when the ingest job archives them.</p>
+              </div>
+            )}
           </div>
 
           {/* Schedule Settings */}
           <div className="space-y-3">
             <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Schedule Settings</h3>
             <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <label className="block text-sm font-medium">Delivery Time</label>
-                <input
-                  type="time"
-                  value={deliveryTime}
-                  onChange={(e) => setDeliveryTime(e.target.value)}
-                  className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
-                />
-              </div>
               <div className="space-y-2">
                 <label className="block text-sm font-medium">Timezone</label>
                 <select
@@ -189,15 +596,17 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
                   onChange={(e) => setTimezone(e.target.value)}
                   className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
                 >
-                  <option value="America/New_York">Eastern Time</option>
-                  <option value="America/Chicago">Central Time</option>
-                  <option value="America/Denver">Mountain Time</option>
-                  <option value="America/Los_Angeles">Pacific Time</option>
+                  {timezoneOptions.map((tz) => (
+                    <option key={tz.value} value={tz.value}>{tz.label}</option>
+                  ))}
                 </select>
               </div>
             </div>
+            <ScheduleBuilder value={cronExpression} onChange={setCronExpression} timezone={timezone} />
             <p className="text-xs text-muted-foreground">
-              Current schedule: Daily at {deliveryTime} {timezone.split('/')[1]?.replace('_', ' ')}
+              {schedule
+                ? <>Current schedule: {cronToHuman(schedule.cron_expression)} ({schedule.timezone})</>
+                : 'No schedule yet. Saving creates one for the selected agent.'}
             </p>
           </div>
 
@@ -205,16 +614,11 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
           <div className="space-y-3">
             <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Category Preferences</h3>
             <div className="space-y-2">
-              {[
-                { key: 'breaking', label: 'Breaking News' },
-                { key: 'research', label: 'Research Papers' },
-                { key: 'trends', label: 'Industry Trends' },
-                { key: 'startups', label: 'Startup News' },
-              ].map(({ key, label }) => (
+              {CURATOR_CATEGORIES.map(({ key, label }) => (
                 <label key={key} className="flex items-center gap-3 cursor-pointer">
                   <input
                     type="checkbox"
-                    checked={categories[key as keyof typeof categories]}
+                    checked={categories[key]}
                     onChange={(e) => setCategories(prev => ({ ...prev, [key]: e.target.checked }))}
                     className="w-4 h-4 bg-input border border-border focus:ring-1 focus:ring-ring"
                   />
@@ -224,9 +628,38 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
             </div>
           </div>
 
+          {/* Why am I seeing this */}
+          <div className="space-y-3">
+            <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Why am I seeing this?</h3>
+            {hasPreferences(feedbackPreferences) ? (
+              <div className="space-y-3">
+                <p className="text-xs text-muted-foreground">
+                  Learned from your {feedbackPreferences.feedback_count} story rating{feedbackPreferences.feedback_count === 1 ? '' : 's'}.
+                  The curator favors these when choosing between stories of similar importance; major news is always included.
+                </p>
+                <PreferenceSignalList title="Preferred sources" signals={feedbackPreferences.favored_sources} />
+                <PreferenceSignalList title="Preferred topics" signals={feedbackPreferences.favored_topics} />
+                <PreferenceSignalList title="Less trusted sources" signals={feedbackPreferences.disliked_sources} />
+                <PreferenceSignalList title="Less wanted topics" signals={feedbackPreferences.disliked_topics} />
+                <div className="space-y-1">
+                  <p className="text-xs font-medium">Added to your Fetch News prompt</p>
+                  <pre className="text-xs bg-muted/50 p-2 whitespace-pre-wrap font-mono">{buildFeedbackBlock(feedbackPreferences)}</pre>
+                  <p className="text-xs text-muted-foreground">
+                    Your manual fetches use it. The schedule is shared by every reader, so scheduled digests don&apos;t.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Rate stories in the digest archive with thumbs up or down. Once a source or topic stands out,
+                it is listed here and passed on to the curator when you fetch a digest.
+              </p>
+            )}
+          </div>
+
           {/* Status Message */}
           {statusMessage && (
-            <div className="p-3 bg-accent text-accent-foreground text-sm">
+            <div className={`p-3 text-sm ${statusMessage.startsWith('✗') ? 'bg-destructive/10 text-destructive' : 'bg-accent text-accent-foreground'}`}>
               {statusMessage}
             </div>
           )}
@@ -234,9 +667,10 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
           {/* Save Button */}
           <button
             onClick={handleSave}
-            className="w-full py-3 bg-primary text-primary-foreground font-medium hover:bg-primary/90"
+            disabled={saving}
+            className="w-full py-3 bg-primary text-primary-foreground font-medium hover:bg-primary/90 disabled:opacity-50"
           >
-            Save Settings
+            {saving ? 'Saving...' : 'Save Settings'}
           </button>
         </div>
       </div>
@@ -245,10 +679,19 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
 }
 
 export default function Home() {
+  const registry = useRegistry()
+  const storyFeedback = useStoryFeedback()
+  const agentId = registry.agent?.agent_id ?? null
+  const scheduleId = registry.schedule?.schedule_id ?? null
+  const deepLinkHandled = useRef(false)
+
   const [loading, setLoading] = useState(false)
   const [statusMessage, setStatusMessage] = useState('')
   const [digest, setDigest] = useState<DigestData | null>(null)
-  const [history, setHistory] = useState<DigestHistory[]>([])
+  const [partialDigest, setPartialDigest] = useState<Partial<DigestData> | null>(null)
+  const [history, setHistory] = useState<StoredDigest[]>([])
+  const [historyTotal, setHistoryTotal] = useState(0)
+  const [historyLoading, setHistoryLoading] = useState(false)
   const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set())
   const [categoryFilters, setCategoryFilters] = useState<Set<string>>(new Set(['Breaking', 'Research', 'Trends', 'Startups']))
   const [settingsOpen, setSettingsOpen] = useState(false)
@@ -257,68 +700,136 @@ export default function Home() {
   const [schedule, setSchedule] = useState<Schedule | null>(null)
   const [scheduleLoading, setScheduleLoading] = useState(false)
   const [executionLogs, setExecutionLogs] = useState<ExecutionLog[]>([])
+  const [deliveryTargets, setDeliveryTargets] = useState<DeliveryTarget[]>([])
 
   useEffect(() => {
-    loadHistory()
-    loadScheduleStatus()
+    fetchDeliveryConfig().then(result => {
+      if (result.success && result.config) setDeliveryTargets(result.config.targets.filter(t => t.enabled))
+    })
   }, [])
 
-  function loadHistory() {
-    const saved = localStorage.getItem('ai-news-digest-history')
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved)
-        if (Array.isArray(parsed)) {
-          setHistory(parsed)
-        }
-      } catch (e) {
-        // Ignore parse errors
-      }
+  // Expand a digest in the history list (search results, ?digest= links),
+  // fetching it when it is not on a loaded page yet
+  const openDigest = useCallback(async (id: string, category?: string) => {
+    const result = await getDigest(id)
+    if (!result.success || !result.digest) return
+    const found = result.digest
+    setHistory(prev => (prev.some(item => item.id === id) ? prev : [...prev, found]))
+    if (category) setCategoryFilters(prev => new Set(prev).add(category))
+    setExpandedHistory(prev => new Set(prev).add(id))
+    setTimeout(() => {
+      document.getElementById(`digest-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    }, 50)
+  }, [])
+
+  const loadHistory = useCallback(async (skip = 0): Promise<StoredDigest | null> => {
+    if (!agentId) return null
+    setHistoryLoading(true)
+    const result = await listDigests({ agentId, skip, limit: HISTORY_PAGE_SIZE })
+    if (result.success) {
+      setHistory(prev => (skip === 0 ? result.digests : [...prev, ...result.digests]))
+      setHistoryTotal(result.total)
     }
-  }
+    setHistoryLoading(false)
+    return result.digests[0] ?? null
+  }, [agentId])
 
-  function saveToHistory(digestData: DigestData) {
-    const newItem: DigestHistory = {
-      id: Date.now().toString(),
-      date: digestData.digest_date || new Date().toLocaleDateString(),
-      data: digestData,
-      timestamp: Date.now(),
+  // Pull any scheduled runs into the archive first so the 10AM digest shows up
+  // without calling the agent again
+  const loadArchive = useCallback(async () => {
+    if (scheduleId) await syncScheduledDigests({ scheduleId })
+    const latest = await loadHistory()
+    if (latest && new Date(latest.created_at).toDateString() === new Date().toDateString()) {
+      setDigest(current => current ?? latest.data)
+    }
+    if (!deepLinkHandled.current) {
+      deepLinkHandled.current = true
+      const linked = new URLSearchParams(window.location.search).get('digest')
+      if (linked) await openDigest(linked)
     }
+  }, [scheduleId, loadHistory, openDigest])
 
-    const updated = [newItem, ...history].slice(0, 20) // Keep last 20
-    setHistory(updated)
-    localStorage.setItem('ai-news-digest-history', JSON.stringify(updated))
+  async function saveToHistory(digestData: DigestData, sessionId?: string) {
+    if (!agentId) return
+    const result = await saveDigest(digestData, agentId, { session_id: sessionId })
+    if (result.success && result.digest) {
+      setHistory(prev => [result.digest!, ...prev])
+      setHistoryTotal(prev => prev + 1)
+    }
   }
 
-  async function loadScheduleStatus() {
-    setScheduleLoading(true)
-    const scheduleData = await getSchedule(SCHEDULE_ID)
-    if (scheduleData?.success && scheduleData.schedule) {
-      setSchedule(scheduleData.schedule)
+  async function removeFromHistory(id: string) {
+    const result = await deleteDigest(id)
+    if (result.success) {
+      setHistory(prev => prev.filter(item => item.id !== id))
+      setHistoryTotal(prev => Math.max(0, prev - 1))
     }
+  }
 
-    const logsData = await getScheduleLogs(SCHEDULE_ID, { limit: 10 })
-    if (logsData.success && Array.isArray(logsData.executions)) {
-      setExecutionLogs(logsData.executions)
+  const loadScheduleStatus = useCallback(async () => {
+    if (!scheduleId) {
+      setSchedule(null)
+      setExecutionLogs([])
+      return
     }
+
+    setScheduleLoading(true)
+    const scheduleData = await getSchedule(scheduleId)
+    setSchedule(scheduleData?.success && scheduleData.schedule ? scheduleData.schedule : null)
+
+    const logsData = await getScheduleLogs(scheduleId, { limit: 10 })
+    setExecutionLogs(logsData.success && Array.isArray(logsData.executions) ? logsData.executions : [])
     setScheduleLoading(false)
-  }
+  }, [scheduleId])
+
+  // Every panel is scoped to the selected agent/schedule pair
+  useEffect(() => {
+    if (!agentId) return
+    setDigest(null)
+    setHistory([])
+    setHistoryTotal(0)
+    setExpandedHistory(new Set())
+    loadArchive()
+  }, [agentId, loadArchive])
+
+  useEffect(() => {
+    loadScheduleStatus()
+  }, [loadScheduleStatus])
 
   async function fetchNews() {
+    if (!agentId) return
     setLoading(true)
     setStatusMessage('')
 
     try {
-      const result = await callAIAgent('Generate today\'s AI news digest', AGENT_ID)
+      const message = withReaderFeedback('Generate today\'s AI news digest', storyFeedback.preferences)
+      const result = await callAIAgentStream(message, agentId, {
+        repair: true,
+        onPartial: (partial) => {
+          if (partial && typeof partial === 'object' && !Array.isArray(partial)) setPartialDigest(partial)
+        },
+      })
+      const repair = result.response?.metadata?.repair
 
       if (result.success && result.response?.result) {
         const digestData = result.response.result as DigestData
 
-        // Validate structure
-        if (digestData && Array.isArray(digestData.categories)) {
+        // The agent route validates against the curator response schema
+        if (result.validation && !result.validation.valid) {
+          const [first] = result.validation.errors
+          const count = result.validation.errors.length
+          setStatusMessage(
+            `✗ Invalid response format: ${first.path || 'response'} should be ${first.expected}, got ${first.actual_type}` +
+            (count > 1 ? ` (+${count - 1} more issue${count > 2 ? 's' : ''})` : '')
+          )
+        } else if (digestData && Array.isArray(digestData.categories)) {
           setDigest(digestData)
-          saveToHistory(digestData)
-          setStatusMessage('✓ News digest fetched successfully')
+          await saveToHistory(digestData, result.session_id)
+          setStatusMessage(
+            repair?.repaired
+              ? `✓ News digest fetched successfully (repaired after ${repair.attempts_used} retr${repair.attempts_used === 1 ? 'y' : 'ies'})`
+              : '✓ News digest fetched successfully'
+          )
         } else {
           setStatusMessage('✗ Invalid response format')
         }
@@ -329,6 +840,7 @@ export default function Home() {
       setStatusMessage('✗ Error: ' + (error instanceof Error ? error.message : 'Unknown error'))
     } finally {
       setLoading(false)
+      setPartialDigest(null)
     }
   }
 
@@ -337,8 +849,8 @@ export default function Home() {
 
     setScheduleLoading(true)
     const result = schedule.is_active
-      ? await pauseSchedule(SCHEDULE_ID)
-      : await resumeSchedule(SCHEDULE_ID)
+      ? await pauseSchedule(schedule.id)
+      : await resumeSchedule(schedule.id)
 
     if (result.success) {
       await loadScheduleStatus()
@@ -346,6 +858,32 @@ export default function Home() {
     setScheduleLoading(false)
   }
 
+  // Run Now archived a digest: surface it like a freshly fetched one
+  async function handleRunDigest(stored: StoredDigest) {
+    setHistory(prev => (prev.some(item => item.id === stored.id) ? prev : [stored, ...prev]))
+    setHistoryTotal(prev => prev + 1)
+    setDigest(stored.data)
+    await loadScheduleStatus()
+  }
+
+  // Settings created or updated the schedule. Updates keep the registry in sync
+  // server-side (the id changes when the schedule had to be recreated); new
+  // schedules are registered here.
+  async function handleScheduleSaved(saved: Schedule, created: boolean) {
+    const result = created
+      ? await saveRegistryEntry({
+          type: 'schedule',
+          schedule_id: saved.id,
+          agent_id: saved.agent_id,
+          cron_expression: saved.cron_expression,
+          timezone: saved.timezone,
+          message: saved.message,
+        })
+      : await fetchRegistry()
+    registry.apply(result, { scheduleId: saved.id })
+    setSchedule(saved)
+  }
+
   function toggleHistoryItem(id: string) {
     setExpandedHistory(prev => {
       const updated = new Set(prev)
@@ -375,6 +913,16 @@ export default function Home() {
     return categories.filter(cat => categoryFilters.has(cat.category_name))
   }
 
+  function upcomingRuns(sched: Schedule, count = 3): string[] {
+    if (!sched.cron_expression) return []
+    try {
+      return nextRuns(sched.cron_expression, { timezone: sched.timezone, count })
+        .map(date => formatRunTime(date, sched.timezone))
+    } catch {
+      return []
+    }
+  }
+
   function formatNextRun(isoString?: string | null): string {
     if (!isoString) return 'Not scheduled'
 
@@ -420,6 +968,21 @@ export default function Home() {
                 {schedule?.is_active ? 'Connected' : 'Disconnected'}
               </span>
             </div>
+            <NotificationCenter />
+            <Link
+              href="/analytics"
+              className="p-2 hover:bg-muted transition-colors"
+              aria-label="Execution analytics"
+            >
+              <BarChart2 className="w-5 h-5" />
+            </Link>
+            <Link
+              href="/schedules"
+              className="p-2 hover:bg-muted transition-colors"
+              aria-label="Manage schedules"
+            >
+              <FiCalendar className="w-5 h-5" />
+            </Link>
             <button
               onClick={() => setSettingsOpen(true)}
               className="p-2 hover:bg-muted transition-colors"
@@ -429,6 +992,41 @@ export default function Home() {
             </button>
           </div>
         </div>
+
+        {/* Agent / Schedule Switcher */}
+        {registry.agents.length > 0 && (
+          <div className="mx-auto max-w-5xl px-4 pb-4 flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground uppercase tracking-wide">Agent</span>
+              <select
+                value={agentId ?? ''}
+                onChange={(e) => registry.selectAgent(e.target.value)}
+                disabled={loading}
+                className="px-3 py-1.5 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              >
+                {registry.agents.map((agent) => (
+                  <option key={agent.agent_id} value={agent.agent_id}>{agent.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground uppercase tracking-wide">Schedule</span>
+              <select
+                value={scheduleId ?? ''}
+                onChange={(e) => registry.selectSchedule(e.target.value || null)}
+                disabled={loading}
+                className="px-3 py-1.5 bg-input border border-border text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              >
+                {registry.agentSchedules.length === 0 && <option value="">No schedule</option>}
+                {registry.agentSchedules.map((item) => (
+                  <option key={item.schedule_id} value={item.schedule_id}>
+                    {scheduleLabel(item)}{item.cron_expression ? ` (${cronToHuman(item.cron_expression)})` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
       </header>
 
       {/* Main Content */}
@@ -447,7 +1045,9 @@ export default function Home() {
             )}
           </div>
 
-          {digest && Array.isArray(digest.categories) ? (
+          {loading && partialDigest ? (
+            <StreamingDigestPreview digest={partialDigest} />
+          ) : digest && Array.isArray(digest.categories) ? (
             <div className="space-y-2">
               <p className="text-sm font-medium">
                 Total Stories: {digest.total_stories}
@@ -527,6 +1127,17 @@ export default function Home() {
                 </div>
               </div>
 
+              {schedule.is_active && upcomingRuns(schedule).length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Upcoming runs ({schedule.timezone || 'UTC'})</p>
+                  <ul className="text-xs space-y-0.5">
+                    {upcomingRuns(schedule).map(run => (
+                      <li key={run} className="font-mono">{run}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <button
                 onClick={toggleSchedule}
                 disabled={scheduleLoading}
@@ -545,6 +1156,13 @@ export default function Home() {
                 )}
               </button>
 
+              <ScheduleRunNow
+                scheduleId={schedule.id}
+                agentId={agentId ?? undefined}
+                onDigest={handleRunDigest}
+                onOpenDigest={(stored) => openDigest(stored.id)}
+              />
+
               {/* Run History */}
               {Array.isArray(executionLogs) && executionLogs.length > 0 && (
                 <div className="pt-4 border-t border-border space-y-3">
@@ -580,14 +1198,32 @@ export default function Home() {
           ) : (
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <FiAlertCircle className="w-4 h-4" />
-              <span>Loading schedule information...</span>
+              <span>
+                {registry.loading || scheduleLoading
+                  ? 'Loading schedule information...'
+                  : scheduleId
+                    ? 'Schedule not found'
+                    : 'No schedule for this agent'}
+              </span>
             </div>
           )}
         </div>
 
         {/* News History Section */}
         <div className="border border-border bg-card p-6 space-y-4">
-          <h2 className="font-serif font-bold text-xl tracking-tight">History</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="font-serif font-bold text-xl tracking-tight">History</h2>
+            <a
+              href={agentId ? `/feed.xml?agentId=${encodeURIComponent(agentId)}` : '/feed.xml'}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+              title="Subscribe to the digest archive (RSS 2.0; add ?format=atom or ?format=json for Atom / JSON Feed)"
+            >
+              <Rss className="w-4 h-4" />
+              Feed
+            </a>
+          </div>
+
+          <DigestSearch agentId={agentId ?? undefined} onOpenDigest={(hit) => openDigest(hit.digest_id, hit.category)} />
 
           {/* Category Filter Chips */}
           <div className="flex flex-wrap gap-2">
@@ -616,26 +1252,41 @@ export default function Home() {
                 const filteredCategories = getFilteredCategories(item.data.categories || [])
 
                 return (
-                  <div key={item.id} className="border border-border bg-card">
-                    <button
-                      onClick={() => toggleHistoryItem(item.id)}
-                      className="w-full p-4 flex items-center justify-between hover:bg-muted/30 transition-colors"
-                    >
-                      <div className="text-left">
-                        <p className="font-medium text-sm">{item.date}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {item.data.total_stories || 0} stories
-                        </p>
-                      </div>
-                      {isExpanded ? (
-                        <FiChevronUp className="w-5 h-5 text-muted-foreground" />
-                      ) : (
-                        <FiChevronDown className="w-5 h-5 text-muted-foreground" />
-                      )}
-                    </button>
+                  <div key={item.id} id={`digest-${item.id}`} className="border border-border bg-card scroll-mt-4">
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => toggleHistoryItem(item.id)}
+                        className="flex-1 p-4 flex items-center justify-between hover:bg-muted/30 transition-colors"
+                      >
+                        <div className="text-left">
+                          <p className="font-medium text-sm">{item.digest_date}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.data.total_stories || 0} stories · {item.source === 'scheduled' ? 'Scheduled run' : item.source === 'webhook' ? 'Requested via webhook' : 'Fetched manually'}
+                          </p>
+                        </div>
+                        {isExpanded ? (
+                          <FiChevronUp className="w-5 h-5 text-muted-foreground" />
+                        ) : (
+                          <FiChevronDown className="w-5 h-5 text-muted-foreground" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => removeFromHistory(item.id)}
+                        className="p-4 text-muted-foreground hover:text-destructive hover:bg-muted/30 transition-colors"
+                        aria-label="Delete digest"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
 
                     {isExpanded && (
                       <div className="p-4 border-t border-border space-y-4">
+                        <DigestExportActions digest={item} />
+                        <DigestDeliveryActions
+                          digest={item}
+                          targets={deliveryTargets}
+                          onUpdated={(updated) => setHistory(prev => prev.map(entry => (entry.id === updated.id ? updated : entry)))}
+                        />
                         {filteredCategories.length === 0 ? (
                           <p className="text-sm text-muted-foreground">No stories match selected category filters.</p>
                         ) : (
@@ -650,6 +1301,12 @@ export default function Home() {
                                     key={storyIdx}
                                     story={story}
                                     category={category.category_name}
+                                    feedback={{
+                                      rating: storyFeedback.ratingFor(item.id, story.headline),
+                                      preferences: storyFeedback.preferences,
+                                      onRate: (vote, reasons) => storyFeedback.rate(item.id, category.category_name, story, vote, reasons),
+                                      onClear: () => storyFeedback.clear(item.id, story.headline),
+                                    }}
                                   />
                                 ))}
                               </div>
@@ -663,11 +1320,28 @@ export default function Home() {
               })
             )}
           </div>
+
+          {history.length < historyTotal && (
+            <button
+              onClick={() => loadHistory(history.length)}
+              disabled={historyLoading}
+              className="w-full py-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50 text-sm"
+            >
+              {historyLoading ? 'Loading...' : `Load more (${historyTotal - history.length} remaining)`}
+            </button>
+          )}
         </div>
       </main>
 
       {/* Settings Modal */}
-      <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+      <SettingsModal
+        isOpen={settingsOpen}
+        onClose={() => setSettingsOpen(false)}
+        agentId={agentId}
+        schedule={schedule}
+        onScheduleSaved={handleScheduleSaved}
+        feedbackPreferences={storyFeedback.preferences}
+      />
     </div>
   )
 }
@@ -0,0 +1,730 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Plus, RefreshCw, Pause, Play, Trash2, X, ChevronLeft, ChevronRight, Check, AlertCircle, History, Loader2, Webhook, Send } from 'lucide-react'
+import { useScheduler, cronToHuman, getMissedRuns, runCatchUp, setCatchUpPolicy, type Schedule } from '@/lib/scheduler'
+import { CATCH_UP_POLICIES, CATCH_UP_POLICY_LABELS, type CatchUpPolicy, type CatchUpRecord } from '@/lib/catchUp'
+import { nextRuns, formatRunTime, isValidTimeZone, validateCron } from '@/lib/cron'
+import { fetchRegistry, saveRegistryEntry, removeRegistryEntry } from '@/lib/registryClient'
+import type { RegistryAgent } from '@/lib/registry'
+import { DEFAULT_DIGEST_MESSAGE } from '@/lib/curatorPrompt'
+import { ScheduleBuilder } from '@/components/ScheduleBuilder'
+import { ScheduleRunNow } from '@/components/ScheduleRunNow'
+
+const PAGE_SIZE = 20
+const LOGS_PAGE_SIZE = 10
+
+const TIMEZONES = ['UTC', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Kolkata', 'Asia/Tokyo']
+
+const inputClass = 'px-3 py-2 bg-input border border-border text-foreground text-sm focus:outline-none focus:ring-1 focus:ring-ring'
+
+type ActiveFilter = 'all' | 'active' | 'paused'
+
+function formatDate(iso?: string | null): string {
+  if (!iso) return '—'
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? iso : date.toLocaleString()
+}
+
+function ActiveBadge({ active }: { active: boolean }) {
+  return (
+    <span className={`inline-block px-2 py-0.5 text-xs font-medium ${active ? 'bg-accent text-accent-foreground' : 'bg-muted text-muted-foreground'}`}>
+      {active ? 'Active' : 'Paused'}
+    </span>
+  )
+}
+
+function Pager({ skip, limit, total, onPage, disabled }: {
+  skip: number
+  limit: number
+  total: number
+  onPage: (skip: number) => void
+  disabled?: boolean
+}) {
+  if (total <= limit) return null
+  return (
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <span>{skip + 1}–{Math.min(skip + limit, total)} of {total}</span>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onPage(Math.max(0, skip - limit))}
+          disabled={disabled || skip === 0}
+          className="p-1 hover:bg-muted disabled:opacity-40"
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onPage(skip + limit)}
+          disabled={disabled || skip + limit >= total}
+          className="p-1 hover:bg-muted disabled:opacity-40"
+          aria-label="Next page"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Create form
+// ---------------------------------------------------------------------------
+
+function CreateScheduleForm({ agents, defaultAgentId, onCreated, onCancel }: {
+  agents: RegistryAgent[]
+  defaultAgentId?: string
+  onCreated: (schedule: Schedule) => Promise<void>
+  onCancel: () => void
+}) {
+  const { create, loading, error } = useScheduler()
+  const [agentId, setAgentId] = useState(defaultAgentId || agents[0]?.agent_id || '')
+  const [name, setName] = useState('')
+  const [cronExpression, setCronExpression] = useState('0 9 * * *')
+  const [timezone, setTimezone] = useState('UTC')
+  const [message, setMessage] = useState(DEFAULT_DIGEST_MESSAGE)
+  const [maxRetries, setMaxRetries] = useState(3)
+  const [retryDelay, setRetryDelay] = useState(300)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setFormError(null)
+    const cron = validateCron(cronExpression)
+    if (!agentId.trim()) return setFormError('Agent is required')
+    if (!cron.valid) return setFormError(`Invalid schedule: ${cron.error}`)
+    if (!isValidTimeZone(timezone)) return setFormError(`Unknown timezone "${timezone}"`)
+    if (!message.trim()) return setFormError('Message is required')
+
+    const result = await create({
+      agent_id: agentId.trim(),
+      cron_expression: cronExpression.trim().replace(/\s+/g, ' '),
+      timezone,
+      message: message.trim(),
+      max_retries: maxRetries,
+      retry_delay: retryDelay,
+    })
+    if (result.success && result.schedule) {
+      // Register it so the digest page can switch to it
+      await saveRegistryEntry({
+        type: 'schedule',
+        schedule_id: result.schedule.id,
+        agent_id: result.schedule.agent_id,
+        name: name.trim() || undefined,
+        cron_expression: result.schedule.cron_expression,
+        timezone: result.schedule.timezone,
+        message: result.schedule.message,
+      })
+      await onCreated(result.schedule)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-border bg-card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-serif font-bold text-xl tracking-tight">New Schedule</h2>
+        <button type="button" onClick={onCancel} className="p-2 hover:bg-muted" aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Agent</label>
+          <input
+            list="schedule-agents"
+            value={agentId}
+            onChange={(e) => setAgentId(e.target.value)}
+            placeholder="Agent ID"
+            className={`${inputClass} w-full`}
+          />
+          <datalist id="schedule-agents">
+            {agents.map(agent => (
+              <option key={agent.agent_id} value={agent.agent_id}>{agent.name}</option>
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Name <span className="text-muted-foreground font-normal">(optional)</span></label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Morning digest"
+            className={`${inputClass} w-full`}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Timezone</label>
+        <input
+          list="schedule-timezones"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          className={`${inputClass} w-full md:w-1/2`}
+        />
+        <datalist id="schedule-timezones">
+          {TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+        </datalist>
+      </div>
+
+      <ScheduleBuilder
+        value={cronExpression}
+        onChange={setCronExpression}
+        timezone={isValidTimeZone(timezone) ? timezone : 'UTC'}
+      />
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Message</label>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={3}
+          className={`${inputClass} w-full`}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Max retries</label>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={maxRetries}
+            onChange={(e) => setMaxRetries(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Retry delay (seconds)</label>
+          <input
+            type="number"
+            min={0}
+            value={retryDelay}
+            onChange={(e) => setRetryDelay(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+      </div>
+
+      {(formError || error) && (
+        <p className="text-sm text-destructive flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" />
+          {formError || error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full py-3 bg-primary text-primary-foreground font-medium hover:bg-primary/90 disabled:opacity-50"
+      >
+        {loading ? 'Creating...' : 'Create Schedule'}
+      </button>
+    </form>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Detail view
+// ---------------------------------------------------------------------------
+
+function MissedRuns({ schedule }: { schedule: Schedule }) {
+  const [policy, setPolicy] = useState<CatchUpPolicy | null>(null)
+  const [missed, setMissed] = useState<string[]>([])
+  const [history, setHistory] = useState<CatchUpRecord[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const status = await getMissedRuns(schedule.id)
+    if (!status.success) {
+      setError(status.error || 'Failed to check for missed runs')
+      return
+    }
+    setError(null)
+    setPolicy(status.policies?.[schedule.id] || status.default_policy || 'skip')
+    setMissed(status.schedules.find(s => s.schedule_id === schedule.id)?.missed || [])
+    setHistory(status.history || [])
+  }, [schedule.id])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handlePolicy = async (next: CatchUpPolicy) => {
+    const previous = policy
+    setPolicy(next)
+    const result = await setCatchUpPolicy(schedule.id, next)
+    if (!result.success) {
+      setPolicy(previous)
+      setError(result.error || 'Failed to save catch-up policy')
+    }
+  }
+
+  const handleCatchUp = async () => {
+    setBusy(true)
+    const report = await runCatchUp(schedule.id)
+    if (!report.success) setError(report.error || 'Catch-up failed')
+    await load()
+    setBusy(false)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Missed Runs</h3>
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-xs text-muted-foreground">Catch-up policy</span>
+          <select
+            value={policy ?? ''}
+            onChange={(e) => handlePolicy(e.target.value as CatchUpPolicy)}
+            disabled={policy === null}
+            className={inputClass}
+          >
+            {CATCH_UP_POLICIES.map(p => (
+              <option key={p} value={p}>{CATCH_UP_POLICY_LABELS[p]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {missed.length > 0 ? (
+        <div className="border border-destructive/40 p-3 text-sm space-y-2">
+          <p>
+            {missed.length} fire time{missed.length === 1 ? '' : 's'} without a run:
+            <span className="font-mono text-xs"> {missed.map(t => formatRunTime(new Date(t), schedule.timezone)).join(', ')}</span>
+          </p>
+          <button
+            onClick={handleCatchUp}
+            disabled={busy}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground hover:bg-secondary/80 flex items-center gap-2 text-xs disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <History className="w-3 h-3" />}
+            Apply policy now
+          </button>
+        </div>
+      ) : (
+        policy !== null && <p className="text-sm text-muted-foreground">No missed runs.</p>
+      )}
+
+      {history.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {history.slice(0, 5).map(record => (
+            <li key={record.id} className="flex items-start gap-2">
+              {record.outcome === 'failed'
+                ? <AlertCircle className="w-3 h-3 mt-0.5 text-destructive shrink-0" />
+                : <History className="w-3 h-3 mt-0.5 text-muted-foreground shrink-0" />}
+              <span>
+                <span className="text-muted-foreground">{formatDate(record.detected_at)} · </span>
+                {record.reason}
+                {record.error && <span className="text-destructive"> {record.error}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function ScheduleDetail({ schedule, agentName, onClose, onToggle, onDelete }: {
+  schedule: Schedule
+  agentName?: string
+  onClose: () => void
+  onToggle: () => void
+  onDelete: () => void
+}) {
+  const { logs, logsTotal, fetchLogs, loading, error } = useScheduler()
+  const [logsSkip, setLogsSkip] = useState(0)
+  const [expandedLog, setExpandedLog] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLogsSkip(0)
+    fetchLogs(schedule.id, { skip: 0, limit: LOGS_PAGE_SIZE })
+  }, [schedule.id, fetchLogs])
+
+  const loadLogs = (skip: number) => {
+    setLogsSkip(skip)
+    fetchLogs(schedule.id, { skip, limit: LOGS_PAGE_SIZE })
+  }
+
+  let upcoming: string[] = []
+  if (schedule.is_active) {
+    try {
+      upcoming = nextRuns(schedule.cron_expression, { timezone: schedule.timezone, count: 3 })
+        .map(date => formatRunTime(date, schedule.timezone))
+    } catch {
+      upcoming = []
+    }
+  }
+
+  return (
+    <div className="border border-border bg-card p-6 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h2 className="font-serif font-bold text-xl tracking-tight">{cronToHuman(schedule.cron_expression)}</h2>
+            <ActiveBadge active={schedule.is_active} />
+          </div>
+          <p className="text-xs text-muted-foreground font-mono">{schedule.id}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-muted" aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <dt className="text-xs text-muted-foreground">Agent</dt>
+          <dd className="font-medium">{agentName || schedule.agent_id}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Cron</dt>
+          <dd className="font-mono">{schedule.cron_expression} <span className="text-muted-foreground">({schedule.timezone})</span></dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Retries</dt>
+          <dd>{schedule.max_retries} × {schedule.retry_delay}s</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Next run</dt>
+          <dd>{formatDate(schedule.next_run_time)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Last run</dt>
+          <dd className="flex items-center gap-1">
+            {formatDate(schedule.last_run_at)}
+            {schedule.last_run_success === true && <Check className="w-3 h-3 text-accent" />}
+            {schedule.last_run_success === false && <AlertCircle className="w-3 h-3 text-destructive" />}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Created</dt>
+          <dd>{formatDate(schedule.created_at)}</dd>
+        </div>
+      </dl>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Message</p>
+        <p className="text-sm whitespace-pre-wrap bg-muted p-3">{schedule.message}</p>
+      </div>
+
+      {upcoming.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Upcoming runs ({schedule.timezone})</p>
+          <ul className="text-xs font-mono space-y-0.5">
+            {upcoming.map(run => <li key={run}>{run}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={onToggle}
+          className="px-4 py-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 flex items-center gap-2 text-sm"
+        >
+          {schedule.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          {schedule.is_active ? 'Pause' : 'Resume'}
+        </button>
+        <button
+          onClick={onDelete}
+          className="px-4 py-2 bg-destructive text-destructive-foreground hover:bg-destructive/90 flex items-center gap-2 text-sm"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+      </div>
+
+      <ScheduleRunNow scheduleId={schedule.id} agentId={schedule.agent_id} onDigest={() => loadLogs(0)} />
+
+      <MissedRuns schedule={schedule} />
+
+      {/* Execution logs */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Execution Logs</h3>
+          <button
+            onClick={() => loadLogs(logsSkip)}
+            disabled={loading}
+            className="p-1 hover:bg-muted disabled:opacity-50"
+            aria-label="Refresh logs"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!loading && !error && logs.length === 0 && (
+          <p className="text-sm text-muted-foreground">No executions yet.</p>
+        )}
+
+        <div className="space-y-2">
+          {logs.map(log => (
+            <div key={log.id} className="border border-border p-3 text-sm space-y-1">
+              <button
+                onClick={() => setExpandedLog(expandedLog === log.id ? null : log.id)}
+                className="w-full flex items-center justify-between gap-3 text-left"
+              >
+                <span className="flex items-center gap-2">
+                  {log.success
+                    ? <Check className="w-4 h-4 text-accent" />
+                    : <AlertCircle className="w-4 h-4 text-destructive" />}
+                  {formatDate(log.executed_at)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  attempt {log.attempt}/{log.max_attempts} · HTTP {log.response_status}
+                </span>
+              </button>
+              {log.error_message && <p className="text-xs text-destructive">{log.error_message}</p>}
+              {expandedLog === log.id && log.response_output && (
+                <pre className="text-xs bg-muted p-2 whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+                  {log.response_output}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Pager skip={logsSkip} limit={LOGS_PAGE_SIZE} total={logsTotal} onPage={loadLogs} disabled={loading} />
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function SchedulesPage() {
+  const scheduler = useScheduler()
+  const [agents, setAgents] = useState<RegistryAgent[]>([])
+  const [agentFilter, setAgentFilter] = useState('')
+  const [activeFilter, setActiveFilter] = useState<ActiveFilter>('all')
+  const [skip, setSkip] = useState(0)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [detailId, setDetailId] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const agentName = (id: string) => agents.find(a => a.agent_id === id)?.name
+
+  const { fetchSchedules } = scheduler
+  const load = useCallback((nextSkip: number) => {
+    setSkip(nextSkip)
+    setSelected(new Set())
+    return fetchSchedules({
+      agentId: agentFilter || undefined,
+      is_active: activeFilter === 'all' ? undefined : activeFilter === 'active',
+      skip: nextSkip,
+      limit: PAGE_SIZE,
+    })
+  }, [agentFilter, activeFilter, fetchSchedules])
+
+  useEffect(() => {
+    fetchRegistry().then(result => {
+      if (result.success) setAgents(result.agents)
+    })
+  }, [])
+
+  useEffect(() => {
+    load(0)
+  }, [load])
+
+  const allOnPage = scheduler.schedules.length > 0 && scheduler.schedules.every(s => selected.has(s.id))
+  const detail = scheduler.schedules.find(s => s.id === detailId) || null
+
+  function toggleSelected(id: string) {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  async function runBulk(action: 'pause' | 'resume' | 'delete', ids: string[]) {
+    if (ids.length === 0) return
+    if (action === 'delete' && !window.confirm(`Delete ${ids.length} schedule${ids.length === 1 ? '' : 's'}? This cannot be undone.`)) return
+    setNotice(null)
+    const outcome = await scheduler.bulk(action, ids)
+    if (action === 'delete') {
+      await Promise.all(outcome.succeeded.map(id => removeRegistryEntry('schedule', id)))
+      if (detailId && outcome.succeeded.includes(detailId)) setDetailId(null)
+    }
+    setSelected(prev => new Set(Array.from(prev).filter(id => !outcome.succeeded.includes(id))))
+    if (outcome.succeeded.length) {
+      const verb = action === 'pause' ? 'Paused' : action === 'resume' ? 'Resumed' : 'Deleted'
+      setNotice(`${verb} ${outcome.succeeded.length} schedule${outcome.succeeded.length === 1 ? '' : 's'}`)
+    }
+    // Deleting shrinks the page, and a status filter may no longer match the rows
+    if (action === 'delete' || activeFilter !== 'all') {
+      const emptied = action === 'delete' && outcome.succeeded.length >= scheduler.schedules.length
+      await load(emptied ? Math.max(0, skip - PAGE_SIZE) : skip)
+    }
+  }
+
+  async function handleCreated(schedule: Schedule) {
+    setCreating(false)
+    setNotice(`Created schedule ${schedule.id}`)
+    await load(0)
+    setDetailId(schedule.id)
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 border-b border-border bg-background z-40">
+        <div className="mx-auto max-w-5xl px-4 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 hover:bg-muted" aria-label="Back to digest">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="font-serif font-bold text-3xl tracking-tight">Schedules</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/webhooks"
+              className="px-4 py-2 border border-border hover:bg-muted flex items-center gap-2 text-sm"
+            >
+              <Webhook className="w-4 h-4" />
+              Webhooks
+            </Link>
+            <Link
+              href="/delivery"
+              className="px-4 py-2 border border-border hover:bg-muted flex items-center gap-2 text-sm"
+            >
+              <Send className="w-4 h-4" />
+              Delivery
+            </Link>
+            <button
+              onClick={() => setCreating(true)}
+              className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-2 text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              New schedule
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-8 space-y-6">
+        {creating && (
+          <CreateScheduleForm
+            agents={agents}
+            defaultAgentId={agentFilter || undefined}
+            onCreated={handleCreated}
+            onCancel={() => setCreating(false)}
+          />
+        )}
+
+        {detail && (
+          <ScheduleDetail
+            schedule={detail}
+            agentName={agentName(detail.agent_id)}
+            onClose={() => setDetailId(null)}
+            onToggle={() => scheduler.toggleSchedule(detail)}
+            onDelete={() => runBulk('delete', [detail.id])}
+          />
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground uppercase tracking-wide">Agent</span>
+            <select value={agentFilter} onChange={(e) => setAgentFilter(e.target.value)} className={inputClass}>
+              <option value="">All agents</option>
+              {agents.map(agent => (
+                <option key={agent.agent_id} value={agent.agent_id}>{agent.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground uppercase tracking-wide">Status</span>
+            <select value={activeFilter} onChange={(e) => setActiveFilter(e.target.value as ActiveFilter)} className={inputClass}>
+              <option value="all">All</option>
+              <option value="active">Active</option>
+              <option value="paused">Paused</option>
+            </select>
+          </label>
+          <button
+            onClick={() => load(skip)}
+            disabled={scheduler.loading}
+            className="p-2 hover:bg-muted disabled:opacity-50"
+            aria-label="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${scheduler.loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {/* Bulk actions */}
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 bg-muted p-3 text-sm">
+            <span className="mr-2">{selected.size} selected</span>
+            <button onClick={() => runBulk('pause', Array.from(selected))} disabled={scheduler.loading} className="px-3 py-1 bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50 flex items-center gap-1">
+              <Pause className="w-3 h-3" /> Pause
+            </button>
+            <button onClick={() => runBulk('resume', Array.from(selected))} disabled={scheduler.loading} className="px-3 py-1 bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50 flex items-center gap-1">
+              <Play className="w-3 h-3" /> Resume
+            </button>
+            <button onClick={() => runBulk('delete', Array.from(selected))} disabled={scheduler.loading} className="px-3 py-1 bg-destructive text-destructive-foreground hover:bg-destructive/90 disabled:opacity-50 flex items-center gap-1">
+              <Trash2 className="w-3 h-3" /> Delete
+            </button>
+            <button onClick={() => setSelected(new Set())} className="ml-auto text-xs text-muted-foreground hover:text-foreground">
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {notice && <p className="text-sm text-accent flex items-center gap-1"><Check className="w-4 h-4" />{notice}</p>}
+        {scheduler.error && <p className="text-sm text-destructive flex items-center gap-1"><AlertCircle className="w-4 h-4" />{scheduler.error}</p>}
+
+        {/* List */}
+        <div className="border border-border">
+          <div className="flex items-center gap-3 px-4 py-2 border-b border-border bg-muted/50 text-xs text-muted-foreground uppercase tracking-wide">
+            <input
+              type="checkbox"
+              checked={allOnPage}
+              onChange={() => setSelected(allOnPage ? new Set() : new Set(scheduler.schedules.map(s => s.id)))}
+              aria-label="Select all on page"
+            />
+            <span className="flex-1">Schedule</span>
+            <span className="w-40 hidden md:block">Agent</span>
+            <span className="w-40 hidden md:block">Next run</span>
+            <span className="w-16">Status</span>
+          </div>
+
+          {!scheduler.loading && scheduler.schedules.length === 0 && (
+            <p className="px-4 py-8 text-sm text-muted-foreground text-center">No schedules match these filters.</p>
+          )}
+
+          {scheduler.schedules.map(schedule => (
+            <div
+              key={schedule.id}
+              className={`flex items-center gap-3 px-4 py-3 border-b border-border last:border-b-0 text-sm ${detailId === schedule.id ? 'bg-muted' : 'hover:bg-muted/50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(schedule.id)}
+                onChange={() => toggleSelected(schedule.id)}
+                aria-label={`Select schedule ${schedule.id}`}
+              />
+              <button onClick={() => setDetailId(schedule.id)} className="flex-1 text-left min-w-0">
+                <span className="block font-medium truncate">{cronToHuman(schedule.cron_expression)}</span>
+                <span className="block text-xs text-muted-foreground truncate">{schedule.message}</span>
+              </button>
+              <span className="w-40 hidden md:block truncate text-xs">{agentName(schedule.agent_id) || schedule.agent_id}</span>
+              <span className="w-40 hidden md:block text-xs text-muted-foreground">{schedule.is_active ? formatDate(schedule.next_run_time) : '—'}</span>
+              <span className="w-16"><ActiveBadge active={schedule.is_active} /></span>
+            </div>
+          ))}
+        </div>
+
+        <Pager skip={skip} limit={PAGE_SIZE} total={scheduler.total} onPage={(next) => load(next)} disabled={scheduler.loading} />
+      </main>
+    </div>
+  )
+}
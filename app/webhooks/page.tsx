@@ -0,0 +1,388 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, AlertCircle, Check, Copy, Loader2, Plus, RefreshCw, Send, Trash2, X } from 'lucide-react'
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhooks,
+  sendWebhookTestPayload,
+  setWebhookActive,
+  type Webhook,
+} from '@/lib/scheduler'
+import { fetchRegistry } from '@/lib/registryClient'
+import type { RegistryAgent } from '@/lib/registry'
+import { DEFAULT_DIGEST_MESSAGE } from '@/lib/curatorPrompt'
+
+const inputClass = 'px-3 py-2 bg-input border border-border text-foreground text-sm focus:outline-none focus:ring-1 focus:ring-ring'
+
+/** Agent runs take a while; counters are re-read this long after a test payload */
+const TEST_REFRESH_DELAY_MS = 5000
+
+function formatDate(iso?: string | null): string {
+  if (!iso) return '—'
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? iso : date.toLocaleString()
+}
+
+function LastTriggerBadge({ webhook }: { webhook: Webhook }) {
+  if (!webhook.last_triggered_at) return <span className="text-xs text-muted-foreground">Never triggered</span>
+  const label = webhook.last_trigger_success === null ? 'Running' : webhook.last_trigger_success ? 'Succeeded' : 'Failed'
+  const tone = webhook.last_trigger_success === false
+    ? 'bg-destructive text-destructive-foreground'
+    : webhook.last_trigger_success ? 'bg-accent text-accent-foreground' : 'bg-muted text-muted-foreground'
+  return <span className={`inline-block px-2 py-0.5 text-xs font-medium ${tone}`}>{label}</span>
+}
+
+// ---------------------------------------------------------------------------
+// Create form
+// ---------------------------------------------------------------------------
+
+function CreateWebhookForm({ agents, defaultAgentId, onCreated, onCancel }: {
+  agents: RegistryAgent[]
+  defaultAgentId?: string
+  onCreated: (webhook: Webhook) => void
+  onCancel: () => void
+}) {
+  const [agentId, setAgentId] = useState(defaultAgentId || agents[0]?.agent_id || '')
+  const [description, setDescription] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    if (!agentId) {
+      setError('Choose an agent')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    const result = await createWebhook({ agent_id: agentId, description })
+    setSaving(false)
+    if (!result.success || !result.webhook) {
+      setError(result.error || 'Failed to create webhook')
+      return
+    }
+    onCreated(result.webhook)
+  }
+
+  return (
+    <div className="border border-border bg-card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-serif font-bold text-xl tracking-tight">New Webhook</h2>
+        <button onClick={onCancel} className="p-1 hover:bg-muted" aria-label="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="space-y-1">
+          <span className="block text-sm font-medium">Agent</span>
+          <select value={agentId} onChange={(e) => setAgentId(e.target.value)} className={`${inputClass} w-full`}>
+            {agents.length === 0 && <option value="">No agents registered</option>}
+            {agents.map(agent => (
+              <option key={agent.agent_id} value={agent.agent_id}>{agent.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-sm font-medium">Description</span>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Breaking-news digest from the CMS"
+            className={`${inputClass} w-full`}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 border border-border hover:bg-muted text-sm">Cancel</button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !agentId}
+          className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-2 text-sm disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Create webhook
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Webhook card
+// ---------------------------------------------------------------------------
+
+function WebhookCard({ webhook, agentName, onChanged, onRefresh, onDeleted }: {
+  webhook: Webhook
+  agentName?: string
+  onChanged: (webhook: Webhook) => void
+  /** Re-read webhooks from the scheduler (counters change after a trigger) */
+  onRefresh: () => void
+  onDeleted: () => void
+}) {
+  const [busy, setBusy] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [testOpen, setTestOpen] = useState(false)
+  const [payload, setPayload] = useState(() => JSON.stringify({ message: DEFAULT_DIGEST_MESSAGE }, null, 2))
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(webhook.webhook_url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      setError('Could not copy to the clipboard')
+    }
+  }
+
+  const handleToggle = async () => {
+    setBusy(true)
+    setError(null)
+    const result = await setWebhookActive(webhook.id, !webhook.is_active)
+    setBusy(false)
+    if (!result.success || !result.webhook) setError(result.error || 'Failed to update webhook')
+    else onChanged(result.webhook)
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this webhook? External systems calling it will start getting errors.')) return
+    setBusy(true)
+    const result = await deleteWebhook(webhook.id)
+    setBusy(false)
+    if (!result.success) setError(result.error || 'Failed to delete webhook')
+    else onDeleted()
+  }
+
+  const handleTest = async () => {
+    let parsed: Record<string, unknown>
+    try {
+      parsed = JSON.parse(payload)
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error()
+    } catch {
+      setError('Payload must be a JSON object')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    const result = await sendWebhookTestPayload(webhook.id, parsed)
+    setBusy(false)
+    if (!result.success) {
+      setError(result.error || 'Failed to send test payload')
+      return
+    }
+    setNotice('Test payload sent; the agent is running.')
+    setTestOpen(false)
+    onRefresh()
+    setTimeout(onRefresh, TEST_REFRESH_DELAY_MS)
+  }
+
+  return (
+    <div className="border border-border bg-card p-5 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{webhook.description || 'Untitled webhook'}</p>
+          <p className="text-xs text-muted-foreground truncate">{agentName || webhook.agent_id}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={webhook.is_active} onChange={handleToggle} disabled={busy} />
+            Active
+          </label>
+          <button
+            onClick={() => setTestOpen(open => !open)}
+            disabled={busy || !webhook.is_active}
+            className="p-2 hover:bg-muted disabled:opacity-40"
+            aria-label="Send test payload"
+            title={webhook.is_active ? 'Send test payload' : 'Activate to test this webhook'}
+          >
+            <Send className="w-4 h-4" />
+          </button>
+          <button onClick={handleDelete} disabled={busy} className="p-2 hover:bg-muted disabled:opacity-40" aria-label="Delete webhook">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <code className="flex-1 min-w-0 truncate bg-muted px-3 py-2 text-xs">{webhook.webhook_url}</code>
+        <button onClick={handleCopy} className="p-2 hover:bg-muted" aria-label="Copy webhook URL">
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <dt className="text-xs text-muted-foreground uppercase tracking-wide">Triggers</dt>
+          <dd>{webhook.trigger_count}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground uppercase tracking-wide">Last triggered</dt>
+          <dd>{formatDate(webhook.last_triggered_at)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground uppercase tracking-wide">Last result</dt>
+          <dd><LastTriggerBadge webhook={webhook} /></dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground uppercase tracking-wide">Created</dt>
+          <dd>{formatDate(webhook.created_at)}</dd>
+        </div>
+      </dl>
+
+      {testOpen && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium" htmlFor={`payload-${webhook.id}`}>Test payload</label>
+          <textarea
+            id={`payload-${webhook.id}`}
+            value={payload}
+            onChange={(e) => setPayload(e.target.value)}
+            rows={4}
+            className={`${inputClass} w-full font-mono text-xs`}
+          />
+          <p className="text-xs text-muted-foreground">
+            The payload&apos;s <code>message</code> is sent to the agent, exactly as when an external system calls the URL above.
+          </p>
+          <div className="flex justify-end">
+            <button
+              onClick={handleTest}
+              disabled={busy}
+              className="px-3 py-1.5 bg-secondary text-secondary-foreground hover:bg-secondary/80 flex items-center gap-2 text-xs disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+              Send test payload
+            </button>
+          </div>
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-accent flex items-center gap-1"><Check className="w-4 h-4" />{notice}</p>}
+      {error && <p className="text-sm text-destructive flex items-center gap-1"><AlertCircle className="w-4 h-4" />{error}</p>}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function WebhooksPage() {
+  const [agents, setAgents] = useState<RegistryAgent[]>([])
+  const [agentFilter, setAgentFilter] = useState('')
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+
+  const agentName = (id: string) => agents.find(a => a.agent_id === id)?.name
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const result = await listWebhooks({ agentId: agentFilter || undefined })
+    setLoading(false)
+    if (!result.success) {
+      setError(result.error || 'Failed to load webhooks')
+      return
+    }
+    setError(null)
+    setWebhooks(result.webhooks)
+  }, [agentFilter])
+
+  useEffect(() => {
+    fetchRegistry().then(result => {
+      if (result.success) setAgents(result.agents)
+    })
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  function handleCreated(webhook: Webhook) {
+    setCreating(false)
+    setWebhooks(prev => [...prev, webhook])
+  }
+
+  function handleChanged(webhook: Webhook) {
+    setWebhooks(prev => prev.map(w => (w.id === webhook.id ? webhook : w)))
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 border-b border-border bg-background z-40">
+        <div className="mx-auto max-w-5xl px-4 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/schedules" className="p-2 hover:bg-muted" aria-label="Back to schedules">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="font-serif font-bold text-3xl tracking-tight">Webhooks</h1>
+          </div>
+          <button
+            onClick={() => setCreating(true)}
+            className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            New webhook
+          </button>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-8 space-y-6">
+        <p className="text-sm text-muted-foreground">
+          External systems can start a digest on demand by POSTing JSON such as{' '}
+          <code className="bg-muted px-1">{`{"message": "..."}`}</code> to a webhook URL.
+        </p>
+
+        {creating && (
+          <CreateWebhookForm
+            agents={agents}
+            defaultAgentId={agentFilter || undefined}
+            onCreated={handleCreated}
+            onCancel={() => setCreating(false)}
+          />
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground uppercase tracking-wide">Agent</span>
+            <select value={agentFilter} onChange={(e) => setAgentFilter(e.target.value)} className={inputClass}>
+              <option value="">All agents</option>
+              {agents.map(agent => (
+                <option key={agent.agent_id} value={agent.agent_id}>{agent.name}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={load} disabled={loading} className="p-2 hover:bg-muted disabled:opacity-50" aria-label="Refresh">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-destructive flex items-center gap-1"><AlertCircle className="w-4 h-4" />{error}</p>}
+
+        {!loading && !error && webhooks.length === 0 && (
+          <p className="border border-border px-4 py-8 text-sm text-muted-foreground text-center">No webhooks yet.</p>
+        )}
+
+        <div className="space-y-4">
+          {webhooks.map(webhook => (
+            <WebhookCard
+              key={webhook.id}
+              webhook={webhook}
+              agentName={agentName(webhook.agent_id)}
+              onChanged={handleChanged}
+              onRefresh={load}
+              onDeleted={() => setWebhooks(prev => prev.filter(w => w.id !== webhook.id))}
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import * as React from 'react'
+import { Search, X, ArrowRight } from 'lucide-react'
+import { searchDigests } from '@/lib/digests'
+import type { SearchHit, TextRange } from '@/lib/digest'
+import { cn } from '@/lib/utils'
+
+const PAGE_SIZE = 10
+
+interface DigestSearchProps {
+  agentId?: string
+  className?: string
+  onOpenDigest: (hit: SearchHit) => void
+}
+
+function Highlighted({ text, ranges }: { text: string; ranges: TextRange[] }) {
+  if (!text || ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  ranges.forEach((range, idx) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start))
+    parts.push(
+      <mark key={idx} className="bg-accent/30 text-foreground px-0.5">
+        {text.slice(range.start, range.end)}
+      </mark>
+    )
+    cursor = range.end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
+
+export function DigestSearch({ agentId, className, onOpenDigest }: DigestSearchProps) {
+  const [query, setQuery] = React.useState('')
+  const [results, setResults] = React.useState<SearchHit[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [searched, setSearched] = React.useState('')
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const runSearch = async (skip = 0) => {
+    const q = query.trim()
+    if (!q) return
+    setLoading(true)
+    setError(null)
+    const result = await searchDigests(q, { agentId, skip, limit: PAGE_SIZE })
+    if (result.success) {
+      setResults(prev => (skip === 0 ? result.results : [...prev, ...result.results]))
+      setTotal(result.total)
+      setSearched(q)
+    } else {
+      setError(result.error || 'Search failed')
+    }
+    setLoading(false)
+  }
+
+  const clear = () => {
+    setQuery('')
+    setResults([])
+    setTotal(0)
+    setSearched('')
+    setError(null)
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          runSearch()
+        }}
+        className="flex items-center gap-2"
+      >
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Search archive, e.g. "open source" category:research after:2026-01-01'
+            className="w-full pl-9 pr-9 py-2 border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={clear}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={loading || !query.trim()}
+          className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 text-sm"
+        >
+          {loading ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {searched && !error && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {total === 0 ? `No stories match "${searched}"` : `${total} ${total === 1 ? 'story matches' : 'stories match'} "${searched}"`}
+          </p>
+
+          {results.map((hit) => (
+            <div key={`${hit.digest_id}-${hit.category_index}-${hit.story_index}`} className="border border-border p-3 space-y-1">
+              <div className="flex items-start justify-between gap-3">
+                <h4 className="font-serif font-semibold text-sm leading-snug">
+                  <Highlighted text={hit.story.headline} ranges={hit.highlights.headline} />
+                </h4>
+                <button
+                  onClick={() => onOpenDigest(hit)}
+                  className="flex items-center gap-1 text-xs text-accent hover:underline whitespace-nowrap"
+                >
+                  Open digest <ArrowRight className="w-3 h-3" />
+                </button>
+              </div>
+              <p className="text-xs text-muted-foreground leading-relaxed">
+                <Highlighted text={hit.story.summary} ranges={hit.highlights.summary} />
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {hit.category} · <Highlighted text={hit.story.source} ranges={hit.highlights.source} /> · {hit.digest_date}
+              </p>
+            </div>
+          ))}
+
+          {results.length < total && (
+            <button
+              onClick={() => runSearch(results.length)}
+              disabled={loading}
+              className="w-full py-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50 text-sm"
+            >
+              {loading ? 'Loading...' : `More results (${total - results.length} remaining)`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
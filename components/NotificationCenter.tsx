@@ -0,0 +1,97 @@
+'use client'
+
+import * as React from 'react'
+import Link from 'next/link'
+import { Bell, CheckCheck, AlertTriangle, AlertOctagon, Settings2 } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useAlerts } from '@/lib/alertsClient'
+import type { Alert } from '@/lib/alerts'
+import { cn } from '@/lib/utils'
+
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
+
+function AlertItem({ alert, onRead }: { alert: Alert; onRead: (id: string) => void }) {
+  const Icon = alert.severity === 'critical' ? AlertOctagon : AlertTriangle
+  const failedDeliveries = alert.deliveries.filter(d => !d.ok)
+  return (
+    <li
+      className={cn('px-4 py-3 border-b border-border last:border-b-0', !alert.read_at && 'bg-muted/50')}
+      onClick={() => !alert.read_at && onRead(alert.id)}
+    >
+      <div className="flex items-start gap-2">
+        <Icon className={cn('w-4 h-4 mt-0.5 shrink-0', alert.severity === 'critical' ? 'text-destructive' : 'text-amber-600')} />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-baseline justify-between gap-2">
+            <p className="text-sm font-medium truncate">{alert.title}</p>
+            <span className="text-xs text-muted-foreground shrink-0">{timeAgo(alert.created_at)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1 break-words">{alert.message}</p>
+          {failedDeliveries.length > 0 && (
+            <p className="text-xs text-destructive mt-1">
+              Not delivered to {failedDeliveries.map(d => d.channel_id).join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+/** Header bell with the unread alert count and the latest in-app alerts. */
+export function NotificationCenter({ className }: { className?: string }) {
+  const { alerts, unread, error, markRead } = useAlerts({ limit: 20 })
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn('relative p-2 hover:bg-muted transition-colors', className)}
+          aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+        >
+          <Bell className="w-5 h-5" />
+          {unread > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <span className="text-sm font-medium">Alerts</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => markRead()}
+              disabled={unread === 0}
+              className="p-1.5 hover:bg-muted transition-colors disabled:opacity-40"
+              aria-label="Mark all read"
+              title="Mark all read"
+            >
+              <CheckCheck className="w-4 h-4" />
+            </button>
+            <Link href="/alerts" className="p-1.5 hover:bg-muted transition-colors" aria-label="Alert settings" title="Alert settings">
+              <Settings2 className="w-4 h-4" />
+            </Link>
+          </div>
+        </div>
+        {error && <p className="px-4 py-3 text-xs text-destructive">{error}</p>}
+        {alerts.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-center text-muted-foreground">No alerts. Scheduled runs look healthy.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {alerts.map(alert => (
+              <AlertItem key={alert.id} alert={alert} onRead={id => markRead([id])} />
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import * as React from 'react'
+import { CalendarClock, AlertCircle } from 'lucide-react'
+import { cronToHuman, cronToRecurrence, recurrenceToCron, type ScheduleRecurrence } from '@/lib/scheduler'
+import { nextRuns, formatRunTime, validateCron } from '@/lib/cron'
+import { cn } from '@/lib/utils'
+
+const PREVIEW_RUNS = 5
+
+const KIND_OPTIONS: Array<{ value: ScheduleRecurrence['kind']; label: string }> = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Specific weekdays' },
+  { value: 'hourly', label: 'Every N hours' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom cron' },
+]
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const inputClass = 'px-3 py-2 bg-input border border-border text-foreground text-sm focus:outline-none focus:ring-1 focus:ring-ring'
+
+interface ScheduleBuilderProps {
+  /** Current cron expression */
+  value: string
+  onChange: (cron: string) => void
+  /** IANA timezone used for the upcoming-runs preview */
+  timezone?: string
+  className?: string
+}
+
+// Switching kinds keeps the time of day (or minute) the user already picked
+function switchKind(current: ScheduleRecurrence, kind: ScheduleRecurrence['kind']): ScheduleRecurrence {
+  const time = 'time' in current ? current.time : current.kind === 'hourly'
+    ? `09:${String(current.minute).padStart(2, '0')}`
+    : '09:00'
+  switch (kind) {
+    case 'daily':
+    case 'weekdays':
+      return { kind, time }
+    case 'weekly':
+      return { kind, time, days: current.kind === 'weekly' ? current.days : [1] }
+    case 'hourly':
+      return { kind, every: 6, minute: parseInt(time.split(':')[1], 10) || 0 }
+    case 'monthly':
+      return { kind, time, day: 1 }
+    case 'custom':
+      return { kind, cron: recurrenceToCron(current) }
+  }
+}
+
+export function ScheduleBuilder({ value, onChange, timezone = 'UTC', className }: ScheduleBuilderProps) {
+  const [recurrence, setRecurrence] = React.useState<ScheduleRecurrence>(() => cronToRecurrence(value))
+
+  // Follow outside changes (e.g. a schedule loaded after mount)
+  React.useEffect(() => {
+    setRecurrence(current => (value === recurrenceToCron(current) ? current : cronToRecurrence(value)))
+  }, [value])
+
+  const update = (next: ScheduleRecurrence) => {
+    setRecurrence(next)
+    onChange(recurrenceToCron(next))
+  }
+
+  const cron = recurrenceToCron(recurrence)
+  const validation = validateCron(cron)
+  let upcoming: string[] = []
+  if (validation.valid) {
+    try {
+      upcoming = nextRuns(cron, { timezone, count: PREVIEW_RUNS }).map(date => formatRunTime(date, timezone))
+    } catch {
+      upcoming = []
+    }
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Repeat</label>
+          <select
+            value={recurrence.kind}
+            onChange={(e) => update(switchKind(recurrence, e.target.value as ScheduleRecurrence['kind']))}
+            className={cn(inputClass, 'w-full')}
+          >
+            {KIND_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {'time' in recurrence && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Time</label>
+            <input
+              type="time"
+              value={recurrence.time}
+              onChange={(e) => update({ ...recurrence, time: e.target.value || '00:00' })}
+              className={cn(inputClass, 'w-full')}
+            />
+          </div>
+        )}
+
+        {recurrence.kind === 'hourly' && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Every</label>
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="number"
+                min={1}
+                max={23}
+                value={recurrence.every}
+                onChange={(e) => update({ ...recurrence, every: parseInt(e.target.value, 10) || 1 })}
+                className={cn(inputClass, 'w-16')}
+              />
+              <span>hours at minute</span>
+              <input
+                type="number"
+                min={0}
+                max={59}
+                value={recurrence.minute}
+                onChange={(e) => update({ ...recurrence, minute: Math.min(59, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                className={cn(inputClass, 'w-16')}
+              />
+            </div>
+          </div>
+        )}
+
+        {recurrence.kind === 'custom' && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Cron expression</label>
+            <input
+              type="text"
+              value={recurrence.cron}
+              onChange={(e) => update({ kind: 'custom', cron: e.target.value })}
+              placeholder="0 9 * * 1-5"
+              spellCheck={false}
+              className={cn(inputClass, 'w-full font-mono')}
+            />
+          </div>
+        )}
+      </div>
+
+      {recurrence.kind === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((label, day) => {
+            const selected = recurrence.days.includes(day)
+            return (
+              <button
+                key={label}
+                type="button"
+                // At least one day stays selected
+                disabled={selected && recurrence.days.length === 1}
+                onClick={() => update({
+                  ...recurrence,
+                  days: selected ? recurrence.days.filter(d => d !== day) : [...recurrence.days, day],
+                })}
+                className={cn(
+                  'px-3 py-1 text-xs border',
+                  selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-input border-border hover:bg-muted'
+                )}
+              >
+                {label}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {recurrence.kind === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>On day</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={recurrence.day}
+            onChange={(e) => update({ ...recurrence, day: Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            className={cn(inputClass, 'w-16')}
+          />
+          <span>of every month</span>
+        </div>
+      )}
+
+      {validation.valid ? (
+        <div className="border border-border p-3 space-y-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-muted-foreground" />
+            {cronToHuman(cron)}
+            <span className="text-xs text-muted-foreground font-mono">{cron}</span>
+          </p>
+          {upcoming.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Upcoming runs ({timezone})</p>
+              <ul className="text-xs space-y-0.5">
+                {upcoming.map(run => (
+                  <li key={run} className="font-mono">{run}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {validation.error}
+        </p>
+      )}
+    </div>
+  )
+}
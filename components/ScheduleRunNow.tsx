@@ -0,0 +1,179 @@
+'use client'
+
+import * as React from 'react'
+import { Zap, Loader2, Check, AlertCircle, X, ArrowRight } from 'lucide-react'
+import { useScheduleRun, type ScheduleRunProgress } from '@/lib/scheduler'
+import { syncScheduledDigests, listDigests } from '@/lib/digests'
+import type { StoredDigest } from '@/lib/digest'
+import { cn } from '@/lib/utils'
+
+interface ScheduleRunNowProps {
+  scheduleId: string
+  agentId?: string
+  className?: string
+  /** Called once the run's digest is archived (e.g. to refresh history) */
+  onDigest?: (digest: StoredDigest) => void
+  onOpenDigest?: (digest: StoredDigest) => void
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function phaseText(progress: ScheduleRunProgress): string {
+  const attempt = progress.attempt !== null ? `attempt ${progress.attempt}/${progress.max_attempts}` : ''
+  switch (progress.phase) {
+    case 'triggering':
+      return 'Triggering run...'
+    case 'waiting':
+      return 'Waiting for the agent to finish...'
+    case 'retrying':
+      return `${attempt} failed, waiting for the scheduler to retry...`
+    case 'succeeded':
+      return `Run succeeded${attempt ? ` on ${attempt}` : ''}`
+    case 'failed':
+      return `Run failed${attempt ? ` on ${attempt}` : ''}`
+    case 'timeout':
+      return 'Stopped waiting; the run may still finish later'
+    case 'cancelled':
+      return 'Stopped tracking this run'
+  }
+}
+
+// Earlier attempts failed (or the run would have stopped there)
+function attemptBarClass(progress: ScheduleRunProgress, attempt: number): string {
+  if (progress.attempt === null || attempt > progress.attempt) return 'bg-muted'
+  if (attempt < progress.attempt) return 'bg-destructive/60'
+  if (progress.phase === 'succeeded') return 'bg-accent'
+  if (progress.phase === 'retrying' || progress.phase === 'failed') return 'bg-destructive/60'
+  return 'bg-primary'
+}
+
+// Archive the finished run and find the digest it produced
+async function resolveRunDigest(scheduleId: string, executionId: string, agentId?: string) {
+  const ingest = await syncScheduledDigests({ scheduleId })
+  const invalid = ingest.invalid.find(entry => entry.execution_id === executionId)
+  if (invalid) return { error: `Output is not a valid digest: ${invalid.errors.join('; ')}` }
+
+  const recent = await listDigests({ agentId, source: 'scheduled', limit: 20 })
+  const digest = recent.digests.find(d => d.execution_id === executionId)
+  return digest ? { digest } : { error: ingest.error || 'The run finished but no digest was archived' }
+}
+
+export function ScheduleRunNow({ scheduleId, agentId, className, onDigest, onOpenDigest }: ScheduleRunNowProps) {
+  const { progress, running, run, cancel, reset } = useScheduleRun()
+  const [digest, setDigest] = React.useState<StoredDigest | null>(null)
+  const [digestError, setDigestError] = React.useState<string | null>(null)
+
+  // A different schedule starts from a clean slate
+  React.useEffect(() => {
+    reset()
+    setDigest(null)
+    setDigestError(null)
+  }, [scheduleId, reset])
+
+  async function handleRun() {
+    setDigest(null)
+    setDigestError(null)
+    const result = await run(scheduleId, { agentId })
+    if (result.phase !== 'succeeded' || !result.log) return
+
+    const resolved = await resolveRunDigest(scheduleId, result.log.id, agentId)
+    if (resolved.digest) {
+      setDigest(resolved.digest)
+      onDigest?.(resolved.digest)
+    } else {
+      setDigestError(resolved.error || null)
+    }
+  }
+
+  const finished = progress && !running
+  const failed = progress && ['failed', 'timeout'].includes(progress.phase)
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleRun}
+          disabled={running}
+          className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Zap className="w-4 h-4" />}
+          {running ? 'Running...' : 'Run Now'}
+        </button>
+        {running && (
+          <button onClick={cancel} className="px-3 py-2 text-xs text-muted-foreground hover:text-foreground">
+            Stop tracking
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className={cn('border p-3 space-y-2 text-sm', failed ? 'border-destructive/50' : 'border-border')}>
+          <div className="flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2">
+              {running && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+              {progress.phase === 'succeeded' && <Check className="w-4 h-4 text-accent" />}
+              {failed && <AlertCircle className="w-4 h-4 text-destructive" />}
+              {phaseText(progress)}
+            </span>
+            <span className="flex items-center gap-2 text-xs text-muted-foreground">
+              {formatElapsed(progress.elapsed_ms)}
+              {finished && (
+                <button onClick={reset} className="hover:text-foreground" aria-label="Dismiss">
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          </div>
+
+          {progress.attempt !== null && progress.max_attempts !== null && (
+            <div className="flex gap-1" aria-label={`Attempt ${progress.attempt} of ${progress.max_attempts}`}>
+              {Array.from({ length: progress.max_attempts }, (_, i) => (
+                <div
+                  key={i}
+                  className={cn('h-1 flex-1', attemptBarClass(progress, i + 1))}
+                />
+              ))}
+            </div>
+          )}
+
+          {progress.error && <p className="text-xs text-destructive">{progress.error}</p>}
+          {digestError && <p className="text-xs text-destructive">{digestError}</p>}
+
+          {digest && (
+            <div className="pt-2 border-t border-border space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  {digest.data.digest_date} · {digest.data.total_stories} stor{digest.data.total_stories === 1 ? 'y' : 'ies'}
+                </p>
+                {onOpenDigest && (
+                  <button
+                    onClick={() => onOpenDigest(digest)}
+                    className="flex items-center gap-1 text-xs text-accent hover:underline"
+                  >
+                    Open digest <ArrowRight className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              {digest.data.categories.map(category => (
+                <div key={category.category_name} className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wide">{category.category_name}</p>
+                  <ul className="space-y-0.5">
+                    {category.stories.map((story, idx) => (
+                      <li key={idx} className="text-xs leading-snug">
+                        {story.headline}
+                        <span className="text-muted-foreground"> · {story.source}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+/**
+ * Server startup hook (Next.js instrumentation, enabled in next.config.js).
+ *
+ * With SCHEDULER_BACKEND=local the in-process scheduler (lib/localScheduler.ts)
+ * starts its timer here, so schedules fire after a restart without waiting for
+ * a scheduler API request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.SCHEDULER_BACKEND === 'local') {
+    const { startLocalScheduler } = await import('@/lib/localScheduler')
+    startLocalScheduler()
+  }
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { runAgent } from '@/lib/agentRunner'
+import { setMockScenario } from '@/lib/mockUpstream'
+
+// The curator agent has a response schema in response_schemas/
+const CURATOR_AGENT_ID = '698e0e01d53462d0905232e3'
+
+function run(repair: boolean | { max_attempts?: number }) {
+  return runAgent({ message: 'Generate the daily AI news digest', agent_id: CURATOR_AGENT_ID, repair })
+}
+
+describe('runAgent repair loop', () => {
+  beforeEach(() => {
+    setMockScenario('default')
+  })
+
+  it('leaves a valid reply alone', async () => {
+    const { status, body } = await run(true)
+    expect(status).toBe(200)
+    expect(body.validation?.valid).toBe(true)
+    expect(body.response.metadata?.repair).toMatchObject({ attempts_used: 0, repaired: false })
+  })
+
+  it('re-prompts until the reply matches the schema', async () => {
+    setMockScenario('partial_digest')
+    const { status, body } = await run(true)
+
+    expect(status).toBe(200)
+    expect(body.validation?.valid).toBe(true)
+    const repair = body.response.metadata?.repair
+    expect(repair).toMatchObject({ enabled: true, attempts_used: 1, repaired: true })
+    expect(repair.attempts.map((a: { valid: boolean }) => a.valid)).toEqual([false, true])
+    expect(repair.attempts[0].error_count).toBeGreaterThan(0)
+  })
+
+  it('gives up after max_attempts and returns the last reply with its errors', async () => {
+    setMockScenario('partial_digest_always')
+    const { status, body } = await run({ max_attempts: 2 })
+
+    expect(status).toBe(200)
+    expect(body.validation?.valid).toBe(false)
+    expect(body.validation?.errors.length).toBeGreaterThan(0)
+    expect(body.response.metadata?.repair).toMatchObject({ max_attempts: 2, attempts_used: 2, repaired: false })
+  })
+
+  it('does not re-prompt when repair is off', async () => {
+    setMockScenario('partial_digest')
+    const { body } = await run(false)
+
+    expect(body.validation?.valid).toBe(false)
+    expect(body.response.metadata?.repair).toBeUndefined()
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateAlerts, saveAlertConfig } from '@/lib/alertEngine'
+import { defaultAlertConfig } from '@/lib/alerts'
+import { saveDeliveryConfig } from '@/lib/digestDelivery'
+import { ingestScheduledDigests } from '@/lib/digestIngest'
+import { getDigestStore } from '@/lib/digestStore'
+import { setMockScenario } from '@/lib/mockUpstream'
+import { fetchScheduleLogs, triggerUpstreamSchedule } from '@/lib/schedulerUpstream'
+
+// The schedule in fixtures/lyzr/scheduler.json
+const SCHEDULE_ID = '698e0e07ebe6fd87d1dcc1b9'
+
+async function watchSchedule() {
+  const config = defaultAlertConfig()
+  await saveAlertConfig({
+    ...config,
+    rules: config.rules.filter(rule => rule.id === 'run-failures').map(rule => ({ ...rule, schedule_ids: [SCHEDULE_ID] })),
+  })
+}
+
+/** Trigger the schedule and wait for the mock run; resolves to its execution id. */
+async function runSchedule(): Promise<string> {
+  const before = (await fetchScheduleLogs(SCHEDULE_ID)).data?.executions.length ?? 0
+  await triggerUpstreamSchedule(SCHEDULE_ID)
+  for (let i = 0; i < 100; i++) {
+    const executions = (await fetchScheduleLogs(SCHEDULE_ID)).data?.executions ?? []
+    if (executions.length > before) return executions[0].id
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+  throw new Error('The mock run did not finish')
+}
+
+const slackAlerts = async () => (await evaluateAlerts()).fired.filter(alert => alert.problems?.includes('slack_not_posted'))
+
+describe('slack_not_posted alerts', () => {
+  it("trusts the agent's slack_posted when the agent posts to Slack", async () => {
+    setMockScenario('agent_direct_delivery')
+    await watchSchedule()
+    const executionId = await runSchedule()
+
+    const fired = await slackAlerts()
+    expect(fired).toHaveLength(1)
+    expect(fired[0].execution_ids).toEqual([executionId])
+  })
+
+  it('waits for direct Slack delivery and then goes by its recorded result', async () => {
+    setMockScenario('agent_direct_delivery')
+    await watchSchedule()
+    await saveDeliveryConfig({
+      targets: [{ id: 'slack-news', name: 'News', type: 'slack', enabled: true, slack: { channel: '#ai-news' } }],
+      routes: { [SCHEDULE_ID]: ['slack-news'] },
+    })
+    const executionId = await runSchedule()
+
+    // The agent was told not to post; nothing is delivered yet
+    expect(await slackAlerts()).toEqual([])
+
+    await ingestScheduledDigests({ scheduleId: SCHEDULE_ID, deliver: true })
+    const store = getDigestStore()
+    const archived = await store.findByExecutionId(executionId)
+    expect(archived?.data.slack_posted).toBe(true)
+    expect(await slackAlerts()).toEqual([])
+
+    await store.put({
+      ...archived!,
+      data: { ...archived!.data, slack_posted: false },
+      deliveries: archived!.deliveries!.map(d => ({ ...d, ok: false, error: 'channel_not_found' })),
+    })
+    const fired = await slackAlerts()
+    expect(fired).toHaveLength(1)
+    expect(fired[0].execution_ids).toEqual([executionId])
+  })
+})
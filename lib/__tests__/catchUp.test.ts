@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { findMissedFireTimes } from '@/lib/catchUp'
+
+const schedule = { cron_expression: '0 * * * *', timezone: 'UTC' }
+const options = {
+  since: new Date('2026-03-09T06:30:00Z'),
+  now: new Date('2026-03-09T10:05:00Z'),
+  graceMs: 10 * 60 * 1000,
+}
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString())
+
+describe('findMissedFireTimes', () => {
+  it('reports fire times without a run, up to now minus the grace period', () => {
+    const executions = [
+      { executed_at: '2026-03-09T07:00:20Z', attempt: 1 },
+      { executed_at: '2026-03-09T09:08:00Z', attempt: 1 },
+    ]
+
+    // 10:00 is still within its grace period
+    expect(iso(findMissedFireTimes(schedule, executions, options))).toEqual(['2026-03-09T08:00:00.000Z'])
+  })
+
+  it('only counts first attempts that start near the fire time', () => {
+    const executions = [
+      { executed_at: '2026-03-09T07:00:00Z', attempt: 2 },
+      { executed_at: '2026-03-09T08:30:00Z', attempt: 1 },
+      { executed_at: '2026-03-09T08:59:30Z', attempt: 1 },
+    ]
+
+    expect(iso(findMissedFireTimes(schedule, executions, options))).toEqual([
+      '2026-03-09T07:00:00.000Z',
+      '2026-03-09T08:00:00.000Z',
+    ])
+  })
+
+  it('finds nothing for an unparseable cron or an empty window', () => {
+    expect(findMissedFireTimes({ cron_expression: 'not a cron', timezone: 'UTC' }, [], options)).toEqual([])
+    expect(findMissedFireTimes(schedule, [], { ...options, since: new Date('2026-03-09T10:00:00Z') })).toEqual([])
+  })
+})
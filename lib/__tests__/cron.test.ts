@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { nextRuns, validateCron } from '@/lib/cron'
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString())
+
+describe('nextRuns', () => {
+  it('lists fire times after `from`, exclusive', () => {
+    const runs = nextRuns('0 10 * * *', { from: new Date('2026-03-02T10:00:00Z'), count: 2 })
+    expect(iso(runs)).toEqual(['2026-03-03T10:00:00.000Z', '2026-03-04T10:00:00.000Z'])
+  })
+
+  it('keeps the wall-clock time across the spring-forward change', () => {
+    const runs = nextRuns('0 10 * * *', { timezone: 'America/New_York', from: new Date('2026-03-06T16:00:00Z'), count: 3 })
+    // 10:00 EST is 15:00Z; from Sunday March 8 it is 10:00 EDT, 14:00Z
+    expect(iso(runs)).toEqual(['2026-03-07T15:00:00.000Z', '2026-03-08T14:00:00.000Z', '2026-03-09T14:00:00.000Z'])
+  })
+
+  it('skips a local time that does not exist on the spring-forward day', () => {
+    const runs = nextRuns('30 2 * * *', { timezone: 'America/New_York', from: new Date('2026-03-07T12:00:00Z'), count: 1 })
+    expect(iso(runs)).toEqual(['2026-03-09T06:30:00.000Z'])
+  })
+
+  it('fires once for a local time that repeats on the fall-back day', () => {
+    const runs = nextRuns('30 1 * * *', { timezone: 'America/New_York', from: new Date('2026-10-31T12:00:00Z'), count: 2 })
+    // The first 01:30 (EDT) wins; the next run is 01:30 EST the day after
+    expect(iso(runs)).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z'])
+  })
+
+  it('matches day-of-month or day-of-week when both are restricted', () => {
+    const runs = nextRuns('0 0 13 * 5', { from: new Date('2026-03-01T00:00:00Z'), count: 3 })
+    // Fridays March 6 and 13 (also the 13th), then Friday March 20
+    expect(iso(runs)).toEqual(['2026-03-06T00:00:00.000Z', '2026-03-13T00:00:00.000Z', '2026-03-20T00:00:00.000Z'])
+  })
+
+  it('finds a February 29 run in the next leap year', () => {
+    const [run] = nextRuns('0 0 29 2 *', { from: new Date('2026-03-01T00:00:00Z'), count: 1 })
+    expect(run.toISOString()).toBe('2028-02-29T00:00:00.000Z')
+  })
+
+  it('rejects an unknown timezone', () => {
+    expect(() => nextRuns('0 10 * * *', { timezone: 'Mars/Olympus_Mons' })).toThrow('Unknown timezone')
+  })
+})
+
+describe('validateCron', () => {
+  it('accepts a well-formed expression', () => {
+    expect(validateCron('*/15 9-17 * * 1-5')).toEqual({ valid: true })
+  })
+
+  it('names the field that does not parse', () => {
+    const result = validateCron('0 25 * * *')
+    expect(result.valid).toBe(false)
+    expect(result.field).toBe('hour')
+  })
+
+  it.each(['0 0 30 2 *', '0 0 31 4 *', '0 0 31 6,9,11 *'])('rejects %s, which never fires', expression => {
+    const result = validateCron(expression)
+    expect(result.valid).toBe(false)
+    expect(result.error).toMatch(/never fires/)
+  })
+})
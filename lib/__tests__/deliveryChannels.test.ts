@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { DELIVERY_CHANNELS } from '@/lib/deliveryChannels'
+import { listMockDeliveries, setMockScenario } from '@/lib/mockUpstream'
+import type { DeliveryTarget } from '@/lib/delivery'
+import type { DigestData } from '@/lib/digest'
+
+const digest: DigestData = {
+  digest_date: '2026-03-09',
+  categories: [{
+    category_name: 'Breaking Announcements',
+    stories: [{ headline: 'Acme releases Falcon model', summary: 'The model ships to developers today.', source: 'Acme blog' }],
+  }],
+  total_stories: 1,
+  slack_posted: false,
+}
+
+const discord: DeliveryTarget = {
+  id: 'discord-news',
+  name: 'Discord #news',
+  type: 'discord',
+  enabled: true,
+  discord: { webhook_url: 'https://discord.com/api/webhooks/123/abc' },
+}
+
+const teams: DeliveryTarget = {
+  id: 'teams-news',
+  name: 'Teams News',
+  type: 'teams',
+  enabled: true,
+  teams: { webhook_url: 'https://contoso.webhook.office.com/webhookb2/abc' },
+}
+
+describe('webhook channels', () => {
+  it('waits out a 429 and posts again', async () => {
+    setMockScenario('discord_rate_limited_once')
+    const started = Date.now()
+    const ids = await DELIVERY_CHANNELS.discord.send(digest, discord, {})
+
+    // Retry-After: 1
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900)
+    expect(ids).toHaveLength(1)
+    const [delivery] = listMockDeliveries()
+    expect(delivery).toMatchObject({ channel: 'discord', id: ids[0] })
+    expect(delivery.destination).toContain('wait=true')
+  })
+
+  it('throws with the status when the webhook refuses the digest', async () => {
+    setMockScenario('teams_webhook_gone')
+
+    await expect(DELIVERY_CHANNELS.teams.send(digest, teams, {})).rejects.toThrow(/^Webhook answered 404/)
+    expect(listMockDeliveries()).toEqual([])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { deliverDigest, saveDeliveryConfig } from '@/lib/digestDelivery'
+import { archiveDigest } from '@/lib/digestStore'
+import { listMockDeliveries, listMockSlackMessages, setMockScenario } from '@/lib/mockUpstream'
+import type { DeliveryTarget } from '@/lib/delivery'
+import type { DigestData } from '@/lib/digest'
+
+const SCHEDULE_ID = 'schedule-1'
+
+const targets: DeliveryTarget[] = [
+  { id: 'teams-news', name: 'Teams News', type: 'teams', enabled: true, teams: { webhook_url: 'https://contoso.webhook.office.com/webhookb2/abc' } },
+  { id: 'discord-news', name: 'Discord #news', type: 'discord', enabled: true, discord: { webhook_url: 'https://discord.com/api/webhooks/123/abc' } },
+  { id: 'email-team', name: 'Team inbox', type: 'email', enabled: true, email: { to: ['team@example.com'] } },
+  { id: 'slack-news', name: 'Slack #ai-news', type: 'slack', enabled: true, slack: { channel: '#ai-news' } },
+  { id: 'email-off', name: 'Disabled inbox', type: 'email', enabled: false, email: { to: ['off@example.com'] } },
+]
+
+// The agent claims it posted to Slack; only recorded deliveries should count
+const data: DigestData = {
+  digest_date: '2026-03-09',
+  categories: [{
+    category_name: 'Breaking Announcements',
+    stories: [{ headline: 'Acme releases Falcon model', summary: 'The model ships to developers today.', source: 'Acme blog' }],
+  }],
+  total_stories: 1,
+  slack_posted: true,
+}
+
+const archive = () => archiveDigest({ data, agent_id: 'agent-1', source: 'scheduled', schedule_id: SCHEDULE_ID })
+
+const byTarget = (deliveries: Array<{ target_id: string; ok: boolean }>) =>
+  Object.fromEntries(deliveries.map(d => [d.target_id, d.ok]))
+
+describe('deliverDigest', () => {
+  it("sends to the schedule's enabled routes and records each outcome", async () => {
+    setMockScenario('teams_webhook_gone')
+    await saveDeliveryConfig({ targets, routes: { [SCHEDULE_ID]: ['teams-news', 'discord-news', 'email-team', 'email-off'] } })
+    const stored = await archive()
+
+    const { digest, deliveries } = await deliverDigest(stored.id)
+
+    expect(byTarget(deliveries)).toEqual({ 'teams-news': false, 'discord-news': true, 'email-team': true })
+    expect(deliveries.find(d => d.target_id === 'teams-news')?.error).toMatch(/404/)
+    expect(listMockDeliveries().map(d => d.channel).sort()).toEqual(['discord', 'email'])
+    expect(digest?.deliveries).toHaveLength(3)
+    expect(digest?.data.slack_posted).toBe(false)
+  })
+
+  it('replaces only the targets it sent to again', async () => {
+    setMockScenario('email_rejected')
+    await saveDeliveryConfig({ targets, routes: { [SCHEDULE_ID]: ['discord-news', 'email-team'] } })
+    const stored = await archive()
+    const first = await deliverDigest(stored.id)
+    expect(byTarget(first.deliveries)).toEqual({ 'discord-news': true, 'email-team': false })
+    expect(first.deliveries.find(d => d.target_id === 'email-team')?.error).toMatch(/Mailbox unavailable/)
+
+    setMockScenario('default')
+    const retried = await deliverDigest(stored.id, { targetIds: ['email-team'] })
+
+    expect(byTarget(retried.deliveries)).toEqual({ 'email-team': true })
+    expect(byTarget(retried.digest!.deliveries!)).toEqual({ 'discord-news': true, 'email-team': true })
+    const discordBefore = first.digest!.deliveries!.find(d => d.target_id === 'discord-news')
+    expect(retried.digest!.deliveries!.find(d => d.target_id === 'discord-news')).toEqual(discordBefore)
+  })
+
+  it('rewrites slack_posted from the recorded Slack deliveries', async () => {
+    setMockScenario('default')
+    await saveDeliveryConfig({ targets, routes: {} })
+    const stored = await archive()
+
+    const posted = await deliverDigest(stored.id, { targetIds: ['slack-news'] })
+    expect(posted.digest?.data.slack_posted).toBe(true)
+    expect(listMockSlackMessages()).toHaveLength(1)
+
+    setMockScenario('slack_channel_not_found')
+    const failed = await deliverDigest(stored.id, { targetIds: ['slack-news'] })
+    expect(failed.deliveries[0]).toMatchObject({ ok: false, error: expect.stringContaining('channel_not_found') })
+    expect(failed.digest?.data.slack_posted).toBe(false)
+  })
+
+  it('does nothing without routes or for an unknown digest', async () => {
+    await saveDeliveryConfig({ targets, routes: {} })
+    const stored = await archive()
+
+    expect((await deliverDigest(stored.id)).deliveries).toEqual([])
+    expect(await deliverDigest('no-such-digest')).toEqual({ digest: null, deliveries: [] })
+  })
+})
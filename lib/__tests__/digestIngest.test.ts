@@ -0,0 +1,54 @@
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { extractDigestFromOutput, ingestScheduledDigests } from '@/lib/digestIngest'
+import { archiveExecutionDigest, getDigestStore } from '@/lib/digestStore'
+import type { DigestData } from '@/lib/digest'
+
+const fixture = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'fixtures/lyzr/agent-digest.json'), 'utf8'))
+const digest: DigestData = fixture.response
+
+async function executionIds(): Promise<string[]> {
+  const { digests } = await getDigestStore().list({ limit: 100 })
+  return digests.map(d => d.execution_id).filter((id): id is string => !!id)
+}
+
+describe('extractDigestFromOutput', () => {
+  it('reads a digest wrapped in a { status, result } envelope', () => {
+    const { digest: extracted, errors } = extractDigestFromOutput(JSON.stringify({ status: 'success', result: digest }))
+    expect(errors).toEqual([])
+    expect(extracted?.digest_date).toBe(digest.digest_date)
+  })
+
+  it('reports why an output is not a digest', () => {
+    expect(extractDigestFromOutput('').errors).toEqual(['response_output is empty'])
+    expect(extractDigestFromOutput('The digest was posted to Slack.').errors).toEqual(['response_output does not contain JSON'])
+    expect(extractDigestFromOutput(JSON.stringify({ digest_date: '2026-03-09' })).errors[0]).toMatch(/categories/)
+  })
+})
+
+describe('archiveExecutionDigest', () => {
+  it('archives an execution once when called concurrently', async () => {
+    const input = { data: digest, agent_id: 'agent-1', source: 'scheduled' as const, execution_id: 'exec-concurrent' }
+    const results = await Promise.all([1, 2, 3, 4, 5].map(() => archiveExecutionDigest(input)))
+
+    expect(results.filter(Boolean)).toHaveLength(1)
+    expect((await executionIds()).filter(id => id === 'exec-concurrent')).toHaveLength(1)
+  })
+})
+
+describe('ingestScheduledDigests', () => {
+  it('archives each successful run once across overlapping jobs', async () => {
+    const [first, second] = await Promise.all([ingestScheduledDigests(), ingestScheduledDigests()])
+
+    // fixtures/lyzr/scheduler.json has three successful runs with a digest
+    expect(first.success && second.success).toBe(true)
+    expect(first.ingested + second.ingested).toBe(3)
+    const ids = (await executionIds()).filter(id => id.startsWith('mock-exec-'))
+    expect(ids.sort()).toEqual(['mock-exec-0001', 'mock-exec-0003', 'mock-exec-0004'])
+
+    const again = await ingestScheduledDigests()
+    expect(again.ingested).toBe(0)
+    expect(again.skipped).toBe(again.scanned)
+  })
+})
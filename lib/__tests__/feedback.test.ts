@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { derivePreferences, validateFeedbackInput, type StoryFeedback, type StoryFeedbackInput } from '@/lib/feedback'
+
+const NOW = new Date('2026-03-09T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const valid: StoryFeedbackInput = {
+  user_id: 'reader-1',
+  digest_id: 'digest-1',
+  category: 'Breaking Announcements',
+  headline: 'Anthropic ships Claude update',
+  source: 'TechCrunch — https://techcrunch.com/story',
+  vote: 'up',
+  reasons: ['useful'],
+}
+
+let nextId = 0
+function rating(headline: string, source: string, vote: StoryFeedback['vote'], daysAgo = 0, reasons: StoryFeedback['reasons'] = []): StoryFeedback {
+  const at = new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString()
+  return { id: `f-${++nextId}`, user_id: 'reader-1', digest_id: 'digest-1', category: '', headline, source, vote, reasons, created_at: at, updated_at: at }
+}
+
+describe('validateFeedbackInput', () => {
+  it('accepts a rating whose reasons fit the vote', () => {
+    expect(validateFeedbackInput(valid)).toEqual([])
+  })
+
+  it('reports missing fields, bad votes and reasons of the other vote', () => {
+    expect(validateFeedbackInput({ ...valid, digest_id: ' ', headline: '' })).toEqual(['digest_id is required', 'headline is required'])
+    expect(validateFeedbackInput({ ...valid, vote: 'meh' as never, reasons: [] })).toEqual(['vote must be "up" or "down"'])
+    expect(validateFeedbackInput({ ...valid, reasons: ['wrong', 'shiny' as never] })).toEqual([
+      'reason "wrong" doesn\'t fit a thumbs up',
+      'unknown reason "shiny"',
+    ])
+    expect(validateFeedbackInput(null as never)).toEqual(['body must be an object'])
+  })
+})
+
+describe('derivePreferences', () => {
+  it('turns repeated votes into favored and disliked sources and topics', () => {
+    const prefs = derivePreferences([
+      rating('Anthropic ships Claude update', 'TechCrunch — https://techcrunch.com/a', 'up'),
+      rating('Claude gains computer use', 'TechCrunch — https://techcrunch.com/b', 'up'),
+      rating('Crypto token soars on hype', 'https://www.hypewire.example/c', 'down', 0, ['untrusted_source']),
+    ], NOW)
+
+    expect(prefs.favored_sources.map(s => [s.label, s.score, s.stories])).toEqual([['TechCrunch', 2, 2]])
+    expect(prefs.favored_topics.map(t => t.key)).toEqual(['claude'])
+    expect(prefs.favored_topics[0].examples).toEqual(['Claude gains computer use', 'Anthropic ships Claude update'])
+    expect(prefs.disliked_sources.map(s => [s.label, s.score])).toEqual([['hypewire.example', -2]])
+    // One story is not enough for a topic
+    expect(prefs.disliked_topics).toEqual([])
+    expect(prefs.feedback_count).toBe(3)
+  })
+
+  it('lets old votes fade below the thresholds', () => {
+    const prefs = derivePreferences([
+      rating('Anthropic ships Claude update', 'TechCrunch', 'up', 30),
+      rating('Claude gains computer use', 'TechCrunch', 'up', 30),
+    ], NOW)
+
+    // Half-life 30 days: two plain votes score 1 together
+    expect(prefs.favored_sources).toEqual([])
+    expect(prefs.favored_topics).toEqual([])
+  })
+})
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { DELETE, GET, POST } from '@/app/api/feedback/route'
+
+const URL_BASE = 'http://localhost:3000/api/feedback'
+
+const rating = {
+  digest_id: 'digest-1',
+  category: 'Breaking Announcements',
+  headline: 'Anthropic ships Claude update',
+  source: 'TechCrunch',
+  vote: 'up',
+  reasons: [],
+}
+
+function request(method: string, options: { cookie?: string; body?: unknown; query?: string } = {}) {
+  return new NextRequest(`${URL_BASE}${options.query || ''}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.cookie && { cookie: `reader_id=${options.cookie}` }),
+    },
+    ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+  })
+}
+
+describe('/api/feedback reader identity', () => {
+  it('issues an httpOnly reader cookie and ignores a user id in the body', async () => {
+    const response = await POST(request('POST', { body: { ...rating, user_id: 'someone-else' } }))
+    const body = await response.json()
+
+    const cookie = response.cookies.get('reader_id')
+    expect(cookie?.value).toMatch(/^reader-[0-9a-f-]{36}$/)
+    expect(cookie?.httpOnly).toBe(true)
+    expect(body.feedback.user_id).toBe(cookie!.value)
+  })
+
+  it("shows and changes only the cookie holder's ratings", async () => {
+    const reader = (await POST(request('POST', { body: rating }))).cookies.get('reader_id')!.value
+
+    const own = await (await GET(request('GET', { cookie: reader }))).json()
+    expect(own.feedback.map((f: { headline: string }) => f.headline)).toEqual([rating.headline])
+
+    const otherResponse = await GET(request('GET'))
+    const other = otherResponse.cookies.get('reader_id')!.value
+    expect(other).not.toBe(reader)
+    expect((await otherResponse.json()).feedback).toEqual([])
+
+    const query = `?digestId=${rating.digest_id}&headline=${encodeURIComponent(rating.headline)}`
+    expect((await (await DELETE(request('DELETE', { cookie: other, query }))).json()).removed).toBe(false)
+    expect((await (await DELETE(request('DELETE', { cookie: reader, query }))).json()).removed).toBe(true)
+  })
+
+  it('keeps a valid cookie and replaces a forged one', async () => {
+    const reader = (await GET(request('GET'))).cookies.get('reader_id')!.value
+
+    expect((await GET(request('GET', { cookie: reader }))).cookies.get('reader_id')).toBeUndefined()
+    const forged = await GET(request('GET', { cookie: 'admin' }))
+    expect(forged.cookies.get('reader_id')?.value).toMatch(/^reader-/)
+  })
+})
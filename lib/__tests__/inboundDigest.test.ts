@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { parseInboundRequest, signInboundPayload, verifyInboundSignature } from '@/lib/inboundDigest'
+
+const now = () => Math.floor(Date.now() / 1000)
+
+function signed(body: string, timestamp = now()) {
+  const headers = signInboundPayload(body, timestamp)
+  return { timestamp: headers['X-Digest-Timestamp'], signature: headers['X-Digest-Signature'] }
+}
+
+describe('verifyInboundSignature', () => {
+  beforeEach(() => {
+    process.env.INBOUND_WEBHOOK_SECRET = 'test-secret'
+  })
+
+  afterEach(() => {
+    delete process.env.INBOUND_WEBHOOK_SECRET
+  })
+
+  it('accepts a signed request once and rejects its replay', async () => {
+    const body = JSON.stringify({ spec: { hours: 48 }, reference: 'replay' })
+    const { timestamp, signature } = signed(body)
+
+    expect(await verifyInboundSignature(body, timestamp, signature)).toEqual({ ok: true, status: 200 })
+    expect(await verifyInboundSignature(body, timestamp, signature)).toMatchObject({ ok: false, status: 409 })
+  })
+
+  it('rejects a body that does not match its signature', async () => {
+    const { timestamp, signature } = signed(JSON.stringify({ reference: 'original' }))
+    const result = await verifyInboundSignature(JSON.stringify({ reference: 'tampered' }), timestamp, signature)
+    expect(result).toMatchObject({ ok: false, status: 401, error: 'Invalid signature' })
+  })
+
+  it('rejects a signature made with another secret', async () => {
+    const body = JSON.stringify({ reference: 'other-secret' })
+    process.env.INBOUND_WEBHOOK_SECRET = 'someone-else'
+    const { timestamp, signature } = signed(body)
+    process.env.INBOUND_WEBHOOK_SECRET = 'test-secret'
+
+    expect(await verifyInboundSignature(body, timestamp, signature)).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it('rejects timestamps outside the tolerance window', async () => {
+    const body = JSON.stringify({ reference: 'stale' })
+    const stale = signed(body, now() - 10 * 60)
+    const future = signed(body, now() + 10 * 60)
+
+    expect(await verifyInboundSignature(body, stale.timestamp, stale.signature)).toMatchObject({ ok: false, status: 401 })
+    expect(await verifyInboundSignature(body, future.timestamp, future.signature)).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it('requires both headers', async () => {
+    const body = '{}'
+    const { timestamp, signature } = signed(body)
+    expect(await verifyInboundSignature(body, null, signature)).toMatchObject({ ok: false, status: 401 })
+    expect(await verifyInboundSignature(body, timestamp, null)).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it('is disabled without a shared secret', async () => {
+    delete process.env.INBOUND_WEBHOOK_SECRET
+    const body = '{}'
+    const { timestamp, signature } = signed(body)
+    expect(await verifyInboundSignature(body, timestamp, signature)).toMatchObject({ ok: false, status: 503 })
+  })
+})
+
+describe('parseInboundRequest callback_url', () => {
+  const callbackErrors = async (callback_url: string) =>
+    (await parseInboundRequest({ callback_url })).errors.filter(error => error.startsWith('callback_url'))
+
+  afterEach(() => {
+    delete process.env.INBOUND_CALLBACK_HOSTS
+  })
+
+  it('refuses loopback, link-local and private hosts without an allowlist', async () => {
+    for (const url of [
+      'http://localhost:3000/cb',
+      'http://127.0.0.1/cb',
+      'http://10.1.2.3/cb',
+      'http://172.20.0.5/cb',
+      'http://192.168.1.10/cb',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/cb',
+      'http://[fd00::1]/cb',
+      'http://[::ffff:127.0.0.1]/cb',
+    ]) {
+      expect(await callbackErrors(url), url).toHaveLength(1)
+    }
+    expect(await callbackErrors('https://hooks.example.com/cb')).toEqual([])
+    expect(await callbackErrors('https://172.32.0.1/cb')).toEqual([])
+  })
+
+  it('allows only the listed hosts when INBOUND_CALLBACK_HOSTS is set', async () => {
+    process.env.INBOUND_CALLBACK_HOSTS = 'localhost, hooks.example.com'
+
+    expect(await callbackErrors('http://localhost:3000/cb')).toEqual([])
+    expect(await callbackErrors('https://hooks.example.com/cb')).toEqual([])
+    expect(await callbackErrors('https://other.example.com/cb')).toEqual([
+      'callback_url host other.example.com is not in INBOUND_CALLBACK_HOSTS',
+    ])
+  })
+})
@@ -0,0 +1,116 @@
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import {
+  getMockScenario,
+  handleMockRequest,
+  listMockScenarios,
+  listMockSlackMessages,
+  setMockScenario,
+  type MockService,
+} from '@/lib/mockUpstream'
+
+const AGENT_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const SCHEDULER_URL = 'https://scheduler.studio.lyzr.ai'
+const SCHEDULE_ID = '698e0e07ebe6fd87d1dcc1b9'
+
+const chat = (init?: RequestInit) => handleMockRequest(AGENT_URL, { method: 'POST', body: '{}', ...init })
+
+describe('mock scenarios', () => {
+  it('only reference fixtures that exist', () => {
+    const services: MockService[] = ['agent', 'upload', 'rag', 'scheduler', 'slack', 'teams', 'discord', 'email']
+    const fixtures = Object.values(listMockScenarios()).flatMap(scenario =>
+      services.flatMap(service => (scenario[service] || []).map(step => (typeof step === 'string' ? step : step.fixture)))
+    )
+    for (const fixture of fixtures.filter((name): name is string => !!name)) {
+      expect(fs.existsSync(path.join(process.cwd(), 'fixtures/lyzr', fixture)), fixture).toBe(true)
+    }
+  })
+
+  it('rejects unknown scenario names and keeps the active one', () => {
+    setMockScenario('default')
+    expect(setMockScenario('no_such_scenario')).toBe(false)
+    expect(getMockScenario()).toBe('default')
+  })
+})
+
+describe('handleMockRequest', () => {
+  it('answers the agent with the recorded digest, its reply as a string', async () => {
+    setMockScenario('default')
+    const response = await chat()
+
+    expect(response.status).toBe(200)
+    const envelope = await response.json()
+    expect(typeof envelope.response).toBe('string')
+    expect(JSON.parse(envelope.response).digest_date).toBe('2026-03-09')
+  })
+
+  it('plays scenario steps in order and repeats the last one', async () => {
+    setMockScenario('rate_limited_once')
+    const first = await chat()
+    expect(first.status).toBe(429)
+    expect(first.headers.get('Retry-After')).toBe('30')
+    expect((await chat()).status).toBe(200)
+    expect((await chat()).status).toBe(200)
+
+    // Switching scenario starts its steps over
+    setMockScenario('rate_limited_once')
+    expect((await chat()).status).toBe(429)
+  })
+
+  it('sends deliberately broken fixtures verbatim', async () => {
+    setMockScenario('truncated_body')
+    const response = await chat()
+
+    expect(response.headers.get('Content-Type')).toBe('text/plain')
+    await expect(response.clone().json()).rejects.toThrow()
+  })
+
+  it('fails like a network timeout, and stops waiting when the caller aborts', async () => {
+    setMockScenario('timeout')
+    const controller = new AbortController()
+    const pending = chat({ signal: controller.signal })
+    controller.abort()
+
+    await expect(pending).rejects.toThrow(/aborted/)
+  })
+
+  it('serves the scheduler from fixtures with relative times resolved, and resets it with the scenario', async () => {
+    setMockScenario('default')
+    const schedule = await (await handleMockRequest(`${SCHEDULER_URL}/schedules/${SCHEDULE_ID}`)).json()
+    expect(Date.now() - new Date(schedule.created_at).getTime()).toBeGreaterThan(29 * 24 * 60 * 60 * 1000)
+
+    await handleMockRequest(`${SCHEDULER_URL}/schedules/${SCHEDULE_ID}`, { method: 'DELETE' })
+    expect((await handleMockRequest(`${SCHEDULER_URL}/schedules/${SCHEDULE_ID}`)).status).toBe(404)
+
+    setMockScenario('default')
+    expect((await handleMockRequest(`${SCHEDULER_URL}/schedules/${SCHEDULE_ID}`)).status).toBe(200)
+  })
+
+  it('answers every scheduler call with the scenario error', async () => {
+    setMockScenario('scheduler_down')
+    const response = await handleMockRequest(`${SCHEDULER_URL}/schedules/${SCHEDULE_ID}`)
+
+    expect(response.status).toBe(503)
+    expect(await response.json()).toEqual({ detail: 'Service Unavailable' })
+  })
+
+  it('records Slack posts until a scenario rejects them', async () => {
+    setMockScenario('default')
+    const post = () => handleMockRequest('https://slack.com/api/chat.postMessage', {
+      method: 'POST',
+      body: JSON.stringify({ channel: '#ai-news', text: 'Digest' }),
+    })
+    expect(await (await post()).json()).toMatchObject({ ok: true })
+    expect(listMockSlackMessages()).toHaveLength(1)
+
+    setMockScenario('slack_channel_not_found')
+    expect(await (await post()).json()).toEqual({ ok: false, error: 'channel_not_found' })
+    expect(listMockSlackMessages()).toEqual([])
+  })
+
+  it('answers 404 for URLs it has no mock for', async () => {
+    const response = await handleMockRequest('https://agent-prod.studio.lyzr.ai/v3/unknown')
+    expect(response.status).toBe(404)
+  })
+})
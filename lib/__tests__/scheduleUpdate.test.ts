@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getScheduleAncestry } from '@/lib/scheduleLineage'
+import { setMockScenario } from '@/lib/mockUpstream'
+import { SCHEDULER_BASE_URL, pauseUpstreamSchedule, schedulerFetch } from '@/lib/schedulerUpstream'
+import type { Schedule } from '@/lib/scheduler'
+
+// The schedule in fixtures/lyzr/scheduler.json
+const SCHEDULE_ID = '698e0e07ebe6fd87d1dcc1b9'
+const AGENT_ID = '698e0e01d53462d0905232e3'
+
+let updateSchedule: typeof import('@/lib/scheduleUpdate').updateSchedule
+
+beforeEach(async () => {
+  // scheduleUpdate remembers a rejected PATCH; start every test with a fresh module
+  vi.resetModules()
+  ;({ updateSchedule } = await import('@/lib/scheduleUpdate'))
+})
+
+async function agentSchedules(): Promise<Schedule[]> {
+  const response = await schedulerFetch(`${SCHEDULER_BASE_URL}/schedules/by-agent/${AGENT_ID}`)
+  return (await response.json()).schedules
+}
+
+describe('updateSchedule', () => {
+  it('patches in place when the scheduler supports it', async () => {
+    setMockScenario('default')
+    const result = await updateSchedule(SCHEDULE_ID, { cron_expression: '0 9 * * *', message: 'Generate and send the daily AI news digest to Slack' })
+
+    expect(result).toMatchObject({ ok: true, method: 'patch', changed: ['cron_expression'] })
+    expect(result.schedule?.id).toBe(SCHEDULE_ID)
+  })
+
+  it('recreates the schedule without PATCH and keeps the old logs in the lineage', async () => {
+    setMockScenario('scheduler_no_patch')
+    const result = await updateSchedule(SCHEDULE_ID, { cron_expression: '0 9 * * *' })
+
+    expect(result).toMatchObject({ ok: true, method: 'recreate', replaced_id: SCHEDULE_ID })
+    const replacementId = result.schedule!.id
+    expect(replacementId).not.toBe(SCHEDULE_ID)
+    expect((await agentSchedules()).map(s => s.id)).toEqual([replacementId])
+
+    const [link] = await getScheduleAncestry(replacementId)
+    expect(link).toMatchObject({ schedule_id: replacementId, previous_id: SCHEDULE_ID, changed: ['cron_expression'] })
+    expect(link.executions.map(e => e.id)).toContain('mock-exec-0001')
+  })
+
+  it('deletes the replacement again when the original cannot be deleted', async () => {
+    setMockScenario('scheduler_delete_fails_once')
+    const result = await updateSchedule(SCHEDULE_ID, { cron_expression: '0 9 * * *' })
+
+    expect(result.ok).toBe(false)
+    expect(result.status).toBe(503)
+    expect(result.orphaned_id).toBeUndefined()
+    expect((await agentSchedules()).map(s => s.id)).toEqual([SCHEDULE_ID])
+  })
+
+  it('names the orphaned replacement when the rollback fails too', async () => {
+    setMockScenario('scheduler_delete_fails')
+    const result = await updateSchedule(SCHEDULE_ID, { cron_expression: '0 9 * * *' })
+
+    expect(result.ok).toBe(false)
+    expect(result.orphaned_id).toBeTruthy()
+    expect(result.error).toContain(result.orphaned_id)
+  })
+
+  it('fails instead of keeping an active replacement of a paused schedule', async () => {
+    setMockScenario('scheduler_pause_fails')
+    await pauseUpstreamSchedule(SCHEDULE_ID)
+    const result = await updateSchedule(SCHEDULE_ID, { cron_expression: '0 9 * * *' })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('pausing the replacement failed')
+    expect(result.orphaned_id).toBeUndefined()
+    const schedules = await agentSchedules()
+    expect(schedules.map(s => s.id)).toEqual([SCHEDULE_ID])
+    expect(schedules[0].is_active).toBe(false)
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { listCatchUps, runWatchdog, setCatchUpPolicy } from '@/lib/scheduleWatchdog'
+import { setMockScenario } from '@/lib/mockUpstream'
+
+// The schedule in fixtures/lyzr/scheduler.json
+const SCHEDULE_ID = '698e0e07ebe6fd87d1dcc1b9'
+
+describe('runWatchdog', () => {
+  it('skips a schedule whose logs could not be fetched instead of treating every run as missed', async () => {
+    setMockScenario('scheduler_logs_down')
+    await setCatchUpPolicy(SCHEDULE_ID, 'run_all')
+    const report = await runWatchdog({ scheduleId: SCHEDULE_ID })
+
+    expect(report.success).toBe(true)
+    expect(report.errors).toEqual([{ schedule_id: SCHEDULE_ID, error: expect.any(String) }])
+    expect(report.schedules).toEqual([])
+    expect(report.catch_ups).toEqual([])
+    expect(await listCatchUps()).toEqual([])
+
+    // Nothing was marked as checked: the next pass still looks back a full day
+    const next = await runWatchdog({ scheduleId: SCHEDULE_ID, dryRun: true })
+    expect(next.errors).toEqual([])
+    const checkedFrom = new Date(next.schedules[0].checked_from).getTime()
+    expect(Date.now() - checkedFrom).toBeGreaterThan(23 * 60 * 60 * 1000)
+  })
+})
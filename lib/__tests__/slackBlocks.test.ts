@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { MAX_BLOCKS_PER_MESSAGE, renderDigestMessages, type SlackBlock, type SlackMessage } from '@/lib/slackBlocks'
+import { postDigestToSlack } from '@/lib/slackDelivery'
+import { listMockSlackMessages, setMockScenario } from '@/lib/mockUpstream'
+import type { DigestData } from '@/lib/digest'
+
+function bigDigest(categories: number, storiesPerCategory: number): DigestData {
+  return {
+    digest_date: '2026-03-09',
+    categories: Array.from({ length: categories }, (_, c) => ({
+      category_name: `Category ${c + 1}`,
+      stories: Array.from({ length: storiesPerCategory }, (_, s) => ({
+        headline: `Story ${c + 1}.${s + 1}`,
+        summary: 'Summary',
+        source: `Publisher — https://example.com/${c + 1}/${s + 1}`,
+      })),
+    })),
+    total_stories: categories * storiesPerCategory,
+    slack_posted: false,
+  }
+}
+
+const blockText = (block: SlackBlock): string =>
+  block.type === 'section' || block.type === 'header' ? block.text.text
+    : block.type === 'context' ? block.elements.map(e => e.text).join(' ')
+    : ''
+
+const headlinesIn = (message: SlackMessage) =>
+  message.blocks.flatMap(block => Array.from(blockText(block).matchAll(/Story \d+\.\d+/g), m => m[0]))
+
+describe('renderDigestMessages', () => {
+  it('fits a small digest in one message with a header', () => {
+    const [message, ...rest] = renderDigestMessages(bigDigest(2, 2))
+    expect(rest).toHaveLength(0)
+    expect(message.blocks[0].type).toBe('header')
+    expect(message.text).toContain('4 stories in 2 categories')
+  })
+
+  it(`splits large digests into messages of at most ${MAX_BLOCKS_PER_MESSAGE} blocks`, () => {
+    const messages = renderDigestMessages(bigDigest(3, 12))
+
+    expect(messages.length).toBe(2)
+    for (const message of messages) expect(message.blocks.length).toBeLessThanOrEqual(MAX_BLOCKS_PER_MESSAGE)
+    expect(messages[1].blocks[0].type).toBe('context')
+    expect(blockText(messages[1].blocks[0])).toContain('part 2 of 2')
+    expect(messages[1].text).toContain('(part 2 of 2)')
+  })
+
+  it('keeps every story exactly once, with its source line in the same message', () => {
+    const messages = renderDigestMessages(bigDigest(4, 9), { maxBlocks: 12 })
+    const headlines = messages.flatMap(headlinesIn)
+
+    // Only a story's own section names its headline
+    expect(headlines).toHaveLength(36)
+    expect(new Set(headlines).size).toBe(36)
+    for (const message of messages) {
+      message.blocks.forEach((block, index) => {
+        if (block.type === 'section' && /Story \d+\.\d+/.test(blockText(block))) {
+          expect(message.blocks[index + 1]).toMatchObject({ type: 'context' })
+        }
+      })
+    }
+  })
+
+  it('repeats the category title when a category continues in the next message', () => {
+    const messages = renderDigestMessages(bigDigest(1, 10), { maxBlocks: 10 })
+
+    expect(messages.length).toBeGreaterThan(1)
+    for (const message of messages) expect(message.blocks.length).toBeLessThanOrEqual(10)
+    for (const message of messages.slice(1)) {
+      expect(blockText(message.blocks[1])).toBe('*Category 1 (continued)*')
+    }
+  })
+
+  it('never goes below the smallest useful message size', () => {
+    const messages = renderDigestMessages(bigDigest(1, 4), { maxBlocks: 1 })
+    for (const message of messages) expect(message.blocks.length).toBeLessThanOrEqual(6)
+    expect(messages.flatMap(headlinesIn)).toHaveLength(4)
+  })
+})
+
+describe('postDigestToSlack', () => {
+  beforeEach(() => {
+    setMockScenario('default')
+  })
+
+  it('posts the first part to the channel and the rest as thread replies', async () => {
+    const record = await postDigestToSlack(bigDigest(3, 12), { channel: '#ai-news' })
+
+    expect(record.ok).toBe(true)
+    expect(record.message_ts).toHaveLength(2)
+    expect(record.ts).toBe(record.message_ts[0])
+    const [reply, first] = listMockSlackMessages()
+    expect(first.thread_ts).toBeNull()
+    expect(reply.thread_ts).toBe(first.ts)
+    expect(reply.channel).toBe(record.channel)
+  })
+
+  it('reports the Slack error when the channel is refused', async () => {
+    setMockScenario('slack_channel_not_found')
+    const record = await postDigestToSlack(bigDigest(1, 2), { channel: '#missing' })
+
+    expect(record).toMatchObject({ ok: false, error: 'channel_not_found', ts: null, message_ts: [] })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { dedupeDigest } from '@/lib/storyDedup'
+import type { DigestData, Story, StoredDigest } from '@/lib/digest'
+
+const launch: Story = { headline: 'Acme releases Falcon model', summary: 'The model ships to developers today.', source: 'Acme blog' }
+const repeat: Story = { ...launch, summary: 'Acme made the model available to developers.' }
+const followUp: Story = { headline: 'Acme Falcon model tops benchmarks', summary: 'Independent evaluations rank it first.', source: 'Lab Notes' }
+const fresh: Story = { headline: 'Chip startup raises Series B', summary: 'The round funds a new inference accelerator.', source: 'Tech Daily' }
+
+const yesterday: StoredDigest = {
+  id: 'digest-1',
+  agent_id: 'agent-1',
+  source: 'scheduled',
+  digest_date: '2026-03-08',
+  created_at: '2026-03-08T10:00:00.000Z',
+  data: {
+    digest_date: '2026-03-08',
+    categories: [{ category_name: 'Breaking Announcements', stories: [launch] }],
+    total_stories: 1,
+    slack_posted: true,
+  },
+}
+
+const today: DigestData = {
+  digest_date: '2026-03-09',
+  categories: [
+    { category_name: 'Breaking Announcements', stories: [repeat, followUp, fresh] },
+    { category_name: 'Startup Funding', stories: [{ ...fresh }] },
+  ],
+  total_stories: 4,
+  slack_posted: true,
+}
+
+const statuses = (data: DigestData) => data.categories.map(c => c.stories.map(s => s.dedup?.status ?? null))
+
+describe('dedupeDigest', () => {
+  it('flags repeats, follow-ups and in-digest duplicates', () => {
+    const { data, summary } = dedupeDigest(today, [yesterday], 'flag')
+
+    expect(statuses(data)).toEqual([['repeat', 'follow_up', null], ['duplicate']])
+    expect(summary).toEqual({ mode: 'flag', checked: 4, repeats: 1, follow_ups: 1, duplicates: 1, suppressed: 0 })
+    expect(data.categories[0].stories[0].dedup).toMatchObject({ similarity: 1, seen_digest_id: 'digest-1', seen_digest_date: '2026-03-08' })
+    expect(data.categories[1].stories[0].dedup?.also_in).toBe('Breaking Announcements')
+    expect(data.total_stories).toBe(4)
+  })
+
+  it('removes repeats and duplicates in suppress mode but keeps follow-ups', () => {
+    const { data, summary } = dedupeDigest(today, [yesterday], 'suppress')
+
+    expect(data.categories.map(c => c.stories.map(s => s.headline))).toEqual([[followUp.headline, fresh.headline], []])
+    expect(summary.suppressed).toBe(2)
+    expect(data.total_stories).toBe(2)
+  })
+
+  it('replaces stale annotations and leaves the input untouched', () => {
+    const annotated: DigestData = {
+      ...today,
+      categories: [{ category_name: 'Breaking Announcements', stories: [{ ...fresh, dedup: { status: 'repeat', similarity: 1 } }] }],
+    }
+    const { data } = dedupeDigest(annotated, [], 'flag')
+
+    expect(data.categories[0].stories[0].dedup).toBeUndefined()
+    expect(annotated.categories[0].stories[0].dedup?.status).toBe('repeat')
+  })
+})
@@ -0,0 +1,503 @@
+/**
+ * Agent Runner
+ *
+ * Server-side core of /api/agent: calls the Lyzr inference API, recovers JSON
+ * from the agent's reply, normalizes it and validates it against the agent's
+ * response schema. Other server code (jobs, inbound hooks) calls `runAgent` so
+ * it gets exactly the same behaviour as the HTTP route.
+ *
+ * Optional repair loop: when the result fails schema validation, the errors are
+ * sent back to the same session with a corrective prompt, up to N times.
+ *
+ * `runAgentStream` reads the upstream streaming endpoint instead and reports
+ * text deltas as they arrive (used by /api/agent/stream).
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { generateUUID } from '@/lib/utils'
+import { readSSE } from '@/lib/sse'
+import { getResponseSchema, validateAgentResult, type SchemaValidationResult } from '@/lib/schemaValidator'
+import { isMockUpstream, upstreamFetch } from '@/lib/mockUpstream'
+
+const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+const DEFAULT_REPAIR_ATTEMPTS = parseInt(process.env.AGENT_REPAIR_MAX_ATTEMPTS || '2', 10) || 2
+const MAX_REPAIR_ATTEMPTS = 5
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ArtifactFile {
+  file_url: string
+  name: string
+  format_type: string
+}
+
+export interface ModuleOutputs {
+  artifact_files?: ArtifactFile[]
+  [key: string]: any
+}
+
+export interface NormalizedAgentResponse {
+  status: 'success' | 'error'
+  result: Record<string, any>
+  message?: string
+  metadata?: {
+    agent_name?: string
+    timestamp?: string
+    [key: string]: any
+  }
+}
+
+export interface RepairAttempt {
+  attempt: number
+  valid: boolean
+  error_count: number
+  errors: SchemaValidationResult['errors']
+  timestamp: string
+  error?: string
+}
+
+export interface RunAgentRequest {
+  message: string
+  agent_id: string
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Re-prompt the agent when its result fails schema validation. */
+  repair?: boolean | { max_attempts?: number }
+}
+
+/** JSON body returned by /api/agent. */
+export interface RunAgentBody {
+  success: boolean
+  response: NormalizedAgentResponse
+  validation?: SchemaValidationResult
+  module_outputs?: ModuleOutputs
+  agent_id?: string
+  user_id?: string
+  session_id?: string
+  timestamp?: string
+  raw_response?: string
+  error?: string
+}
+
+export interface RunAgentResult {
+  status: number
+  body: RunAgentBody
+}
+
+// ---------------------------------------------------------------------------
+// Response normalization
+// ---------------------------------------------------------------------------
+
+export function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    const r = parsed.result
+    const msg = parsed.message
+      ?? (typeof r === 'string' ? r : null)
+      ?? (r && typeof r === 'object'
+          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
+          : null)
+    return {
+      status: 'success',
+      result: typeof r === 'string' ? { text: r } : (r || {}),
+      message: typeof msg === 'string' ? msg : undefined,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+export interface InterpretedAgentOutput {
+  response: NormalizedAgentResponse
+  validation: SchemaValidationResult | null
+  module_outputs?: ModuleOutputs
+}
+
+/** Turn a successful upstream body into a normalized, validated response. */
+export function interpretAgentOutput(rawText: string, agentId: string): InterpretedAgentOutput {
+  // Parse the Lyzr API envelope first to extract module_outputs
+  // before parseLLMJson unwraps through the "response" key and loses siblings
+  let moduleOutputs: ModuleOutputs | undefined
+  let agentResponseRaw: any = rawText
+
+  try {
+    const envelope = JSON.parse(rawText)
+    if (envelope && typeof envelope === 'object' && 'response' in envelope) {
+      moduleOutputs = envelope.module_outputs
+      agentResponseRaw = envelope.response
+    }
+  } catch {
+    // Not standard JSON envelope, fall through — parseLLMJson will handle it
+  }
+
+  // Now parse only the agent's response with LLM JSON recovery
+  const parsed = parseLLMJson(agentResponseRaw)
+
+  // If parseLLMJson couldn't find JSON, the agent returned plain text — that's valid.
+  // Pass the raw agent response to normalizeResponse which handles strings.
+  const isPlainText =
+    parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
+  const toNormalize = isPlainText ? agentResponseRaw : parsed
+
+  const normalized = normalizeResponse(toNormalize)
+
+  // Check the result against the agent's response schema (if it has one) so
+  // malformed output is reported here instead of deep in the UI
+  const validation = normalized.status === 'success'
+    ? validateAgentResult(agentId, isPlainText ? agentResponseRaw : normalized.result)
+    : null
+
+  return { response: normalized, validation, module_outputs: moduleOutputs }
+}
+
+// ---------------------------------------------------------------------------
+// Upstream call
+// ---------------------------------------------------------------------------
+
+function errorBody(message: string, extra?: Partial<RunAgentBody>): RunAgentBody {
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message,
+    },
+    error: message,
+    ...extra,
+  }
+}
+
+async function callInference(payload: Record<string, any>): Promise<{ ok: boolean; status: number; rawText: string }> {
+  const response = await upstreamFetch(LYZR_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: JSON.stringify(payload),
+  })
+  return { ok: response.ok, status: response.status, rawText: await response.text() }
+}
+
+function upstreamErrorMessage(status: number, rawText: string): string {
+  let errorMsg = `API returned status ${status}`
+  try {
+    const errorData = JSON.parse(rawText)
+    errorMsg = errorData?.detail || errorData?.error || errorData?.message || errorMsg
+  } catch {
+    try {
+      const errorData = parseLLMJson(rawText)
+      errorMsg = errorData?.error || errorData?.message || errorMsg
+    } catch {}
+  }
+  return errorMsg
+}
+
+function buildRepairPrompt(agentId: string, validation: SchemaValidationResult): string {
+  const issues = validation.errors
+    .slice(0, 20)
+    .map(e => `- ${e.path || '(root)'}: expected ${e.expected}, got ${e.actual_type}${e.actual !== null ? ` (${JSON.stringify(e.actual)})` : ''}`)
+    .join('\n')
+  const schema = getResponseSchema(agentId)
+
+  return [
+    'Your previous response did not match the required JSON response schema.',
+    '',
+    'Problems found:',
+    issues,
+    '',
+    'Reply again with the same content as a single JSON object that matches this schema exactly.',
+    'Use the exact field names and types shown; numbers must be JSON numbers, not strings.',
+    'Do not add commentary, markdown or code fences.',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n')
+}
+
+function resolveRepairAttempts(repair: RunAgentRequest['repair']): number {
+  if (!repair) return 0
+  const requested = typeof repair === 'object' && typeof repair.max_attempts === 'number'
+    ? repair.max_attempts
+    : DEFAULT_REPAIR_ATTEMPTS
+  return Math.max(0, Math.min(MAX_REPAIR_ATTEMPTS, Math.floor(requested)))
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+interface PreparedRun {
+  payload: Record<string, any>
+  userId: string
+  sessionId: string
+}
+
+function prepareRun(request: RunAgentRequest): { error: RunAgentResult } | { run: PreparedRun } {
+  const { message, agent_id, user_id, session_id, assets } = request
+
+  if (!message || !agent_id) {
+    return { error: { status: 400, body: errorBody('message and agent_id are required') } }
+  }
+
+  if (!LYZR_API_KEY && !isMockUpstream()) {
+    return {
+      error: {
+        status: 500,
+        body: {
+          ...errorBody('LYZR_API_KEY not configured on server'),
+          response: { status: 'error', result: {}, message: 'LYZR_API_KEY not configured' },
+        },
+      },
+    }
+  }
+
+  const finalUserId = user_id || `user-${generateUUID()}`
+  const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+  const payload: Record<string, any> = {
+    message,
+    agent_id,
+    user_id: finalUserId,
+    session_id: finalSessionId,
+  }
+
+  if (assets && assets.length > 0) {
+    payload.assets = assets
+  }
+
+  return { run: { payload, userId: finalUserId, sessionId: finalSessionId } }
+}
+
+// Re-prompt the same session while the result fails validation
+async function repairOutput(
+  request: RunAgentRequest,
+  run: PreparedRun,
+  initial: { output: InterpretedAgentOutput; rawText: string }
+): Promise<{ output: InterpretedAgentOutput; rawText: string }> {
+  let { output, rawText } = initial
+  const maxRepairs = resolveRepairAttempts(request.repair)
+  if (maxRepairs === 0 || !output.validation) return { output, rawText }
+
+  const attempts: RepairAttempt[] = [{
+    attempt: 0,
+    valid: output.validation.valid,
+    error_count: output.validation.errors.length,
+    errors: output.validation.errors,
+    timestamp: new Date().toISOString(),
+  }]
+
+  for (let attempt = 1; attempt <= maxRepairs && output.validation && !output.validation.valid; attempt++) {
+    const retry = await callInference({
+      ...run.payload,
+      message: buildRepairPrompt(request.agent_id, output.validation),
+    })
+
+    if (!retry.ok) {
+      attempts.push({
+        attempt,
+        valid: false,
+        error_count: 0,
+        errors: [],
+        timestamp: new Date().toISOString(),
+        error: upstreamErrorMessage(retry.status, retry.rawText),
+      })
+      break
+    }
+
+    rawText = retry.rawText
+    output = interpretAgentOutput(rawText, request.agent_id)
+    attempts.push({
+      attempt,
+      valid: !!output.validation?.valid,
+      error_count: output.validation?.errors.length ?? 0,
+      errors: output.validation?.errors ?? [],
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  output.response.metadata = {
+    ...output.response.metadata,
+    repair: {
+      enabled: true,
+      max_attempts: maxRepairs,
+      attempts_used: attempts.length - 1,
+      repaired: attempts.length > 1 && !!output.validation?.valid,
+      attempts,
+    },
+  }
+  return { output, rawText }
+}
+
+function successResult(request: RunAgentRequest, run: PreparedRun, output: InterpretedAgentOutput, rawText: string): RunAgentResult {
+  return {
+    status: 200,
+    body: {
+      success: true,
+      response: output.response,
+      ...(output.validation && { validation: output.validation }),
+      module_outputs: output.module_outputs,
+      agent_id: request.agent_id,
+      user_id: run.userId,
+      session_id: run.sessionId,
+      timestamp: new Date().toISOString(),
+      raw_response: rawText,
+    },
+  }
+}
+
+/** Run one agent request end to end; returns the HTTP status and JSON body for /api/agent. */
+export async function runAgent(request: RunAgentRequest): Promise<RunAgentResult> {
+  const prepared = prepareRun(request)
+  if ('error' in prepared) return prepared.error
+  const { run } = prepared
+
+  const first = await callInference(run.payload)
+  if (!first.ok) {
+    const errorMsg = upstreamErrorMessage(first.status, first.rawText)
+    return { status: first.status, body: errorBody(errorMsg, { raw_response: first.rawText }) }
+  }
+
+  const { output, rawText } = await repairOutput(request, run, {
+    output: interpretAgentOutput(first.rawText, request.agent_id),
+    rawText: first.rawText,
+  })
+  return successResult(request, run, output, rawText)
+}
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+// Upstream stream frames carry either raw text or a small JSON object
+function extractStreamDelta(data: string): string | null {
+  if (data === '[DONE]') return null
+  try {
+    const parsed = JSON.parse(data)
+    if (typeof parsed === 'string') return parsed
+    if (parsed && typeof parsed === 'object') {
+      const delta = parsed.content ?? parsed.delta ?? parsed.chunk ?? parsed.text ?? parsed.response
+      return typeof delta === 'string' ? delta : null
+    }
+  } catch {}
+  return data
+}
+
+/**
+ * Same as runAgent, but reads the upstream streaming endpoint and reports each
+ * text delta as it arrives. Validation and repair run once the stream ends.
+ * Aborting `signal` (e.g. the client went away) cancels the upstream request.
+ */
+export async function runAgentStream(
+  request: RunAgentRequest,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<RunAgentResult> {
+  const prepared = prepareRun(request)
+  if ('error' in prepared) return prepared.error
+  const { run } = prepared
+
+  const response = await upstreamFetch(LYZR_STREAM_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'accept': 'text/event-stream',
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: JSON.stringify(run.payload),
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    const rawText = await response.text()
+    const errorMsg = upstreamErrorMessage(response.status, rawText)
+    return { status: response.ok ? 502 : response.status, body: errorBody(errorMsg, { raw_response: rawText }) }
+  }
+
+  let text = ''
+  if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+    for await (const message of readSSE(response.body)) {
+      const delta = extractStreamDelta(message.data)
+      if (delta === null) continue
+      text += delta
+      onDelta(delta)
+    }
+  } else {
+    // Upstream answered with a plain body; relay it as a single chunk
+    text = await response.text()
+    onDelta(text)
+  }
+
+  // Streamed reasoning models include their <think> block in the text
+  const answer = text.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
+  const { output, rawText } = await repairOutput(request, run, {
+    output: interpretAgentOutput(answer, request.agent_id),
+    rawText: text,
+  })
+  return successResult(request, run, output, rawText)
+}
@@ -18,6 +18,11 @@
  */
 
 import { useState } from 'react'
+import { parsePartialLLMJson } from '@/lib/jsonParser'
+import { readSSE } from '@/lib/sse'
+import type { SchemaValidationError, SchemaValidationResult } from '@/lib/schemaValidator'
+
+export type { SchemaValidationError, SchemaValidationResult }
 
 // Types
 export interface NormalizedAgentResponse {
@@ -45,6 +50,8 @@ export interface ModuleOutputs {
 export interface AIAgentResponse {
   success: boolean
   response: NormalizedAgentResponse
+  /** Present when the agent has a registered response schema */
+  validation?: SchemaValidationResult
   module_outputs?: ModuleOutputs
   agent_id?: string
   user_id?: string
@@ -74,13 +81,21 @@ export interface UploadResponse {
   error?: string
 }
 
+export interface AgentCallOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Re-prompt the agent (same session) when its result fails the response schema */
+  repair?: boolean | { max_attempts?: number }
+}
+
 /**
  * Call the AI Agent via server-side API route
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: AgentCallOptions
 ): Promise<AIAgentResponse> {
   try {
     const response = await fetch('/api/agent', {
@@ -94,6 +109,7 @@ export async function callAIAgent(
         user_id: options?.user_id,
         session_id: options?.session_id,
         assets: options?.assets,
+        repair: options?.repair,
       }),
     })
 
@@ -112,6 +128,78 @@ export async function callAIAgent(
   }
 }
 
+export interface AgentStreamHandlers {
+  /** Raw text as it arrives, plus everything received so far */
+  onDelta?: (delta: string, text: string) => void
+  /** Best-effort parse of the partial JSON received so far */
+  onPartial?: (partial: any) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Call the AI Agent with a streamed response.
+ * Resolves with the same final shape as callAIAgent once the stream completes.
+ */
+export async function callAIAgentStream(
+  message: string,
+  agent_id: string,
+  options?: AgentCallOptions & AgentStreamHandlers
+): Promise<AIAgentResponse> {
+  const failure = (msg: string): AIAgentResponse => ({
+    success: false,
+    response: { status: 'error', result: {}, message: msg },
+    error: msg,
+  })
+
+  try {
+    const response = await fetch('/api/agent/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id: options?.user_id,
+        session_id: options?.session_id,
+        assets: options?.assets,
+        repair: options?.repair,
+      }),
+      signal: options?.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null)
+      return data ?? failure(`Stream request failed with status ${response.status}`)
+    }
+
+    let text = ''
+    let lastPartial = ''
+    for await (const event of readSSE(response.body)) {
+      if (event.event === 'chunk') {
+        const { delta } = JSON.parse(event.data) as { delta: string }
+        text += delta
+        options?.onDelta?.(delta, text)
+        if (options?.onPartial) {
+          const partial = parsePartialLLMJson(text)
+          const serialized = partial ? JSON.stringify(partial) : ''
+          if (serialized && serialized !== lastPartial) {
+            lastPartial = serialized
+            options.onPartial(partial)
+          }
+        }
+      } else if (event.event === 'done' || event.event === 'error') {
+        const { status: _, ...result } = JSON.parse(event.data)
+        return result as AIAgentResponse
+      }
+    }
+
+    return failure('Stream ended before the agent finished')
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : 'Network error')
+  }
+}
+
 /**
  * Upload files via server-side API route
  */
@@ -171,7 +259,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: AgentCallOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -0,0 +1,470 @@
+/**
+ * Run Alerting — evaluator and dispatcher
+ *
+ * Server-side. Checks every watched schedule against the alert rules in
+ * lib/alerts.ts, records fired alerts and delivers them to the rule's channels.
+ * Each condition fires once: alerts are keyed by rule, schedule and anchor (the
+ * newest bad execution, or the missed due time).
+ *
+ * There is no background worker: evaluation runs on POST /api/alerts
+ * (`action: 'evaluate'`, suitable for an external cron) and, throttled, whenever
+ * the notification center polls GET /api/alerts.
+ *
+ * Persisted at <DATA_DIR>/alerts.json. Environment defaults for a fresh config:
+ *   ALERT_WEBHOOK_URL, ALERT_WEBHOOK_SECRET   adds a webhook channel
+ *   ALERT_EMAIL_TO (comma-separated)          adds an email channel (needs SMTP_*, see lib/smtp.ts)
+ */
+
+import { createHmac, randomUUID } from 'crypto'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { fetchSchedule, fetchScheduleLogs } from '@/lib/schedulerUpstream'
+import { getRegistry } from '@/lib/registryStore'
+import { extractDigestFromOutput } from '@/lib/digestIngest'
+import { getDigestStore } from '@/lib/digestStore'
+import { isDirectSlackSchedule } from '@/lib/digestDelivery'
+import { groupRuns, type ExecutionRun } from '@/lib/executionAnalytics'
+import { nextRuns, describeCron } from '@/lib/cron'
+import { sendMail } from '@/lib/smtp'
+import {
+  defaultAlertConfig,
+  type Alert,
+  type AlertChannel,
+  type AlertConfig,
+  type AlertDelivery,
+  type AlertEvaluationSummary,
+  type AlertListResult,
+  type AlertRule,
+  type RunProblem,
+} from '@/lib/alerts'
+import type { Schedule } from '@/lib/scheduler'
+import type { StoredDigest } from '@/lib/digest'
+
+const MAX_ALERTS = 500
+const LOGS_PER_SCHEDULE = 50
+/** Bad runs older than this do not fire (avoids alerting on old history) */
+const LOOKBACK_MS = 24 * 60 * 60 * 1000
+/** GET /api/alerts re-evaluates at most this often */
+export const EVALUATION_INTERVAL_MS = 5 * 60 * 1000
+const WEBHOOK_TIMEOUT_MS = 10000
+
+interface AlertState {
+  config: AlertConfig
+  alerts: Alert[]
+  /** `${rule_id}:${schedule_id}:${anchor}` → fired at */
+  fired: Record<string, string>
+  last_evaluated_at: string | null
+}
+
+function initialConfig(): AlertConfig {
+  const config = defaultAlertConfig()
+  const extra: AlertChannel[] = []
+  if (process.env.ALERT_WEBHOOK_URL) {
+    extra.push({
+      id: 'webhook',
+      name: 'Webhook',
+      type: 'webhook',
+      enabled: true,
+      webhook: { url: process.env.ALERT_WEBHOOK_URL, secret: process.env.ALERT_WEBHOOK_SECRET || undefined },
+    })
+  }
+  if (process.env.ALERT_EMAIL_TO) {
+    extra.push({
+      id: 'email',
+      name: 'Email',
+      type: 'email',
+      enabled: true,
+      email: { to: process.env.ALERT_EMAIL_TO.split(',').map(s => s.trim()).filter(Boolean) },
+    })
+  }
+  config.channels.push(...extra)
+  config.rules.forEach(rule => rule.channels.push(...extra.map(c => c.id)))
+  return config
+}
+
+const alertStore = createJsonFileStore<AlertState>('alerts.json', () => ({
+  config: initialConfig(),
+  alerts: [],
+  fired: {},
+  last_evaluated_at: null,
+}))
+
+// ---------------------------------------------------------------------------
+// Config + notification center
+// ---------------------------------------------------------------------------
+
+export async function getAlertConfig(): Promise<AlertConfig> {
+  return (await alertStore.read()).config
+}
+
+/** Replace the config (validate with validateAlertConfig first). */
+export async function saveAlertConfig(config: AlertConfig): Promise<AlertConfig> {
+  const next = await alertStore.update(current => ({ ...current, config }))
+  return next.config
+}
+
+/** Point rules scoped to `previousId` at the schedule that replaced it. */
+export async function rekeyAlertSchedule(previousId: string, scheduleId: string): Promise<void> {
+  await alertStore.update(current => ({
+    ...current,
+    config: {
+      ...current.config,
+      rules: current.config.rules.map(rule => (
+        rule.schedule_ids.includes(previousId)
+          ? { ...rule, schedule_ids: Array.from(new Set(rule.schedule_ids.map(id => (id === previousId ? scheduleId : id)))) }
+          : rule
+      )),
+    },
+  }))
+}
+
+export async function listAlerts(params?: { unreadOnly?: boolean; skip?: number; limit?: number }): Promise<AlertListResult> {
+  const { alerts } = await alertStore.read()
+  const inApp = alerts.filter(alert => alert.in_app)
+  const filtered = params?.unreadOnly ? inApp.filter(alert => !alert.read_at) : inApp
+  const skip = Math.max(0, params?.skip ?? 0)
+  const limit = Math.min(100, Math.max(1, params?.limit ?? 20))
+  return {
+    success: true,
+    alerts: filtered.slice(skip, skip + limit),
+    unread: inApp.filter(alert => !alert.read_at).length,
+    total: filtered.length,
+  }
+}
+
+/** Mark alerts read; all unread ones when `ids` is omitted. Returns how many changed. */
+export async function markAlertsRead(ids?: string[]): Promise<number> {
+  const wanted = ids ? new Set(ids) : null
+  const now = new Date().toISOString()
+  let changed = 0
+  await alertStore.update(current => ({
+    ...current,
+    alerts: current.alerts.map(alert => {
+      if (alert.read_at || (wanted && !wanted.has(alert.id))) return alert
+      changed++
+      return { ...alert, read_at: now }
+    }),
+  }))
+  return changed
+}
+
+// ---------------------------------------------------------------------------
+// Channels
+// ---------------------------------------------------------------------------
+
+function alertText(alert: Alert, baseUrl?: string): string {
+  return [
+    alert.message,
+    '',
+    `Schedule: ${alert.schedule_id}`,
+    alert.execution_ids.length ? `Executions: ${alert.execution_ids.join(', ')}` : '',
+    `Rule: ${alert.rule_id} (${alert.severity})`,
+    `Time: ${alert.created_at}`,
+    baseUrl ? `\n${baseUrl}/schedules` : '',
+  ].filter(line => line !== '').join('\n')
+}
+
+async function deliverWebhook(channel: AlertChannel, alert: Alert, baseUrl?: string) {
+  const body = JSON.stringify({ type: 'digest.alert', alert, app_url: baseUrl || null })
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (channel.webhook?.secret) {
+    headers['X-Alert-Signature'] = `sha256=${createHmac('sha256', channel.webhook.secret).update(body).digest('hex')}`
+  }
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS)
+  try {
+    const response = await fetch(channel.webhook!.url, { method: 'POST', headers, body, signal: controller.signal })
+    if (!response.ok) throw new Error(`Webhook answered ${response.status}`)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function deliver(channel: AlertChannel, alert: Alert, baseUrl?: string): Promise<AlertDelivery> {
+  try {
+    switch (channel.type) {
+      case 'in_app':
+        // Stored with the alert; the notification center reads it from there
+        break
+      case 'webhook':
+        await deliverWebhook(channel, alert, baseUrl)
+        break
+      case 'email':
+        await sendMail({
+          to: channel.email?.to || [],
+          subject: `[${alert.severity === 'critical' ? 'CRITICAL' : 'Warning'}] ${alert.title}`,
+          text: alertText(alert, baseUrl),
+        })
+        break
+    }
+    return { channel_id: channel.id, ok: true }
+  } catch (error) {
+    return { channel_id: channel.id, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' }
+  }
+}
+
+async function dispatch(alert: Alert, rule: AlertRule, config: AlertConfig, baseUrl?: string): Promise<Alert> {
+  const channels = config.channels.filter(c => c.enabled && rule.channels.includes(c.id))
+  const deliveries = await Promise.all(channels.map(channel => deliver(channel, alert, baseUrl)))
+  return { ...alert, deliveries, in_app: channels.some(c => c.type === 'in_app') }
+}
+
+/** Send a sample alert through one channel (from the alert settings UI). */
+export async function sendTestAlert(channelId: string, baseUrl?: string): Promise<AlertDelivery> {
+  const config = await getAlertConfig()
+  const channel = config.channels.find(c => c.id === channelId)
+  if (!channel) return { channel_id: channelId, ok: false, error: `Unknown channel "${channelId}"` }
+  const alert: Alert = {
+    id: randomUUID(),
+    rule_id: 'test',
+    rule_type: 'consecutive_failures',
+    severity: 'warning',
+    schedule_id: 'test',
+    title: 'Test alert',
+    message: `This is a test alert for the "${channel.name}" channel.`,
+    created_at: new Date().toISOString(),
+    anchor: 'test',
+    execution_ids: [],
+    problems: [],
+    deliveries: [],
+    in_app: channel.type === 'in_app',
+    read_at: null,
+  }
+  const delivery = await deliver(channel, alert, baseUrl)
+  if (channel.type === 'in_app') {
+    await alertStore.update(current => ({ ...current, alerts: [{ ...alert, deliveries: [delivery] }, ...current.alerts].slice(0, MAX_ALERTS) }))
+  }
+  return delivery
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/** Where a schedule's Slack outcome is recorded */
+interface SlackRecord {
+  /** The app posts to Slack itself; the agent's own `slack_posted` is always false */
+  direct: boolean
+  /** Archived digests by execution id */
+  archived: Map<string, StoredDigest>
+}
+
+/**
+ * Whether a run's digest reached Slack. Recorded Slack deliveries on the
+ * archived digest win over the agent's claim; a direct-delivery digest with
+ * none yet is still pending (null).
+ */
+function slackPosted(run: ExecutionRun, agentClaim: boolean | undefined, slack: SlackRecord): boolean | null {
+  const archived = slack.archived.get(run.final.id)
+  if (archived?.deliveries?.some(d => d.type === 'slack')) return archived.data.slack_posted
+  if (slack.direct) return null
+  return agentClaim ?? null
+}
+
+function runProblem(run: ExecutionRun, rule: AlertRule, slack: SlackRecord): RunProblem | null {
+  if (!run.success) return 'failed'
+  if (!rule.count_invalid_output && !rule.count_slack_not_posted) return null
+  const { digest } = extractDigestFromOutput(run.final.response_output)
+  if (!digest) return rule.count_invalid_output ? 'invalid_output' : null
+  if (rule.count_slack_not_posted && slackPosted(run, digest.slack_posted, slack) === false) return 'slack_not_posted'
+  return null
+}
+
+const PROBLEM_TEXT: Record<RunProblem, string> = {
+  failed: 'failed',
+  invalid_output: 'returned output that is not a valid digest',
+  slack_not_posted: 'did not post to Slack',
+}
+
+interface Candidate {
+  anchor: string
+  title: string
+  message: string
+  execution_ids: string[]
+  problems: RunProblem[]
+}
+
+function checkConsecutiveFailures(
+  rule: AlertRule,
+  schedule: Schedule,
+  runs: ExecutionRun[],
+  slack: SlackRecord,
+  now: number
+): Candidate | null {
+  // Newest first; a failed attempt with retries left is still in progress
+  const finished = [...runs].reverse()
+  if (finished[0] && !finished[0].success && finished[0].attempts < finished[0].max_attempts) finished.shift()
+
+  const streak: Array<{ run: ExecutionRun; problem: RunProblem }> = []
+  for (const run of finished) {
+    const problem = runProblem(run, rule, slack)
+    if (!problem) break
+    streak.push({ run, problem })
+  }
+  const threshold = rule.threshold ?? 1
+  if (streak.length < threshold) return null
+
+  const newest = streak[0]
+  if (now - new Date(newest.run.finished_at).getTime() > LOOKBACK_MS) return null
+
+  const problems = Array.from(new Set(streak.map(s => s.problem)))
+  const detail = newest.run.final.error_message ? ` Last error: ${newest.run.final.error_message}` : ''
+  return {
+    anchor: newest.run.final.id,
+    title: streak.length === 1
+      ? `Digest run ${PROBLEM_TEXT[newest.problem]}`
+      : `${streak.length} digest runs in a row went wrong`,
+    message:
+      `The scheduled run of "${describeCron(schedule.cron_expression)}" (${schedule.timezone}) ${PROBLEM_TEXT[newest.problem]} ` +
+      `at ${newest.run.finished_at} after ${newest.run.attempts} of ${newest.run.max_attempts} attempts.` +
+      (streak.length > 1 ? ` ${streak.length} consecutive runs had problems (${problems.join(', ')}).` : '') +
+      detail,
+    execution_ids: streak.map(s => s.run.final.id),
+    problems,
+  }
+}
+
+function checkMissedRun(rule: AlertRule, schedule: Schedule, runs: ExecutionRun[], now: number): Candidate | null {
+  if (!schedule.is_active) return null
+  const graceMs = (rule.grace_minutes ?? 30) * 60 * 1000
+
+  // Due times: the first fire after the last run, and the scheduler's own next_run_time
+  const since = new Date(schedule.last_run_at || schedule.created_at)
+  const due: number[] = []
+  try {
+    const [expected] = nextRuns(schedule.cron_expression, { timezone: schedule.timezone, from: since, count: 1 })
+    if (expected) due.push(expected.getTime())
+  } catch {
+    // Unparseable cron: rely on next_run_time alone
+  }
+  if (schedule.next_run_time) due.push(new Date(schedule.next_run_time).getTime())
+
+  const missed = due.filter(t => now - t > graceMs).sort((a, b) => a - b)[0]
+  if (missed === undefined || now - missed > LOOKBACK_MS) return null
+  // A log at (or just before) the due time means it ran and last_run_at lags
+  if (runs.some(run => new Date(run.started_at).getTime() >= missed - 60 * 1000)) return null
+
+  const dueAt = new Date(missed).toISOString()
+  return {
+    anchor: dueAt,
+    title: 'Scheduled digest run missed',
+    message:
+      `"${describeCron(schedule.cron_expression)}" (${schedule.timezone}) was due at ${dueAt} ` +
+      `and has not run ${Math.round((now - missed) / 60000)} minutes later.`,
+    execution_ids: [],
+    problems: [],
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+let running: Promise<AlertEvaluationSummary> | null = null
+
+/** Load the archived digests only when a rule checks Slack posting. */
+async function slackRecord(scheduleId: string, runs: ExecutionRun[], rules: AlertRule[]): Promise<SlackRecord> {
+  const archived = new Map<string, StoredDigest>()
+  if (!rules.some(rule => rule.type === 'consecutive_failures' && rule.count_slack_not_posted)) {
+    return { direct: false, archived }
+  }
+  const store = getDigestStore()
+  const found = await Promise.all(runs.filter(run => run.success).map(run => store.findByExecutionId(run.final.id)))
+  found.forEach(digest => {
+    if (digest?.execution_id) archived.set(digest.execution_id, digest)
+  })
+  return { direct: await isDirectSlackSchedule(scheduleId), archived }
+}
+
+async function evaluate(baseUrl?: string): Promise<AlertEvaluationSummary> {
+  const evaluatedAt = new Date().toISOString()
+  const now = Date.now()
+  const state = await alertStore.read()
+  const rules = state.config.rules.filter(rule => rule.enabled)
+  const summary: AlertEvaluationSummary = { success: true, evaluated_at: evaluatedAt, schedules: 0, fired: [], errors: [] }
+
+  const registry = await getRegistry()
+  const watched = new Set<string>(registry.schedules.map(s => s.schedule_id))
+  rules.forEach(rule => rule.schedule_ids.forEach(id => watched.add(id)))
+
+  const fired: Alert[] = []
+  const keys: Record<string, string> = {}
+
+  for (const scheduleId of Array.from(watched)) {
+    const scheduleRules = rules.filter(rule => rule.schedule_ids.length === 0 || rule.schedule_ids.includes(scheduleId))
+    if (scheduleRules.length === 0) continue
+
+    const [scheduleResult, logsResult] = await Promise.all([
+      fetchSchedule(scheduleId),
+      fetchScheduleLogs(scheduleId, { limit: LOGS_PER_SCHEDULE }),
+    ])
+    if (!scheduleResult.ok || !scheduleResult.data) {
+      summary.errors.push({ schedule_id: scheduleId, error: scheduleResult.error || 'Schedule not found' })
+      continue
+    }
+    summary.schedules++
+    const schedule = scheduleResult.data
+    const runs = groupRuns(logsResult.ok && Array.isArray(logsResult.data?.executions) ? logsResult.data!.executions : [])
+    const slack = await slackRecord(scheduleId, runs, scheduleRules)
+
+    for (const rule of scheduleRules) {
+      const candidate = rule.type === 'missed_run'
+        ? checkMissedRun(rule, schedule, runs, now)
+        : checkConsecutiveFailures(rule, schedule, runs, slack, now)
+      if (!candidate) continue
+
+      const key = `${rule.id}:${scheduleId}:${candidate.anchor}`
+      if (state.fired[key] || keys[key]) continue
+      keys[key] = evaluatedAt
+
+      const alert = await dispatch({
+        id: randomUUID(),
+        rule_id: rule.id,
+        rule_type: rule.type,
+        severity: rule.severity,
+        schedule_id: scheduleId,
+        agent_id: schedule.agent_id,
+        created_at: evaluatedAt,
+        deliveries: [],
+        in_app: false,
+        read_at: null,
+        ...candidate,
+      }, rule, state.config, baseUrl)
+      fired.push(alert)
+    }
+  }
+
+  await alertStore.update(current => ({
+    ...current,
+    alerts: [...fired, ...current.alerts].slice(0, MAX_ALERTS),
+    fired: { ...current.fired, ...keys },
+    last_evaluated_at: evaluatedAt,
+  }))
+  summary.fired = fired
+  return summary
+}
+
+/** Evaluate every enabled rule now. Concurrent calls share one evaluation. */
+export function evaluateAlerts(options?: { baseUrl?: string }): Promise<AlertEvaluationSummary> {
+  if (!running) {
+    running = evaluate(options?.baseUrl)
+      .catch((error): AlertEvaluationSummary => ({
+        success: false,
+        evaluated_at: new Date().toISOString(),
+        schedules: 0,
+        fired: [],
+        errors: [],
+        error: error instanceof Error ? error.message : 'Alert evaluation failed',
+      }))
+      .finally(() => {
+        running = null
+      })
+  }
+  return running
+}
+
+/** Evaluate only when the last evaluation is older than EVALUATION_INTERVAL_MS. */
+export async function evaluateAlertsIfStale(options?: { baseUrl?: string }): Promise<AlertEvaluationSummary | null> {
+  const { last_evaluated_at } = await alertStore.read()
+  if (last_evaluated_at && Date.now() - new Date(last_evaluated_at).getTime() < EVALUATION_INTERVAL_MS) return null
+  return evaluateAlerts(options)
+}
@@ -0,0 +1,198 @@
+/**
+ * Run Alerting — shared types
+ *
+ * Alert rules watch scheduled digest runs and notify channels when something
+ * goes wrong. Used by the evaluator (lib/alertEngine.ts), /api/alerts and the
+ * notification center UI.
+ *
+ * Rules:
+ *   consecutive_failures   the last N finished runs were all bad. A run is bad
+ *                          when it failed, or (optionally) succeeded with output
+ *                          that is not a valid digest or was not posted to Slack
+ *   missed_run             an active schedule did not run within `grace_minutes`
+ *                          of when it was due
+ *
+ * Channels: outgoing webhook (JSON POST), email over SMTP, in-app notification center.
+ */
+
+export type AlertRuleType = 'consecutive_failures' | 'missed_run'
+export type AlertChannelType = 'webhook' | 'email' | 'in_app'
+export type AlertSeverity = 'warning' | 'critical'
+
+/** Why a run counted as bad */
+export type RunProblem = 'failed' | 'invalid_output' | 'slack_not_posted'
+
+export interface AlertRule {
+  id: string
+  name: string
+  type: AlertRuleType
+  enabled: boolean
+  /** Schedules the rule watches; empty = every registered schedule */
+  schedule_ids: string[]
+  /** Channel ids to notify */
+  channels: string[]
+  severity: AlertSeverity
+  /** consecutive_failures: bad runs in a row before alerting */
+  threshold?: number
+  /** consecutive_failures: count successful runs whose output is not a valid digest */
+  count_invalid_output?: boolean
+  /**
+   * consecutive_failures: count runs whose digest did not reach Slack — the
+   * recorded Slack deliveries of the archived digest when there are any, else
+   * the agent's `slack_posted` (skipped for schedules the app posts to Slack)
+   */
+  count_slack_not_posted?: boolean
+  /** missed_run: minutes past the due time before alerting */
+  grace_minutes?: number
+}
+
+export interface WebhookChannelConfig {
+  url: string
+  /** When set, requests carry `X-Alert-Signature: sha256=<hmac of body>` */
+  secret?: string
+}
+
+export interface EmailChannelConfig {
+  to: string[]
+}
+
+export interface AlertChannel {
+  id: string
+  name: string
+  type: AlertChannelType
+  enabled: boolean
+  webhook?: WebhookChannelConfig
+  email?: EmailChannelConfig
+}
+
+export interface AlertConfig {
+  rules: AlertRule[]
+  channels: AlertChannel[]
+}
+
+export interface AlertDelivery {
+  channel_id: string
+  ok: boolean
+  error?: string
+}
+
+export interface Alert {
+  id: string
+  rule_id: string
+  rule_type: AlertRuleType
+  severity: AlertSeverity
+  schedule_id: string
+  agent_id?: string
+  title: string
+  message: string
+  created_at: string
+  /** What fired the alert, e.g. the newest bad execution id or the missed due time */
+  anchor: string
+  execution_ids: string[]
+  problems: RunProblem[]
+  deliveries: AlertDelivery[]
+  /** Shown in the notification center */
+  in_app: boolean
+  read_at: string | null
+}
+
+export interface AlertListResult {
+  success: boolean
+  alerts: Alert[]
+  unread: number
+  total: number
+  error?: string
+}
+
+export interface AlertEvaluationSummary {
+  success: boolean
+  evaluated_at: string
+  schedules: number
+  fired: Alert[]
+  errors: Array<{ schedule_id: string; error: string }>
+  error?: string
+}
+
+export const IN_APP_CHANNEL_ID = 'in-app'
+
+export function defaultAlertConfig(): AlertConfig {
+  return {
+    rules: [
+      {
+        id: 'run-failures',
+        name: 'Digest run failed',
+        type: 'consecutive_failures',
+        enabled: true,
+        schedule_ids: [],
+        channels: [IN_APP_CHANNEL_ID],
+        severity: 'critical',
+        threshold: 1,
+        count_invalid_output: true,
+        count_slack_not_posted: true,
+      },
+      {
+        id: 'missed-run',
+        name: 'Digest run missed',
+        type: 'missed_run',
+        enabled: true,
+        schedule_ids: [],
+        channels: [IN_APP_CHANNEL_ID],
+        severity: 'warning',
+        grace_minutes: 30,
+      },
+    ],
+    channels: [
+      { id: IN_APP_CHANNEL_ID, name: 'Notification center', type: 'in_app', enabled: true },
+    ],
+  }
+}
+
+const SLUG_RE = /^[a-z0-9][a-z0-9-_]{0,63}$/i
+
+/**
+ * Check a config submitted from the UI/API. Returns a list of problems
+ * (empty when valid).
+ */
+export function validateAlertConfig(config: AlertConfig): string[] {
+  const errors: string[] = []
+  if (!config || !Array.isArray(config.rules) || !Array.isArray(config.channels)) {
+    return ['rules and channels must be arrays']
+  }
+
+  const channelIds = new Set<string>()
+  config.channels.forEach((channel, i) => {
+    const where = `channels[${i}]`
+    if (!SLUG_RE.test(channel.id || '')) errors.push(`${where}.id must be a short slug`)
+    else if (channelIds.has(channel.id)) errors.push(`${where}.id "${channel.id}" is duplicated`)
+    channelIds.add(channel.id)
+    if (!['webhook', 'email', 'in_app'].includes(channel.type)) errors.push(`${where}.type is invalid`)
+    if (channel.type === 'webhook' && !/^https?:\/\//.test(channel.webhook?.url || '')) {
+      errors.push(`${where}.webhook.url must be an http(s) URL`)
+    }
+    if (channel.type === 'email') {
+      const to = channel.email?.to || []
+      if (to.length === 0) errors.push(`${where}.email.to needs at least one address`)
+      to.filter(addr => !/^[^\s@]+@[^\s@]+$/.test(addr)).forEach(addr => errors.push(`${where}.email.to "${addr}" is not an email address`))
+    }
+  })
+
+  const ruleIds = new Set<string>()
+  config.rules.forEach((rule, i) => {
+    const where = `rules[${i}]`
+    if (!SLUG_RE.test(rule.id || '')) errors.push(`${where}.id must be a short slug`)
+    else if (ruleIds.has(rule.id)) errors.push(`${where}.id "${rule.id}" is duplicated`)
+    ruleIds.add(rule.id)
+    if (!['consecutive_failures', 'missed_run'].includes(rule.type)) errors.push(`${where}.type is invalid`)
+    if (rule.type === 'consecutive_failures' && !(Number.isInteger(rule.threshold) && rule.threshold! >= 1)) {
+      errors.push(`${where}.threshold must be an integer >= 1`)
+    }
+    if (rule.type === 'missed_run' && !(typeof rule.grace_minutes === 'number' && rule.grace_minutes >= 0)) {
+      errors.push(`${where}.grace_minutes must be >= 0`)
+    }
+    for (const id of rule.channels || []) {
+      if (!channelIds.has(id)) errors.push(`${where} uses unknown channel "${id}"`)
+    }
+  })
+
+  return errors
+}
@@ -0,0 +1,142 @@
+'use client'
+
+/**
+ * Run Alerting Client Utility
+ *
+ * Client-side wrapper for /api/alerts and /api/alerts/config plus a hook that
+ * polls the notification center.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Alert, AlertConfig, AlertDelivery, AlertEvaluationSummary, AlertListResult } from '@/lib/alerts'
+
+const POLL_INTERVAL_MS = 60000
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Network error'
+}
+
+/** In-app alerts, newest first. The server re-evaluates rules when stale. */
+export async function fetchAlerts(params?: { unreadOnly?: boolean; skip?: number; limit?: number }): Promise<AlertListResult> {
+  try {
+    const query = new URLSearchParams()
+    if (params?.unreadOnly) query.set('unread', 'true')
+    if (params?.skip !== undefined) query.set('skip', String(params.skip))
+    if (params?.limit !== undefined) query.set('limit', String(params.limit))
+    const res = await fetch(`/api/alerts?${query}`)
+    return res.json()
+  } catch (error) {
+    return { success: false, alerts: [], unread: 0, total: 0, error: errorMessage(error) }
+  }
+}
+
+async function postAlertAction<T>(body: Record<string, unknown>, fallback: (error: string) => T): Promise<T> {
+  try {
+    const res = await fetch('/api/alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    return res.json()
+  } catch (error) {
+    return fallback(errorMessage(error))
+  }
+}
+
+/** Mark alerts read; every unread alert when `ids` is omitted. */
+export function markAlertsRead(ids?: string[]): Promise<{ success: boolean; updated?: number; error?: string }> {
+  return postAlertAction({ action: 'read', ids }, error => ({ success: false, error }))
+}
+
+/** Evaluate every alert rule now. */
+export function evaluateAlertsNow(): Promise<AlertEvaluationSummary> {
+  return postAlertAction({ action: 'evaluate' }, error => ({
+    success: false,
+    evaluated_at: new Date().toISOString(),
+    schedules: 0,
+    fired: [],
+    errors: [],
+    error,
+  }))
+}
+
+/** Send a test alert through one channel. */
+export function testAlertChannel(channelId: string): Promise<{ success: boolean; delivery?: AlertDelivery; error?: string }> {
+  return postAlertAction({ action: 'test', channel_id: channelId }, error => ({ success: false, error }))
+}
+
+export async function fetchAlertConfig(): Promise<{ success: boolean; config?: AlertConfig; error?: string }> {
+  try {
+    const res = await fetch('/api/alerts/config')
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+export async function saveAlertConfig(
+  config: AlertConfig
+): Promise<{ success: boolean; config?: AlertConfig; error?: string; errors?: string[] }> {
+  try {
+    const res = await fetch('/api/alerts/config', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(config),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook for the notification center; polls every minute while mounted. */
+export function useAlerts(options?: { limit?: number }) {
+  const limit = options?.limit ?? 20
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [unread, setUnread] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const mounted = useRef(true)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const result = await fetchAlerts({ limit })
+    if (!mounted.current) return result
+    if (result.success) {
+      setAlerts(result.alerts)
+      setUnread(result.unread)
+      setError(null)
+    } else {
+      setError(result.error || 'Failed to load alerts')
+    }
+    setLoading(false)
+    return result
+  }, [limit])
+
+  useEffect(() => {
+    mounted.current = true
+    refresh()
+    const timer = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => {
+      mounted.current = false
+      clearInterval(timer)
+    }
+  }, [refresh])
+
+  const markRead = async (ids?: string[]) => {
+    const now = new Date().toISOString()
+    const wanted = ids ? new Set(ids) : null
+    // Optimistic: the badge clears immediately
+    setAlerts(prev => prev.map(a => (!a.read_at && (!wanted || wanted.has(a.id)) ? { ...a, read_at: now } : a)))
+    setUnread(prev => (wanted ? Math.max(0, prev - alerts.filter(a => !a.read_at && wanted.has(a.id)).length) : 0))
+    const result = await markAlertsRead(ids)
+    if (!result.success) await refresh()
+    return result
+  }
+
+  return { alerts, unread, loading, error, refresh, markRead }
+}
@@ -0,0 +1,121 @@
+/**
+ * Missed-Run Catch-Up — shared types and detection
+ *
+ * The watchdog (lib/scheduleWatchdog.ts) walks each active schedule's cron
+ * expression forward from the last point it checked and looks for fire times
+ * that have no execution log. What happens next is the schedule's catch-up
+ * policy:
+ *
+ *   skip       record the missed runs, do nothing else (default)
+ *   run_once   trigger one run, however many fire times were missed
+ *   run_all    trigger one run per missed fire time (capped)
+ *
+ * Types and detection here are I/O free; the watchdog does the fetching.
+ */
+
+import { nextRuns } from '@/lib/cron'
+import type { ExecutionLog, Schedule } from '@/lib/scheduler'
+
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all'
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'run_once', 'run_all']
+
+export const CATCH_UP_POLICY_LABELS: Record<CatchUpPolicy, string> = {
+  skip: 'Skip missed runs',
+  run_once: 'Run once',
+  run_all: 'Run every missed time',
+}
+
+/** Upper bound on runs a single `run_all` catch-up triggers */
+export const MAX_CATCH_UP_RUNS = 5
+
+export interface CatchUpRecord {
+  id: string
+  schedule_id: string
+  agent_id: string
+  detected_at: string
+  policy: CatchUpPolicy
+  /** Fire times (ISO) that had no execution */
+  missed: string[]
+  /** Runs triggered to catch up */
+  triggered: number
+  outcome: 'skipped' | 'triggered' | 'failed'
+  /** Why the catch-up happened (or did not) */
+  reason: string
+  error?: string
+}
+
+export interface MissedRunStatus {
+  schedule_id: string
+  agent_id: string
+  policy: CatchUpPolicy
+  /** Missed fire times not handled yet (ISO, oldest first) */
+  missed: string[]
+  /** Start of the window that was checked */
+  checked_from: string
+  next_run_time: string | null
+  last_run_at: string | null
+}
+
+export interface WatchdogReport {
+  success: boolean
+  checked_at: string
+  dry_run: boolean
+  schedules: MissedRunStatus[]
+  /** Catch-ups applied by this pass (empty on a dry run) */
+  catch_ups: CatchUpRecord[]
+  errors: Array<{ schedule_id: string; error: string }>
+  error?: string
+}
+
+/**
+ * Fire times in (since, now - grace] that have no execution starting near
+ * them. An execution counts for a fire time when it started between one
+ * minute before and `graceMs` after it.
+ */
+export function findMissedFireTimes(
+  schedule: Pick<Schedule, 'cron_expression' | 'timezone'>,
+  executions: Pick<ExecutionLog, 'executed_at' | 'attempt'>[],
+  options: { since: Date; now: Date; graceMs: number; limit?: number }
+): Date[] {
+  const until = options.now.getTime() - options.graceMs
+  if (until <= options.since.getTime()) return []
+
+  let fireTimes: Date[]
+  try {
+    fireTimes = nextRuns(schedule.cron_expression, {
+      timezone: schedule.timezone,
+      from: options.since,
+      count: options.limit ?? 100,
+    }).filter(date => date.getTime() <= until)
+  } catch {
+    // Unparseable cron or timezone: nothing can be said about missed runs
+    return []
+  }
+
+  const starts = executions
+    .filter(log => (log.attempt || 1) === 1)
+    .map(log => new Date(log.executed_at).getTime())
+
+  return fireTimes.filter(fire => {
+    const t = fire.getTime()
+    return !starts.some(start => start >= t - 60 * 1000 && start <= t + options.graceMs)
+  })
+}
+
+/** Human-readable reason for a catch-up record. */
+export function describeCatchUp(policy: CatchUpPolicy, missed: string[], triggered: number): string {
+  const times = missed.length === 1
+    ? `the run due at ${missed[0]}`
+    : `${missed.length} runs due between ${missed[0]} and ${missed[missed.length - 1]}`
+  switch (policy) {
+    case 'skip':
+      return `Missed ${times}; policy is skip, nothing was triggered.`
+    case 'run_once':
+      return `Missed ${times}; triggered one catch-up run.`
+    case 'run_all':
+      return triggered < missed.length
+        ? `Missed ${times}; triggered ${triggered} catch-up runs (capped at ${MAX_CATCH_UP_RUNS}).`
+        : `Missed ${times}; triggered ${triggered} catch-up run${triggered === 1 ? '' : 's'}.`
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Cron Engine
+ *
+ * Standard 5-field cron (minute hour day-of-month month day-of-week), shared by
+ * the UI and the server:
+ *
+ *   - parseCron / validateCron   syntax + range checking
+ *   - describeCron               human-readable text for any valid expression
+ *   - nextRuns                   next N fire times in an IANA timezone
+ *
+ * Field syntax: `*`, `N`, `A-B`, `*\/S`, `A-B/S`, `A/S` and comma lists of those.
+ * Months accept JAN–DEC, days of week SUN–SAT; day-of-week 7 is Sunday.
+ * When both day-of-month and day-of-week are restricted a day matches if
+ * either does (Vixie cron semantics).
+ *
+ * DST: local times skipped by a spring-forward transition do not fire; local
+ * times repeated by a fall-back transition fire once, at the first occurrence.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CronFieldName = 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek'
+
+export interface CronField {
+  /** Source text of the field */
+  source: string
+  /** Sorted, de-duplicated matching values */
+  values: number[]
+  /** True when the field is `*` (or a step/range that covers every value) */
+  all: boolean
+  /** Step of a single `*\/S` or `A-B/S` term, for descriptions */
+  step?: number
+}
+
+export interface CronExpression {
+  source: string
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+export class CronParseError extends Error {
+  constructor(message: string, public field?: CronFieldName) {
+    super(message)
+    this.name = 'CronParseError'
+  }
+}
+
+interface FieldSpec {
+  name: CronFieldName
+  label: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', label: 'minute', min: 0, max: 59 },
+  { name: 'hour', label: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', label: 'day of month', min: 1, max: 31 },
+  { name: 'month', label: 'month', min: 1, max: 12, names: MONTH_NAMES.map(m => m.slice(0, 3).toUpperCase()) },
+  { name: 'dayOfWeek', label: 'day of week', min: 0, max: 7, names: DAY_NAMES.map(d => d.slice(0, 3).toUpperCase()) },
+]
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const upper = token.toUpperCase()
+  if (spec.names) {
+    const index = spec.names.indexOf(upper)
+    if (index !== -1) return spec.name === 'month' ? index + 1 : index
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(`Invalid ${spec.label} value "${token}"`, spec.name)
+  }
+  const value = parseInt(token, 10)
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(`${spec.label} value ${value} is out of range (${spec.min}-${spec.max})`, spec.name)
+  }
+  return value
+}
+
+function parseField(source: string, spec: FieldSpec): CronField {
+  const values = new Set<number>()
+  const terms = source.split(',')
+  let step: number | undefined
+
+  for (const term of terms) {
+    if (!term) throw new CronParseError(`Empty list entry in ${spec.label}`, spec.name)
+    const [range, stepText, extra] = term.split('/')
+    if (extra !== undefined) throw new CronParseError(`Invalid step in ${spec.label}: "${term}"`, spec.name)
+
+    let termStep = 1
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new CronParseError(`Invalid step "${stepText}" in ${spec.label}`, spec.name)
+      }
+      termStep = parseInt(stepText, 10)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.name === 'dayOfWeek' ? 6 : spec.max
+    } else if (range.includes('-')) {
+      const [a, b, more] = range.split('-')
+      if (more !== undefined || !a || !b) throw new CronParseError(`Invalid range "${range}" in ${spec.label}`, spec.name)
+      start = parseValue(a, spec)
+      end = parseValue(b, spec)
+      if (start > end) throw new CronParseError(`Range ${range} in ${spec.label} runs backwards`, spec.name)
+    } else {
+      start = parseValue(range, spec)
+      // `A/S` means A through the end of the field
+      end = stepText !== undefined ? (spec.name === 'dayOfWeek' ? 6 : spec.max) : start
+    }
+
+    for (let v = start; v <= end; v += termStep) {
+      values.add(spec.name === 'dayOfWeek' && v === 7 ? 0 : v)
+    }
+    if (terms.length === 1 && stepText !== undefined) step = termStep
+  }
+
+  const sorted = Array.from(values).sort((a, b) => a - b)
+  const fullSize = (spec.name === 'dayOfWeek' ? 6 : spec.max) - spec.min + 1
+  return { source, values: sorted, all: sorted.length === fullSize && (step ?? 1) === 1, step }
+}
+
+/** Parse a 5-field cron expression. Throws CronParseError when invalid. */
+export function parseCron(expression: string): CronExpression {
+  const source = (expression || '').trim().replace(/\s+/g, ' ')
+  const parts = source ? source.split(' ') : []
+  if (parts.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`)
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]))
+  return { source, minute, hour, dayOfMonth, month, dayOfWeek }
+}
+
+export function validateCron(expression: string): { valid: boolean; error?: string; field?: CronFieldName } {
+  try {
+    const cron = parseCron(expression)
+    // e.g. "0 0 30 2 *": every field parses but the date never exists
+    if (nextRuns(cron, { count: 1 }).length === 0) {
+      return { valid: false, error: 'Expression never fires (no matching date)', field: 'dayOfMonth' }
+    }
+    return { valid: true }
+  } catch (error) {
+    if (error instanceof CronParseError) return { valid: false, error: error.message, field: error.field }
+    throw error
+  }
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  if (!timezone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Description
+// ---------------------------------------------------------------------------
+
+function formatTime(hour: number, minute: number): string {
+  return `${hour}:${String(minute).padStart(2, '0')}`
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items[0] || ''
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function isContiguous(values: number[]): boolean {
+  return values.length > 2 && values.every((v, i) => i === 0 || v === values[i - 1] + 1)
+}
+
+// "Monday through Friday" for runs, "Monday, Wednesday and Friday" otherwise
+function describeValues(values: number[], label: (v: number) => string): string {
+  if (isContiguous(values)) return `${label(values[0])} through ${label(values[values.length - 1])}`
+  return joinList(values.map(label))
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th'
+  return `${n}${suffix}`
+}
+
+function describeHours(hour: CronField): string {
+  if (hour.all) return ''
+  if (hour.step && hour.source.startsWith('*')) return `, every ${hour.step} hours`
+  if (isContiguous(hour.values)) {
+    return ` between ${formatTime(hour.values[0], 0)} and ${formatTime(hour.values[hour.values.length - 1], 59)}`
+  }
+  return ` during hour${hour.values.length > 1 ? 's' : ''} ${joinList(hour.values.map(String))}`
+}
+
+function describeTime(minute: CronField, hour: CronField): { text: string; frequency: boolean } {
+  if (minute.all) {
+    return { text: `every minute${describeHours(hour)}`, frequency: true }
+  }
+  if (minute.step && minute.source.startsWith('*')) {
+    return { text: `every ${minute.step} minutes${describeHours(hour)}`, frequency: true }
+  }
+
+  if (minute.values.length === 1) {
+    const mm = String(minute.values[0]).padStart(2, '0')
+    if (hour.all) return { text: `every hour at :${mm}`, frequency: true }
+    if (hour.step && hour.source.startsWith('*')) {
+      return { text: `every ${hour.step} hours at :${mm}`, frequency: true }
+    }
+    if (hour.values.length <= 4) {
+      return { text: `at ${joinList(hour.values.map(h => formatTime(h, minute.values[0])))}`, frequency: false }
+    }
+    return { text: `at :${mm} past the hour${describeHours(hour)}`, frequency: false }
+  }
+
+  if (hour.values.length * minute.values.length <= 4 && !hour.all) {
+    const times = hour.values.flatMap(h => minute.values.map(m => formatTime(h, m)))
+    return { text: `at ${joinList(times)}`, frequency: false }
+  }
+
+  const minutes = minute.step
+    ? `every ${minute.step} minutes from :${String(minute.values[0]).padStart(2, '0')}`
+    : `at minutes ${joinList(minute.values.map(String))}`
+  return { text: `${minutes}${hour.all ? ' past every hour' : describeHours(hour)}`, frequency: true }
+}
+
+function describeDays(cron: CronExpression): { lead: string; on: string } {
+  const { dayOfMonth: dom, dayOfWeek: dow, month } = cron
+  const period = month.all ? 'every month' : 'the month'
+
+  let domLead = ''
+  let domOn = ''
+  if (!dom.all) {
+    if (dom.step && dom.source.startsWith('*')) {
+      domLead = `Every ${dom.step} days`
+      domOn = `every ${dom.step} days`
+    } else {
+      const days = describeValues(dom.values, ordinal)
+      domLead = `The ${days} of ${period}`
+      domOn = `on the ${days} of ${period}`
+    }
+  }
+
+  let dowLead = ''
+  let dowOn = ''
+  let dowAnd = ''
+  if (!dow.all) {
+    const key = dow.values.join(',')
+    if (key === '1,2,3,4,5') {
+      dowLead = 'Weekdays'
+      dowOn = 'on weekdays'
+      dowAnd = 'every weekday'
+    } else if (key === '0,6') {
+      dowLead = 'Weekends'
+      dowOn = 'on weekends'
+      dowAnd = 'every weekend day'
+    } else {
+      const days = describeValues(dow.values, v => DAY_NAMES[v])
+      dowLead = `Every ${days}`
+      dowOn = `on ${days}`
+      dowAnd = `every ${days}`
+    }
+  }
+
+  if (domLead && dowLead) return { lead: `${domLead} and ${dowAnd}`, on: `${domOn} and ${dowOn}` }
+  if (domLead) return { lead: domLead, on: domOn }
+  if (dowLead) return { lead: dowLead, on: dowOn }
+  return { lead: 'Every day', on: '' }
+}
+
+function describeMonths(month: CronField): string {
+  if (month.all) return ''
+  if (month.step && month.source.startsWith('*')) return `, every ${month.step} months`
+  return `, in ${describeValues(month.values, v => MONTH_NAMES[v - 1])}`
+}
+
+/** Human-readable description, e.g. "Weekdays at 9:30". Throws CronParseError when invalid. */
+export function describeCron(expression: string | CronExpression): string {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression
+  const time = describeTime(cron.minute, cron.hour)
+  const days = describeDays(cron)
+  const months = describeMonths(cron.month)
+
+  if (time.frequency) {
+    const text = time.text.charAt(0).toUpperCase() + time.text.slice(1)
+    return `${text}${days.on ? `, ${days.on}` : ''}${months}`
+  }
+  return `${days.lead} ${time.text}${months}`
+}
+
+// ---------------------------------------------------------------------------
+// Next fire times
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const MAX_SEARCH_DAYS = 366 * 8
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+// Wall-clock time of an instant in `timezone`, encoded as a UTC timestamp
+function wallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute)
+}
+
+// Earliest instant whose wall-clock time in `timezone` is `wall`, or null when
+// that local time does not exist (spring-forward gap)
+function wallToInstant(wall: number, timezone: string): number | null {
+  const candidates = [wall - 12 * 60 * MINUTE_MS, wall + 12 * 60 * MINUTE_MS]
+    .map(probe => wall - (wallClock(probe, timezone) - probe))
+    .filter(instant => wallClock(instant, timezone) === wall)
+  return candidates.length > 0 ? Math.min(...candidates) : null
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  if (!cron.month.values.includes(date.getUTCMonth() + 1)) return false
+  const domMatch = cron.dayOfMonth.values.includes(date.getUTCDate())
+  const dowMatch = cron.dayOfWeek.values.includes(date.getUTCDay())
+  if (!cron.dayOfMonth.all && !cron.dayOfWeek.all) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+/**
+ * Next `count` fire times after `from` (exclusive) for the expression in the
+ * given IANA timezone (default UTC).
+ */
+export function nextRuns(
+  expression: string | CronExpression,
+  options?: { timezone?: string; from?: Date; count?: number }
+): Date[] {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression
+  const timezone = options?.timezone || 'UTC'
+  if (!isValidTimeZone(timezone)) throw new CronParseError(`Unknown timezone "${timezone}"`)
+  const from = (options?.from ?? new Date()).getTime()
+  const count = Math.max(0, options?.count ?? 5)
+
+  const runs: Date[] = []
+  const startWall = wallClock(from, timezone)
+  const firstDay = Math.floor(startWall / DAY_MS) * DAY_MS
+
+  for (let i = 0; i <= MAX_SEARCH_DAYS && runs.length < count; i++) {
+    const day = firstDay + i * DAY_MS
+    if (!dayMatches(cron, new Date(day))) continue
+
+    for (const hour of cron.hour.values) {
+      for (const minute of cron.minute.values) {
+        const wall = day + hour * 60 * MINUTE_MS + minute * MINUTE_MS
+        if (wall < startWall) continue
+        const instant = wallToInstant(wall, timezone)
+        if (instant === null || instant <= from) continue
+        runs.push(new Date(instant))
+        if (runs.length >= count) return runs
+      }
+    }
+  }
+  return runs
+}
+
+/** Format a fire time in the schedule's timezone, e.g. "Mon, Mar 9, 10:00 AM EDT". */
+export function formatRunTime(date: Date, timezone = 'UTC'): string {
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  })
+}
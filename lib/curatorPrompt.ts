@@ -0,0 +1,198 @@
+/**
+ * Curator Prompt Builder
+ *
+ * Builds the messages sent to the AI News Curator agent. Delivery preferences
+ * (Slack channel, categories) are appended to the schedule `message` as a
+ * fixed-format block so they can be parsed back when the settings are edited.
+ * Ad-hoc digests requested through the inbound webhook get their own message
+ * (buildAdHocDigestMessage).
+ *
+ * When direct Slack delivery is configured (lib/slackDelivery.ts) the app posts
+ * digests itself, so schedule messages tell the agent not to post (`directSlack`).
+ *
+ * Preferences derived from a reader's story feedback (lib/feedback.ts) go in a
+ * second block, always last, of that reader's manual "Fetch News" prompt
+ * (withReaderFeedback). Schedule messages never carry it: one schedule serves
+ * every reader, so one reader's ratings must not tune it. Rebuilding a schedule
+ * message drops a block left there by older versions.
+ */
+
+import { hasPreferences, type FeedbackPreferences, type PreferenceSignal } from '@/lib/feedback'
+
+export const DEFAULT_DIGEST_MESSAGE = 'Generate and send the daily AI news digest to Slack'
+/** Base instruction when the app delivers digests itself */
+export const DIRECT_DELIVERY_DIGEST_MESSAGE = 'Generate the daily AI news digest'
+
+/** Default schedule message; `directSlack` when the app posts to Slack itself. */
+export function defaultDigestMessage(directSlack: boolean): string {
+  return directSlack ? DIRECT_DELIVERY_DIGEST_MESSAGE : DEFAULT_DIGEST_MESSAGE
+}
+
+export const CURATOR_CATEGORIES = [
+  { key: 'breaking', label: 'Breaking News' },
+  { key: 'research', label: 'Research Papers' },
+  { key: 'trends', label: 'Industry Trends' },
+  { key: 'startups', label: 'Startup News' },
+] as const
+
+export type CuratorCategoryKey = (typeof CURATOR_CATEGORIES)[number]['key']
+
+export interface CuratorPreferences {
+  slackChannel: string
+  categories: Record<CuratorCategoryKey, boolean>
+}
+
+const PREFERENCES_HEADER = 'Delivery preferences:'
+const FEEDBACK_HEADER = 'Reader feedback:'
+const NO_SLACK_POST = '- Do NOT post anything to Slack; the app delivers the digest. Set slack_posted to false.'
+
+function enabledLabels(categories: CuratorPreferences['categories']): string[] {
+  return CURATOR_CATEGORIES.filter(c => categories[c.key]).map(c => c.label)
+}
+
+function stripFrom(message: string, header: string): string {
+  const index = message.indexOf(header)
+  return index === -1 ? message : message.slice(0, index)
+}
+
+/** Strip previously injected preferences/feedback blocks, leaving the base instruction. */
+export function baseMessage(message: string): string {
+  const base = stripFrom(stripFrom(message || '', PREFERENCES_HEADER), FEEDBACK_HEADER).trim()
+  return base || DEFAULT_DIGEST_MESSAGE
+}
+
+export interface CuratorMessageOptions {
+  /** The app posts digests to Slack itself; the agent must not */
+  directSlack?: boolean
+}
+
+/** Schedule message: base instruction plus the delivery preferences block. */
+export function buildCuratorMessage(prefs: CuratorPreferences, base = DEFAULT_DIGEST_MESSAGE, options: CuratorMessageOptions = {}): string {
+  let instruction = baseMessage(base)
+  // Swap the stock instruction when the delivery mode changed; custom text is kept
+  if (instruction === defaultDigestMessage(!options.directSlack)) instruction = defaultDigestMessage(!!options.directSlack)
+
+  const lines = [instruction, '', PREFERENCES_HEADER]
+  if (options.directSlack) {
+    lines.push(NO_SLACK_POST)
+  } else if (prefs.slackChannel.trim()) {
+    lines.push(`- Slack channel: ${prefs.slackChannel.trim()}`)
+  }
+  const labels = enabledLabels(prefs.categories)
+  if (labels.length > 0 && labels.length < CURATOR_CATEGORIES.length) {
+    lines.push(`- Categories: ${labels.join(', ')}`)
+    lines.push('Only include stories from these categories.')
+  } else {
+    lines.push(`- Categories: ${CURATOR_CATEGORIES.map(c => c.label).join(', ')}`)
+  }
+  return lines.join('\n')
+}
+
+/** Read preferences back out of a schedule message built by buildCuratorMessage. */
+export function parseCuratorMessage(message: string): Partial<CuratorPreferences> {
+  const parsed: Partial<CuratorPreferences> = {}
+  if (!(message || '').includes(PREFERENCES_HEADER)) return parsed
+
+  // Direct delivery messages carry no channel; keep whatever the settings had
+  if (!message.includes(NO_SLACK_POST)) {
+    const channel = /^- Slack channel: (.+)$/m.exec(message)
+    parsed.slackChannel = channel ? channel[1].trim() : ''
+  }
+
+  const categories = /^- Categories: (.+)$/m.exec(message)
+  if (categories) {
+    const labels = categories[1].split(',').map(l => l.trim())
+    parsed.categories = Object.fromEntries(
+      CURATOR_CATEGORIES.map(c => [c.key, labels.includes(c.label)])
+    ) as CuratorPreferences['categories']
+  }
+  return parsed
+}
+
+function signalLabels(signals: PreferenceSignal[]): string {
+  return signals.map(s => s.label).join(', ')
+}
+
+/** The reader feedback block, or '' when the feedback hasn't produced any preferences yet. */
+export function buildFeedbackBlock(feedback: FeedbackPreferences | null | undefined): string {
+  if (!hasPreferences(feedback)) return ''
+  const lines = [FEEDBACK_HEADER]
+  if (feedback.favored_sources.length > 0) lines.push(`- Preferred sources: ${signalLabels(feedback.favored_sources)}`)
+  if (feedback.favored_topics.length > 0) lines.push(`- Preferred topics: ${signalLabels(feedback.favored_topics)}`)
+  if (feedback.disliked_sources.length > 0) lines.push(`- Less trusted sources: ${signalLabels(feedback.disliked_sources)}`)
+  if (feedback.disliked_topics.length > 0) lines.push(`- Less wanted topics: ${signalLabels(feedback.disliked_topics)}`)
+  lines.push(
+    'Favor preferred sources and topics when choosing between stories of similar importance.',
+    'When a story comes from a less trusted source, cite another source if one is available.',
+    'Never drop major news because of these preferences.'
+  )
+  return lines.join('\n')
+}
+
+/** Replace the reader feedback block of a reader's own prompt (the manual "Fetch News" request). */
+export function withReaderFeedback(message: string, feedback: FeedbackPreferences | null | undefined): string {
+  const base = stripFrom(message || '', FEEDBACK_HEADER).trim()
+  const block = buildFeedbackBlock(feedback)
+  return block ? `${base}\n\n${block}` : base
+}
+
+/**
+ * Connection test: exercises the agent (and its Slack tool) end to end without
+ * posting anything.
+ */
+export function buildDryRunMessage(prefs: CuratorPreferences): string {
+  const channel = prefs.slackChannel.trim()
+  return [
+    'DRY RUN — connection test. Do NOT post anything to Slack.',
+    channel
+      ? `Check that Slack channel ${channel} is reachable with your Slack tool, without sending a message.`
+      : 'Check that your Slack tool is available, without sending a message.',
+    'Return the usual digest JSON with an empty categories array, total_stories 0 and slack_posted false.',
+  ].join('\n')
+}
+
+/** What an external system asked for in an ad-hoc digest (see lib/inboundDigest.ts). */
+export interface AdHocDigestSpec {
+  /** Only stories published in the last N hours */
+  hours: number
+  /** Subset of categories; empty means all */
+  categories: CuratorCategoryKey[]
+  /** Companies, people or themes every story must relate to */
+  topics: string[]
+  max_stories?: number
+  /** Post the digest to Slack; ad-hoc digests are only returned by default */
+  post_to_slack: boolean
+  slack_channel?: string
+  /** Free-form extra instructions, appended last */
+  instructions?: string
+}
+
+/** Message for an ad-hoc digest; the reply uses the usual digest JSON. */
+export function buildAdHocDigestMessage(spec: AdHocDigestSpec): string {
+  const lines = [
+    `Generate an ad-hoc AI news digest covering only the last ${spec.hours} hours.`,
+    '',
+    'Digest request:',
+  ]
+  const labels = CURATOR_CATEGORIES.filter(c => spec.categories.includes(c.key)).map(c => c.label)
+  if (labels.length > 0 && labels.length < CURATOR_CATEGORIES.length) {
+    lines.push(`- Categories: ${labels.join(', ')}`)
+    lines.push('Only include stories from these categories.')
+  } else {
+    lines.push(`- Categories: ${CURATOR_CATEGORIES.map(c => c.label).join(', ')}`)
+  }
+  if (spec.topics.length > 0) {
+    lines.push(`- Topics: ${spec.topics.join(', ')}`)
+    lines.push('Only include stories that are about at least one of these topics.')
+  }
+  if (spec.max_stories) lines.push(`- At most ${spec.max_stories} stories in total.`)
+  if (spec.post_to_slack) {
+    lines.push(spec.slack_channel?.trim()
+      ? `- Post the digest to Slack channel ${spec.slack_channel.trim()}.`
+      : '- Post the digest to Slack.')
+  } else {
+    lines.push('- Do NOT post anything to Slack; set slack_posted to false.')
+  }
+  if (spec.instructions?.trim()) lines.push('', `Additional instructions: ${spec.instructions.trim()}`)
+  return lines.join('\n')
+}
@@ -0,0 +1,120 @@
+/**
+ * Digest Delivery — shared types
+ *
+ * Where finished digests are sent. A delivery target is one configured
+ * destination (a Slack channel, a Teams or Discord incoming webhook, a list of
+ * email recipients); routes pick the targets each schedule's digests go to.
+ * Used by the delivery engine (lib/digestDelivery.ts), /api/delivery and the
+ * delivery settings UI.
+ *
+ * Channels:
+ *   slack     Block Kit messages through the Slack Web API (lib/slackDelivery.ts)
+ *   teams     Adaptive Cards through a Teams incoming webhook
+ *   discord   embeds through a Discord webhook
+ *   email     HTML + plain-text mail over SMTP (lib/smtp.ts)
+ */
+
+export type DeliveryChannelType = 'slack' | 'teams' | 'discord' | 'email'
+
+export const DELIVERY_CHANNEL_TYPES: DeliveryChannelType[] = ['slack', 'teams', 'discord', 'email']
+
+export const DELIVERY_CHANNEL_LABELS: Record<DeliveryChannelType, string> = {
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  discord: 'Discord',
+  email: 'Email',
+}
+
+export interface DeliveryTarget {
+  id: string
+  name: string
+  type: DeliveryChannelType
+  enabled: boolean
+  /** slack: channel name or ID; empty uses SLACK_DEFAULT_CHANNEL */
+  slack?: { channel: string }
+  teams?: { webhook_url: string }
+  discord?: { webhook_url: string }
+  email?: { to: string[] }
+}
+
+export interface DeliveryConfig {
+  targets: DeliveryTarget[]
+  /** schedule_id → target ids its digests are delivered to */
+  routes: Record<string, string[]>
+}
+
+/** Outcome of the latest delivery of a digest to one target. */
+export interface DeliveryStatus {
+  target_id: string
+  target_name: string
+  type: DeliveryChannelType
+  ok: boolean
+  delivered_at: string
+  /** Message ids/timestamps returned by the channel, when it has them */
+  message_ids: string[]
+  error?: string
+}
+
+export function defaultDeliveryConfig(): DeliveryConfig {
+  return { targets: [], routes: {} }
+}
+
+/** Whether `targetIds` include an enabled Slack target. */
+export function routesToSlack(targets: DeliveryTarget[], targetIds: string[]): boolean {
+  return targets.some(t => t.enabled && t.type === 'slack' && targetIds.includes(t.id))
+}
+
+const SLUG_RE = /^[a-z0-9][a-z0-9-_]{0,63}$/i
+const EMAIL_RE = /^[^\s@]+@[^\s@]+$/
+
+/**
+ * Check a config submitted from the UI/API. Returns a list of problems
+ * (empty when valid).
+ */
+export function validateDeliveryConfig(config: DeliveryConfig): string[] {
+  const errors: string[] = []
+  if (!config || !Array.isArray(config.targets)) return ['targets must be an array']
+  if (!config.routes || typeof config.routes !== 'object' || Array.isArray(config.routes)) {
+    return ['routes must be an object of schedule_id → target ids']
+  }
+
+  const targetIds = new Set<string>()
+  config.targets.forEach((target, i) => {
+    const where = `targets[${i}]`
+    if (!SLUG_RE.test(target.id || '')) errors.push(`${where}.id must be a short slug`)
+    else if (targetIds.has(target.id)) errors.push(`${where}.id "${target.id}" is duplicated`)
+    targetIds.add(target.id)
+    if (!target.name || typeof target.name !== 'string') errors.push(`${where}.name is required`)
+    switch (target.type) {
+      case 'slack':
+        if (typeof target.slack?.channel !== 'string') errors.push(`${where}.slack.channel must be a string`)
+        break
+      case 'teams':
+      case 'discord': {
+        const url = target.type === 'teams' ? target.teams?.webhook_url : target.discord?.webhook_url
+        if (!/^https:\/\//.test(url || '')) errors.push(`${where}.${target.type}.webhook_url must be an https URL`)
+        break
+      }
+      case 'email': {
+        const to = target.email?.to || []
+        if (to.length === 0) errors.push(`${where}.email.to needs at least one address`)
+        to.filter(addr => !EMAIL_RE.test(addr)).forEach(addr => errors.push(`${where}.email.to "${addr}" is not an email address`))
+        break
+      }
+      default:
+        errors.push(`${where}.type must be one of: ${DELIVERY_CHANNEL_TYPES.join(', ')}`)
+    }
+  })
+
+  for (const [scheduleId, ids] of Object.entries(config.routes)) {
+    if (!Array.isArray(ids)) {
+      errors.push(`routes["${scheduleId}"] must be an array of target ids`)
+      continue
+    }
+    for (const id of ids) {
+      if (!targetIds.has(id)) errors.push(`routes["${scheduleId}"] uses unknown target "${id}"`)
+    }
+  }
+
+  return errors
+}
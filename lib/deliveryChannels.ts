@@ -0,0 +1,149 @@
+/**
+ * Delivery Channels
+ *
+ * Server-side. One DeliveryChannel per channel type in lib/delivery.ts; each
+ * knows whether it can be used on this server and how to send a digest to a
+ * target. A channel throws when the destination refuses the digest, and the
+ * delivery engine (lib/digestDelivery.ts) turns that into a DeliveryStatus.
+ *
+ *   slack     Web API via lib/slackDelivery.ts (needs SLACK_BOT_TOKEN)
+ *   teams     Adaptive Cards POSTed to the target's incoming webhook
+ *   discord   embeds POSTed to the target's webhook (`?wait=true` for message ids)
+ *   email     HTML + plain-text mail via lib/smtp.ts (needs SMTP_HOST)
+ *
+ * With LYZR_UPSTREAM=mock, webhook posts and emails are answered by
+ * lib/mockUpstream.ts instead of leaving the server.
+ */
+
+import { postDigestToSlack, isSlackDeliveryConfigured } from '@/lib/slackDelivery'
+import { renderDiscordMessages, renderTeamsMessages } from '@/lib/deliveryFormats'
+import { renderHtmlEmail, renderPlainText } from '@/lib/digestExport'
+import { getSmtpConfig, sendMail } from '@/lib/smtp'
+import { isMockUpstream, sendMockMail, upstreamFetch } from '@/lib/mockUpstream'
+import type { DeliveryChannelType, DeliveryTarget } from '@/lib/delivery'
+import type { DigestData } from '@/lib/digest'
+
+const WEBHOOK_TIMEOUT_MS = 15000
+const MAX_RATE_LIMIT_RETRIES = 2
+const MAX_RETRY_AFTER_SECONDS = 30
+
+export interface DeliveryChannel {
+  type: DeliveryChannelType
+  /** Why the channel can't be used on this server, or null when it can */
+  unavailableReason(): string | null
+  /** Send a digest; resolves with the message ids the destination returned */
+  send(data: DigestData, target: DeliveryTarget, options: { url?: string }): Promise<string[]>
+}
+
+// ---------------------------------------------------------------------------
+// Incoming webhooks (Teams, Discord)
+// ---------------------------------------------------------------------------
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** POST JSON to a webhook, waiting out 429s; throws on any other non-2xx answer. */
+async function postWebhook(url: string, payload: unknown): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS)
+    let response: Response
+    try {
+      response = await upstreamFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      })
+    } finally {
+      clearTimeout(timer)
+    }
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const retryAfter = parseFloat(response.headers.get('retry-after') || '1') || 1
+      await sleep(Math.min(retryAfter, MAX_RETRY_AFTER_SECONDS) * 1000)
+      continue
+    }
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200)
+      throw new Error(`Webhook answered ${response.status}${detail ? `: ${detail}` : ''}`)
+    }
+    return response
+  }
+}
+
+/** Post each part in order; a failure names how far the digest got. */
+async function postParts<T>(messages: T[], post: (message: T) => Promise<void>): Promise<void> {
+  for (let index = 0; index < messages.length; index++) {
+    try {
+      await post(messages[index])
+    } catch (error) {
+      if (messages.length === 1) throw error
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Posted ${index} of ${messages.length} parts: ${reason}`)
+    }
+  }
+}
+
+const teamsChannel: DeliveryChannel = {
+  type: 'teams',
+  unavailableReason: () => null,
+  async send(data, target, options) {
+    await postParts(renderTeamsMessages(data, { url: options.url }), async message => {
+      await postWebhook(target.teams!.webhook_url, message)
+    })
+    // Incoming webhooks don't return message ids
+    return []
+  },
+}
+
+const discordChannel: DeliveryChannel = {
+  type: 'discord',
+  unavailableReason: () => null,
+  async send(data, target, options) {
+    const url = new URL(target.discord!.webhook_url)
+    url.searchParams.set('wait', 'true')
+    const ids: string[] = []
+    await postParts(renderDiscordMessages(data, { url: options.url }), async message => {
+      const response = await postWebhook(url.toString(), message)
+      const body = await response.json().catch(() => null)
+      if (body && typeof body.id === 'string') ids.push(body.id)
+    })
+    return ids
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Slack + email
+// ---------------------------------------------------------------------------
+
+const slackChannel: DeliveryChannel = {
+  type: 'slack',
+  unavailableReason: () => (isSlackDeliveryConfigured() ? null : 'SLACK_BOT_TOKEN is not set'),
+  async send(data, target, options) {
+    const record = await postDigestToSlack(data, { channel: target.slack?.channel || undefined, url: options.url })
+    if (!record.ok) throw new Error(record.error || 'Slack delivery failed')
+    return record.message_ts
+  },
+}
+
+const emailChannel: DeliveryChannel = {
+  type: 'email',
+  unavailableReason: () => (getSmtpConfig() || isMockUpstream() ? null : 'SMTP_HOST is not set'),
+  async send(data, target, options) {
+    const message = {
+      to: target.email?.to || [],
+      subject: `AI News Digest — ${data.digest_date}`,
+      text: renderPlainText(data, { url: options.url }),
+      html: renderHtmlEmail(data, { url: options.url }),
+    }
+    await (isMockUpstream() ? sendMockMail(message) : sendMail(message))
+    return []
+  },
+}
+
+export const DELIVERY_CHANNELS: Record<DeliveryChannelType, DeliveryChannel> = {
+  slack: slackChannel,
+  teams: teamsChannel,
+  discord: discordChannel,
+  email: emailChannel,
+}
@@ -0,0 +1,70 @@
+'use client'
+
+/**
+ * Digest Delivery Client Utility
+ *
+ * Client-side wrapper for /api/delivery: delivery targets, per-schedule routes
+ * and test sends.
+ */
+
+import type { DeliveryChannelType, DeliveryConfig, DeliveryStatus } from '@/lib/delivery'
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Network error'
+}
+
+export async function fetchDeliveryConfig(): Promise<{
+  success: boolean
+  config?: DeliveryConfig
+  /** Channel types this server can't use, with the reason */
+  unavailable?: Partial<Record<DeliveryChannelType, string>>
+  error?: string
+}> {
+  try {
+    const res = await fetch('/api/delivery')
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+export async function saveDeliveryConfig(
+  config: DeliveryConfig
+): Promise<{ success: boolean; config?: DeliveryConfig; error?: string; errors?: string[] }> {
+  try {
+    const res = await fetch('/api/delivery', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(config),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+async function postDeliveryAction<T>(body: Record<string, unknown>, fallback: (error: string) => T): Promise<T> {
+  try {
+    const res = await fetch('/api/delivery', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    return res.json()
+  } catch (error) {
+    return fallback(errorMessage(error))
+  }
+}
+
+/** Send a sample digest to one saved target. */
+export function testDeliveryTarget(targetId: string): Promise<{ success: boolean; delivery?: DeliveryStatus; error?: string }> {
+  return postDeliveryAction({ action: 'test', target_id: targetId }, error => ({ success: false, error }))
+}
+
+/** Choose the targets a schedule's digests are delivered to (empty = none). */
+export function setScheduleDelivery(
+  scheduleId: string,
+  targetIds: string[]
+): Promise<{ success: boolean; config?: DeliveryConfig; error?: string }> {
+  return postDeliveryAction({ action: 'route', schedule_id: scheduleId, target_ids: targetIds }, error => ({ success: false, error }))
+}
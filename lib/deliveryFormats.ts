@@ -0,0 +1,222 @@
+/**
+ * Teams + Discord Rendering
+ *
+ * Renders a digest as Microsoft Teams Adaptive Cards and Discord embeds. Pure,
+ * like lib/slackBlocks.ts; lib/deliveryChannels.ts does the posting.
+ *
+ * Both platforms cap message size, so long digests become several messages:
+ *   teams     ~28 KB per message; cards are kept under TEAMS_MAX_CARD_BYTES
+ *   discord   10 embeds and 6000 embed characters per message, 25 fields per embed
+ * Splits fall between stories; a category cut in two gets a "(continued)" title.
+ */
+
+import { parseSource } from '@/lib/slackBlocks'
+import type { DigestData, Story } from '@/lib/digest'
+
+export const TEAMS_MAX_CARD_BYTES = 24000
+export const DISCORD_MAX_EMBEDS = 10
+export const DISCORD_MAX_EMBED_CHARS = 6000
+export const DISCORD_MAX_FIELDS = 25
+
+const DEFAULT_TITLE = 'AI News Digest'
+// Teal, matching the HTML email accent (#0f766e)
+const DISCORD_COLOR = 0x0f766e
+
+export interface DeliveryRenderOptions {
+  title?: string
+  /** Link back to the digest in the app */
+  url?: string
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`
+}
+
+function categoriesOf(data: DigestData) {
+  return (Array.isArray(data.categories) ? data.categories : [])
+    .map(c => ({ name: c.category_name || 'Uncategorized', stories: (Array.isArray(c.stories) ? c.stories : []).filter(Boolean) }))
+    .filter(c => c.stories.length > 0)
+}
+
+function storyCount(data: DigestData): string {
+  const total = categoriesOf(data).reduce((sum, c) => sum + c.stories.length, 0)
+  return `${total} ${total === 1 ? 'story' : 'stories'}`
+}
+
+// ---------------------------------------------------------------------------
+// Microsoft Teams: Adaptive Cards for an incoming webhook
+// ---------------------------------------------------------------------------
+
+export type AdaptiveElement = Record<string, unknown>
+
+export interface TeamsMessage {
+  type: 'message'
+  attachments: Array<{
+    contentType: 'application/vnd.microsoft.card.adaptive'
+    contentUrl: null
+    content: {
+      $schema: string
+      type: 'AdaptiveCard'
+      version: string
+      msteams: { width: 'Full' }
+      body: AdaptiveElement[]
+      actions?: AdaptiveElement[]
+    }
+  }>
+}
+
+// Adaptive Card markdown: only links and emphasis; escape the link brackets
+function escapeCardText(text: string): string {
+  return (text || '').replace(/([[\]])/g, '\\$1')
+}
+
+function teamsCategoryTitle(name: string): AdaptiveElement {
+  return { type: 'TextBlock', text: escapeCardText(name), weight: 'Bolder', color: 'Accent', size: 'Medium', separator: true, spacing: 'Large', wrap: true }
+}
+
+function teamsStory(story: Story): AdaptiveElement {
+  const { label, url } = parseSource(story.source)
+  const headline = escapeCardText(story.headline || 'Untitled story')
+  const items: AdaptiveElement[] = [
+    { type: 'TextBlock', text: url ? `[${headline}](${url})` : headline, weight: 'Bolder', wrap: true },
+  ]
+  if (story.summary) items.push({ type: 'TextBlock', text: escapeCardText(story.summary), wrap: true, spacing: 'Small' })
+  if (label) items.push({ type: 'TextBlock', text: `Source: ${escapeCardText(label)}`, isSubtle: true, size: 'Small', spacing: 'Small', wrap: true })
+  return { type: 'Container', spacing: 'Medium', items }
+}
+
+function teamsMessage(body: AdaptiveElement[], url?: string): TeamsMessage {
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        msteams: { width: 'Full' },
+        body,
+        ...(url && { actions: [{ type: 'Action.OpenUrl', title: 'View in app', url }] }),
+      },
+    }],
+  }
+}
+
+const encoder = new TextEncoder()
+const byteLength = (value: unknown) => encoder.encode(JSON.stringify(value)).length
+
+/** Render a digest as one or more Teams messages, each carrying one Adaptive Card. */
+export function renderTeamsMessages(data: DigestData, options?: DeliveryRenderOptions): TeamsMessage[] {
+  const title = `${options?.title || DEFAULT_TITLE} — ${data.digest_date}`
+  const categories = categoriesOf(data)
+  const header: AdaptiveElement[] = [
+    { type: 'TextBlock', text: escapeCardText(title), size: 'Large', weight: 'Bolder', wrap: true },
+    { type: 'TextBlock', text: `${storyCount(data)} in ${categories.length} ${categories.length === 1 ? 'category' : 'categories'}`, isSubtle: true, spacing: 'None' },
+  ]
+
+  const cards: AdaptiveElement[][] = [header]
+  let size = byteLength(header)
+  for (const category of categories) {
+    category.stories.forEach((story, index) => {
+      const element = teamsStory(story)
+      const unit = index === 0 ? [teamsCategoryTitle(category.name), element] : [element]
+      const unitSize = byteLength(unit)
+      if (cards[cards.length - 1].length > 0 && size + unitSize > TEAMS_MAX_CARD_BYTES) {
+        const next: AdaptiveElement[] = index === 0 ? [] : [teamsCategoryTitle(`${category.name} (continued)`)]
+        cards.push(next)
+        size = byteLength(next)
+      }
+      cards[cards.length - 1].push(...unit)
+      size += unitSize
+    })
+  }
+
+  return cards.map((body, index) => index === 0
+    ? teamsMessage(body, options?.url)
+    : teamsMessage([
+        { type: 'TextBlock', text: `${escapeCardText(title)} · part ${index + 1} of ${cards.length}`, isSubtle: true, size: 'Small', wrap: true },
+        ...body,
+      ], options?.url))
+}
+
+// ---------------------------------------------------------------------------
+// Discord: webhook messages with embeds
+// ---------------------------------------------------------------------------
+
+export interface DiscordEmbedField {
+  name: string
+  value: string
+  inline?: boolean
+}
+
+export interface DiscordEmbed {
+  title: string
+  color: number
+  fields: DiscordEmbedField[]
+}
+
+export interface DiscordMessage {
+  content?: string
+  embeds: DiscordEmbed[]
+  allowed_mentions: { parse: string[] }
+}
+
+// Discord markdown; also defuses @everyone-style mentions
+function escapeDiscord(text: string): string {
+  return (text || '').replace(/([\\*_~`|>[\]()])/g, '\\$1').replace(/@/g, '@\u200b')
+}
+
+function discordField(story: Story): DiscordEmbedField {
+  const { label, url } = parseSource(story.source)
+  const source = url ? `[${escapeDiscord(label || 'Source')}](${url})` : label ? escapeDiscord(label) : ''
+  const room = 1024 - (source ? source.length + 1 : 0)
+  const summary = truncate(escapeDiscord(story.summary || ''), Math.max(0, room))
+  return {
+    name: truncate(story.headline || 'Untitled story', 256),
+    value: [summary, source].filter(Boolean).join('\n') || '\u200b',
+  }
+}
+
+const embedChars = (embed: DiscordEmbed) =>
+  embed.title.length + embed.fields.reduce((sum, f) => sum + f.name.length + f.value.length, 0)
+
+/** Render a digest as one or more Discord webhook messages. */
+export function renderDiscordMessages(data: DigestData, options?: DeliveryRenderOptions): DiscordMessage[] {
+  const title = `${options?.title || DEFAULT_TITLE} — ${data.digest_date}`
+
+  // One embed per category, split when it exceeds the field or character caps
+  const embeds: DiscordEmbed[] = []
+  for (const category of categoriesOf(data)) {
+    let embed: DiscordEmbed | null = null
+    for (const story of category.stories) {
+      const field = discordField(story)
+      if (!embed || embed.fields.length >= DISCORD_MAX_FIELDS || embedChars(embed) + field.name.length + field.value.length > DISCORD_MAX_EMBED_CHARS) {
+        embed = { title: truncate(embed ? `${category.name} (continued)` : category.name, 256), color: DISCORD_COLOR, fields: [] }
+        embeds.push(embed)
+      }
+      embed.fields.push(field)
+    }
+  }
+
+  // Pack embeds into messages under the per-message caps
+  const groups: DiscordEmbed[][] = [[]]
+  let chars = 0
+  for (const embed of embeds) {
+    const current = groups[groups.length - 1]
+    if (current.length > 0 && (current.length >= DISCORD_MAX_EMBEDS || chars + embedChars(embed) > DISCORD_MAX_EMBED_CHARS)) {
+      groups.push([])
+      chars = 0
+    }
+    groups[groups.length - 1].push(embed)
+    chars += embedChars(embed)
+  }
+
+  const intro = [`**${escapeDiscord(title)}** · ${storyCount(data)}`]
+  if (options?.url) intro.push(`<${options.url}>`)
+  return groups.map((group, index) => ({
+    content: index === 0 ? intro.join('\n') : `${escapeDiscord(title)} · part ${index + 1} of ${groups.length}`,
+    embeds: group,
+    allowed_mentions: { parse: [] },
+  }))
+}
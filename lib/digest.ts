@@ -0,0 +1,136 @@
+/**
+ * Digest Types
+ *
+ * Shared shapes for the AI News Curator digest. Mirrors the `response_schema`
+ * in response_schemas/ai_news_curator_agent_response.json and is safe to import
+ * from both API routes and client components.
+ */
+
+import type { DeliveryStatus } from '@/lib/delivery'
+
+// ---------------------------------------------------------------------------
+// Agent response schema
+// ---------------------------------------------------------------------------
+
+export interface Story {
+  headline: string
+  summary: string
+  source: string
+  /** Added by the archive when the story matches an earlier one (see lib/storyDedup.ts) */
+  dedup?: StoryDedupInfo
+}
+
+export interface Category {
+  category_name: string
+  stories: Story[]
+}
+
+export interface DigestData {
+  digest_date: string
+  categories: Category[]
+  total_stories: number
+  slack_posted: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Archive records
+// ---------------------------------------------------------------------------
+
+export interface StoryDedupInfo {
+  status: 'repeat' | 'follow_up' | 'duplicate'
+  similarity: number
+  seen_digest_id?: string
+  seen_digest_date?: string
+  seen_at?: string
+  /** Category that already holds this story in the same digest */
+  also_in?: string
+}
+
+export interface DedupSummary {
+  mode: 'flag' | 'suppress'
+  checked: number
+  repeats: number
+  follow_ups: number
+  duplicates: number
+  suppressed: number
+}
+
+/** Where an archived digest came from. */
+export type DigestSource = 'manual' | 'scheduled' | 'webhook'
+
+export interface StoredDigest {
+  id: string
+  agent_id: string
+  source: DigestSource
+  digest_date: string
+  data: DigestData
+  created_at: string
+  schedule_id?: string | null
+  execution_id?: string | null
+  session_id?: string | null
+  dedup?: DedupSummary
+  /** Latest delivery per target (see lib/digestDelivery.ts) */
+  deliveries?: DeliveryStatus[]
+}
+
+export interface DigestListResult {
+  success: boolean
+  digests: StoredDigest[]
+  total: number
+  skip: number
+  limit: number
+  error?: string
+}
+
+/** Result of pulling scheduled run outputs into the archive. */
+export interface IngestSummary {
+  success: boolean
+  scanned: number
+  ingested: number
+  skipped: number
+  invalid: Array<{ execution_id: string; errors: string[] }>
+  digest_ids: string[]
+  error?: string
+}
+
+/** Character range within a story field, used to highlight search matches. */
+export interface TextRange {
+  start: number
+  end: number
+}
+
+export interface SearchHit {
+  digest_id: string
+  digest_date: string
+  created_at: string
+  category: string
+  category_index: number
+  story_index: number
+  story: Story
+  score: number
+  highlights: {
+    headline: TextRange[]
+    summary: TextRange[]
+    source: TextRange[]
+  }
+}
+
+/** Parsed archive search query; dates are YYYY-MM-DD, `before` is exclusive. */
+export interface SearchQuery {
+  terms: string[]
+  phrases: string[][]
+  categories: string[]
+  sources: string[]
+  after?: string
+  before?: string
+}
+
+export interface SearchResponse {
+  success: boolean
+  query?: SearchQuery
+  results: SearchHit[]
+  total: number
+  skip: number
+  limit: number
+  error?: string
+}
@@ -0,0 +1,190 @@
+/**
+ * Digest Delivery Engine
+ *
+ * Server-side. Holds the delivery config (targets + per-schedule routes, see
+ * lib/delivery.ts) and sends archived digests through the channels in
+ * lib/deliveryChannels.ts. Every attempt is recorded on the digest as a
+ * DeliveryStatus per target, replacing the agent-reported `slack_posted` as the
+ * record of where a digest actually went. Once a digest has been delivered,
+ * `slack_posted` is rewritten from its recorded Slack deliveries (true only when
+ * one succeeded) so older readers keep working.
+ *
+ * Scheduled digests are delivered to their schedule's routes when the ingest
+ * cron job archives them (lib/digestIngest.ts, `deliver`); any digest can be
+ * sent on demand through POST /api/digests/[id]/deliver.
+ *
+ * Persisted at <DATA_DIR>/delivery.json.
+ */
+
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { getDigestStore } from '@/lib/digestStore'
+import { digestAppUrl } from '@/lib/digestExport'
+import { DELIVERY_CHANNELS } from '@/lib/deliveryChannels'
+import {
+  DELIVERY_CHANNEL_TYPES,
+  defaultDeliveryConfig,
+  routesToSlack,
+  type DeliveryChannelType,
+  type DeliveryConfig,
+  type DeliveryStatus,
+  type DeliveryTarget,
+} from '@/lib/delivery'
+import type { DigestData, StoredDigest } from '@/lib/digest'
+
+const deliveryStore = createJsonFileStore<DeliveryConfig>('delivery.json', defaultDeliveryConfig)
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export async function getDeliveryConfig(): Promise<DeliveryConfig> {
+  return deliveryStore.read()
+}
+
+/** Replace the config; routes to removed targets are dropped. */
+export async function saveDeliveryConfig(config: DeliveryConfig): Promise<DeliveryConfig> {
+  const ids = new Set(config.targets.map(t => t.id))
+  const routes: Record<string, string[]> = {}
+  for (const [scheduleId, targetIds] of Object.entries(config.routes)) {
+    const kept = targetIds.filter(id => ids.has(id))
+    if (kept.length > 0) routes[scheduleId] = kept
+  }
+  return deliveryStore.update(() => ({ targets: config.targets, routes }))
+}
+
+/** Route one schedule's digests to `targetIds` (none = no automatic delivery). */
+export async function setScheduleRoute(scheduleId: string, targetIds: string[]): Promise<DeliveryConfig> {
+  return deliveryStore.update(current => {
+    const routes = { ...current.routes }
+    const kept = targetIds.filter(id => current.targets.some(t => t.id === id))
+    if (kept.length > 0) routes[scheduleId] = kept
+    else delete routes[scheduleId]
+    return { ...current, routes }
+  })
+}
+
+/** Move the routes of `previousId` to the schedule that replaced it. */
+export async function rekeyScheduleRoute(previousId: string, scheduleId: string): Promise<void> {
+  await deliveryStore.update(current => {
+    if (!current.routes[previousId]) return current
+    const routes = { ...current.routes, [scheduleId]: current.routes[previousId] }
+    delete routes[previousId]
+    return { ...current, routes }
+  })
+}
+
+/** Channel types that can't be used on this server, with the reason. */
+export function unavailableChannels(): Partial<Record<DeliveryChannelType, string>> {
+  const result: Partial<Record<DeliveryChannelType, string>> = {}
+  for (const type of DELIVERY_CHANNEL_TYPES) {
+    const reason = DELIVERY_CHANNELS[type].unavailableReason()
+    if (reason) result[type] = reason
+  }
+  return result
+}
+
+/**
+ * Whether the app posts this schedule's digests to Slack itself (a routed Slack
+ * target the server can use). The agent is then told not to post, so its own
+ * `slack_posted` is false until the digest is delivered.
+ */
+export async function isDirectSlackSchedule(scheduleId: string): Promise<boolean> {
+  if (DELIVERY_CHANNELS.slack.unavailableReason()) return false
+  const config = await getDeliveryConfig()
+  return routesToSlack(config.targets, config.routes[scheduleId] || [])
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/** Send a digest to one target. Never throws; failures come back as `ok: false`. */
+export async function deliverToTarget(data: DigestData, target: DeliveryTarget, options?: { url?: string }): Promise<DeliveryStatus> {
+  const status: DeliveryStatus = {
+    target_id: target.id,
+    target_name: target.name,
+    type: target.type,
+    ok: false,
+    delivered_at: new Date().toISOString(),
+    message_ids: [],
+  }
+  const channel = DELIVERY_CHANNELS[target.type]
+  if (!channel) return { ...status, error: `Unknown channel type "${target.type}"` }
+  const unavailable = channel.unavailableReason()
+  if (unavailable) return { ...status, error: unavailable }
+  try {
+    const messageIds = await channel.send(data, target, { url: options?.url })
+    return { ...status, ok: true, message_ids: messageIds }
+  } catch (error) {
+    return { ...status, error: error instanceof Error ? error.message : 'Delivery failed' }
+  }
+}
+
+export interface DeliverDigestOptions {
+  /** Configured targets to use; defaults to the routes of the digest's schedule */
+  targetIds?: string[]
+  /** Ad-hoc targets that aren't in the config (e.g. an inbound request's Slack channel) */
+  targets?: DeliveryTarget[]
+  /** App origin, for the "View in app" link */
+  baseUrl?: string
+}
+
+/**
+ * Deliver an archived digest and record each target's outcome on it. Targets
+ * run in parallel; resolves with `digest: null` when the digest doesn't exist.
+ */
+export async function deliverDigest(
+  digestId: string,
+  options: DeliverDigestOptions = {}
+): Promise<{ digest: StoredDigest | null; deliveries: DeliveryStatus[] }> {
+  const store = getDigestStore()
+  const digest = await store.get(digestId)
+  if (!digest) return { digest: null, deliveries: [] }
+
+  let targets = options.targets
+  if (!targets) {
+    const config = await getDeliveryConfig()
+    const ids = options.targetIds ?? (digest.schedule_id ? config.routes[digest.schedule_id] || [] : [])
+    targets = config.targets.filter(t => t.enabled && ids.includes(t.id))
+  }
+  if (targets.length === 0) return { digest, deliveries: [] }
+
+  const url = options.baseUrl ? digestAppUrl(options.baseUrl, digest.id) : undefined
+  const deliveries = await Promise.all(targets.map(target => deliverToTarget(digest.data, target, { url })))
+
+  // Re-read: the digest may have changed while the channels were posting
+  const latest = (await store.get(digestId)) || digest
+  const replaced = new Set(deliveries.map(d => d.target_id))
+  const merged = [...(latest.deliveries || []).filter(d => !replaced.has(d.target_id)), ...deliveries]
+  const updated = await store.put({
+    ...latest,
+    // From the recorded API results only, never the agent's own claim
+    data: { ...latest.data, slack_posted: merged.some(d => d.type === 'slack' && d.ok) },
+    deliveries: merged,
+  })
+  return { digest: updated, deliveries }
+}
+
+function sampleDigest(): DigestData {
+  return {
+    digest_date: new Date().toISOString().slice(0, 10),
+    total_stories: 1,
+    slack_posted: false,
+    categories: [{
+      category_name: 'Test delivery',
+      stories: [{
+        headline: 'Delivery channel is working',
+        summary: 'This is a sample digest sent from the delivery settings to check the channel.',
+        source: 'AI News Daily',
+      }],
+    }],
+  }
+}
+
+/** Send a sample digest to one configured target (from the delivery settings UI). */
+export async function sendTestDelivery(targetId: string, baseUrl?: string): Promise<DeliveryStatus | null> {
+  const config = await getDeliveryConfig()
+  const target = config.targets.find(t => t.id === targetId)
+  if (!target) return null
+  return deliverToTarget(sampleDigest(), target, { url: baseUrl })
+}
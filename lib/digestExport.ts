@@ -0,0 +1,337 @@
+/**
+ * Digest Exporters
+ *
+ * Renders digests for sharing outside Slack. Pure string rendering with no
+ * server dependencies, so it is used by /api/digests/[id]/export and /feed.xml
+ * as well as by the UI (e.g. "Copy as Markdown").
+ *
+ *   markdown  one digest as Markdown
+ *   html      one digest as a self-contained HTML email (inline styles, table layout)
+ *   rss       RSS 2.0
+ *   atom      Atom 1.0
+ *   json      JSON Feed 1.1
+ *
+ * Feed formats take a list of items: a single digest exports one item per story,
+ * the archive feed exports one item per digest.
+ */
+
+import type { DigestData, StoredDigest } from '@/lib/digest'
+
+export type ExportFormat = 'markdown' | 'html' | 'rss' | 'atom' | 'json'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; contentType: string; extension: string }> = {
+  markdown: { label: 'Markdown', contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { label: 'HTML email', contentType: 'text/html; charset=utf-8', extension: 'html' },
+  rss: { label: 'RSS 2.0', contentType: 'application/rss+xml; charset=utf-8', extension: 'rss.xml' },
+  atom: { label: 'Atom', contentType: 'application/atom+xml; charset=utf-8', extension: 'atom.xml' },
+  json: { label: 'JSON Feed', contentType: 'application/feed+json; charset=utf-8', extension: 'feed.json' },
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in EXPORT_FORMATS
+}
+
+const DEFAULT_TITLE = 'AI News Digest'
+
+// ---------------------------------------------------------------------------
+// Escaping
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// XML 1.0 forbids most control characters even when escaped
+function escapeXml(text: string): string {
+  return escapeHtml(text).replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+function escapeMarkdown(text: string): string {
+  return (text || '').replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+function categoriesOf(data: DigestData) {
+  return (Array.isArray(data.categories) ? data.categories : [])
+    .map(category => ({
+      name: category.category_name || 'Uncategorized',
+      stories: (Array.isArray(category.stories) ? category.stories : []).filter(Boolean),
+    }))
+    .filter(category => category.stories.length > 0)
+}
+
+// ---------------------------------------------------------------------------
+// Single digest: Markdown, plain text & HTML email
+// ---------------------------------------------------------------------------
+
+export interface DigestRenderOptions {
+  title?: string
+  /** Link back to the digest in the app */
+  url?: string
+}
+
+export function renderMarkdown(data: DigestData, options?: DigestRenderOptions): string {
+  const lines: string[] = [`# ${escapeMarkdown(options?.title || DEFAULT_TITLE)} — ${escapeMarkdown(data.digest_date)}`, '']
+  const categories = categoriesOf(data)
+  const total = categories.reduce((sum, c) => sum + c.stories.length, 0)
+  lines.push(`_${total} ${total === 1 ? 'story' : 'stories'}_`, '')
+
+  for (const category of categories) {
+    lines.push(`## ${escapeMarkdown(category.name)}`, '')
+    for (const story of category.stories) {
+      lines.push(`### ${escapeMarkdown(story.headline)}`, '')
+      if (story.summary) lines.push(escapeMarkdown(story.summary), '')
+      if (story.source) lines.push(`*Source: ${escapeMarkdown(story.source)}*`, '')
+    }
+  }
+
+  if (options?.url) lines.push('---', '', `[View in app](${options.url})`, '')
+  return lines.join('\n')
+}
+
+/** Plain-text body for email clients that don't render HTML. */
+export function renderPlainText(data: DigestData, options?: DigestRenderOptions): string {
+  const heading = `${options?.title || DEFAULT_TITLE} — ${data.digest_date}`
+  const lines: string[] = [heading, '='.repeat(heading.length), '']
+  for (const category of categoriesOf(data)) {
+    lines.push(category.name.toUpperCase(), '')
+    for (const story of category.stories) {
+      lines.push(`* ${story.headline}`)
+      if (story.summary) lines.push(`  ${story.summary}`)
+      if (story.source) lines.push(`  Source: ${story.source}`)
+      lines.push('')
+    }
+  }
+  if (options?.url) lines.push(`View online: ${options.url}`, '')
+  return lines.join('\n')
+}
+
+export function renderHtmlEmail(data: DigestData, options?: DigestRenderOptions): string {
+  const title = options?.title || DEFAULT_TITLE
+  const categories = categoriesOf(data)
+  const font = "font-family:Georgia,'Times New Roman',serif;"
+  const sans = 'font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;'
+
+  const sections = categories.map(category => {
+    const stories = category.stories.map(story => `
+          <tr><td style="padding:0 0 20px 0;">
+            <p style="margin:0 0 6px 0;${font}font-size:17px;font-weight:bold;color:#111111;line-height:1.35;">${escapeHtml(story.headline)}</p>
+            ${story.summary ? `<p style="margin:0 0 6px 0;${sans}font-size:14px;color:#444444;line-height:1.55;">${escapeHtml(story.summary)}</p>` : ''}
+            ${story.source ? `<p style="margin:0;${sans}font-size:12px;color:#888888;">${escapeHtml(story.source)}</p>` : ''}
+          </td></tr>`).join('')
+    return `
+          <tr><td style="padding:24px 0 12px 0;border-top:1px solid #e5e5e5;">
+            <p style="margin:0;${sans}font-size:12px;font-weight:bold;letter-spacing:1px;text-transform:uppercase;color:#0f766e;">${escapeHtml(category.name)}</p>
+          </td></tr>${stories}`
+  }).join('')
+
+  const footer = options?.url
+    ? `<p style="margin:0;${sans}font-size:12px;color:#888888;"><a href="${escapeHtml(options.url)}" style="color:#0f766e;">View this digest online</a></p>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${title} — ${data.digest_date}`)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f5f5f4;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background:#f5f5f4;">
+    <tr><td align="center" style="padding:24px 12px;">
+      <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width:600px;width:100%;background:#ffffff;">
+        <tr><td style="padding:32px 32px 8px 32px;">
+          <p style="margin:0;${font}font-size:26px;font-weight:bold;color:#111111;">${escapeHtml(title)}</p>
+          <p style="margin:6px 0 0 0;${sans}font-size:13px;color:#888888;">${escapeHtml(data.digest_date)}</p>
+        </td></tr>
+        <tr><td style="padding:0 32px 16px 32px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">${sections}
+          </table>
+        </td></tr>
+        <tr><td style="padding:16px 32px 32px 32px;border-top:1px solid #e5e5e5;">${footer}</td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>
+`
+}
+
+// ---------------------------------------------------------------------------
+// Feeds: RSS 2.0, Atom, JSON Feed 1.1
+// ---------------------------------------------------------------------------
+
+export interface FeedItem {
+  id: string
+  title: string
+  url: string
+  content_html: string
+  content_text: string
+  /** ISO-8601 timestamp */
+  date: string
+  tags: string[]
+}
+
+export interface FeedMeta {
+  title: string
+  description: string
+  /** Page the feed describes */
+  home_url: string
+  /** URL the feed itself is served from */
+  feed_url: string
+  /** ISO-8601 timestamp of the newest item; defaults to now */
+  updated?: string
+}
+
+/** One feed item per story of a digest. */
+export function storyFeedItems(digest: StoredDigest, digestUrl: string): FeedItem[] {
+  const items: FeedItem[] = []
+  categoriesOf(digest.data).forEach((category, catIdx) => {
+    category.stories.forEach((story, storyIdx) => {
+      const text = [story.summary, story.source ? `Source: ${story.source}` : ''].filter(Boolean).join('\n\n')
+      items.push({
+        id: `${digest.id}:${catIdx}:${storyIdx}`,
+        title: story.headline,
+        url: digestUrl,
+        content_html: `<p>${escapeHtml(story.summary)}</p>${story.source ? `<p><em>Source: ${escapeHtml(story.source)}</em></p>` : ''}`,
+        content_text: text,
+        date: digest.created_at,
+        tags: [category.name],
+      })
+    })
+  })
+  return items
+}
+
+/** One feed item per digest, with the whole digest as content. */
+export function digestFeedItems(digests: StoredDigest[], digestUrl: (digest: StoredDigest) => string): FeedItem[] {
+  return digests.map(digest => {
+    const categories = categoriesOf(digest.data)
+    const html = categories.map(category =>
+      `<h2>${escapeHtml(category.name)}</h2>` + category.stories.map(story =>
+        `<h3>${escapeHtml(story.headline)}</h3><p>${escapeHtml(story.summary)}</p>${story.source ? `<p><em>${escapeHtml(story.source)}</em></p>` : ''}`
+      ).join('')
+    ).join('')
+    return {
+      id: digest.id,
+      title: `${DEFAULT_TITLE} — ${digest.digest_date}`,
+      url: digestUrl(digest),
+      content_html: html,
+      content_text: renderMarkdown(digest.data),
+      date: digest.created_at,
+      tags: categories.map(c => c.name),
+    }
+  })
+}
+
+function feedUpdated(meta: FeedMeta, items: FeedItem[]): string {
+  return meta.updated || items.reduce((latest, item) => (item.date > latest ? item.date : latest), '') || new Date().toISOString()
+}
+
+export function renderRssFeed(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+${item.tags.map(tag => `      <category>${escapeXml(tag)}</category>\n`).join('')}      <description>${escapeXml(item.content_html)}</description>
+    </item>`).join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(meta.title)}</title>
+    <link>${escapeXml(meta.home_url)}</link>
+    <description>${escapeXml(meta.description)}</description>
+    <atom:link href="${escapeXml(meta.feed_url)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${new Date(feedUpdated(meta, items)).toUTCString()}</lastBuildDate>
+${entries}
+  </channel>
+</rss>
+`
+}
+
+export function renderAtomFeed(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <id>urn:digest:${escapeXml(item.id)}</id>
+    <link href="${escapeXml(item.url)}"/>
+    <updated>${new Date(item.date).toISOString()}</updated>
+${item.tags.map(tag => `    <category term="${escapeXml(tag)}"/>\n`).join('')}    <content type="html">${escapeXml(item.content_html)}</content>
+  </entry>`).join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(meta.title)}</title>
+  <subtitle>${escapeXml(meta.description)}</subtitle>
+  <id>${escapeXml(meta.feed_url)}</id>
+  <link href="${escapeXml(meta.home_url)}"/>
+  <link href="${escapeXml(meta.feed_url)}" rel="self"/>
+  <updated>${new Date(feedUpdated(meta, items)).toISOString()}</updated>
+  <author><name>${escapeXml(DEFAULT_TITLE)}</name></author>
+${entries}
+</feed>
+`
+}
+
+export function renderJsonFeed(meta: FeedMeta, items: FeedItem[]): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.home_url,
+    feed_url: meta.feed_url,
+    items: items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_html: item.content_html,
+      content_text: item.content_text,
+      date_published: new Date(item.date).toISOString(),
+      tags: item.tags,
+    })),
+  }, null, 2)
+}
+
+export function renderFeed(format: 'rss' | 'atom' | 'json', meta: FeedMeta, items: FeedItem[]): string {
+  if (format === 'atom') return renderAtomFeed(meta, items)
+  if (format === 'json') return renderJsonFeed(meta, items)
+  return renderRssFeed(meta, items)
+}
+
+// ---------------------------------------------------------------------------
+// Entry point for a single archived digest
+// ---------------------------------------------------------------------------
+
+/** App URL that opens a digest in the history panel. */
+export function digestAppUrl(baseUrl: string, digestId: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/?digest=${encodeURIComponent(digestId)}`
+}
+
+export function exportDigest(
+  digest: StoredDigest,
+  format: ExportFormat,
+  options: { baseUrl: string; feedUrl?: string }
+): { body: string; contentType: string; filename: string } {
+  const url = digestAppUrl(options.baseUrl, digest.id)
+  const { contentType, extension } = EXPORT_FORMATS[format]
+  const slug = (digest.created_at || '').slice(0, 10) || digest.id
+  const filename = `ai-news-digest-${slug}.${extension}`
+
+  if (format === 'markdown') return { body: renderMarkdown(digest.data, { url }), contentType, filename }
+  if (format === 'html') return { body: renderHtmlEmail(digest.data, { url }), contentType, filename }
+
+  const items = storyFeedItems(digest, url)
+  const meta: FeedMeta = {
+    title: `${DEFAULT_TITLE} — ${digest.digest_date}`,
+    description: `${items.length} ${items.length === 1 ? 'story' : 'stories'} curated on ${digest.digest_date}`,
+    home_url: url,
+    feed_url: options.feedUrl || url,
+    updated: digest.created_at,
+  }
+  return { body: renderFeed(format, meta, items), contentType, filename }
+}
@@ -0,0 +1,156 @@
+/**
+ * Scheduled Digest Ingestion
+ *
+ * Server-side job that pulls scheduler execution logs, recovers the curator's
+ * digest from each `response_output`, checks it against the DigestData shape in
+ * response_schemas/ai_news_curator_agent_response.json and archives it.
+ *
+ * Ingestion is idempotent: executions already in the archive are skipped, and
+ * the archive insert itself refuses a second digest for the same execution, so
+ * overlapping syncs (page loads, Run Now) can't archive a run twice.
+ * Executions whose output is not a valid digest are remembered as rejected
+ * (<DATA_DIR>/ingest-rejected.json) and skipped too, so they are reported once.
+ *
+ * With `deliver`, digests this call newly archived from the last day are also
+ * delivered to their schedule's routes (see lib/digestDelivery.ts). The archive
+ * page's sync never delivers; the ingest cron job does.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { archiveExecutionDigest, getDigestStore } from '@/lib/digestStore'
+import { deliverDigest } from '@/lib/digestDelivery'
+import { fetchRecentExecutions, fetchScheduleLogs } from '@/lib/schedulerUpstream'
+import { compileSchema, formatValidationErrors } from '@/lib/schemaValidator'
+import curatorSchema from '@/response_schemas/ai_news_curator_agent_response.json'
+import type { DigestData, IngestSummary } from '@/lib/digest'
+import type { ExecutionLog } from '@/lib/scheduler'
+
+// ---------------------------------------------------------------------------
+// Digest extraction
+// ---------------------------------------------------------------------------
+
+const validateDigest = compileSchema(curatorSchema.response_schema)
+
+/**
+ * Recover a DigestData from a scheduler `response_output` string.
+ * Returns the shape errors when the output is not a valid digest.
+ */
+export function extractDigestFromOutput(output: string): { digest?: DigestData; errors: string[] } {
+  if (!output || !output.trim()) return { errors: ['response_output is empty'] }
+
+  const parsed = parseLLMJson(output)
+  if (!parsed || (parsed.success === false && parsed.data === null)) {
+    return { errors: ['response_output does not contain JSON'] }
+  }
+
+  // Agent responses may still be wrapped as { status, result } after unwrapping
+  const candidate = parsed.result && typeof parsed.result === 'object' && !Array.isArray(parsed.result)
+    ? parsed.result
+    : parsed
+
+  const errors = validateDigest(candidate)
+  if (errors.length > 0) return { errors: [formatValidationErrors(errors)] }
+  return { digest: candidate as DigestData, errors: [] }
+}
+
+// ---------------------------------------------------------------------------
+// Ingestion job
+// ---------------------------------------------------------------------------
+
+/** Runs older than this are archived without being delivered */
+const AUTO_DELIVERY_MAX_AGE_MS = 24 * 60 * 60 * 1000
+/** Oldest rejections are forgotten past this many */
+const MAX_REJECTED = 2000
+
+interface RejectedExecution {
+  execution_id: string
+  errors: string[]
+  rejected_at: string
+}
+
+const rejectedStore = createJsonFileStore<RejectedExecution[]>('ingest-rejected.json', () => [])
+
+async function recordRejected(entries: RejectedExecution[]) {
+  if (entries.length === 0) return
+  const ids = new Set(entries.map(e => e.execution_id))
+  await rejectedStore.update(current => [...current.filter(e => !ids.has(e.execution_id)), ...entries].slice(-MAX_REJECTED))
+}
+
+export interface IngestOptions {
+  /** Ingest one schedule's logs; otherwise recent executions are scanned. */
+  scheduleId?: string
+  agentId?: string
+  hours?: number
+  days?: number
+  limit?: number
+  /** Deliver newly archived runs to their schedule's routes */
+  deliver?: boolean
+  /** App origin, for the "View in app" link in delivered digests */
+  baseUrl?: string
+}
+
+export async function ingestScheduledDigests(options: IngestOptions = {}): Promise<IngestSummary> {
+  const summary: IngestSummary = { success: true, scanned: 0, ingested: 0, skipped: 0, invalid: [], digest_ids: [] }
+
+  const upstream = options.scheduleId
+    ? await fetchScheduleLogs(options.scheduleId, { limit: options.limit ?? 20 })
+    : await fetchRecentExecutions({
+        agentId: options.agentId,
+        success: true,
+        hours: options.hours,
+        days: options.days ?? (options.hours ? undefined : 7),
+        limit: options.limit ?? 50,
+      })
+
+  if (!upstream.ok) {
+    return { ...summary, success: false, error: upstream.error || 'Failed to load executions' }
+  }
+
+  const executions: ExecutionLog[] = Array.isArray(upstream.data?.executions) ? upstream.data!.executions : []
+  const store = getDigestStore()
+  const rejected = new Set((await rejectedStore.read()).map(e => e.execution_id))
+
+  for (const log of executions) {
+    summary.scanned++
+    if (!log.success || !log.response_output || (options.agentId && log.agent_id !== options.agentId)) {
+      summary.skipped++
+      continue
+    }
+    if (rejected.has(log.id) || (await store.findByExecutionId(log.id))) {
+      summary.skipped++
+      continue
+    }
+
+    const { digest, errors } = extractDigestFromOutput(log.response_output)
+    if (!digest) {
+      summary.invalid.push({ execution_id: log.id, errors })
+      rejected.add(log.id)
+      continue
+    }
+
+    const stored = await archiveExecutionDigest({
+      data: digest,
+      agent_id: log.agent_id,
+      source: 'scheduled',
+      schedule_id: log.schedule_id,
+      execution_id: log.id,
+      session_id: log.session_id,
+      created_at: log.executed_at,
+    })
+    if (!stored) {
+      // Archived by an overlapping ingest since the check above
+      summary.skipped++
+      continue
+    }
+    summary.ingested++
+    summary.digest_ids.push(stored.id)
+    if (options.deliver && stored.schedule_id && Date.now() - new Date(stored.created_at).getTime() < AUTO_DELIVERY_MAX_AGE_MS) {
+      await deliverDigest(stored.id, { baseUrl: options.baseUrl })
+    }
+  }
+
+  const now = new Date().toISOString()
+  await recordRejected(summary.invalid.map(i => ({ ...i, rejected_at: now })))
+  return summary
+}
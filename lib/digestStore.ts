@@ -0,0 +1,240 @@
+/**
+ * Digest Archive Store
+ *
+ * Server-side persistence for curated digests, shared by every browser and by
+ * scheduled runs. Storage is behind the DigestStoreAdapter interface so the
+ * backend can be swapped without touching the API routes.
+ *
+ * Adapter is selected with DIGEST_STORE_ADAPTER:
+ *   - `file`   (default) JSON document at <DATA_DIR>/digests.json
+ *   - `memory` process-local, lost on restart (useful for previews)
+ */
+
+import { generateUUID } from '@/lib/utils'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { dedupeDigest, getDedupLookbackMs } from '@/lib/storyDedup'
+import type { DigestData, DigestSource, StoredDigest } from '@/lib/digest'
+
+// ---------------------------------------------------------------------------
+// Adapter interface
+// ---------------------------------------------------------------------------
+
+export interface DigestListQuery {
+  agentId?: string
+  source?: DigestSource
+  skip?: number
+  limit?: number
+}
+
+export interface DigestListPage {
+  digests: StoredDigest[]
+  total: number
+}
+
+export interface DigestStoreAdapter {
+  list: (query?: DigestListQuery) => Promise<DigestListPage>
+  get: (id: string) => Promise<StoredDigest | null>
+  /** Look up a digest created from a scheduler execution (idempotent ingestion). */
+  findByExecutionId: (executionId: string) => Promise<StoredDigest | null>
+  put: (digest: StoredDigest) => Promise<StoredDigest>
+  /**
+   * Insert a digest unless one from the same execution is already stored. The
+   * check and the write are one step, so overlapping ingests can't archive an
+   * execution twice. Resolves with null when the execution was already there.
+   */
+  insertIfNew: (digest: StoredDigest) => Promise<StoredDigest | null>
+  delete: (id: string) => Promise<boolean>
+}
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+function sortDigests(digests: StoredDigest[]): StoredDigest[] {
+  return [...digests].sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+function paginate(digests: StoredDigest[], query?: DigestListQuery): DigestListPage {
+  const filtered = digests.filter(d =>
+    (!query?.agentId || d.agent_id === query.agentId) &&
+    (!query?.source || d.source === query.source)
+  )
+  const skip = Math.max(0, query?.skip ?? 0)
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query?.limit ?? DEFAULT_PAGE_SIZE))
+  return {
+    digests: sortDigests(filtered).slice(skip, skip + limit),
+    total: filtered.length,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// File adapter
+// ---------------------------------------------------------------------------
+
+interface DigestFile {
+  version: 1
+  digests: StoredDigest[]
+}
+
+export function createFileDigestStore(fileName = 'digests.json'): DigestStoreAdapter {
+  const file = createJsonFileStore<DigestFile>(fileName, () => ({ version: 1, digests: [] }))
+
+  return {
+    async list(query) {
+      const { digests } = await file.read()
+      return paginate(digests, query)
+    },
+
+    async get(id) {
+      const { digests } = await file.read()
+      return digests.find(d => d.id === id) ?? null
+    },
+
+    async findByExecutionId(executionId) {
+      const { digests } = await file.read()
+      return digests.find(d => d.execution_id === executionId) ?? null
+    },
+
+    async put(digest) {
+      await file.update(current => ({
+        ...current,
+        digests: [...current.digests.filter(d => d.id !== digest.id), digest],
+      }))
+      return digest
+    },
+
+    async insertIfNew(digest) {
+      let inserted = false
+      await file.update(current => {
+        if (digest.execution_id && current.digests.some(d => d.execution_id === digest.execution_id)) return current
+        inserted = true
+        return { ...current, digests: [...current.digests, digest] }
+      })
+      return inserted ? digest : null
+    },
+
+    async delete(id) {
+      let removed = false
+      await file.update(current => {
+        const digests = current.digests.filter(d => d.id !== id)
+        removed = digests.length !== current.digests.length
+        return { ...current, digests }
+      })
+      return removed
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Memory adapter
+// ---------------------------------------------------------------------------
+
+export function createMemoryDigestStore(): DigestStoreAdapter {
+  const digests = new Map<string, StoredDigest>()
+
+  return {
+    async list(query) {
+      return paginate(Array.from(digests.values()), query)
+    },
+    async get(id) {
+      return digests.get(id) ?? null
+    },
+    async findByExecutionId(executionId) {
+      return Array.from(digests.values()).find(d => d.execution_id === executionId) ?? null
+    },
+    async put(digest) {
+      digests.set(digest.id, digest)
+      return digest
+    },
+    async insertIfNew(digest) {
+      if (digest.execution_id && Array.from(digests.values()).some(d => d.execution_id === digest.execution_id)) return null
+      digests.set(digest.id, digest)
+      return digest
+    },
+    async delete(id) {
+      return digests.delete(id)
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Store selection
+// ---------------------------------------------------------------------------
+
+let store: DigestStoreAdapter | null = null
+
+export function getDigestStore(): DigestStoreAdapter {
+  if (store) return store
+  const adapter = (process.env.DIGEST_STORE_ADAPTER || 'file').toLowerCase()
+  store = adapter === 'memory' ? createMemoryDigestStore() : createFileDigestStore()
+  return store
+}
+
+/** Replace the active adapter (e.g. a database-backed implementation). */
+export function setDigestStore(adapter: DigestStoreAdapter) {
+  store = adapter
+}
+
+// ---------------------------------------------------------------------------
+// Archive operations
+// ---------------------------------------------------------------------------
+
+export interface ArchiveDigestInput {
+  data: DigestData
+  agent_id: string
+  source: DigestSource
+  schedule_id?: string | null
+  execution_id?: string | null
+  session_id?: string | null
+  created_at?: string
+}
+
+// Digests created within the dedup lookback window before `before`
+async function loadRecentDigests(before: string): Promise<StoredDigest[]> {
+  const store = getDigestStore()
+  const cutoff = new Date(new Date(before).getTime() - getDedupLookbackMs()).toISOString()
+  const recent: StoredDigest[] = []
+
+  for (let skip = 0; ; skip += MAX_PAGE_SIZE) {
+    const page = await store.list({ skip, limit: MAX_PAGE_SIZE })
+    for (const digest of page.digests) {
+      if (digest.created_at < cutoff) return recent
+      if (digest.created_at <= before) recent.push(digest)
+    }
+    if (page.digests.length < MAX_PAGE_SIZE) return recent
+  }
+}
+
+async function buildRecord(input: ArchiveDigestInput): Promise<StoredDigest> {
+  // Normalize to ISO so archive ordering is a plain string comparison
+  const parsedCreatedAt = input.created_at ? new Date(input.created_at) : new Date()
+  const createdAt = isNaN(parsedCreatedAt.getTime()) ? new Date().toISOString() : parsedCreatedAt.toISOString()
+  const { data, summary } = dedupeDigest(input.data, await loadRecentDigests(createdAt))
+  return {
+    id: generateUUID(),
+    agent_id: input.agent_id,
+    source: input.source,
+    digest_date: input.data.digest_date || createdAt.slice(0, 10),
+    data,
+    created_at: createdAt,
+    schedule_id: input.schedule_id ?? null,
+    execution_id: input.execution_id ?? null,
+    session_id: input.session_id ?? null,
+    dedup: summary,
+  }
+}
+
+/**
+ * Create a StoredDigest record and persist it in the active store.
+ * Stories are checked against recent digests first (see lib/storyDedup.ts).
+ */
+export async function archiveDigest(input: ArchiveDigestInput): Promise<StoredDigest> {
+  return getDigestStore().put(await buildRecord(input))
+}
+
+/**
+ * Archive the digest of a scheduler execution, once. Resolves with null when
+ * the execution is already archived (e.g. by an overlapping ingest).
+ */
+export async function archiveExecutionDigest(input: ArchiveDigestInput & { execution_id: string }): Promise<StoredDigest | null> {
+  return getDigestStore().insertIfNew(await buildRecord(input))
+}
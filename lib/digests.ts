@@ -0,0 +1,162 @@
+'use client'
+
+/**
+ * Digest Archive Client Utility
+ *
+ * Client-side wrapper for the shared digest archive behind /api/digests.
+ */
+
+import type { DigestData, DigestListResult, DigestSource, IngestSummary, SearchResponse, StoredDigest } from '@/lib/digest'
+import type { DeliveryStatus } from '@/lib/delivery'
+
+function buildQuery(params: Record<string, string | number | boolean | undefined | null>): string {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) {
+      query.set(key, String(value))
+    }
+  }
+  return query.toString()
+}
+
+/** List archived digests, newest first. */
+export async function listDigests(params?: {
+  agentId?: string
+  source?: DigestSource
+  skip?: number
+  limit?: number
+}): Promise<DigestListResult> {
+  const skip = params?.skip ?? 0
+  const limit = params?.limit ?? 20
+  try {
+    const qs = buildQuery({ agentId: params?.agentId, source: params?.source, skip, limit })
+    const res = await fetch(`/api/digests?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, digests: [], total: 0, skip, limit, error: data.error }
+    return { success: true, digests: data.digests || [], total: data.total ?? 0, skip: data.skip ?? skip, limit: data.limit ?? limit }
+  } catch (error) {
+    return { success: false, digests: [], total: 0, skip, limit, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Get a single archived digest by ID. */
+export async function getDigest(id: string): Promise<{ success: boolean; digest?: StoredDigest; error?: string }> {
+  try {
+    const res = await fetch(`/api/digests/${encodeURIComponent(id)}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, digest: data.digest }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Archive a digest generated in the app. */
+export async function saveDigest(
+  data: DigestData,
+  agent_id: string,
+  options?: { session_id?: string }
+): Promise<{ success: boolean; digest?: StoredDigest; error?: string }> {
+  try {
+    const res = await fetch('/api/digests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data, agent_id, session_id: options?.session_id }),
+    })
+    const result = await res.json()
+    if (!result.success) return { success: false, error: result.error }
+    return { success: true, digest: result.digest }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Permanently delete an archived digest. */
+export async function deleteDigest(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetch(`/api/digests/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Deliver an archived digest to some targets, or to its schedule's routes. */
+export async function deliverDigest(
+  id: string,
+  targetIds?: string[]
+): Promise<{ success: boolean; digest?: StoredDigest; deliveries?: DeliveryStatus[]; error?: string }> {
+  try {
+    const res = await fetch(`/api/digests/${encodeURIComponent(id)}/deliver`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ target_ids: targetIds }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, digest: data.digest, deliveries: data.deliveries, error: data.error }
+    return { success: true, digest: data.digest, deliveries: data.deliveries }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Pull scheduled run outputs into the archive (already-archived runs are skipped). */
+export async function syncScheduledDigests(params?: {
+  scheduleId?: string
+  agentId?: string
+  hours?: number
+  days?: number
+  limit?: number
+}): Promise<IngestSummary> {
+  try {
+    const res = await fetch('/api/digests/ingest', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params || {}),
+    })
+    return res.json()
+  } catch (error) {
+    return {
+      success: false,
+      scanned: 0,
+      ingested: 0,
+      skipped: 0,
+      invalid: [],
+      digest_ids: [],
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/**
+ * Full-text search over archived stories.
+ * Supports "quoted phrases", category:, source:, after:/before:YYYY-MM-DD and date:.
+ */
+export async function searchDigests(
+  q: string,
+  params?: { agentId?: string; skip?: number; limit?: number }
+): Promise<SearchResponse> {
+  const skip = params?.skip ?? 0
+  const limit = params?.limit ?? 20
+  try {
+    const qs = buildQuery({ q, agentId: params?.agentId, skip, limit })
+    const res = await fetch(`/api/search?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, results: [], total: 0, skip, limit, error: data.error }
+    return data
+  } catch (error) {
+    return { success: false, results: [], total: 0, skip, limit, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** URL of an archived digest rendered as Markdown, HTML email or a feed. */
+export function digestExportUrl(
+  id: string,
+  format: 'markdown' | 'html' | 'rss' | 'atom' | 'json',
+  options?: { download?: boolean }
+): string {
+  const qs = buildQuery({ format, download: options?.download ? 1 : undefined })
+  return `/api/digests/${encodeURIComponent(id)}/export?${qs}`
+}
@@ -0,0 +1,243 @@
+/**
+ * Execution Analytics
+ *
+ * Pure aggregation over scheduler execution logs and archived digests for the
+ * analytics dashboard: runs per day and their success rate, retries, time to
+ * success for retried runs, grouped failure reasons and stories per digest.
+ *
+ * The scheduler logs one ExecutionLog per attempt. Attempts are folded into
+ * runs: a run starts at `attempt === 1` and ends at its last attempt.
+ */
+
+import type { ExecutionLog } from '@/lib/scheduler'
+import type { StoredDigest } from '@/lib/digest'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ExecutionRun {
+  schedule_id: string
+  agent_id: string
+  started_at: string
+  finished_at: string
+  attempts: number
+  max_attempts: number
+  success: boolean
+  /** Last attempt of the run */
+  final: ExecutionLog
+}
+
+export interface DailyExecutionStats {
+  /** YYYY-MM-DD in the dashboard timezone */
+  date: string
+  runs: number
+  succeeded: number
+  failed: number
+  /** 0–100, null on days without runs */
+  success_rate: number | null
+  /** Attempts beyond the first */
+  retries: number
+}
+
+export interface FailureReason {
+  reason: string
+  count: number
+  last_seen: string
+  /** One raw error message from the group */
+  example: string
+}
+
+export interface DigestStoryPoint {
+  digest_id: string
+  date: string
+  created_at: string
+  total_stories: number
+  source: StoredDigest['source']
+}
+
+export interface ExecutionAnalytics {
+  totals: {
+    executions: number
+    runs: number
+    succeeded: number
+    failed: number
+    /** 0–100, null without runs */
+    success_rate: number | null
+    retried_runs: number
+    retries: number
+    avg_attempts: number | null
+    /** Mean first-attempt → successful-attempt time of runs that needed retries */
+    avg_recovery_ms: number | null
+    avg_stories: number | null
+  }
+  daily: DailyExecutionStats[]
+  failure_reasons: FailureReason[]
+  stories: DigestStoryPoint[]
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** YYYY-MM-DD of an instant in the given IANA timezone (default UTC). */
+export function dayKey(iso: string | number | Date, timeZone = 'UTC'): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Date(iso).toLocaleDateString('en-CA', { timeZone })
+}
+
+function percent(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+/**
+ * Grouping key for an error message: ids, hex strings, long numbers, URLs and
+ * quoted values are replaced so the same failure with different details lands
+ * in one bucket. HTTP-style three-digit codes are kept.
+ */
+export function normalizeErrorReason(log: Pick<ExecutionLog, 'error_message' | 'response_status'>): string {
+  const message = (log.error_message || '').trim()
+  if (!message) return log.response_status ? `HTTP ${log.response_status}` : 'Unknown error'
+
+  return message
+    .split('\n')[0]
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<id>')
+    .replace(/"[^"]*"|'[^']*'/g, '"…"')
+    .replace(/\d{4,}/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .slice(0, 120)
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/** Fold per-attempt logs into runs, oldest first. */
+export function groupRuns(executions: ExecutionLog[]): ExecutionRun[] {
+  const sorted = [...executions].sort((a, b) =>
+    a.executed_at.localeCompare(b.executed_at) || a.attempt - b.attempt
+  )
+  const open = new Map<string, ExecutionRun>()
+  const runs: ExecutionRun[] = []
+
+  for (const log of sorted) {
+    const current = open.get(log.schedule_id)
+    // A retry continues the open run; attempt 1 (or a gap in the sequence) starts a new one
+    if (current && !current.success && log.attempt === current.attempts + 1) {
+      current.attempts = log.attempt
+      current.finished_at = log.executed_at
+      current.success = log.success
+      current.final = log
+      continue
+    }
+    const run: ExecutionRun = {
+      schedule_id: log.schedule_id,
+      agent_id: log.agent_id,
+      started_at: log.executed_at,
+      finished_at: log.executed_at,
+      attempts: log.attempt || 1,
+      max_attempts: log.max_attempts || 1,
+      success: log.success,
+      final: log,
+    }
+    open.set(log.schedule_id, run)
+    runs.push(run)
+  }
+  return runs
+}
+
+export function computeExecutionAnalytics(
+  executions: ExecutionLog[],
+  digests: StoredDigest[],
+  window: { from: Date; to: Date; timeZone?: string }
+): ExecutionAnalytics {
+  const timeZone = window.timeZone || 'UTC'
+  const from = window.from.getTime()
+  const to = window.to.getTime()
+  const inWindow = (iso: string) => {
+    const t = new Date(iso).getTime()
+    return t >= from && t <= to
+  }
+
+  const logs = executions.filter(log => inWindow(log.executed_at))
+  const runs = groupRuns(logs)
+
+  // One row per calendar day so gaps show up as empty bars
+  const daily = new Map<string, DailyExecutionStats>()
+  for (let t = from; t <= to + DAY_MS; t += DAY_MS) {
+    const date = dayKey(Math.min(t, to), timeZone)
+    if (!daily.has(date)) daily.set(date, { date, runs: 0, succeeded: 0, failed: 0, success_rate: null, retries: 0 })
+  }
+  for (const run of runs) {
+    const date = dayKey(run.started_at, timeZone)
+    const day = daily.get(date) || { date, runs: 0, succeeded: 0, failed: 0, success_rate: null, retries: 0 }
+    day.runs++
+    if (run.success) day.succeeded++
+    else day.failed++
+    day.retries += run.attempts - 1
+    daily.set(date, day)
+  }
+  daily.forEach(day => {
+    day.success_rate = percent(day.succeeded, day.runs)
+  })
+
+  const reasons = new Map<string, FailureReason>()
+  for (const log of logs) {
+    if (log.success) continue
+    const reason = normalizeErrorReason(log)
+    const entry = reasons.get(reason) || { reason, count: 0, last_seen: log.executed_at, example: log.error_message || reason }
+    entry.count++
+    if (log.executed_at > entry.last_seen) {
+      entry.last_seen = log.executed_at
+      entry.example = log.error_message || reason
+    }
+    reasons.set(reason, entry)
+  }
+
+  const stories: DigestStoryPoint[] = digests
+    .filter(digest => inWindow(digest.created_at))
+    .map(digest => ({
+      digest_id: digest.id,
+      date: dayKey(digest.created_at, timeZone),
+      created_at: digest.created_at,
+      total_stories: typeof digest.data.total_stories === 'number'
+        ? digest.data.total_stories
+        : (digest.data.categories || []).reduce((sum, c) => sum + (c.stories?.length || 0), 0),
+      source: digest.source,
+    }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  const succeeded = runs.filter(run => run.success).length
+  const retried = runs.filter(run => run.attempts > 1)
+  const recoveries = retried
+    .filter(run => run.success)
+    .map(run => new Date(run.finished_at).getTime() - new Date(run.started_at).getTime())
+  const avgAttempts = mean(runs.map(run => run.attempts))
+  const avgStories = mean(stories.map(point => point.total_stories))
+
+  return {
+    totals: {
+      executions: logs.length,
+      runs: runs.length,
+      succeeded,
+      failed: runs.length - succeeded,
+      success_rate: percent(succeeded, runs.length),
+      retried_runs: retried.length,
+      retries: runs.reduce((sum, run) => sum + run.attempts - 1, 0),
+      avg_attempts: avgAttempts === null ? null : Math.round(avgAttempts * 100) / 100,
+      avg_recovery_ms: mean(recoveries),
+      avg_stories: avgStories === null ? null : Math.round(avgStories * 10) / 10,
+    },
+    daily: Array.from(daily.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    failure_reasons: Array.from(reasons.values()).sort((a, b) => b.count - a.count || b.last_seen.localeCompare(a.last_seen)),
+    stories,
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Story Feedback — shared types and aggregation
+ *
+ * Readers rate archived stories thumbs up/down with optional reason tags.
+ * Feedback is stored per reader (lib/feedbackStore.ts, /api/feedback) and
+ * aggregated here into preferences: favored and disliked sources and topics.
+ * The preferences are injected into curator prompts (lib/curatorPrompt.ts) and
+ * explain to the reader why a story was picked. Pure, so the UI can use it too.
+ *
+ * Scoring: each vote adds ±1 to the story's source and to every topic term in
+ * its headline; reason tags shift the weight towards the source ("Unreliable
+ * source") or the topic ("More like this"). Votes lose half their weight every
+ * FEEDBACK_HALF_LIFE_DAYS, so preferences follow current taste.
+ */
+
+import { parseSource } from '@/lib/slackBlocks'
+import type { Story } from '@/lib/digest'
+
+export type FeedbackVote = 'up' | 'down'
+
+export type FeedbackReason = 'useful' | 'more_like_this' | 'trusted_source' | 'irrelevant' | 'wrong' | 'untrusted_source'
+
+export const FEEDBACK_REASONS: Record<FeedbackReason, { label: string; vote: FeedbackVote; source: number; topic: number }> = {
+  useful: { label: 'Useful', vote: 'up', source: 1, topic: 1 },
+  more_like_this: { label: 'More like this', vote: 'up', source: 0.5, topic: 2 },
+  trusted_source: { label: 'Trusted source', vote: 'up', source: 2, topic: 0.5 },
+  irrelevant: { label: 'Irrelevant', vote: 'down', source: 0.5, topic: 2 },
+  wrong: { label: 'Wrong or misleading', vote: 'down', source: 2, topic: 0 },
+  untrusted_source: { label: 'Unreliable source', vote: 'down', source: 2, topic: 0.5 },
+}
+
+export const FEEDBACK_HALF_LIFE_DAYS = 30
+/** A source needs this score (e.g. two plain votes) to become a preference */
+const MIN_SOURCE_SCORE = 1.5
+/** A topic needs this score, from at least MIN_TOPIC_STORIES stories */
+const MIN_TOPIC_SCORE = 2
+const MIN_TOPIC_STORIES = 2
+const MAX_SIGNALS = 5
+const MAX_EXAMPLES = 3
+
+export interface StoryFeedback {
+  id: string
+  user_id: string
+  digest_id: string
+  category: string
+  headline: string
+  source: string
+  vote: FeedbackVote
+  reasons: FeedbackReason[]
+  created_at: string
+  updated_at: string
+}
+
+export type StoryFeedbackInput = Pick<StoryFeedback, 'user_id' | 'digest_id' | 'category' | 'headline' | 'source' | 'vote' | 'reasons'>
+
+export interface PreferenceSignal {
+  /** Normalized key, e.g. "techcrunch" or "anthropic" */
+  key: string
+  /** Display form, e.g. "TechCrunch" */
+  label: string
+  score: number
+  /** Rated stories behind the signal */
+  stories: number
+  /** A few of their headlines */
+  examples: string[]
+}
+
+export interface FeedbackPreferences {
+  favored_sources: PreferenceSignal[]
+  disliked_sources: PreferenceSignal[]
+  favored_topics: PreferenceSignal[]
+  disliked_topics: PreferenceSignal[]
+  /** Feedback entries considered */
+  feedback_count: number
+  derived_at: string
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Check feedback submitted from the UI/API. Returns a list of problems (empty when valid). */
+export function validateFeedbackInput(input: StoryFeedbackInput): string[] {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object') return ['body must be an object']
+  for (const field of ['user_id', 'digest_id', 'headline'] as const) {
+    if (typeof input[field] !== 'string' || !input[field].trim()) errors.push(`${field} is required`)
+  }
+  if (typeof input.user_id === 'string' && input.user_id.length > 100) errors.push('user_id is too long')
+  if (input.category !== undefined && typeof input.category !== 'string') errors.push('category must be a string')
+  if (input.source !== undefined && typeof input.source !== 'string') errors.push('source must be a string')
+  if (input.vote !== 'up' && input.vote !== 'down') errors.push('vote must be "up" or "down"')
+  if (input.reasons !== undefined) {
+    if (!Array.isArray(input.reasons)) {
+      errors.push('reasons must be an array')
+    } else {
+      for (const reason of input.reasons) {
+        const known = FEEDBACK_REASONS[reason]
+        if (!known) errors.push(`unknown reason "${reason}"`)
+        else if (known.vote !== input.vote) errors.push(`reason "${reason}" doesn't fit a thumbs ${input.vote}`)
+      }
+    }
+  }
+  return errors
+}
+
+// ---------------------------------------------------------------------------
+// Sources + topics
+// ---------------------------------------------------------------------------
+
+/** Source of a story as a preference key/label: the publisher name, else the domain. */
+export function storySource(source: string): { key: string; label: string } | null {
+  const { label, url } = parseSource(source)
+  let name = label
+  if (!name && url) {
+    try {
+      name = new URL(url).hostname.replace(/^www\./, '')
+    } catch {
+      name = ''
+    }
+  }
+  name = name.trim()
+  return name ? { key: name.toLowerCase(), label: name } : null
+}
+
+const TOPIC_STOP_WORDS = new Set([
+  'a', 'about', 'after', 'ai', 'all', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could',
+  'for', 'from', 'gets', 'has', 'have', 'how', 'in', 'into', 'is', 'it', 'its', 'just', 'more', 'new',
+  'not', 'now', 'of', 'on', 'or', 'out', 'over', 'says', 'than', 'that', 'the', 'their', 'this', 'to',
+  'up', 'was', 'what', 'when', 'why', 'will', 'with', 'you', 'your',
+  'announces', 'launches', 'releases', 'report', 'reports', 'update', 'week', 'year',
+])
+
+/** Topic terms of a headline: distinct content words, keyed lowercase. */
+export function topicTerms(headline: string): Array<{ key: string; label: string }> {
+  const seen = new Set<string>()
+  const terms: Array<{ key: string; label: string }> = []
+  for (const word of (headline || '').match(/[A-Za-z0-9\u00C0-\u024F][\w\u00C0-\u024F.+\-]*[\w\u00C0-\u024F+]/g) || []) {
+    const key = word.toLowerCase()
+    if (key.length < 3 || /^\d+$/.test(key) || TOPIC_STOP_WORDS.has(key) || seen.has(key)) continue
+    seen.add(key)
+    terms.push({ key, label: word })
+  }
+  return terms
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+interface Tally {
+  label: string
+  score: number
+  headlines: string[]
+}
+
+function voteWeights(entry: StoryFeedback): { source: number; topic: number } {
+  if (entry.reasons.length === 0) return { source: 1, topic: 1 }
+  return {
+    source: Math.max(...entry.reasons.map(r => FEEDBACK_REASONS[r]?.source ?? 1)),
+    topic: Math.max(...entry.reasons.map(r => FEEDBACK_REASONS[r]?.topic ?? 1)),
+  }
+}
+
+function add(tallies: Map<string, Tally>, key: string, label: string, amount: number, headline: string) {
+  if (amount === 0) return
+  const tally = tallies.get(key) || { label, score: 0, headlines: [] }
+  tally.score += amount
+  if (!tally.headlines.includes(headline)) tally.headlines.push(headline)
+  tallies.set(key, tally)
+}
+
+function signals(tallies: Map<string, Tally>, sign: 1 | -1, minScore: number, minStories: number): PreferenceSignal[] {
+  // Rounded, so fresh votes aren't pushed under a threshold by a few ms of decay
+  const score = (t: Tally) => Math.round(t.score * 100) / 100
+  return Array.from(tallies.entries())
+    .filter(([, t]) => score(t) * sign >= minScore && t.headlines.length >= minStories)
+    .sort((a, b) => (b[1].score - a[1].score) * sign)
+    .slice(0, MAX_SIGNALS)
+    .map(([key, t]) => ({
+      key,
+      label: t.label,
+      score: score(t),
+      stories: t.headlines.length,
+      examples: t.headlines.slice(-MAX_EXAMPLES).reverse(),
+    }))
+}
+
+/** Derive a reader's preferences from their feedback (any order). */
+export function derivePreferences(feedback: StoryFeedback[], now = new Date()): FeedbackPreferences {
+  const sources = new Map<string, Tally>()
+  const topics = new Map<string, Tally>()
+  const halfLifeMs = FEEDBACK_HALF_LIFE_DAYS * 24 * 60 * 60 * 1000
+  const ordered = [...feedback].sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+
+  for (const entry of ordered) {
+    const age = Math.max(0, now.getTime() - new Date(entry.updated_at).getTime())
+    const decay = Math.pow(0.5, (Number.isFinite(age) ? age : 0) / halfLifeMs)
+    const sign = entry.vote === 'up' ? 1 : -1
+    const weights = voteWeights(entry)
+
+    const source = storySource(entry.source)
+    if (source) add(sources, source.key, source.label, sign * weights.source * decay, entry.headline)
+    for (const term of topicTerms(entry.headline)) {
+      add(topics, term.key, term.label, sign * weights.topic * decay, entry.headline)
+    }
+  }
+
+  return {
+    favored_sources: signals(sources, 1, MIN_SOURCE_SCORE, 1),
+    disliked_sources: signals(sources, -1, MIN_SOURCE_SCORE, 1),
+    favored_topics: signals(topics, 1, MIN_TOPIC_SCORE, MIN_TOPIC_STORIES),
+    disliked_topics: signals(topics, -1, MIN_TOPIC_SCORE, MIN_TOPIC_STORIES),
+    feedback_count: feedback.length,
+    derived_at: now.toISOString(),
+  }
+}
+
+export function hasPreferences(prefs: FeedbackPreferences | null | undefined): prefs is FeedbackPreferences {
+  return !!prefs && (
+    prefs.favored_sources.length + prefs.disliked_sources.length +
+    prefs.favored_topics.length + prefs.disliked_topics.length
+  ) > 0
+}
+
+/** "Why am I seeing this": the preferences a story matches, as short sentences. */
+export function explainStory(story: Pick<Story, 'headline' | 'source'>, prefs: FeedbackPreferences | null | undefined): string[] {
+  if (!hasPreferences(prefs)) return []
+  const reasons: string[] = []
+  const source = storySource(story.source)
+  const rated = (signal: PreferenceSignal) => `${signal.stories} ${signal.stories === 1 ? 'story' : 'stories'}`
+
+  const favoredSource = source && prefs.favored_sources.find(s => s.key === source.key)
+  if (favoredSource) reasons.push(`${favoredSource.label} is a source you rated up (${rated(favoredSource)}).`)
+  const dislikedSource = source && prefs.disliked_sources.find(s => s.key === source.key)
+  if (dislikedSource) reasons.push(`${dislikedSource.label} is a source you rated down (${rated(dislikedSource)}); it was still picked as major news.`)
+
+  const terms = new Set(topicTerms(story.headline).map(t => t.key))
+  const favoredTopics = prefs.favored_topics.filter(t => terms.has(t.key))
+  if (favoredTopics.length > 0) reasons.push(`It's about ${favoredTopics.map(t => t.label).join(', ')}, which you liked before.`)
+  const dislikedTopics = prefs.disliked_topics.filter(t => terms.has(t.key))
+  if (dislikedTopics.length > 0) reasons.push(`It mentions ${dislikedTopics.map(t => t.label).join(', ')}, which you rated down; it was still picked as major news.`)
+
+  return reasons
+}
@@ -0,0 +1,134 @@
+'use client'
+
+/**
+ * Story Feedback Client Utility
+ *
+ * Client-side wrapper for /api/feedback plus a hook that tracks the reader's
+ * ratings and derived preferences. The server identifies the reader by a
+ * cookie it issues on the first request, so no reader id is sent from here.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import type { FeedbackPreferences, FeedbackReason, FeedbackVote, StoryFeedback, StoryFeedbackInput } from '@/lib/feedback'
+import type { Story } from '@/lib/digest'
+
+export interface FeedbackResult {
+  success: boolean
+  feedback?: StoryFeedback[]
+  preferences?: FeedbackPreferences
+  error?: string
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Network error'
+}
+
+/** The reader's ratings (optionally for some digests only) and their preferences. */
+export async function fetchFeedback(digestIds?: string[]): Promise<FeedbackResult> {
+  try {
+    const query = new URLSearchParams()
+    if (digestIds) query.set('digestIds', digestIds.join(','))
+    const res = await fetch(`/api/feedback?${query}`)
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+/** Rate a story; rating it again replaces the earlier vote. */
+export async function sendFeedback(
+  input: Omit<StoryFeedbackInput, 'user_id'>
+): Promise<{ success: boolean; feedback?: StoryFeedback; preferences?: FeedbackPreferences; error?: string }> {
+  try {
+    const res = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+export async function clearFeedback(
+  digestId: string,
+  headline: string
+): Promise<{ success: boolean; removed?: boolean; preferences?: FeedbackPreferences; error?: string }> {
+  try {
+    const qs = new URLSearchParams({ digestId, headline }).toString()
+    const res = await fetch(`/api/feedback?${qs}`, { method: 'DELETE' })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+export function feedbackKey(digestId: string, headline: string): string {
+  return `${digestId}\n${headline}`
+}
+
+/** React hook for the reader's ratings and derived preferences. */
+export function useStoryFeedback() {
+  const [ratings, setRatings] = useState<Record<string, StoryFeedback>>({})
+  const [preferences, setPreferences] = useState<FeedbackPreferences | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    const result = await fetchFeedback()
+    if (!result.success) {
+      setError(result.error || 'Failed to load feedback')
+      return
+    }
+    setError(null)
+    setRatings(Object.fromEntries((result.feedback || []).map(f => [feedbackKey(f.digest_id, f.headline), f])))
+    setPreferences(result.preferences || null)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const rate = async (digestId: string, category: string, story: Story, vote: FeedbackVote, reasons: FeedbackReason[] = []) => {
+    const result = await sendFeedback({
+      digest_id: digestId,
+      category,
+      headline: story.headline,
+      source: story.source,
+      vote,
+      reasons,
+    })
+    if (!result.success || !result.feedback) {
+      setError(result.error || 'Failed to save feedback')
+      return
+    }
+    const saved = result.feedback
+    setError(null)
+    setRatings(prev => ({ ...prev, [feedbackKey(digestId, story.headline)]: saved }))
+    if (result.preferences) setPreferences(result.preferences)
+  }
+
+  const clear = async (digestId: string, headline: string) => {
+    const result = await clearFeedback(digestId, headline)
+    if (!result.success) {
+      setError(result.error || 'Failed to clear feedback')
+      return
+    }
+    setError(null)
+    setRatings(prev => {
+      const next = { ...prev }
+      delete next[feedbackKey(digestId, headline)]
+      return next
+    })
+    if (result.preferences) setPreferences(result.preferences)
+  }
+
+  const ratingFor = (digestId: string, headline: string): StoryFeedback | null =>
+    ratings[feedbackKey(digestId, headline)] || null
+
+  return { preferences, error, ratingFor, rate, clear, refresh }
+}
@@ -0,0 +1,75 @@
+/**
+ * Story Feedback Store
+ *
+ * Server-side. Persists readers' story ratings (lib/feedback.ts) and derives
+ * each reader's preferences from them. A reader rates a story once; rating it
+ * again replaces the earlier vote. Readers are identified by the `reader_id`
+ * cookie /api/feedback issues — there are no accounts. Preferences stay per
+ * reader and only tune that reader's manual fetches; the shared schedules don't
+ * use them (see lib/curatorPrompt.ts).
+ *
+ * Persisted at <DATA_DIR>/feedback.json.
+ */
+
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { generateUUID } from '@/lib/utils'
+import { derivePreferences, type FeedbackPreferences, type StoryFeedback, type StoryFeedbackInput } from '@/lib/feedback'
+
+/** Oldest ratings are dropped past this many per reader */
+const MAX_FEEDBACK_PER_USER = 1000
+
+const feedbackStore = createJsonFileStore<StoryFeedback[]>('feedback.json', () => [])
+
+function sameStory(entry: StoryFeedback, userId: string, digestId: string, headline: string): boolean {
+  return entry.user_id === userId && entry.digest_id === digestId && entry.headline === headline
+}
+
+/** A reader's ratings, newest first; optionally only for some digests. */
+export async function listFeedback(userId: string, digestIds?: string[]): Promise<StoryFeedback[]> {
+  const all = await feedbackStore.read()
+  return all
+    .filter(f => f.user_id === userId && (!digestIds || digestIds.includes(f.digest_id)))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+}
+
+/** Record (or replace) a reader's rating of one story. */
+export async function recordFeedback(input: StoryFeedbackInput): Promise<StoryFeedback> {
+  const now = new Date().toISOString()
+
+  const next = await feedbackStore.update(current => {
+    const existing = current.find(f => sameStory(f, input.user_id, input.digest_id, input.headline))
+    const saved: StoryFeedback = {
+      id: existing?.id || generateUUID(),
+      user_id: input.user_id,
+      digest_id: input.digest_id,
+      category: input.category || '',
+      headline: input.headline,
+      source: input.source || '',
+      vote: input.vote,
+      reasons: Array.from(new Set(input.reasons || [])),
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    }
+    const others = current.filter(f => f !== existing)
+    const mine = others.filter(f => f.user_id === input.user_id)
+    // Keep the reader's newest ratings only
+    const dropped = new Set(
+      mine.sort((a, b) => b.updated_at.localeCompare(a.updated_at)).slice(MAX_FEEDBACK_PER_USER - 1)
+    )
+    return [...others.filter(f => !dropped.has(f)), saved]
+  })
+
+  return next.find(f => sameStory(f, input.user_id, input.digest_id, input.headline))!
+}
+
+/** Remove a reader's rating of one story; false when there was none. */
+export async function removeFeedback(userId: string, digestId: string, headline: string): Promise<boolean> {
+  const current = await feedbackStore.read()
+  if (!current.some(f => sameStory(f, userId, digestId, headline))) return false
+  await feedbackStore.update(latest => latest.filter(f => !sameStory(f, userId, digestId, headline)))
+  return true
+}
+
+export async function getPreferences(userId: string): Promise<FeedbackPreferences> {
+  return derivePreferences(await listFeedback(userId))
+}
@@ -0,0 +1,405 @@
+/**
+ * Inbound Digest Requests
+ *
+ * Server-side. Lets other systems (CI, internal dashboards) request an ad-hoc
+ * digest, e.g. "last 48h, research only, Anthropic-related", through
+ * POST /api/digests/inbound. Requests are signed with a shared secret:
+ *
+ *   X-Digest-Timestamp: <unix seconds>
+ *   X-Digest-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * A request is rejected when its timestamp is further than the tolerance from
+ * server time, or when the same signature was already accepted inside that
+ * window (replay). The JSON spec becomes a curator prompt
+ * (buildAdHocDigestMessage), runs through runAgent — the code behind
+ * /api/agent — and the digest is archived with source 'webhook'. When direct
+ * Slack delivery is configured (lib/slackDelivery.ts), `post_to_slack` is
+ * handled by delivering the archived digest to Slack (lib/digestDelivery.ts)
+ * instead of through the agent's Slack tool.
+ * With a `callback_url` the outcome is POSTed there, signed the same way.
+ *
+ * Persisted at <DATA_DIR>/inbound-digests.json. Environment:
+ *   INBOUND_WEBHOOK_SECRET              shared secret; the endpoint is disabled without it
+ *   INBOUND_WEBHOOK_TOLERANCE_SECONDS   allowed clock skew and replay window (default 300)
+ *   INBOUND_CALLBACK_HOSTS              comma-separated hosts callbacks may go to (default: any
+ *                                       public host; loopback, link-local and private addresses are refused)
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { promises as dns } from 'dns'
+import { isIP } from 'net'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { runAgent } from '@/lib/agentRunner'
+import { archiveDigest } from '@/lib/digestStore'
+import { extractDigestFromOutput } from '@/lib/digestIngest'
+import { findAgent, getRegistry } from '@/lib/registryStore'
+import { deliverDigest } from '@/lib/digestDelivery'
+import { isSlackDeliveryConfigured } from '@/lib/slackDelivery'
+import { CURATOR_CATEGORIES, buildAdHocDigestMessage, type AdHocDigestSpec, type CuratorCategoryKey } from '@/lib/curatorPrompt'
+import type { DigestData } from '@/lib/digest'
+
+export const TIMESTAMP_HEADER = 'x-digest-timestamp'
+export const SIGNATURE_HEADER = 'x-digest-signature'
+
+const MAX_RECORDS = 200
+const MAX_HOURS = 7 * 24
+const MAX_TOPICS = 10
+const CALLBACK_TIMEOUT_MS = 10000
+
+function toleranceMs(): number {
+  const seconds = parseInt(process.env.INBOUND_WEBHOOK_TOLERANCE_SECONDS || '', 10)
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 300) * 1000
+}
+
+// ---------------------------------------------------------------------------
+// Types + store
+// ---------------------------------------------------------------------------
+
+export interface InboundDigestRequest {
+  agent_id: string
+  spec: AdHocDigestSpec
+  callback_url: string | null
+  /** Caller's own identifier, echoed in the callback */
+  reference: string | null
+  /** Answer only when the digest is done instead of 202 right away */
+  wait: boolean
+}
+
+export interface InboundDigestRecord {
+  id: string
+  received_at: string
+  agent_id: string
+  spec: AdHocDigestSpec
+  reference: string | null
+  callback_url: string | null
+  status: 'running' | 'succeeded' | 'failed'
+  digest_id: string | null
+  error: string | null
+  completed_at: string | null
+  callback: { ok: boolean; status: number | null; delivered_at: string; error?: string } | null
+}
+
+interface InboundState {
+  requests: InboundDigestRecord[]
+  /** Accepted signatures → when they leave the replay window (ISO) */
+  seen_signatures: Record<string, string>
+}
+
+const inboundStore = createJsonFileStore<InboundState>('inbound-digests.json', () => ({
+  requests: [],
+  seen_signatures: {},
+}))
+
+async function saveRecord(record: InboundDigestRecord): Promise<InboundDigestRecord> {
+  await inboundStore.update(current => ({
+    ...current,
+    requests: [record, ...current.requests.filter(r => r.id !== record.id)].slice(0, MAX_RECORDS),
+  }))
+  return record
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+function hmac(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/** Headers for a body signed with the shared secret (used for callbacks). */
+export function signInboundPayload(body: string, timestamp = Math.floor(Date.now() / 1000)): Record<string, string> {
+  const ts = String(timestamp)
+  return {
+    'X-Digest-Timestamp': ts,
+    'X-Digest-Signature': hmac(process.env.INBOUND_WEBHOOK_SECRET || '', ts, body),
+  }
+}
+
+/**
+ * Check a request's signature and timestamp, then remember the signature so
+ * the same request cannot be replayed inside the tolerance window.
+ */
+export async function verifyInboundSignature(
+  rawBody: string,
+  timestamp: string | null,
+  signature: string | null
+): Promise<{ ok: boolean; status: number; error?: string }> {
+  const secret = process.env.INBOUND_WEBHOOK_SECRET
+  if (!secret) return { ok: false, status: 503, error: 'Inbound digests are not enabled (INBOUND_WEBHOOK_SECRET)' }
+  if (!timestamp || !signature) {
+    return { ok: false, status: 401, error: 'X-Digest-Timestamp and X-Digest-Signature headers are required' }
+  }
+
+  const sentAt = parseInt(timestamp, 10) * 1000
+  const now = Date.now()
+  if (!/^\d+$/.test(timestamp) || Math.abs(now - sentAt) > toleranceMs()) {
+    return { ok: false, status: 401, error: 'Timestamp is missing or outside the allowed window' }
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, rawBody))
+  const given = Buffer.from(signature.trim())
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { ok: false, status: 401, error: 'Invalid signature' }
+  }
+
+  let replayed = false
+  await inboundStore.update(current => {
+    const nowIso = new Date(now).toISOString()
+    const seen = Object.fromEntries(Object.entries(current.seen_signatures).filter(([, until]) => until > nowIso))
+    replayed = Boolean(seen[signature])
+    if (!replayed) seen[signature] = new Date(sentAt + toleranceMs()).toISOString()
+    return { ...current, seen_signatures: seen }
+  })
+  if (replayed) return { ok: false, status: 409, error: 'Request was already received' }
+  return { ok: true, status: 200 }
+}
+
+// ---------------------------------------------------------------------------
+// Spec validation
+// ---------------------------------------------------------------------------
+
+function callbackHosts(): string[] {
+  return (process.env.INBOUND_CALLBACK_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean)
+}
+
+const PRIVATE_IPV4: Array<[number, number]> = [
+  [0x00000000, 8], // "this" network
+  [0x0a000000, 8], // private
+  [0x64400000, 10], // carrier-grade NAT
+  [0x7f000000, 8], // loopback
+  [0xa9fe0000, 16], // link-local
+  [0xac100000, 12], // private
+  [0xc0a80000, 16], // private
+]
+
+/** Loopback, link-local, private or unspecified IP address. */
+function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase()
+  if (isIP(ip) === 4) {
+    const value = ip.split('.').reduce((n, octet) => n * 256 + parseInt(octet, 10), 0)
+    return PRIVATE_IPV4.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(base / 2 ** (32 - bits)))
+  }
+  if (isIP(ip) !== 6) return false
+  // IPv4-mapped, dotted or (as URL normalizes it) hex: ::ffff:127.0.0.1 = ::ffff:7f00:1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip)
+  if (mapped) return isPrivateAddress(mapped[1])
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip)
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'))
+  }
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip)
+}
+
+function callbackUrlError(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'callback_url must be an absolute URL'
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'callback_url must be http(s)'
+  const host = url.hostname.toLowerCase()
+  const allowed = callbackHosts()
+  if (allowed.length > 0) {
+    return allowed.includes(host) ? null : `callback_url host ${url.hostname} is not in INBOUND_CALLBACK_HOSTS`
+  }
+  // Without an allowlist, callbacks must not reach the server's own network
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return `callback_url host ${url.hostname} is a local or private address; list it in INBOUND_CALLBACK_HOSTS to allow it`
+  }
+  return null
+}
+
+/** Re-check a callback host at send time, after DNS: a public name may resolve to a private address. */
+async function callbackAddressError(value: string): Promise<string | null> {
+  const host = new URL(value).hostname
+  if (callbackHosts().length > 0 || isIP(host.replace(/^\[|\]$/g, ''))) return null
+  const addresses = await dns.lookup(host, { all: true })
+  const blocked = addresses.find(a => isPrivateAddress(a.address))
+  return blocked ? `callback_url host ${host} resolves to the private address ${blocked.address}` : null
+}
+
+/**
+ * Validate a request body. The agent defaults to the first registered agent
+ * and must be in the registry.
+ */
+export async function parseInboundRequest(body: any): Promise<{ request?: InboundDigestRequest; errors: string[] }> {
+  const errors: string[] = []
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { errors: ['Body must be a JSON object'] }
+
+  const hours = body.hours ?? 24
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) errors.push(`hours must be an integer from 1 to ${MAX_HOURS}`)
+
+  const keys = CURATOR_CATEGORIES.map(c => c.key) as string[]
+  const categories = body.categories ?? []
+  if (!Array.isArray(categories) || categories.some((c: unknown) => typeof c !== 'string' || !keys.includes(c))) {
+    errors.push(`categories must be a list of: ${keys.join(', ')}`)
+  }
+
+  const topics = body.topics ?? []
+  if (!Array.isArray(topics) || topics.length > MAX_TOPICS || topics.some((t: unknown) => typeof t !== 'string' || !t.trim() || t.length > 100)) {
+    errors.push(`topics must be a list of up to ${MAX_TOPICS} non-empty strings`)
+  }
+
+  if (body.max_stories !== undefined && (!Number.isInteger(body.max_stories) || body.max_stories < 1 || body.max_stories > 50)) {
+    errors.push('max_stories must be an integer from 1 to 50')
+  }
+  if (body.post_to_slack !== undefined && typeof body.post_to_slack !== 'boolean') errors.push('post_to_slack must be a boolean')
+  if (body.slack_channel !== undefined && typeof body.slack_channel !== 'string') errors.push('slack_channel must be a string')
+  if (body.instructions !== undefined && (typeof body.instructions !== 'string' || body.instructions.length > 1000)) {
+    errors.push('instructions must be a string of at most 1000 characters')
+  }
+  if (body.reference !== undefined && (typeof body.reference !== 'string' || body.reference.length > 200)) {
+    errors.push('reference must be a string of at most 200 characters')
+  }
+  if (body.wait !== undefined && typeof body.wait !== 'boolean') errors.push('wait must be a boolean')
+  if (body.callback_url !== undefined) {
+    const error = typeof body.callback_url === 'string' ? callbackUrlError(body.callback_url) : 'callback_url must be a string'
+    if (error) errors.push(error)
+  }
+
+  let agentId: string | undefined
+  if (body.agent_id !== undefined) {
+    if (typeof body.agent_id !== 'string' || !(await findAgent(body.agent_id))) errors.push('agent_id is not a registered agent')
+    else agentId = body.agent_id
+  } else {
+    agentId = (await getRegistry()).agents[0]?.agent_id
+    if (!agentId) errors.push('No agents are registered')
+  }
+
+  if (errors.length > 0 || !agentId) return { errors }
+  return {
+    errors,
+    request: {
+      agent_id: agentId,
+      spec: {
+        hours,
+        categories: categories as CuratorCategoryKey[],
+        topics: topics.map((t: string) => t.trim()),
+        ...(body.max_stories !== undefined && { max_stories: body.max_stories }),
+        post_to_slack: body.post_to_slack ?? false,
+        ...(body.slack_channel && { slack_channel: body.slack_channel }),
+        ...(body.instructions && { instructions: body.instructions }),
+      },
+      callback_url: body.callback_url ?? null,
+      reference: body.reference ?? null,
+      wait: body.wait ?? false,
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Run + callback
+// ---------------------------------------------------------------------------
+
+async function deliverCallback(record: InboundDigestRecord, digest: DigestData | null): Promise<InboundDigestRecord> {
+  const body = JSON.stringify({
+    type: 'digest.completed',
+    request_id: record.id,
+    reference: record.reference,
+    status: record.status,
+    digest_id: record.digest_id,
+    digest,
+    error: record.error,
+    completed_at: record.completed_at,
+  })
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS)
+  let callback: InboundDigestRecord['callback']
+  try {
+    const refused = await callbackAddressError(record.callback_url!)
+    if (refused) throw new Error(refused)
+    const response = await fetch(record.callback_url!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...signInboundPayload(body) },
+      body,
+      signal: controller.signal,
+      // A redirect could point anywhere, including the addresses refused above
+      redirect: 'manual',
+    })
+    callback = {
+      ok: response.ok,
+      status: response.status,
+      delivered_at: new Date().toISOString(),
+      ...(!response.ok && { error: `Callback answered ${response.status}` }),
+    }
+  } catch (error) {
+    callback = { ok: false, status: null, delivered_at: new Date().toISOString(), error: error instanceof Error ? error.message : 'Callback failed' }
+  } finally {
+    clearTimeout(timer)
+  }
+  return saveRecord({ ...record, callback })
+}
+
+async function runInboundDigest(record: InboundDigestRecord): Promise<InboundDigestRecord> {
+  let digest: DigestData | null = null
+  let outcome: Pick<InboundDigestRecord, 'status' | 'digest_id' | 'error'>
+  const directSlack = record.spec.post_to_slack && isSlackDeliveryConfigured()
+  try {
+    const result = await runAgent({
+      message: buildAdHocDigestMessage(directSlack ? { ...record.spec, post_to_slack: false } : record.spec),
+      agent_id: record.agent_id,
+      session_id: `${record.agent_id}-${randomUUID().substring(0, 12)}`,
+    })
+    if (!result.body.success || result.status >= 400) {
+      throw new Error(result.body.error || result.body.response?.message || `Agent returned status ${result.status}`)
+    }
+    const extracted = extractDigestFromOutput(JSON.stringify(result.body.response.result))
+    if (!extracted.digest) throw new Error(`Agent reply is not a digest: ${extracted.errors.join('; ')}`)
+    digest = extracted.digest
+    const stored = await archiveDigest({
+      data: digest,
+      agent_id: record.agent_id,
+      source: 'webhook',
+      session_id: result.body.session_id,
+    })
+    if (directSlack) {
+      // A failed post is recorded on the digest (slack_posted false) but doesn't fail the run
+      const delivered = await deliverDigest(stored.id, {
+        targets: [{
+          id: 'inbound-slack',
+          name: 'Inbound request',
+          type: 'slack',
+          enabled: true,
+          slack: { channel: record.spec.slack_channel || '' },
+        }],
+      })
+      if (delivered.digest) digest = delivered.digest.data
+    }
+    outcome = { status: 'succeeded', digest_id: stored.id, error: null }
+  } catch (error) {
+    outcome = { status: 'failed', digest_id: null, error: error instanceof Error ? error.message : 'Digest run failed' }
+  }
+
+  const done = await saveRecord({ ...record, ...outcome, completed_at: new Date().toISOString() })
+  return done.callback_url ? deliverCallback(done, digest) : done
+}
+
+/**
+ * Record an inbound request and start its run. `done` settles with the final
+ * record (after the callback, if any); it never rejects.
+ */
+export async function startInboundDigest(request: InboundDigestRequest): Promise<{
+  record: InboundDigestRecord
+  done: Promise<InboundDigestRecord>
+}> {
+  const record = await saveRecord({
+    id: randomUUID(),
+    received_at: new Date().toISOString(),
+    agent_id: request.agent_id,
+    spec: request.spec,
+    reference: request.reference,
+    callback_url: request.callback_url,
+    status: 'running',
+    digest_id: null,
+    error: null,
+    completed_at: null,
+    callback: null,
+  })
+  const done = runInboundDigest(record).catch(error => {
+    console.error(`Inbound digest ${record.id} failed:`, error)
+    return { ...record, status: 'failed' as const, error: error instanceof Error ? error.message : 'Digest run failed' }
+  })
+  return { record, done }
+}
@@ -0,0 +1,70 @@
+/**
+ * JSON File Store
+ *
+ * Server-side utility for API routes that persist small amounts of state as a
+ * JSON document on disk. Writes are serialized per file and replaced atomically
+ * (write to a temp file, then rename) so concurrent requests never interleave.
+ *
+ * Files live in DATA_DIR (defaults to `.data/` in the project root).
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data')
+
+export interface JsonFileStore<T> {
+  filePath: string
+  read: () => Promise<T>
+  write: (value: T) => Promise<void>
+  update: (fn: (current: T) => T | Promise<T>) => Promise<T>
+}
+
+// Pending write chain per absolute file path, shared across store instances
+const writeQueues = new Map<string, Promise<unknown>>()
+
+function enqueue<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const previous = writeQueues.get(filePath) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  writeQueues.set(filePath, next)
+  return next
+}
+
+async function readFileJson<T>(filePath: string, fallback: () => T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8')
+    if (!raw.trim()) return fallback()
+    return JSON.parse(raw) as T
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return fallback()
+    throw error
+  }
+}
+
+async function writeFileJson<T>(filePath: string, value: T): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2), 'utf8')
+  await fs.rename(tmpPath, filePath)
+}
+
+/**
+ * Create a store bound to `<DATA_DIR>/<fileName>`.
+ * `defaultValue` is called whenever the file does not exist yet.
+ */
+export function createJsonFileStore<T>(fileName: string, defaultValue: () => T): JsonFileStore<T> {
+  const filePath = path.isAbsolute(fileName) ? fileName : path.join(DATA_DIR, fileName)
+
+  return {
+    filePath,
+    read: () => readFileJson(filePath, defaultValue),
+    write: (value: T) => enqueue(filePath, () => writeFileJson(filePath, value)),
+    update: (fn) =>
+      enqueue(filePath, async () => {
+        const current = await readFileJson(filePath, defaultValue)
+        const next = await fn(current)
+        await writeFileJson(filePath, next)
+        return next
+      }),
+  }
+}
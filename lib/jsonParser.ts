@@ -342,3 +342,89 @@ export default function parseLLMJson(
     rawJson: null,
   }
 }
+
+/**
+ * Parse a JSON document that is still being streamed.
+ *
+ * Closes any open string, object and array so the prefix received so far can be
+ * parsed with parseLLMJson's `allowPartial` mode. If the tail is an incomplete
+ * token (e.g. `tru`, a dangling key) it is cut back to the last complete member.
+ * Returns null until some JSON structure can be recovered.
+ */
+export function parsePartialLLMJson(text: string): any {
+  if (!text || typeof text !== 'string') return null
+
+  // Reasoning models emit <think>…</think> before the answer; it may contain braces
+  const cleaned = text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '')
+  const start = cleaned.search(/[{[]/)
+  if (start === -1) return null
+  const fragment = cleaned.slice(start).replace(/```\s*$/, '')
+
+  const stack: string[] = []
+  const cutPoints: number[] = []
+  let inString = false
+  let escapeNext = false
+
+  for (let i = 0; i < fragment.length; i++) {
+    const ch = fragment[i]
+    if (inString) {
+      if (escapeNext) escapeNext = false
+      else if (ch === '\\') escapeNext = true
+      else if (ch === '"') inString = false
+      continue
+    }
+    if (ch === '"') inString = true
+    else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']')
+      cutPoints.push(i + 1)
+    } else if (ch === '}' || ch === ']') {
+      stack.pop()
+      if (stack.length === 0) break
+    } else if (ch === ',') {
+      cutPoints.push(i)
+    }
+  }
+
+  const close = (prefix: string): string => {
+    // Re-scan the prefix to find what is still open at the cut
+    const open: string[] = []
+    let str = false
+    let esc = false
+    for (const ch of prefix) {
+      if (str) {
+        if (esc) esc = false
+        else if (ch === '\\') esc = true
+        else if (ch === '"') str = false
+        continue
+      }
+      if (ch === '"') str = true
+      else if (ch === '{') open.push('}')
+      else if (ch === '[') open.push(']')
+      else if (ch === '}' || ch === ']') open.pop()
+    }
+    let out = str ? `${prefix}"` : prefix
+    out = out.replace(/[\s,:]+$/, '')
+    return out + open.reverse().join('')
+  }
+
+  const isParsed = (value: any) =>
+    value !== null && value !== undefined && !(typeof value === 'object' && value.success === false && value.data === null)
+
+  const attempt = (prefix: string) => {
+    const candidate = close(prefix)
+    try {
+      return JSON.parse(candidate)
+    } catch {}
+    const recovered = parseLLMJson(candidate, { allowPartial: true })
+    return isParsed(recovered) ? recovered : null
+  }
+
+  const full = attempt(fragment)
+  if (full !== null) return full
+
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const partial = attempt(fragment.slice(0, cutPoints[i]))
+    if (partial !== null) return partial
+  }
+  return null
+}
@@ -0,0 +1,439 @@
+/**
+ * Local Scheduler Engine
+ *
+ * Server-side, in-process stand-in for the Lyzr scheduler, selected with
+ * SCHEDULER_BACKEND=local. It answers the same REST paths as
+ * https://scheduler.studio.lyzr.ai (see handleLocalSchedulerRequest, wired in
+ * through schedulerFetch in lib/schedulerUpstream.ts) with the same Schedule /
+ * ExecutionLog / Webhook shapes, so the proxy and every server job work
+ * unchanged.
+ *
+ * Due schedules run on an in-process timer started at server boot
+ * (instrumentation.ts), or by the first scheduler request if that hook did not
+ * run. Each run calls the agent through lib/agentRunner.ts (the code behind
+ * /api/agent) and logs one ExecutionLog per attempt, retrying `max_retries`
+ * times `retry_delay` seconds apart. Fire times missed while the
+ * server was down are not replayed; the missed-run watchdog
+ * (lib/scheduleWatchdog.ts) applies the catch-up policy instead.
+ *
+ * A webhook trigger makes a single agent call with the payload's `message`
+ * and only updates the webhook's counters; it logs no ExecutionLog. Local
+ * webhook URLs point at this app (app/api/scheduler/webhooks/[id]/trigger) and
+ * are stored relative to it; /api/scheduler/webhooks makes them absolute.
+ *
+ * Persisted at <DATA_DIR>/local-scheduler.json.
+ */
+
+import { randomUUID } from 'crypto'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { nextRuns } from '@/lib/cron'
+import { runAgent } from '@/lib/agentRunner'
+import type { ExecutionLog, Schedule, Webhook } from '@/lib/scheduler'
+
+const TICK_MS = 15 * 1000
+/** A fire time older than this when the timer sees it counts as missed, not due */
+const MISSED_AFTER_MS = 5 * 60 * 1000
+const MAX_EXECUTIONS = 5000
+
+/** App-relative trigger URL of a local webhook */
+export function localWebhookPath(webhookId: string): string {
+  return `/api/scheduler/webhooks/${webhookId}/trigger`
+}
+
+export interface LocalSchedulerState {
+  schedules: Schedule[]
+  executions: ExecutionLog[]
+  webhooks: Webhook[]
+}
+
+/** Storage behind a scheduler API; a JsonFileStore or an in-memory equivalent */
+export interface SchedulerStateStore {
+  read: () => Promise<LocalSchedulerState>
+  update: (fn: (current: LocalSchedulerState) => LocalSchedulerState | Promise<LocalSchedulerState>) => Promise<LocalSchedulerState>
+}
+
+const localStore = createJsonFileStore<LocalSchedulerState>('local-scheduler.json', () => ({
+  schedules: [],
+  executions: [],
+  webhooks: [],
+}))
+
+function nextRunTime(schedule: Pick<Schedule, 'cron_expression' | 'timezone'>, from = new Date()): string | null {
+  try {
+    const [next] = nextRuns(schedule.cron_expression, { timezone: schedule.timezone, from, count: 1 })
+    return next ? next.toISOString() : null
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+// Schedules with a run in progress; a trigger during a run starts another one
+const runningSchedules = new Set<string>()
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function appendExecution(log: ExecutionLog) {
+  await localStore.update(current => ({
+    ...current,
+    executions: [log, ...current.executions].slice(0, MAX_EXECUTIONS),
+  }))
+}
+
+async function executeSchedule(schedule: Schedule): Promise<void> {
+  runningSchedules.add(schedule.id)
+  const maxAttempts = Math.max(0, schedule.max_retries) + 1
+  let success = false
+  try {
+    for (let attempt = 1; attempt <= maxAttempts && !success; attempt++) {
+      if (attempt > 1) await sleep(Math.max(0, schedule.retry_delay) * 1000)
+
+      const executedAt = new Date().toISOString()
+      const sessionId = `${schedule.agent_id}-${randomUUID().substring(0, 12)}`
+      let status = 500
+      let output = ''
+      let errorMessage: string | null = null
+      try {
+        const result = await runAgent({
+          message: schedule.message,
+          agent_id: schedule.agent_id,
+          user_id: schedule.user_id,
+          session_id: sessionId,
+        })
+        status = result.status
+        success = result.body.success && status < 400
+        output = result.body.raw_response || JSON.stringify(result.body.response ?? {})
+        if (!success) errorMessage = result.body.error || result.body.response?.message || `Agent returned status ${status}`
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Agent call failed'
+      }
+
+      await appendExecution({
+        id: randomUUID(),
+        schedule_id: schedule.id,
+        agent_id: schedule.agent_id,
+        user_id: schedule.user_id,
+        session_id: sessionId,
+        executed_at: executedAt,
+        attempt,
+        max_attempts: maxAttempts,
+        success,
+        payload_message: schedule.message,
+        response_status: status,
+        response_output: output,
+        error_message: errorMessage,
+      })
+      await localStore.update(current => ({
+        ...current,
+        schedules: current.schedules.map(s =>
+          s.id === schedule.id ? { ...s, last_run_at: executedAt, last_run_success: success } : s
+        ),
+      }))
+    }
+  } finally {
+    runningSchedules.delete(schedule.id)
+  }
+}
+
+async function runWebhook(webhook: Webhook, message: string): Promise<boolean> {
+  const result = await runAgent({
+    message,
+    agent_id: webhook.agent_id,
+    user_id: webhook.user_id,
+    session_id: `${webhook.agent_id}-${randomUUID().substring(0, 12)}`,
+  })
+  return result.body.success && result.status < 400
+}
+
+function startRun(schedule: Schedule) {
+  executeSchedule(schedule).catch(error => console.error(`Local scheduler run of ${schedule.id} failed:`, error))
+}
+
+async function tick() {
+  const now = Date.now()
+  const due: Schedule[] = []
+  await localStore.update(current => ({
+    ...current,
+    schedules: current.schedules.map(schedule => {
+      if (!schedule.is_active || !schedule.next_run_time) return schedule
+      const fireAt = new Date(schedule.next_run_time).getTime()
+      if (fireAt > now) return schedule
+      if (now - fireAt <= MISSED_AFTER_MS && !runningSchedules.has(schedule.id)) due.push(schedule)
+      return { ...schedule, next_run_time: nextRunTime(schedule, new Date(now)) }
+    }),
+  }))
+  due.forEach(startRun)
+}
+
+// One timer per server process, kept across dev-server module reloads
+const globalForScheduler = globalThis as typeof globalThis & { __localSchedulerTimer?: ReturnType<typeof setInterval> }
+
+/** Start the due-schedule timer; later calls are no-ops. */
+export function startLocalScheduler() {
+  if (globalForScheduler.__localSchedulerTimer) return
+  const timer = setInterval(() => {
+    tick().catch(error => console.error('Local scheduler tick failed:', error))
+  }, TICK_MS)
+  timer.unref?.()
+  globalForScheduler.__localSchedulerTimer = timer
+}
+
+// ---------------------------------------------------------------------------
+// REST surface
+// ---------------------------------------------------------------------------
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+const notFound = (what = 'Schedule') => json({ detail: `${what} not found` }, 404)
+
+function page<T>(items: T[], query: URLSearchParams) {
+  const skip = Math.max(0, parseInt(query.get('skip') || '0', 10) || 0)
+  const limit = Math.max(1, parseInt(query.get('limit') || '50', 10) || 50)
+  return { items: items.slice(skip, skip + limit), total: items.length, skip, limit }
+}
+
+function newestFirst(executions: ExecutionLog[]): ExecutionLog[] {
+  return [...executions].sort((a, b) => b.executed_at.localeCompare(a.executed_at) || b.attempt - a.attempt)
+}
+
+/**
+ * Build a handler for the scheduler and webhook REST paths over `store`.
+ * `onTrigger` performs a run (asynchronously) when a schedule is triggered,
+ * `onWebhookTrigger` when a webhook is. Also used by
+ * the mock upstream (lib/mockUpstream.ts) with fixture-seeded memory state.
+ */
+export function createSchedulerApi(options: {
+  store: SchedulerStateStore
+  onTrigger: (schedule: Schedule) => void
+  /** Runs the agent for a webhook trigger; resolves to whether it succeeded */
+  onWebhookTrigger: (webhook: Webhook, message: string) => Promise<boolean>
+  /** Called before every request, e.g. to start a timer */
+  onRequest?: () => void
+  /** `webhook_url` of a new webhook; defaults to the scheduler's own trigger path */
+  webhookUrl?: (webhookId: string, upstreamUrl: string) => string
+}): (url: string, init?: RequestInit) => Promise<Response> {
+  const { store, onTrigger, onWebhookTrigger } = options
+
+  const createSchedule = async (body: any): Promise<Response> => {
+    if (!body?.agent_id || !body?.cron_expression || !body?.message) {
+      return json({ detail: 'agent_id, cron_expression and message are required' }, 422)
+    }
+    const now = new Date().toISOString()
+    const schedule: Schedule = {
+      id: randomUUID(),
+      user_id: body.user_id || 'local',
+      agent_id: body.agent_id,
+      message: body.message,
+      cron_expression: body.cron_expression,
+      timezone: body.timezone || 'UTC',
+      max_retries: body.max_retries ?? 3,
+      retry_delay: body.retry_delay ?? 300,
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      next_run_time: null,
+      last_run_at: null,
+      last_run_success: null,
+    }
+    schedule.next_run_time = nextRunTime(schedule)
+    if (!schedule.next_run_time) return json({ detail: 'Invalid cron_expression or timezone' }, 422)
+    await store.update(current => ({ ...current, schedules: [...current.schedules, schedule] }))
+    return json(schedule, 201)
+  }
+
+  const updateSchedule = async (id: string, fn: (schedule: Schedule) => Schedule): Promise<Response> => {
+    let updated: Schedule | null = null
+    await store.update(current => ({
+      ...current,
+      schedules: current.schedules.map(schedule => {
+        if (schedule.id !== id) return schedule
+        updated = { ...fn(schedule), updated_at: new Date().toISOString() }
+        return updated
+      }),
+    }))
+    return updated ? json(updated) : notFound()
+  }
+
+  const updateWebhook = async (id: string, fn: (webhook: Webhook) => Webhook): Promise<Webhook | null> => {
+    let updated: Webhook | null = null
+    await store.update(current => ({
+      ...current,
+      webhooks: current.webhooks.map(webhook => {
+        if (webhook.id !== id) return webhook
+        updated = fn(webhook)
+        return updated
+      }),
+    }))
+    return updated
+  }
+
+  const triggerWebhook = async (webhook: Webhook, payload: any): Promise<Response> => {
+    if (!webhook.is_active) return json({ detail: 'Webhook is inactive' }, 409)
+    const message = typeof payload?.message === 'string' && payload.message.trim()
+      ? payload.message
+      : payload && typeof payload === 'object' && Object.keys(payload).length > 0 ? JSON.stringify(payload) : ''
+    if (!message) return json({ detail: 'Payload must include a message' }, 422)
+
+    await updateWebhook(webhook.id, w => ({
+      ...w,
+      trigger_count: w.trigger_count + 1,
+      last_triggered_at: new Date().toISOString(),
+      last_trigger_success: null,
+    }))
+    onWebhookTrigger(webhook, message)
+      .catch(error => {
+        console.error(`Webhook ${webhook.id} run failed:`, error)
+        return false
+      })
+      .then(success => updateWebhook(webhook.id, w => ({ ...w, last_trigger_success: success })))
+    return json('Webhook triggered', 202)
+  }
+
+  const handleWebhooks = async (method: string, url: string, [id, sub]: string[], query: URLSearchParams, body: any): Promise<Response> => {
+    const state = await store.read()
+
+    // /webhooks/
+    if (!id) {
+      if (method === 'POST') {
+        if (!body?.agent_id) return json({ detail: 'agent_id is required' }, 422)
+        const webhookId = randomUUID()
+        const webhook: Webhook = {
+          id: webhookId,
+          agent_id: body.agent_id,
+          user_id: body.user_id || 'local',
+          description: body.description || '',
+          webhook_url: options.webhookUrl
+            ? options.webhookUrl(webhookId, url)
+            : `${new URL(url).origin}/webhooks/${webhookId}/trigger`,
+          is_active: true,
+          created_at: new Date().toISOString(),
+          last_triggered_at: null,
+          last_trigger_success: null,
+          trigger_count: 0,
+        }
+        await store.update(current => ({ ...current, webhooks: [...current.webhooks, webhook] }))
+        return json(webhook, 201)
+      }
+      let webhooks = state.webhooks
+      if (query.get('agent_id')) webhooks = webhooks.filter(w => w.agent_id === query.get('agent_id'))
+      const { items, total, skip, limit } = page(webhooks, query)
+      return json({ webhooks: items, total, skip, limit })
+    }
+
+    const webhook = state.webhooks.find(w => w.id === id)
+    if (!webhook) return notFound('Webhook')
+
+    switch (`${method} ${sub || ''}`) {
+      case 'GET ':
+        return json(webhook)
+      case 'POST trigger':
+        return triggerWebhook(webhook, body)
+      case 'PATCH ': {
+        const updated = await updateWebhook(id, w => ({
+          ...w,
+          ...(typeof body?.description === 'string' && { description: body.description }),
+          ...(typeof body?.is_active === 'boolean' && { is_active: body.is_active }),
+        }))
+        return updated ? json(updated) : notFound('Webhook')
+      }
+      case 'DELETE ':
+        await store.update(current => ({ ...current, webhooks: current.webhooks.filter(w => w.id !== id) }))
+        return new Response(null, { status: 204 })
+      default:
+        return json({ detail: 'Method Not Allowed' }, 405)
+    }
+  }
+
+  // `url` is the full upstream URL (https://scheduler.studio.lyzr.ai/schedules/...);
+  // only its path and query are used
+  return async (url, init) => {
+    options.onRequest?.()
+    const method = (init?.method || 'GET').toUpperCase()
+    const { pathname, searchParams: query } = new URL(url)
+    const parts = pathname.split('/').filter(Boolean)
+    const body = typeof init?.body === 'string' && init.body ? JSON.parse(init.body) : undefined
+    if (parts[0] === 'webhooks') return handleWebhooks(method, url, parts.slice(1), query, body)
+    if (parts[0] !== 'schedules') return json({ detail: 'Not Found' }, 404)
+
+    const state = await store.read()
+    const [, id, sub] = parts
+
+    // /schedules/
+    if (!id) {
+      if (method === 'POST') return createSchedule(body)
+      let schedules = state.schedules
+      if (query.get('agent_id')) schedules = schedules.filter(s => s.agent_id === query.get('agent_id'))
+      if (query.get('is_active')) schedules = schedules.filter(s => String(s.is_active) === query.get('is_active'))
+      const { items, total, skip, limit } = page(schedules, query)
+      return json({ schedules: items, total, skip, limit })
+    }
+
+    // /schedules/by-agent/{agent_id}
+    if (id === 'by-agent' && sub) {
+      return json({
+        agent_id: sub,
+        schedules: state.schedules.filter(s => s.agent_id === sub),
+        webhooks: state.webhooks.filter(w => w.agent_id === sub),
+      })
+    }
+
+    // /schedules/executions/recent
+    if (id === 'executions' && sub === 'recent') {
+      const hours = parseFloat(query.get('hours') || '') || (parseFloat(query.get('days') || '') || 0) * 24 || 24
+      const since = Date.now() - hours * 60 * 60 * 1000
+      let executions = state.executions.filter(log => new Date(log.executed_at).getTime() >= since)
+      if (query.get('agent_id')) executions = executions.filter(log => log.agent_id === query.get('agent_id'))
+      if (query.get('success')) executions = executions.filter(log => String(log.success) === query.get('success'))
+      const { items, total, skip, limit } = page(newestFirst(executions), query)
+      return json({ executions: items, total, skip, limit })
+    }
+
+    const schedule = state.schedules.find(s => s.id === id)
+    if (!schedule) return notFound()
+
+    switch (`${method} ${sub || ''}`) {
+      case 'GET ':
+        return json(schedule)
+      case 'GET logs': {
+        const { items, total, skip, limit } = page(newestFirst(state.executions.filter(log => log.schedule_id === id)), query)
+        return json({ executions: items, total, skip, limit })
+      }
+      case 'POST trigger':
+        onTrigger(schedule)
+        return json('Schedule triggered', 202)
+      case 'POST pause':
+        return updateSchedule(id, s => ({ ...s, is_active: false, next_run_time: null }))
+      case 'POST resume':
+        return updateSchedule(id, s => ({ ...s, is_active: true, next_run_time: nextRunTime(s) }))
+      case 'PATCH ': {
+        const fields = ['message', 'cron_expression', 'timezone', 'max_retries', 'retry_delay'] as const
+        return updateSchedule(id, s => {
+          const next = { ...s }
+          for (const field of fields) {
+            if (body?.[field] !== undefined) (next as Record<string, unknown>)[field] = body[field]
+          }
+          return { ...next, next_run_time: next.is_active ? nextRunTime(next) : null }
+        })
+      }
+      case 'DELETE ':
+        await store.update(current => ({ ...current, schedules: current.schedules.filter(s => s.id !== id) }))
+        return new Response(null, { status: 204 })
+      default:
+        return json({ detail: 'Method Not Allowed' }, 405)
+    }
+  }
+}
+
+/** Answer a scheduler REST call in-process from the local engine. */
+export const handleLocalSchedulerRequest = createSchedulerApi({
+  store: localStore,
+  onTrigger: startRun,
+  onWebhookTrigger: runWebhook,
+  onRequest: startLocalScheduler,
+  webhookUrl: localWebhookPath,
+})
@@ -0,0 +1,521 @@
+/**
+ * Mock Lyzr Upstream
+ *
+ * Server-side. With LYZR_UPSTREAM=mock every call to a Lyzr service (agent
+ * inference and streaming, asset upload, RAG, scheduler) is answered from the
+ * recorded fixtures in fixtures/lyzr/ instead of the network, so the app runs
+ * offline and the UI and parsers can be exercised reproducibly. No
+ * LYZR_API_KEY is needed in this mode.
+ *
+ * Scenarios (fixtures/lyzr/scenarios.json) script what each service returns:
+ * a list of steps per service (`agent`, `upload`, `rag`, `scheduler`, `slack`), one
+ * consumed per call with the last one repeating. A step is a fixture file name
+ * or `{ fixture?, body?, status?, headers?, delay_ms?, timeout? }` (`{}` is the
+ * normal answer); services a scenario does not list use their default fixtures. Agent streaming uses the
+ * `agent` steps and replays the reply as SSE deltas.
+ *
+ * The scheduler is served by the same REST handler as the local engine
+ * (lib/localScheduler.ts) over in-memory state seeded from scheduler.json;
+ * a schedule trigger logs one execution built from the next `agent` step and
+ * a webhook trigger consumes one `agent` step. Timestamps in
+ * scheduler.json may be written relative to load time: "now", "now-4h",
+ * "now+20h" (s, m, h, d).
+ *
+ * The Slack Web API (lib/slackDelivery.ts) is mocked too: chat.postMessage
+ * answers like Slack and keeps the posted messages for inspection through
+ * /api/mock; `slack` steps can script errors such as channel_not_found or 429s.
+ *
+ * Digest delivery channels (lib/deliveryChannels.ts) are mocked the same way:
+ * posts to Teams and Discord incoming webhooks and digest emails are kept as
+ * deliveries for /api/mock instead of being sent, and `teams`, `discord` and
+ * `email` steps script failures (an email step's status is the SMTP reply code).
+ *
+ * The active scenario comes from LYZR_MOCK_SCENARIO and can be switched at
+ * runtime through /api/mock, which also resets step counters and mock state.
+ *
+ * Environment:
+ *   LYZR_UPSTREAM            live (default) | mock
+ *   LYZR_MOCK_SCENARIO       scenario name (default "default")
+ *   LYZR_MOCK_FIXTURES_DIR   fixture directory (default fixtures/lyzr)
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { createSchedulerApi, type LocalSchedulerState, type SchedulerStateStore } from '@/lib/localScheduler'
+import type { Schedule } from '@/lib/scheduler'
+import type { MailMessage } from '@/lib/smtp'
+
+export type MockService = 'agent' | 'upload' | 'rag' | 'scheduler' | 'slack' | 'teams' | 'discord' | 'email'
+
+export interface MockStep {
+  fixture?: string
+  /** Inline JSON body; wins over `fixture` */
+  body?: unknown
+  status?: number
+  headers?: Record<string, string>
+  /** Wait before answering */
+  delay_ms?: number
+  /** Fail like a network timeout after `delay_ms` (default 30s) instead of answering */
+  timeout?: boolean
+}
+
+export interface MockScenario {
+  description?: string
+  agent?: Array<string | MockStep>
+  upload?: Array<string | MockStep>
+  rag?: Array<string | MockStep>
+  scheduler?: Array<string | MockStep>
+  slack?: Array<string | MockStep>
+  teams?: Array<string | MockStep>
+  discord?: Array<string | MockStep>
+  email?: Array<string | MockStep>
+}
+
+/** A message accepted by the mock Slack Web API */
+export interface MockSlackMessage {
+  channel: string
+  ts: string
+  thread_ts: string | null
+  text: string
+  blocks: unknown[]
+  posted_at: string
+}
+
+/** A Teams/Discord webhook post or digest email accepted by the mock */
+export interface MockDelivery {
+  channel: 'teams' | 'discord' | 'email'
+  id: string
+  /** Webhook URL, or the email recipients */
+  destination: string
+  /** Webhook JSON body, or `{ subject, text }` for emails */
+  payload: unknown
+  posted_at: string
+}
+
+const DEFAULT_TIMEOUT_MS = 30000
+const STREAM_CHUNK_SIZE = 40
+
+export function isMockUpstream(): boolean {
+  return process.env.LYZR_UPSTREAM === 'mock'
+}
+
+/** fetch() for Lyzr URLs; answered from fixtures when LYZR_UPSTREAM=mock. */
+export function upstreamFetch(url: string, init?: RequestInit): Promise<Response> {
+  return isMockUpstream() ? handleMockRequest(url, init) : fetch(url, init)
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures + scenarios
+// ---------------------------------------------------------------------------
+
+function fixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.LYZR_MOCK_FIXTURES_DIR || path.join('fixtures', 'lyzr'))
+}
+
+function readFixture(name: string): string {
+  // Fixture names come from scenarios.json; keep them inside the fixture directory
+  const file = path.resolve(fixturesDir(), name)
+  if (!file.startsWith(fixturesDir() + path.sep)) throw new Error(`Invalid fixture name "${name}"`)
+  return fs.readFileSync(file, 'utf8')
+}
+
+/** Scenarios from scenarios.json, re-read on every call so edits apply without a restart. */
+export function listMockScenarios(): Record<string, MockScenario> {
+  try {
+    return JSON.parse(readFixture('scenarios.json'))
+  } catch (error) {
+    console.error('Failed to read mock scenarios:', error)
+    return { default: { description: 'Every call succeeds with the recorded fixtures' } }
+  }
+}
+
+// Mutable mock state, kept across dev-server module reloads
+interface MockState {
+  scenario: string
+  calls: Partial<Record<MockService, number>>
+  scheduler: LocalSchedulerState | null
+  slack_messages: MockSlackMessage[]
+  deliveries: MockDelivery[]
+}
+
+const globalForMock = globalThis as typeof globalThis & { __lyzrMockState?: MockState }
+
+function mockState(): MockState {
+  if (!globalForMock.__lyzrMockState) {
+    globalForMock.__lyzrMockState = {
+      scenario: process.env.LYZR_MOCK_SCENARIO || 'default',
+      calls: {},
+      scheduler: null,
+      slack_messages: [],
+      deliveries: [],
+    }
+  }
+  return globalForMock.__lyzrMockState
+}
+
+export function getMockScenario(): string {
+  return mockState().scenario
+}
+
+/** Switch scenario and reset step counters, scheduler state, Slack messages and deliveries. Returns false for unknown names. */
+export function setMockScenario(name: string): boolean {
+  if (!listMockScenarios()[name]) return false
+  globalForMock.__lyzrMockState = { scenario: name, calls: {}, scheduler: null, slack_messages: [], deliveries: [] }
+  return true
+}
+
+/** Messages posted to the mock Slack Web API, newest first. */
+export function listMockSlackMessages(): MockSlackMessage[] {
+  return mockState().slack_messages
+}
+
+/** Teams/Discord posts and emails accepted by the mock, newest first. */
+export function listMockDeliveries(): MockDelivery[] {
+  return mockState().deliveries
+}
+
+function nextStep(service: MockService): MockStep | null {
+  const state = mockState()
+  const steps = listMockScenarios()[state.scenario]?.[service]
+  if (!steps || steps.length === 0) return null
+  const index = state.calls[service] ?? 0
+  state.calls[service] = index + 1
+  const step = steps[Math.min(index, steps.length - 1)]
+  return typeof step === 'string' ? { fixture: step } : step
+}
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'))
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+// Apply the step's delay/timeout; afterwards the step (or default) decides the body
+async function delayFor(step: MockStep | null, init?: RequestInit) {
+  if (!step) return
+  if (step.timeout) {
+    await wait(step.delay_ms ?? DEFAULT_TIMEOUT_MS, init?.signal)
+    throw new Error(`Mock upstream timed out after ${step.delay_ms ?? DEFAULT_TIMEOUT_MS}ms`)
+  }
+  if (step.delay_ms) await wait(step.delay_ms, init?.signal)
+}
+
+function stepBody(step: MockStep | null, fallback: MockStep): { text: string; status: number; headers: Record<string, string> } {
+  const status = step?.status ?? 200
+  // A bare status override (e.g. { status: 500 }) keeps the service's default body only on success
+  const source = step && (step.body !== undefined || step.fixture) ? step : status < 400 ? fallback : { body: { detail: `Mock error ${status}` } }
+  const text = source.body !== undefined ? JSON.stringify(source.body) : readFixture(source.fixture!)
+  const isText = source.body === undefined && source.fixture!.endsWith('.txt')
+  return { text, status, headers: { 'Content-Type': isText ? 'text/plain' : 'application/json', ...step?.headers } }
+}
+
+/**
+ * Agent fixtures may hold the reply as an object for readability; the
+ * inference API sends it as a string in `response`.
+ */
+function agentEnvelope(text: string): string {
+  try {
+    const envelope = JSON.parse(text)
+    if (envelope && typeof envelope === 'object' && envelope.response && typeof envelope.response === 'object') {
+      return JSON.stringify({ ...envelope, response: JSON.stringify(envelope.response) })
+    }
+  } catch {
+    // Deliberately broken fixtures are sent verbatim
+  }
+  return text
+}
+
+async function agentReply(init?: RequestInit): Promise<{ text: string; status: number; headers: Record<string, string> }> {
+  const step = nextStep('agent')
+  await delayFor(step, init)
+  const reply = stepBody(step, { fixture: 'agent-digest.json' })
+  return reply.status < 400 ? { ...reply, text: agentEnvelope(reply.text) } : reply
+}
+
+// Stream the agent's reply text as SSE deltas, like the inference stream endpoint
+function streamResponse(envelopeText: string): Response {
+  let reply = envelopeText
+  try {
+    const envelope = JSON.parse(envelopeText)
+    if (typeof envelope?.response === 'string') reply = envelope.response
+  } catch {
+    // Not an envelope: stream the body as is
+  }
+  const chunks: string[] = []
+  for (let i = 0; i < reply.length; i += STREAM_CHUNK_SIZE) chunks.push(reply.slice(i, i + STREAM_CHUNK_SIZE))
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: chunk })}\n\n`)))
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+      controller.close()
+    },
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+async function serviceResponse(service: MockService, fallback: MockStep, init?: RequestInit): Promise<Response> {
+  const step = nextStep(service)
+  await delayFor(step, init)
+  const { text, status, headers } = stepBody(step, fallback)
+  return new Response(text, { status, headers })
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+const RELATIVE_TIME_RE = /^now(?:([+-])(\d+)([smhd]))?$/
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+
+function resolveRelativeTimes<T>(value: T, now: number): T {
+  if (typeof value === 'string') {
+    const match = RELATIVE_TIME_RE.exec(value)
+    if (!match) return value
+    const offset = match[1] ? (match[1] === '-' ? -1 : 1) * parseInt(match[2], 10) * UNIT_MS[match[3]] : 0
+    return new Date(now + offset).toISOString() as unknown as T
+  }
+  if (Array.isArray(value)) return value.map(item => resolveRelativeTimes(item, now)) as unknown as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveRelativeTimes(v, now)])) as T
+  }
+  return value
+}
+
+const schedulerStore: SchedulerStateStore = {
+  read: async () => {
+    const state = mockState()
+    if (!state.scheduler) {
+      const seeded = JSON.parse(readFixture('scheduler.json'))
+      state.scheduler = resolveRelativeTimes<LocalSchedulerState>(
+        { schedules: seeded.schedules || [], executions: seeded.executions || [], webhooks: seeded.webhooks || [] },
+        Date.now()
+      )
+    }
+    return state.scheduler
+  },
+  update: async fn => {
+    const next = await fn(await schedulerStore.read())
+    mockState().scheduler = next
+    return next
+  },
+}
+
+async function mockScheduledRun(schedule: Schedule) {
+  const executedAt = new Date().toISOString()
+  let status = 500
+  let output = ''
+  let errorMessage: string | null = null
+  try {
+    const reply = await agentReply()
+    status = reply.status
+    if (status < 400) {
+      try {
+        output = JSON.parse(reply.text).response ?? reply.text
+      } catch {
+        output = reply.text
+      }
+    } else {
+      errorMessage = `Agent returned status ${status}`
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Agent call failed'
+  }
+  const success = status < 400 && errorMessage === null
+
+  await schedulerStore.update(current => ({
+    ...current,
+    executions: [{
+      id: randomUUID(),
+      schedule_id: schedule.id,
+      agent_id: schedule.agent_id,
+      user_id: schedule.user_id,
+      session_id: `${schedule.agent_id}-${randomUUID().substring(0, 12)}`,
+      executed_at: executedAt,
+      attempt: 1,
+      max_attempts: schedule.max_retries + 1,
+      success,
+      payload_message: schedule.message,
+      response_status: status,
+      response_output: output,
+      error_message: errorMessage,
+    }, ...current.executions],
+    schedules: current.schedules.map(s => (s.id === schedule.id ? { ...s, last_run_at: executedAt, last_run_success: success } : s)),
+  }))
+}
+
+const schedulerApi = createSchedulerApi({
+  store: schedulerStore,
+  onTrigger: schedule => {
+    mockScheduledRun(schedule).catch(error => console.error('Mock scheduled run failed:', error))
+  },
+  onWebhookTrigger: async () => (await agentReply()).status < 400,
+})
+
+// ---------------------------------------------------------------------------
+// Slack
+// ---------------------------------------------------------------------------
+
+const MAX_SLACK_MESSAGES = 100
+
+// Slack answers with channel IDs; map "#name" to a stable fake one
+function mockChannelId(channel: string): string {
+  if (/^[CGD][A-Z0-9]{8,}$/.test(channel)) return channel
+  let hash = 0
+  for (const char of channel) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  return `C${hash.toString(36).toUpperCase().padStart(10, '0')}`
+}
+
+async function mockSlackApi(pathname: string, init?: RequestInit): Promise<Response> {
+  const step = nextStep('slack')
+  await delayFor(step, init)
+  if (step && (step.status !== undefined || step.body !== undefined || step.fixture)) {
+    const { text, status, headers } = stepBody(step, {})
+    return new Response(text, { status, headers })
+  }
+
+  const reply = (body: unknown) => new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  if (!pathname.endsWith('/chat.postMessage')) return reply({ ok: false, error: 'unknown_method' })
+
+  const body = typeof init?.body === 'string' && init.body ? JSON.parse(init.body) : {}
+  if (!body.channel) return reply({ ok: false, error: 'channel_not_found' })
+  if (!body.text && !Array.isArray(body.blocks)) return reply({ ok: false, error: 'no_text' })
+
+  const state = mockState()
+  const now = Date.now()
+  const message: MockSlackMessage = {
+    channel: mockChannelId(body.channel),
+    // Slack ts: seconds.micro, unique per channel
+    ts: `${Math.floor(now / 1000)}.${String((now % 1000) * 1000 + state.slack_messages.length).padStart(6, '0')}`,
+    thread_ts: body.thread_ts || null,
+    text: body.text || '',
+    blocks: Array.isArray(body.blocks) ? body.blocks : [],
+    posted_at: new Date(now).toISOString(),
+  }
+  state.slack_messages = [message, ...state.slack_messages].slice(0, MAX_SLACK_MESSAGES)
+  return reply({ ok: true, channel: message.channel, ts: message.ts, message: { text: message.text, ts: message.ts } })
+}
+
+// ---------------------------------------------------------------------------
+// Delivery channels (Teams, Discord, email)
+// ---------------------------------------------------------------------------
+
+const MAX_DELIVERIES = 100
+
+function recordDelivery(delivery: Omit<MockDelivery, 'id' | 'posted_at'>): MockDelivery {
+  const state = mockState()
+  const saved: MockDelivery = { ...delivery, id: randomUUID(), posted_at: new Date().toISOString() }
+  state.deliveries = [saved, ...state.deliveries].slice(0, MAX_DELIVERIES)
+  return saved
+}
+
+function isTeamsWebhook(hostname: string): boolean {
+  return hostname.endsWith('.webhook.office.com') || hostname === 'outlook.office.com' || hostname.endsWith('.logic.azure.com')
+}
+
+function isDiscordWebhook(hostname: string, pathname: string): boolean {
+  return (hostname === 'discord.com' || hostname === 'discordapp.com' || hostname.endsWith('.discord.com')) &&
+    pathname.includes('/webhooks/')
+}
+
+// Teams answers "1"; Discord answers the created message with ?wait=true, else 204
+async function mockWebhook(service: 'teams' | 'discord', url: string, init?: RequestInit): Promise<Response> {
+  const step = nextStep(service)
+  await delayFor(step, init)
+  if (step && (step.status !== undefined || step.body !== undefined || step.fixture)) {
+    const { text, status, headers } = stepBody(step, {})
+    return new Response(text, { status, headers })
+  }
+
+  const payload = typeof init?.body === 'string' && init.body ? JSON.parse(init.body) : {}
+  const delivery = recordDelivery({ channel: service, destination: url, payload })
+  if (service === 'teams') return new Response(readFixture('teams-webhook.txt'), { status: 200, headers: { 'Content-Type': 'text/plain' } })
+
+  if (new URL(url).searchParams.get('wait') !== 'true') return new Response(null, { status: 204 })
+  const message = {
+    ...JSON.parse(readFixture('discord-message.json')),
+    id: delivery.id,
+    content: payload.content ?? '',
+    embeds: Array.isArray(payload.embeds) ? payload.embeds : [],
+    timestamp: delivery.posted_at,
+  }
+  return new Response(JSON.stringify(message), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+/** Accept a digest email without an SMTP server; `email` steps can script a rejection. */
+export async function sendMockMail(message: MailMessage): Promise<void> {
+  const step = nextStep('email')
+  await delayFor(step)
+  if (step && (step.status ?? 250) >= 400) {
+    const { text, status } = stepBody(step, {})
+    let detail = text
+    try {
+      detail = JSON.parse(text).error || text
+    } catch {
+      // Plain-text fixture: shown as is
+    }
+    throw new Error(`Mock SMTP rejected the email: ${status} ${detail}`)
+  }
+  if (message.to.length === 0) throw new Error('No recipients')
+  recordDelivery({ channel: 'email', destination: message.to.join(', '), payload: { subject: message.subject, text: message.text } })
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+/** Answer a Lyzr API call from fixtures according to the active scenario. */
+export async function handleMockRequest(url: string, init?: RequestInit): Promise<Response> {
+  const { hostname, pathname } = new URL(url)
+  const method = (init?.method || 'GET').toUpperCase()
+
+  if (hostname === 'slack.com' || hostname.endsWith('.slack.com') || pathname.includes('/chat.')) {
+    return mockSlackApi(pathname, init)
+  }
+  if (isTeamsWebhook(hostname)) return mockWebhook('teams', url, init)
+  if (isDiscordWebhook(hostname, pathname)) return mockWebhook('discord', url, init)
+
+  if (hostname.startsWith('scheduler.')) {
+    const step = nextStep('scheduler')
+    await delayFor(step, init)
+    if (step && (step.status ?? 200) >= 400) {
+      const { text, status, headers } = stepBody(step, {})
+      return new Response(text, { status, headers })
+    }
+    return schedulerApi(url, init)
+  }
+
+  if (pathname.includes('/inference/chat')) {
+    const { text, status, headers } = await agentReply(init)
+    return new Response(text, { status, headers })
+  }
+  if (pathname.includes('/inference/stream')) {
+    const { text, status, headers } = await agentReply(init)
+    return status < 400 ? streamResponse(text) : new Response(text, { status, headers })
+  }
+  if (pathname.includes('/assets/upload')) {
+    return serviceResponse('upload', { fixture: 'upload.json' }, init)
+  }
+
+  if (pathname.includes('/rag/documents/')) return serviceResponse('rag', { fixture: 'rag-documents.json' }, init)
+  if (pathname.includes('/train/')) return serviceResponse('rag', { fixture: 'rag-train.json' }, init)
+  if (pathname.includes('/rag/crawl')) return serviceResponse('rag', { body: { message: 'Crawl started' } }, init)
+  if (method === 'DELETE' && pathname.includes('/docs')) {
+    return serviceResponse('rag', { body: { message: 'Documents deleted' } }, init)
+  }
+
+  return new Response(JSON.stringify({ detail: `No mock for ${method} ${url}` }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,46 @@
+/**
+ * Agent & Schedule Registry — shared types
+ *
+ * The registry lists the agents and schedules the app can work with. Entries
+ * come from workflow_state.json (`source: 'workflow'`) and from the server
+ * config store (`source: 'config'`), which can add entries or override and
+ * hide workflow ones.
+ */
+
+export type RegistrySource = 'workflow' | 'config'
+
+export interface RegistryAgent {
+  agent_id: string
+  name: string
+  description?: string
+  provider?: string
+  model?: string
+  tools?: string[]
+  source: RegistrySource
+}
+
+export interface RegistrySchedule {
+  schedule_id: string
+  agent_id: string
+  /** Display name, e.g. "ML research — 9AM" */
+  name?: string
+  cron_expression?: string
+  timezone?: string
+  message?: string
+  source: RegistrySource
+}
+
+export interface Registry {
+  agents: RegistryAgent[]
+  schedules: RegistrySchedule[]
+}
+
+export interface RegistryResult extends Registry {
+  success: boolean
+  error?: string
+}
+
+/** Display label for a schedule in pickers. */
+export function scheduleLabel(schedule: RegistrySchedule): string {
+  return schedule.name || schedule.message || schedule.schedule_id
+}
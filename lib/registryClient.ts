@@ -0,0 +1,148 @@
+'use client'
+
+/**
+ * Agent & Schedule Registry Client Utility
+ *
+ * Client-side wrapper for /api/registry plus a hook that tracks the selected
+ * agent/schedule pair (remembered in localStorage).
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import type { RegistryAgent, RegistryResult, RegistrySchedule } from '@/lib/registry'
+
+const SELECTION_KEY = 'ai-news-digest-selection'
+
+function failure(error: unknown): RegistryResult {
+  return { success: false, agents: [], schedules: [], error: error instanceof Error ? error.message : 'Network error' }
+}
+
+/** Load the merged agent/schedule registry. */
+export async function fetchRegistry(): Promise<RegistryResult> {
+  try {
+    const res = await fetch('/api/registry')
+    return res.json()
+  } catch (error) {
+    return failure(error)
+  }
+}
+
+/** Add or override a registry entry. Returns the updated registry. */
+export async function saveRegistryEntry(
+  entry:
+    | ({ type: 'agent' } & Partial<Omit<RegistryAgent, 'source'>> & { agent_id: string })
+    | ({ type: 'schedule' } & Partial<Omit<RegistrySchedule, 'source'>> & { schedule_id: string })
+): Promise<RegistryResult> {
+  try {
+    const res = await fetch('/api/registry', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entry),
+    })
+    return res.json()
+  } catch (error) {
+    return failure(error)
+  }
+}
+
+/** Remove (or hide, for workflow_state.json entries) a registry entry. */
+export async function removeRegistryEntry(type: 'agent' | 'schedule', id: string): Promise<RegistryResult> {
+  try {
+    const qs = new URLSearchParams({ type, id }).toString()
+    const res = await fetch(`/api/registry?${qs}`, { method: 'DELETE' })
+    return res.json()
+  } catch (error) {
+    return failure(error)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+interface Selection {
+  agentId: string | null
+  scheduleId: string | null
+}
+
+function readSelection(): Selection {
+  try {
+    const saved = localStorage.getItem(SELECTION_KEY)
+    if (saved) return { agentId: null, scheduleId: null, ...JSON.parse(saved) }
+  } catch {
+    // ignore unreadable selection
+  }
+  return { agentId: null, scheduleId: null }
+}
+
+// Keep the selection valid for the current registry: fall back to the first
+// agent, and to the agent's first schedule
+function resolveSelection(agents: RegistryAgent[], schedules: RegistrySchedule[], wanted: Selection): Selection {
+  const agent = agents.find(a => a.agent_id === wanted.agentId) || agents[0]
+  if (!agent) return { agentId: null, scheduleId: null }
+  const agentSchedules = schedules.filter(s => s.agent_id === agent.agent_id)
+  const schedule = agentSchedules.find(s => s.schedule_id === wanted.scheduleId) || agentSchedules[0]
+  return { agentId: agent.agent_id, scheduleId: schedule?.schedule_id ?? null }
+}
+
+/** React hook for the registry and the selected agent/schedule pair. */
+export function useRegistry() {
+  const [agents, setAgents] = useState<RegistryAgent[]>([])
+  const [schedules, setSchedules] = useState<RegistrySchedule[]>([])
+  const [selection, setSelection] = useState<Selection>({ agentId: null, scheduleId: null })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /** `wanted` picks the selection to keep from the current one */
+  const applyRegistry = useCallback((result: RegistryResult, wanted: (current: Selection) => Selection) => {
+    if (!result.success) {
+      setError(result.error || 'Failed to load registry')
+      return
+    }
+    setError(null)
+    setAgents(result.agents)
+    setSchedules(result.schedules)
+    setSelection(current => resolveSelection(result.agents, result.schedules, wanted(current)))
+  }, [])
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const result = await fetchRegistry()
+    applyRegistry(result, current => (current.agentId ? current : readSelection()))
+    setLoading(false)
+    return result
+  }, [applyRegistry])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (selection.agentId) localStorage.setItem(SELECTION_KEY, JSON.stringify(selection))
+  }, [selection])
+
+  const selectAgent = (agentId: string) => {
+    setSelection(resolveSelection(agents, schedules, { agentId, scheduleId: null }))
+  }
+
+  const selectSchedule = (scheduleId: string | null) => {
+    setSelection(prev => ({ ...prev, scheduleId }))
+  }
+
+  const agent = agents.find(a => a.agent_id === selection.agentId) || null
+  const schedule = schedules.find(s => s.schedule_id === selection.scheduleId) || null
+
+  return {
+    agents,
+    schedules,
+    agentSchedules: schedules.filter(s => s.agent_id === selection.agentId),
+    agent,
+    schedule,
+    loading,
+    error,
+    refresh,
+    /** Apply a registry returned by saveRegistryEntry/removeRegistryEntry, optionally moving the selection */
+    apply: (result: RegistryResult, wanted?: Partial<Selection>) => applyRegistry(result, current => ({ ...current, ...wanted })),
+    selectAgent,
+    selectSchedule,
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Agent & Schedule Registry Store
+ *
+ * Server-side. Merges the agents/schedules declared in workflow_state.json with
+ * the overrides kept at <DATA_DIR>/registry.json:
+ *
+ *   - an override with a new id adds an entry
+ *   - an override with an existing id replaces that entry's fields
+ *   - `hidden: true` removes a workflow entry from the registry
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import type { Registry, RegistryAgent, RegistrySchedule } from '@/lib/registry'
+
+const WORKFLOW_STATE_PATH = path.join(process.cwd(), 'workflow_state.json')
+
+type AgentOverride = Partial<Omit<RegistryAgent, 'source'>> & { agent_id: string; hidden?: boolean }
+type ScheduleOverride = Partial<Omit<RegistrySchedule, 'source'>> & { schedule_id: string; hidden?: boolean }
+
+interface RegistryOverrides {
+  agents: AgentOverride[]
+  schedules: ScheduleOverride[]
+}
+
+const overrideStore = createJsonFileStore<RegistryOverrides>('registry.json', () => ({ agents: [], schedules: [] }))
+
+// ---------------------------------------------------------------------------
+// workflow_state.json
+// ---------------------------------------------------------------------------
+
+function readWorkflowState(): Registry {
+  try {
+    const state = JSON.parse(fs.readFileSync(WORKFLOW_STATE_PATH, 'utf8'))
+    const agents: RegistryAgent[] = (Array.isArray(state.agents) ? state.agents : [])
+      .filter((a: any) => a?.agent_id)
+      .map((a: any) => ({
+        agent_id: a.agent_id,
+        name: a.name || a.agent_id,
+        description: a.description,
+        provider: a.provider,
+        model: a.model,
+        tools: Array.isArray(a.tools) ? a.tools : undefined,
+        source: 'workflow' as const,
+      }))
+    const schedules: RegistrySchedule[] = (Array.isArray(state.schedules) ? state.schedules : [])
+      .filter((s: any) => s?.schedule_id && s?.agent_id)
+      .map((s: any) => ({
+        schedule_id: s.schedule_id,
+        agent_id: s.agent_id,
+        name: s.name,
+        cron_expression: s.cron_expression,
+        timezone: s.timezone,
+        message: s.message,
+        source: 'workflow' as const,
+      }))
+    return { agents, schedules }
+  } catch (error) {
+    console.error('Failed to read workflow_state.json:', error)
+    return { agents: [], schedules: [] }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+function applyOverrides<T extends { source: string }, O extends { hidden?: boolean }>(
+  base: T[],
+  overrides: O[],
+  idOf: (entry: T | O) => string,
+  isComplete: (override: O) => boolean
+): T[] {
+  const merged = new Map<string, T>()
+  base.forEach(entry => merged.set(idOf(entry), entry))
+
+  for (const override of overrides) {
+    const id = idOf(override)
+    const { hidden, ...fields } = override
+    const existing = merged.get(id)
+    if (hidden) {
+      merged.delete(id)
+    } else if (existing) {
+      merged.set(id, { ...existing, ...fields })
+    } else if (isComplete(override)) {
+      merged.set(id, { ...(fields as unknown as T), source: 'config' })
+    }
+  }
+  return Array.from(merged.values())
+}
+
+export async function getRegistry(): Promise<Registry> {
+  const base = readWorkflowState()
+  const overrides = await overrideStore.read()
+
+  const agents = applyOverrides(base.agents, overrides.agents || [], e => e.agent_id, o => !!o.name)
+  const agentIds = new Set(agents.map(a => a.agent_id))
+  const schedules = applyOverrides(base.schedules, overrides.schedules || [], e => e.schedule_id, o => !!o.agent_id)
+    .filter(s => agentIds.has(s.agent_id))
+
+  return { agents, schedules }
+}
+
+export async function findAgent(agentId: string): Promise<RegistryAgent | null> {
+  const { agents } = await getRegistry()
+  return agents.find(a => a.agent_id === agentId) || null
+}
+
+export async function findSchedule(scheduleId: string): Promise<RegistrySchedule | null> {
+  const { schedules } = await getRegistry()
+  return schedules.find(s => s.schedule_id === scheduleId) || null
+}
+
+// ---------------------------------------------------------------------------
+// Overrides
+// ---------------------------------------------------------------------------
+
+function upsert<O>(list: O[], entry: O, idOf: (entry: O) => string): O[] {
+  const id = idOf(entry)
+  const index = list.findIndex(item => idOf(item) === id)
+  if (index === -1) return [...list, entry]
+  const next = [...list]
+  next[index] = { ...list[index], ...entry }
+  return next
+}
+
+export async function saveAgentOverride(entry: AgentOverride): Promise<void> {
+  await overrideStore.update(current => ({
+    ...current,
+    agents: upsert(current.agents || [], entry, e => e.agent_id),
+  }))
+}
+
+export async function saveScheduleOverride(entry: ScheduleOverride): Promise<void> {
+  await overrideStore.update(current => ({
+    ...current,
+    schedules: upsert(current.schedules || [], entry, e => e.schedule_id),
+  }))
+}
+
+/**
+ * Remove an entry from the registry. Config-only entries are deleted; workflow
+ * entries are hidden. Returns false when the id is unknown.
+ */
+export async function removeRegistryEntry(type: 'agent' | 'schedule', id: string): Promise<boolean> {
+  const base = readWorkflowState()
+  const inWorkflow = type === 'agent'
+    ? base.agents.some(a => a.agent_id === id)
+    : base.schedules.some(s => s.schedule_id === id)
+
+  let found = inWorkflow
+  await overrideStore.update(current => {
+    if (type === 'agent') {
+      const agents = (current.agents || []).filter(a => a.agent_id !== id)
+      found = found || agents.length !== (current.agents || []).length
+      return { ...current, agents: inWorkflow ? [...agents, { agent_id: id, hidden: true }] : agents }
+    }
+    const schedules = (current.schedules || []).filter(s => s.schedule_id !== id)
+    found = found || schedules.length !== (current.schedules || []).length
+    return { ...current, schedules: inWorkflow ? [...schedules, { schedule_id: id, hidden: true }] : schedules }
+  })
+  return found
+}
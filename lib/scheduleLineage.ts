@@ -0,0 +1,88 @@
+/**
+ * Schedule Lineage
+ *
+ * Server-side record of schedules that replaced one another (an update the
+ * scheduler could not apply in place is done as create-new-then-delete-old).
+ * Each link stores a snapshot of the old schedule's execution logs so run
+ * history stays visible under the new schedule id after the old one is gone.
+ *
+ * Persisted at <DATA_DIR>/schedule-lineage.json.
+ */
+
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import type { ExecutionLog } from '@/lib/scheduler'
+
+export interface ScheduleLink {
+  schedule_id: string
+  previous_id: string
+  replaced_at: string
+  /** Changed fields that caused the swap */
+  changed: string[]
+  /** Execution logs of `previous_id` at the time of the swap, newest first */
+  executions: ExecutionLog[]
+}
+
+const lineageStore = createJsonFileStore<{ links: ScheduleLink[] }>('schedule-lineage.json', () => ({ links: [] }))
+
+export async function recordScheduleSwap(link: ScheduleLink): Promise<void> {
+  await lineageStore.update(current => ({
+    links: [...(current.links || []).filter(l => l.schedule_id !== link.schedule_id), link],
+  }))
+}
+
+/** Links from `scheduleId` back to its oldest predecessor, newest first. */
+export async function getScheduleAncestry(scheduleId: string): Promise<ScheduleLink[]> {
+  const { links } = await lineageStore.read()
+  const byId = new Map((links || []).map(l => [l.schedule_id, l]))
+  const chain: ScheduleLink[] = []
+  const seen = new Set<string>()
+  let link = byId.get(scheduleId)
+  while (link && !seen.has(link.schedule_id)) {
+    seen.add(link.schedule_id)
+    chain.push(link)
+    link = byId.get(link.previous_id)
+  }
+  return chain
+}
+
+/** Newest schedule id that replaced `scheduleId` (itself when never replaced). */
+export async function resolveCurrentScheduleId(scheduleId: string): Promise<string> {
+  const { links } = await lineageStore.read()
+  const byPrevious = new Map((links || []).map(l => [l.previous_id, l.schedule_id]))
+  const seen = new Set<string>()
+  let current = scheduleId
+  while (byPrevious.has(current) && !seen.has(current)) {
+    seen.add(current)
+    current = byPrevious.get(current)!
+  }
+  return current
+}
+
+/**
+ * Extend one page of upstream logs with the archived logs of predecessor
+ * schedules. Archived logs are ordered after the current schedule's own logs.
+ */
+export async function withLineageLogs(
+  scheduleId: string,
+  page: { executions?: ExecutionLog[]; total?: number },
+  skip: number,
+  limit: number
+): Promise<{ executions: ExecutionLog[]; total: number; previous_schedule_ids: string[] }> {
+  const ownExecutions = page.executions || []
+  const ownTotal = page.total ?? ownExecutions.length
+  const ancestry = await getScheduleAncestry(scheduleId)
+  if (ancestry.length === 0) {
+    return { executions: ownExecutions, total: ownTotal, previous_schedule_ids: [] }
+  }
+
+  const seen = new Set(ownExecutions.map(e => e.id))
+  const archived = ancestry.flatMap(link => link.executions || []).filter(e => !seen.has(e.id))
+  const room = Math.max(0, limit - ownExecutions.length)
+  const start = Math.max(0, skip - ownTotal)
+
+  return {
+    executions: [...ownExecutions, ...archived.slice(start, start + room)],
+    total: ownTotal + archived.length,
+    previous_schedule_ids: ancestry.map(link => link.previous_id),
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Schedule Update
+ *
+ * Server-side implementation of the `update` action of /api/scheduler. Only
+ * fields that differ from the current schedule are sent. The scheduler is asked
+ * to PATCH in place; when it does not support that, the update falls back to
+ * create-new-then-delete-old:
+ *
+ *   1. create the replacement (paused right away if the original was paused;
+ *      if pausing fails the replacement is deleted and the update fails)
+ *   2. snapshot the original's execution logs into the lineage store
+ *   3. delete the original — if that fails the replacement is deleted again,
+ *      so exactly one of the two schedules survives. If the rollback fails
+ *      too, the error names the orphaned replacement (`orphaned_id`)
+ *
+ * Registry entries (see lib/registryStore.ts) follow the schedule to its new id,
+ * as do its alert rules, catch-up policy and delivery routes.
+ */
+
+import {
+  createUpstreamSchedule,
+  deleteUpstreamSchedule,
+  fetchSchedule,
+  fetchScheduleLogs,
+  patchUpstreamSchedule,
+  pauseUpstreamSchedule,
+  type UpstreamResult,
+} from '@/lib/schedulerUpstream'
+import { recordScheduleSwap } from '@/lib/scheduleLineage'
+import { findSchedule, removeRegistryEntry, saveScheduleOverride } from '@/lib/registryStore'
+import { rekeyAlertSchedule } from '@/lib/alertEngine'
+import { rekeyCatchUpSchedule } from '@/lib/scheduleWatchdog'
+import { rekeyScheduleRoute } from '@/lib/digestDelivery'
+import type { ExecutionLog, Schedule } from '@/lib/scheduler'
+
+export const SCHEDULE_EDITABLE_FIELDS = ['cron_expression', 'timezone', 'message', 'max_retries', 'retry_delay'] as const
+export type ScheduleEditableField = (typeof SCHEDULE_EDITABLE_FIELDS)[number]
+export type ScheduleChanges = Partial<Pick<Schedule, ScheduleEditableField>>
+
+export interface ScheduleUpdateResult {
+  ok: boolean
+  status: number
+  schedule?: Schedule
+  changed: ScheduleEditableField[]
+  method?: 'noop' | 'patch' | 'recreate'
+  /** Id of the deleted original when the update recreated the schedule */
+  replaced_id?: string
+  /** Replacement left behind when neither the original nor the replacement could be deleted */
+  orphaned_id?: string
+  error?: string
+  details?: string
+}
+
+// Status codes meaning "this endpoint/method does not exist" rather than a bad request
+const PATCH_UNSUPPORTED = new Set([404, 405, 501])
+const LOG_SNAPSHOT_PAGE = 100
+const LOG_SNAPSHOT_MAX = 500
+
+// Remember once upstream has rejected PATCH so later updates go straight to recreate
+let patchUnsupported = false
+
+/** Fields of `changes` whose value differs from `current`. */
+export function diffScheduleFields(current: Schedule, changes: ScheduleChanges): ScheduleEditableField[] {
+  return SCHEDULE_EDITABLE_FIELDS.filter(field =>
+    changes[field] !== undefined && changes[field] !== current[field]
+  )
+}
+
+async function snapshotLogs(scheduleId: string): Promise<ExecutionLog[]> {
+  const executions: ExecutionLog[] = []
+  for (let skip = 0; skip < LOG_SNAPSHOT_MAX; skip += LOG_SNAPSHOT_PAGE) {
+    const page = await fetchScheduleLogs(scheduleId, { skip, limit: LOG_SNAPSHOT_PAGE })
+    const batch = page.ok ? page.data?.executions || [] : []
+    executions.push(...batch)
+    if (batch.length < LOG_SNAPSHOT_PAGE) break
+  }
+  return executions
+}
+
+async function syncRegistry(previousId: string, schedule: Schedule): Promise<void> {
+  const entry = await findSchedule(previousId)
+  if (!entry) return
+  await saveScheduleOverride({
+    schedule_id: schedule.id,
+    agent_id: schedule.agent_id,
+    name: entry.name,
+    cron_expression: schedule.cron_expression,
+    timezone: schedule.timezone,
+    message: schedule.message,
+  })
+  if (previousId !== schedule.id) await removeRegistryEntry('schedule', previousId)
+}
+
+/** Roll back a replacement after `failure`; names it as orphaned when it can't be deleted either. */
+async function discardReplacement(
+  replacementId: string,
+  failure: UpstreamResult<unknown>,
+  reason: string,
+  changed: ScheduleEditableField[]
+): Promise<ScheduleUpdateResult> {
+  const rollback = await deleteUpstreamSchedule(replacementId)
+  if (!rollback.ok) {
+    return {
+      ok: false,
+      status: failure.status,
+      changed,
+      error: `Could not replace schedule: ${reason} (${failure.error}) and the replacement ` +
+        `${replacementId} could not be removed (${rollback.error}); delete it manually`,
+      details: failure.details,
+      orphaned_id: replacementId,
+    }
+  }
+  return {
+    ok: false,
+    status: failure.status,
+    changed,
+    error: `Could not replace schedule: ${reason} (${failure.error})`,
+    details: failure.details,
+  }
+}
+
+async function recreate(current: Schedule, changes: ScheduleChanges, changed: ScheduleEditableField[]): Promise<ScheduleUpdateResult> {
+  const created = await createUpstreamSchedule({
+    agent_id: current.agent_id,
+    cron_expression: changes.cron_expression ?? current.cron_expression,
+    timezone: changes.timezone ?? current.timezone,
+    message: changes.message ?? current.message,
+    max_retries: changes.max_retries ?? current.max_retries,
+    retry_delay: changes.retry_delay ?? current.retry_delay,
+  })
+  if (!created.ok || !created.data?.id) {
+    return { ok: false, status: created.status, changed, error: created.error || 'Failed to create replacement schedule', details: created.details }
+  }
+
+  let replacement = created.data
+  if (!current.is_active) {
+    // An active replacement of a paused schedule would start firing; don't keep it
+    const paused = await pauseUpstreamSchedule(replacement.id)
+    if (!paused.ok) return discardReplacement(replacement.id, paused, 'pausing the replacement failed', changed)
+    replacement = paused.data?.id ? paused.data : { ...replacement, is_active: false }
+  }
+
+  const executions = await snapshotLogs(current.id)
+
+  const removed = await deleteUpstreamSchedule(current.id)
+  if (!removed.ok) return discardReplacement(replacement.id, removed, 'deleting the original failed', changed)
+
+  await recordScheduleSwap({
+    schedule_id: replacement.id,
+    previous_id: current.id,
+    replaced_at: new Date().toISOString(),
+    changed,
+    executions,
+  })
+  await syncRegistry(current.id, replacement)
+  await Promise.all([
+    rekeyAlertSchedule(current.id, replacement.id),
+    rekeyCatchUpSchedule(current.id, replacement.id),
+    rekeyScheduleRoute(current.id, replacement.id),
+  ])
+
+  return { ok: true, status: 200, schedule: replacement, changed, method: 'recreate', replaced_id: current.id }
+}
+
+export async function updateSchedule(scheduleId: string, changes: ScheduleChanges): Promise<ScheduleUpdateResult> {
+  const existing = await fetchSchedule(scheduleId)
+  if (!existing.ok || !existing.data) {
+    return { ok: false, status: existing.status, changed: [], error: existing.error || 'Schedule not found', details: existing.details }
+  }
+
+  const current = existing.data
+  const changed = diffScheduleFields(current, changes)
+  if (changed.length === 0) {
+    return { ok: true, status: 200, schedule: current, changed, method: 'noop' }
+  }
+
+  if (!patchUnsupported) {
+    const fields = Object.fromEntries(changed.map(field => [field, changes[field]]))
+    const patched = await patchUpstreamSchedule(scheduleId, fields)
+    if (patched.ok) {
+      const schedule = patched.data?.id ? patched.data : { ...current, ...fields }
+      await syncRegistry(scheduleId, schedule)
+      return { ok: true, status: 200, schedule, changed, method: 'patch' }
+    }
+    if (!PATCH_UNSUPPORTED.has(patched.status)) {
+      return { ok: false, status: patched.status, changed, error: patched.error, details: patched.details }
+    }
+    patchUnsupported = true
+  }
+
+  return recreate(current, changes, changed)
+}
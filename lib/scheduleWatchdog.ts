@@ -0,0 +1,234 @@
+/**
+ * Missed-Run Watchdog
+ *
+ * Server-side. Compares each registered schedule's cron expression with its
+ * execution logs, finds fire times the scheduler skipped (see lib/catchUp.ts)
+ * and applies the schedule's catch-up policy by triggering the schedule.
+ * Every pass that finds missed runs leaves a CatchUpRecord explaining what was
+ * done and why.
+ *
+ * Like alerting there is no background worker: POST /api/scheduler/watchdog
+ * (`action: 'run'`) is meant to be called by an external cron every few
+ * minutes. Each schedule remembers how far it has been checked, so a fire time
+ * is handled at most once.
+ *
+ * Persisted at <DATA_DIR>/watchdog.json. Environment:
+ *   CATCH_UP_DEFAULT_POLICY   skip (default) | run_once | run_all
+ *   WATCHDOG_GRACE_MINUTES    how late a run may start before it counts as missed (default 10)
+ */
+
+import { randomUUID } from 'crypto'
+import { createJsonFileStore } from '@/lib/jsonFileStore'
+import { fetchSchedule, fetchScheduleLogs, triggerUpstreamSchedule } from '@/lib/schedulerUpstream'
+import { getRegistry } from '@/lib/registryStore'
+import {
+  CATCH_UP_POLICIES,
+  MAX_CATCH_UP_RUNS,
+  describeCatchUp,
+  findMissedFireTimes,
+  type CatchUpPolicy,
+  type CatchUpRecord,
+  type MissedRunStatus,
+  type WatchdogReport,
+} from '@/lib/catchUp'
+
+const HOUR_MS = 60 * 60 * 1000
+const MAX_RECORDS = 200
+const LOGS_PER_SCHEDULE = 100
+/** Schedules never checked before look back this far */
+const FIRST_CHECK_LOOKBACK_MS = 24 * HOUR_MS
+/** Never look further back than this, however long the watchdog was down */
+const MAX_LOOKBACK_MS = 7 * 24 * HOUR_MS
+
+function defaultPolicy(): CatchUpPolicy {
+  const configured = process.env.CATCH_UP_DEFAULT_POLICY as CatchUpPolicy | undefined
+  return configured && CATCH_UP_POLICIES.includes(configured) ? configured : 'skip'
+}
+
+function graceMs(): number {
+  const minutes = parseInt(process.env.WATCHDOG_GRACE_MINUTES || '', 10)
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : 10) * 60 * 1000
+}
+
+interface WatchdogState {
+  /** schedule_id → policy; schedules without an entry use the default */
+  policies: Record<string, CatchUpPolicy>
+  /** schedule_id → fire times up to here have been handled */
+  checked_through: Record<string, string>
+  catch_ups: CatchUpRecord[]
+}
+
+const watchdogStore = createJsonFileStore<WatchdogState>('watchdog.json', () => ({
+  policies: {},
+  checked_through: {},
+  catch_ups: [],
+}))
+
+// ---------------------------------------------------------------------------
+// Policies + history
+// ---------------------------------------------------------------------------
+
+export async function getCatchUpPolicies(): Promise<{ default: CatchUpPolicy; policies: Record<string, CatchUpPolicy> }> {
+  const { policies } = await watchdogStore.read()
+  return { default: defaultPolicy(), policies }
+}
+
+export async function setCatchUpPolicy(scheduleId: string, policy: CatchUpPolicy): Promise<void> {
+  await watchdogStore.update(current => ({ ...current, policies: { ...current.policies, [scheduleId]: policy } }))
+}
+
+/** Move the policy and watchdog progress of `previousId` to the schedule that replaced it. */
+export async function rekeyCatchUpSchedule(previousId: string, scheduleId: string): Promise<void> {
+  await watchdogStore.update(current => {
+    const policies = { ...current.policies }
+    const checkedThrough = { ...current.checked_through }
+    if (policies[previousId]) policies[scheduleId] = policies[previousId]
+    if (checkedThrough[previousId]) checkedThrough[scheduleId] = checkedThrough[previousId]
+    delete policies[previousId]
+    delete checkedThrough[previousId]
+    return { ...current, policies, checked_through: checkedThrough }
+  })
+}
+
+/** Catch-up records, newest first. */
+export async function listCatchUps(params?: { scheduleId?: string; limit?: number }): Promise<CatchUpRecord[]> {
+  const { catch_ups } = await watchdogStore.read()
+  const filtered = params?.scheduleId ? catch_ups.filter(r => r.schedule_id === params.scheduleId) : catch_ups
+  return filtered.slice(0, params?.limit ?? 50)
+}
+
+// ---------------------------------------------------------------------------
+// Watchdog pass
+// ---------------------------------------------------------------------------
+
+async function applyPolicy(status: MissedRunStatus, now: string): Promise<CatchUpRecord> {
+  const wanted = status.policy === 'skip' ? 0 : status.policy === 'run_once' ? 1 : Math.min(status.missed.length, MAX_CATCH_UP_RUNS)
+  let triggered = 0
+  let error: string | undefined
+
+  // Sequential: the scheduler queues each trigger as its own run
+  for (let i = 0; i < wanted; i++) {
+    const result = await triggerUpstreamSchedule(status.schedule_id)
+    if (!result.ok) {
+      error = result.error || 'Trigger failed'
+      break
+    }
+    triggered++
+  }
+
+  return {
+    id: randomUUID(),
+    schedule_id: status.schedule_id,
+    agent_id: status.agent_id,
+    detected_at: now,
+    policy: status.policy,
+    missed: status.missed,
+    triggered,
+    outcome: error ? 'failed' : wanted === 0 ? 'skipped' : 'triggered',
+    reason: describeCatchUp(status.policy, status.missed, triggered),
+    ...(error && { error }),
+  }
+}
+
+let running: Promise<WatchdogReport> | null = null
+
+async function check(options: { dryRun: boolean; scheduleId?: string }): Promise<WatchdogReport> {
+  const now = new Date()
+  const nowIso = now.toISOString()
+  const grace = graceMs()
+  const handledThrough = new Date(now.getTime() - grace).toISOString()
+  const state = await watchdogStore.read()
+  const report: WatchdogReport = { success: true, checked_at: nowIso, dry_run: options.dryRun, schedules: [], catch_ups: [], errors: [] }
+
+  const scheduleIds = options.scheduleId
+    ? [options.scheduleId]
+    : (await getRegistry()).schedules.map(s => s.schedule_id)
+  const checkedThrough: Record<string, string> = {}
+
+  for (const scheduleId of scheduleIds) {
+    const [scheduleResult, logsResult] = await Promise.all([
+      fetchSchedule(scheduleId),
+      fetchScheduleLogs(scheduleId, { limit: LOGS_PER_SCHEDULE }),
+    ])
+    if (!scheduleResult.ok || !scheduleResult.data) {
+      report.errors.push({ schedule_id: scheduleId, error: scheduleResult.error || 'Schedule not found' })
+      continue
+    }
+    // Without logs every fire time would look missed and trigger duplicate runs
+    if (!logsResult.ok) {
+      report.errors.push({ schedule_id: scheduleId, error: logsResult.error || 'Could not fetch execution logs' })
+      continue
+    }
+    const schedule = scheduleResult.data
+
+    // Fire times while paused, before the last edit/resume or already handled do not count
+    const since = new Date(Math.max(
+      new Date(schedule.created_at).getTime() || 0,
+      new Date(schedule.updated_at).getTime() || 0,
+      now.getTime() - MAX_LOOKBACK_MS,
+      state.checked_through[scheduleId]
+        ? new Date(state.checked_through[scheduleId]).getTime()
+        : now.getTime() - FIRST_CHECK_LOOKBACK_MS
+    ))
+    const executions = Array.isArray(logsResult.data?.executions) ? logsResult.data!.executions : []
+    // A full page of logs says nothing about fire times before its oldest entry
+    if (executions.length >= LOGS_PER_SCHEDULE) {
+      const oldest = Math.min(...executions.map(log => new Date(log.executed_at).getTime()))
+      if (oldest > since.getTime()) since.setTime(oldest)
+    }
+    const missed = schedule.is_active
+      ? findMissedFireTimes(schedule, executions, { since, now, graceMs: grace })
+      : []
+
+    const status: MissedRunStatus = {
+      schedule_id: scheduleId,
+      agent_id: schedule.agent_id,
+      policy: state.policies[scheduleId] || defaultPolicy(),
+      missed: missed.map(date => date.toISOString()),
+      checked_from: since.toISOString(),
+      next_run_time: schedule.next_run_time,
+      last_run_at: schedule.last_run_at,
+    }
+    report.schedules.push(status)
+    if (options.dryRun) continue
+
+    if (status.missed.length > 0) report.catch_ups.push(await applyPolicy(status, nowIso))
+    checkedThrough[scheduleId] = handledThrough
+  }
+
+  if (!options.dryRun) {
+    await watchdogStore.update(current => ({
+      ...current,
+      checked_through: { ...current.checked_through, ...checkedThrough },
+      catch_ups: [...report.catch_ups.slice().reverse(), ...current.catch_ups].slice(0, MAX_RECORDS),
+    }))
+  }
+  return report
+}
+
+/**
+ * Check schedules for missed runs. With `dryRun` only reports what is missed;
+ * otherwise applies catch-up policies. Concurrent passes share one run.
+ */
+export function runWatchdog(options?: { dryRun?: boolean; scheduleId?: string }): Promise<WatchdogReport> {
+  const dryRun = options?.dryRun ?? false
+  const failure = (error: unknown): WatchdogReport => ({
+    success: false,
+    checked_at: new Date().toISOString(),
+    dry_run: dryRun,
+    schedules: [],
+    catch_ups: [],
+    errors: [],
+    error: error instanceof Error ? error.message : 'Watchdog check failed',
+  })
+
+  if (dryRun) return check({ dryRun, scheduleId: options?.scheduleId }).catch(failure)
+  if (!running) {
+    running = check({ dryRun, scheduleId: options?.scheduleId })
+      .catch(failure)
+      .finally(() => {
+        running = null
+      })
+  }
+  return running
+}
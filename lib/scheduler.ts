@@ -7,12 +7,17 @@
  * All API calls are proxied through the server so the API key never reaches the browser.
  */
 
-import { useState } from 'react'
+import { useCallback, useState, useRef } from 'react'
+import { describeCron, parseCron, type CronExpression } from '@/lib/cron'
+import type { CatchUpPolicy, CatchUpRecord, WatchdogReport } from '@/lib/catchUp'
+import type { ScheduleChanges } from '@/lib/scheduleUpdate'
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export type { ScheduleChanges }
+
 export interface Schedule {
   id: string
   user_id: string
@@ -265,6 +270,162 @@ export async function triggerScheduleNow(scheduleId: string): Promise<ApiResult>
   }
 }
 
+// ---------------------------------------------------------------------------
+// Run now + execution tracking
+// ---------------------------------------------------------------------------
+
+export type ScheduleRunPhase = 'triggering' | 'waiting' | 'retrying' | 'succeeded' | 'failed' | 'timeout' | 'cancelled'
+
+export interface ScheduleRunProgress {
+  phase: ScheduleRunPhase
+  /** Attempt number of the newest execution seen for this run */
+  attempt: number | null
+  max_attempts: number | null
+  elapsed_ms: number
+  /** Newest execution log of this run */
+  log?: ExecutionLog
+  error?: string
+}
+
+export interface ScheduleRunOptions {
+  /** Also scan the agent's recent executions (catches logs the per-schedule endpoint lags on) */
+  agentId?: string
+  intervalMs?: number
+  /** Give up after this long; retries wait `retry_delay` between attempts */
+  timeoutMs?: number
+  signal?: AbortSignal
+  onProgress?: (progress: ScheduleRunProgress) => void
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Trigger a schedule and poll its execution logs until the run finishes.
+ * Logs that existed before the trigger are ignored; a failed attempt with
+ * retries left keeps polling, since the scheduler retries on its own.
+ */
+export async function runScheduleNow(scheduleId: string, options: ScheduleRunOptions = {}): Promise<ScheduleRunProgress> {
+  const intervalMs = options.intervalMs ?? 3000
+  const timeoutMs = options.timeoutMs ?? 15 * 60 * 1000
+  const started = Date.now()
+  let latest: ScheduleRunProgress = { phase: 'triggering', attempt: null, max_attempts: null, elapsed_ms: 0 }
+
+  const report = (progress: Omit<ScheduleRunProgress, 'elapsed_ms'>) => {
+    latest = { ...progress, elapsed_ms: Date.now() - started }
+    options.onProgress?.(latest)
+    return latest
+  }
+
+  report({ phase: 'triggering', attempt: null, max_attempts: null })
+  const baseline = await getScheduleLogs(scheduleId, { limit: 20 })
+  const seen = new Set(baseline.executions.map(log => log.id))
+
+  const triggered = await triggerScheduleNow(scheduleId)
+  if (!triggered.success) {
+    return report({ phase: 'failed', attempt: null, max_attempts: null, error: triggered.error || 'Failed to trigger schedule' })
+  }
+  report({ phase: 'waiting', attempt: null, max_attempts: null })
+
+  while (Date.now() - started < timeoutMs) {
+    await sleep(intervalMs, options.signal)
+    if (options.signal?.aborted) return report({ ...latest, phase: 'cancelled' })
+
+    const [logs, recent] = await Promise.all([
+      getScheduleLogs(scheduleId, { limit: 10 }),
+      options.agentId
+        ? getRecentExecutions({ agentId: options.agentId, hours: 1, limit: 20 })
+        : Promise.resolve({ success: true, executions: [] as ExecutionLog[], total: 0 }),
+    ])
+    const fresh = [...logs.executions, ...recent.executions]
+      .filter(log => log.schedule_id === scheduleId && !seen.has(log.id))
+      .sort((a, b) => b.executed_at.localeCompare(a.executed_at) || b.attempt - a.attempt)
+    const log = fresh[0]
+    if (!log) {
+      report({ ...latest, phase: latest.phase === 'retrying' ? 'retrying' : 'waiting' })
+      continue
+    }
+
+    const attempt = { attempt: log.attempt, max_attempts: log.max_attempts, log }
+    if (log.success) return report({ phase: 'succeeded', ...attempt })
+    if (log.attempt < log.max_attempts) {
+      // The next attempt shows up as a new log; stop treating this one as fresh
+      seen.add(log.id)
+      report({ phase: 'retrying', ...attempt, error: log.error_message || undefined })
+      continue
+    }
+    return report({ phase: 'failed', ...attempt, error: log.error_message || `Run failed with status ${log.response_status}` })
+  }
+
+  return report({ ...latest, phase: 'timeout', error: 'Timed out waiting for the run to finish' })
+}
+
+export interface ScheduleUpdateResult {
+  success: boolean
+  schedule?: Schedule
+  /** Fields that actually changed */
+  changed: string[]
+  /** `patch` = edited in place, `recreate` = replaced by a new schedule id */
+  method?: 'noop' | 'patch' | 'recreate'
+  /** Id of the replaced schedule when `method` is `recreate` */
+  replaced_id?: string | null
+  /** Replacement schedule left behind by a failed recreate; it needs deleting by hand */
+  orphaned_id?: string | null
+  error?: string
+}
+
+/**
+ * Edit a schedule. When `current` is given only differing fields are sent, and
+ * nothing is sent when nothing changed. The server falls back to replacing the
+ * schedule (new id, execution history kept) when it cannot be edited in place.
+ */
+export async function updateSchedule(
+  scheduleId: string,
+  changes: ScheduleChanges,
+  current?: Schedule
+): Promise<ScheduleUpdateResult> {
+  const fields = Object.fromEntries(
+    Object.entries(changes).filter(([key, value]) =>
+      value !== undefined && (!current || current[key as keyof Schedule] !== value)
+    )
+  )
+  if (current && Object.keys(fields).length === 0) {
+    return { success: true, schedule: current, changed: [], method: 'noop' }
+  }
+
+  try {
+    const res = await fetch('/api/scheduler', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'update', scheduleId, ...fields }),
+    })
+    const data = await res.json()
+    if (!data.success) {
+      return { success: false, changed: data.changed || [], orphaned_id: data.orphaned_id, error: data.error }
+    }
+    return {
+      success: true,
+      schedule: data.schedule,
+      changed: data.changed || [],
+      method: data.method,
+      replaced_id: data.replaced_id,
+    }
+  } catch (error) {
+    return { success: false, changed: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // DELETE
 // ---------------------------------------------------------------------------
@@ -283,55 +444,268 @@ export async function deleteSchedule(scheduleId: string): Promise<ApiResult> {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Webhooks — POSTing a JSON payload to `webhook_url` runs the agent with the
+// payload's `message`
+// ---------------------------------------------------------------------------
+
+/** List webhooks, optionally for one agent. */
+export async function listWebhooks(params?: {
+  agentId?: string
+  skip?: number
+  limit?: number
+}): Promise<{ success: boolean; webhooks: Webhook[]; total: number; error?: string }> {
+  try {
+    const qs = buildQuery({ agentId: params?.agentId, skip: params?.skip, limit: params?.limit })
+    const res = await fetch(`/api/scheduler/webhooks?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, webhooks: [], total: 0, error: data.error }
+    return { success: true, webhooks: data.webhooks || [], total: data.total ?? 0 }
+  } catch (error) {
+    return { success: false, webhooks: [], total: 0, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+async function postWebhookAction(body: Record<string, unknown>): Promise<{ success: boolean; webhook?: Webhook; error?: string }> {
+  try {
+    const res = await fetch('/api/scheduler/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Create a webhook that runs `agent_id` when called. */
+export function createWebhook(params: { agent_id: string; description: string }) {
+  return postWebhookAction({ action: 'create', ...params })
+}
+
+/** Enable or disable a webhook; a disabled webhook rejects triggers. */
+export function setWebhookActive(webhookId: string, isActive: boolean) {
+  return postWebhookAction({ action: 'update', webhookId, is_active: isActive })
+}
+
+/** Send a payload to a webhook as an external system would (defaults to the digest message). */
+export function sendWebhookTestPayload(webhookId: string, payload?: Record<string, unknown>) {
+  return postWebhookAction({ action: 'test', webhookId, payload })
+}
+
+/** Permanently delete a webhook. */
+export async function deleteWebhook(webhookId: string): Promise<ApiResult> {
+  try {
+    const res = await fetch('/api/scheduler/webhooks', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ webhookId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Missed runs (see lib/catchUp.ts)
+// ---------------------------------------------------------------------------
+
+export interface WatchdogStatus extends WatchdogReport {
+  default_policy?: CatchUpPolicy
+  policies?: Record<string, CatchUpPolicy>
+  history?: CatchUpRecord[]
+}
+
+/** Missed runs per schedule (without catching up), policies and catch-up history. */
+export async function getMissedRuns(scheduleId?: string): Promise<WatchdogStatus> {
+  try {
+    const res = await fetch(`/api/scheduler/watchdog?${buildQuery({ scheduleId })}`)
+    return res.json()
+  } catch (error) {
+    return {
+      success: false,
+      checked_at: new Date().toISOString(),
+      dry_run: true,
+      schedules: [],
+      catch_ups: [],
+      errors: [],
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/** Detect missed runs now and apply catch-up policies. */
+export async function runCatchUp(scheduleId?: string): Promise<WatchdogReport> {
+  try {
+    const res = await fetch('/api/scheduler/watchdog', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'run', scheduleId }),
+    })
+    return res.json()
+  } catch (error) {
+    return {
+      success: false,
+      checked_at: new Date().toISOString(),
+      dry_run: false,
+      schedules: [],
+      catch_ups: [],
+      errors: [],
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/** Set what happens when a schedule misses fire times. */
+export async function setCatchUpPolicy(scheduleId: string, policy: CatchUpPolicy): Promise<ApiResult> {
+  try {
+    const res = await fetch('/api/scheduler/watchdog', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'policy', scheduleId, policy }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Cron helpers
 // ---------------------------------------------------------------------------
 
-/** Convert a 5-part cron expression to human-readable text. */
-export function cronToHuman(cron: string): string {
-  if (!cron || typeof cron !== 'string') return cron ?? 'No schedule'
-  const parts = cron.split(' ')
-  if (parts.length !== 5) return cron
-
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
-
-  if (dayOfMonth === '*' && month === '*') {
-    if (dayOfWeek === '*') {
-      if (hour === '*') {
-        if (minute.startsWith('*/')) return `Every ${minute.slice(2)} minutes`
-        return `Every hour at :${minute.padStart(2, '0')}`
-      }
-      if (hour.startsWith('*/')) return `Every ${hour.slice(2)} hours`
-      return `Every day at ${hour}:${minute.padStart(2, '0')}`
+/** Daily cron expression for a `HH:MM` time, e.g. `09:30` → `30 9 * * *`. */
+export function timeToDailyCron(time: string): string {
+  const [hour, minute] = time.split(':').map(part => parseInt(part, 10))
+  return `${Number.isFinite(minute) ? minute : 0} ${Number.isFinite(hour) ? hour : 0} * * *`
+}
+
+/** Schedule shapes offered by the schedule builder; `custom` holds any other cron. */
+export type ScheduleRecurrence =
+  | { kind: 'daily'; time: string }
+  | { kind: 'weekdays'; time: string }
+  | { kind: 'weekly'; time: string; days: number[] }
+  | { kind: 'hourly'; every: number; minute: number }
+  | { kind: 'monthly'; time: string; day: number }
+  | { kind: 'custom'; cron: string }
+
+function splitTime(time: string): [number, number] {
+  const [hour, minute] = time.split(':').map(part => parseInt(part, 10))
+  return [Number.isFinite(hour) ? hour : 0, Number.isFinite(minute) ? minute : 0]
+}
+
+function joinTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+/** Cron expression for a builder recurrence. */
+export function recurrenceToCron(recurrence: ScheduleRecurrence): string {
+  if (recurrence.kind === 'custom') return recurrence.cron.trim()
+  if (recurrence.kind === 'hourly') {
+    const every = Math.max(1, Math.min(23, Math.floor(recurrence.every) || 1))
+    return `${recurrence.minute} ${every === 1 ? '*' : `*/${every}`} * * *`
+  }
+
+  const [hour, minute] = splitTime(recurrence.time)
+  switch (recurrence.kind) {
+    case 'daily':
+      return `${minute} ${hour} * * *`
+    case 'weekdays':
+      return `${minute} ${hour} * * 1-5`
+    case 'weekly': {
+      const days = Array.from(new Set(recurrence.days)).sort((a, b) => a - b)
+      return `${minute} ${hour} * * ${days.length ? days.join(',') : '*'}`
     }
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    if (dayOfWeek === '1-5') return `Weekdays at ${hour}:${minute.padStart(2, '0')}`
-    if (dayOfWeek === '0,6') return `Weekends at ${hour}:${minute.padStart(2, '0')}`
-    const dayName = days[parseInt(dayOfWeek)] || dayOfWeek
-    return `Every ${dayName} at ${hour}:${minute.padStart(2, '0')}`
+    case 'monthly':
+      return `${minute} ${hour} ${recurrence.day} * *`
+  }
+}
+
+function sameSchedule(a: CronExpression, b: CronExpression): boolean {
+  const fields = ['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'] as const
+  return fields.every(field => a[field].values.join(',') === b[field].values.join(','))
+}
+
+/**
+ * Builder recurrence for a cron expression. Anything the builder cannot
+ * reproduce exactly (or that does not parse) comes back as `custom`, so
+ * recurrenceToCron(cronToRecurrence(x)) always fires at the same times as x.
+ */
+export function cronToRecurrence(cron: string): ScheduleRecurrence {
+  let parsed: CronExpression
+  try {
+    parsed = parseCron(cron)
+  } catch {
+    return { kind: 'custom', cron: cron || '' }
   }
 
-  if (dayOfMonth !== '*' && month === '*') {
-    return `Day ${dayOfMonth} of every month at ${hour}:${minute.padStart(2, '0')}`
+  const { minute, hour, dayOfMonth, dayOfWeek } = parsed
+  const candidates: ScheduleRecurrence[] = []
+  if (minute.values.length === 1) {
+    const m = minute.values[0]
+    if (hour.values.length === 1) {
+      const time = joinTime(hour.values[0], m)
+      candidates.push(
+        { kind: 'daily', time },
+        { kind: 'weekdays', time },
+        { kind: 'weekly', time, days: dayOfWeek.values },
+      )
+      if (dayOfMonth.values.length === 1) candidates.push({ kind: 'monthly', time, day: dayOfMonth.values[0] })
+    } else if (hour.all || (hour.step && hour.values[0] === 0)) {
+      candidates.push({ kind: 'hourly', every: hour.all ? 1 : hour.step!, minute: m })
+    }
   }
 
-  return cron
+  const match = candidates.find(candidate => {
+    try {
+      return sameSchedule(parseCron(recurrenceToCron(candidate)), parsed)
+    } catch {
+      return false
+    }
+  })
+  return match || { kind: 'custom', cron: parsed.source }
+}
+
+/** Convert a 5-part cron expression to human-readable text (raw string when invalid). */
+export function cronToHuman(cron: string): string {
+  if (!cron || typeof cron !== 'string') return cron ?? 'No schedule'
+  try {
+    return describeCron(cron)
+  } catch {
+    return cron
+  }
 }
 
 // ---------------------------------------------------------------------------
 // React hook
 // ---------------------------------------------------------------------------
 
+export type BulkScheduleAction = 'pause' | 'resume' | 'delete'
+
+export interface BulkScheduleResult {
+  succeeded: string[]
+  failed: Array<{ scheduleId: string; error: string }>
+}
+
+type ListParams = { agentId?: string; is_active?: boolean; skip?: number; limit?: number }
+
 /** React hook for managing schedules with loading/error state. */
 export function useScheduler() {
   const [schedules, setSchedules] = useState<Schedule[]>([])
   const [total, setTotal] = useState(0)
+  const [lastParams, setLastParams] = useState<ListParams | undefined>(undefined)
+  const [logs, setLogs] = useState<ExecutionLog[]>([])
+  const [logsTotal, setLogsTotal] = useState(0)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchSchedules = async (params?: { agentId?: string; is_active?: boolean }) => {
+  // Stable, so pages can use them as effect dependencies
+  const fetchSchedules = useCallback(async (params?: ListParams) => {
     setLoading(true)
     setError(null)
+    setLastParams(params)
     const result = await listSchedules(params)
     if (result.success) {
       setSchedules(result.schedules)
@@ -341,7 +715,10 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
+
+  /** Re-run the last fetchSchedules call (same filters and page). */
+  const refresh = () => fetchSchedules(lastParams)
 
   const toggleSchedule = async (schedule: Schedule) => {
     setLoading(true)
@@ -349,7 +726,9 @@ export function useScheduler() {
     const result = schedule.is_active
       ? await pauseSchedule(schedule.id)
       : await resumeSchedule(schedule.id)
-    if (!result.success) {
+    if (result.success) {
+      setSchedules(prev => prev.map(s => (s.id === schedule.id ? { ...s, is_active: !schedule.is_active } : s)))
+    } else {
       setError(result.error || 'Failed to toggle schedule')
     }
     setLoading(false)
@@ -381,14 +760,104 @@ export function useScheduler() {
     return result
   }
 
+  const create = async (params: Parameters<typeof createSchedule>[0]) => {
+    setLoading(true)
+    setError(null)
+    const result = await createSchedule(params)
+    if (!result.success) {
+      setError(result.error || 'Failed to create schedule')
+    }
+    setLoading(false)
+    return result
+  }
+
+  /** Pause, resume or delete several schedules; one failure does not stop the rest. */
+  const bulk = async (action: BulkScheduleAction, scheduleIds: string[]): Promise<BulkScheduleResult> => {
+    setLoading(true)
+    setError(null)
+    const run = action === 'pause' ? pauseSchedule : action === 'resume' ? resumeSchedule : deleteSchedule
+    const outcome: BulkScheduleResult = { succeeded: [], failed: [] }
+    // Sequential on purpose: the scheduler API rate-limits bursts
+    for (const scheduleId of scheduleIds) {
+      const result = await run(scheduleId)
+      if (result.success) outcome.succeeded.push(scheduleId)
+      else outcome.failed.push({ scheduleId, error: result.error || `Failed to ${action} schedule` })
+    }
+
+    const done = new Set(outcome.succeeded)
+    if (action === 'delete') {
+      setSchedules(prev => prev.filter(s => !done.has(s.id)))
+      setTotal(prev => prev - done.size)
+    } else {
+      setSchedules(prev => prev.map(s => (done.has(s.id) ? { ...s, is_active: action === 'resume' } : s)))
+    }
+    if (outcome.failed.length) {
+      setError(`${outcome.failed.length} of ${scheduleIds.length} schedules failed to ${action}: ${outcome.failed[0].error}`)
+    }
+    setLoading(false)
+    return outcome
+  }
+
+  const fetchLogs = useCallback(async (scheduleId: string, params?: { skip?: number; limit?: number }) => {
+    setLoading(true)
+    setError(null)
+    const result = await getScheduleLogs(scheduleId, params)
+    if (result.success) {
+      setLogs(result.executions)
+      setLogsTotal(result.total)
+    } else {
+      setError(result.error || 'Failed to fetch execution logs')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
   return {
     schedules,
     total,
+    logs,
+    logsTotal,
     loading,
     error,
     fetchSchedules,
+    refresh,
     toggleSchedule,
     trigger,
     remove,
+    create,
+    bulk,
+    fetchLogs,
   }
 }
+
+/** React hook for a single Run Now at a time, with live progress and cancel. */
+export function useScheduleRun() {
+  const [progress, setProgress] = useState<ScheduleRunProgress | null>(null)
+  const controller = useRef<AbortController | null>(null)
+
+  const run = async (scheduleId: string, options?: Omit<ScheduleRunOptions, 'signal' | 'onProgress'>) => {
+    controller.current?.abort()
+    const current = new AbortController()
+    controller.current = current
+    const result = await runScheduleNow(scheduleId, {
+      ...options,
+      signal: current.signal,
+      // A superseded run must not overwrite the progress of the one replacing it
+      onProgress: update => {
+        if (controller.current === current) setProgress(update)
+      },
+    })
+    if (controller.current === current) controller.current = null
+    return result
+  }
+
+  const cancel = useCallback(() => controller.current?.abort(), [])
+  const reset = useCallback(() => {
+    controller.current?.abort()
+    setProgress(null)
+  }, [])
+
+  const running = !!progress && ['triggering', 'waiting', 'retrying'].includes(progress.phase)
+
+  return { progress, running, run, cancel, reset }
+}
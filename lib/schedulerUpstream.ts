@@ -0,0 +1,206 @@
+/**
+ * Lyzr Scheduler Upstream
+ *
+ * Server-side access to https://scheduler.studio.lyzr.ai for API routes and
+ * background jobs. The browser goes through /api/scheduler instead (see
+ * lib/scheduler.ts); this module is for code that already runs on the server.
+ *
+ * SCHEDULER_BACKEND=local swaps the remote scheduler for the in-process engine
+ * in lib/localScheduler.ts; every scheduler call goes through schedulerFetch.
+ * With LYZR_UPSTREAM=mock (and no local backend) calls are answered from
+ * fixtures by lib/mockUpstream.ts.
+ */
+
+import type { ExecutionLog, Schedule, Webhook } from '@/lib/scheduler'
+import { handleLocalSchedulerRequest } from '@/lib/localScheduler'
+import { isMockUpstream, upstreamFetch } from '@/lib/mockUpstream'
+
+export const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
+const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+/** True when SCHEDULER_BACKEND=local (no LYZR_API_KEY needed for scheduling). */
+export function isLocalScheduler(): boolean {
+  return process.env.SCHEDULER_BACKEND === 'local'
+}
+
+/** fetch() for scheduler URLs; answered in-process when the local backend is selected. */
+export function schedulerFetch(url: string, init?: RequestInit): Promise<Response> {
+  return isLocalScheduler() ? handleLocalSchedulerRequest(url, init) : upstreamFetch(url, init)
+}
+
+export function getSchedulerHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    'accept': 'application/json',
+    'x-api-key': LYZR_API_KEY,
+  }
+}
+
+export interface UpstreamResult<T> {
+  ok: boolean
+  status: number
+  data?: T
+  error?: string
+  details?: string
+}
+
+type Query = Record<string, string | number | boolean | undefined | null>
+
+async function schedulerRequest<T>(
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  path: string,
+  options?: { query?: Query; body?: unknown }
+): Promise<UpstreamResult<T>> {
+  if (!LYZR_API_KEY && !isLocalScheduler() && !isMockUpstream()) {
+    return { ok: false, status: 500, error: 'LYZR_API_KEY not configured on server' }
+  }
+
+  const qs = new URLSearchParams()
+  for (const [key, value] of Object.entries(options?.query || {})) {
+    if (value !== undefined && value !== null) qs.set(key, String(value))
+  }
+  const url = `${SCHEDULER_BASE_URL}${path}${qs.toString() ? `?${qs}` : ''}`
+
+  try {
+    const response = await schedulerFetch(url, {
+      method,
+      headers: getSchedulerHeaders(),
+      cache: 'no-store',
+      ...(options?.body !== undefined && { body: JSON.stringify(options.body) }),
+    })
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: response.status,
+        error: `Scheduler API error: ${response.status}`,
+        details: await response.text(),
+      }
+    }
+    // DELETE answers 204 and trigger answers 202 with a plain string
+    const text = await response.text()
+    let data: T | undefined
+    try {
+      data = text ? JSON.parse(text) : undefined
+    } catch {
+      data = text as unknown as T
+    }
+    return { ok: true, status: response.status, data }
+  } catch (error) {
+    return { ok: false, status: 500, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+function schedulerGet<T>(path: string, query?: Query) {
+  return schedulerRequest<T>('GET', path, { query })
+}
+
+/** GET /schedules/{schedule_id} */
+export function fetchSchedule(scheduleId: string) {
+  return schedulerGet<Schedule>(`/schedules/${scheduleId}`)
+}
+
+/** POST /schedules/ */
+export function createUpstreamSchedule(params: {
+  agent_id: string
+  cron_expression: string
+  message: string
+  timezone?: string
+  max_retries?: number
+  retry_delay?: number
+}) {
+  return schedulerRequest<Schedule>('POST', '/schedules/', {
+    body: {
+      agent_id: params.agent_id,
+      cron_expression: params.cron_expression,
+      message: params.message,
+      timezone: params.timezone || 'UTC',
+      user_id: LYZR_API_KEY,
+      max_retries: params.max_retries ?? 3,
+      retry_delay: params.retry_delay ?? 300,
+    },
+  })
+}
+
+/** PATCH /schedules/{schedule_id} — not supported by every scheduler deployment */
+export function patchUpstreamSchedule(scheduleId: string, fields: Partial<Schedule>) {
+  return schedulerRequest<Schedule>('PATCH', `/schedules/${scheduleId}`, { body: fields })
+}
+
+/** POST /schedules/{schedule_id}/pause */
+export function pauseUpstreamSchedule(scheduleId: string) {
+  return schedulerRequest<Schedule>('POST', `/schedules/${scheduleId}/pause`)
+}
+
+/** POST /schedules/{schedule_id}/trigger — answers 202 and runs asynchronously */
+export function triggerUpstreamSchedule(scheduleId: string) {
+  return schedulerRequest<string>('POST', `/schedules/${scheduleId}/trigger`)
+}
+
+/** DELETE /schedules/{schedule_id} */
+export function deleteUpstreamSchedule(scheduleId: string) {
+  return schedulerRequest<void>('DELETE', `/schedules/${scheduleId}`)
+}
+
+/** GET /schedules/{schedule_id}/logs */
+export function fetchScheduleLogs(scheduleId: string, params?: { skip?: number; limit?: number }) {
+  return schedulerGet<{ executions?: ExecutionLog[]; total?: number }>(
+    `/schedules/${scheduleId}/logs`,
+    { skip: params?.skip, limit: params?.limit }
+  )
+}
+
+/** GET /schedules/executions/recent */
+export function fetchRecentExecutions(params?: {
+  agentId?: string
+  success?: boolean
+  hours?: number
+  days?: number
+  skip?: number
+  limit?: number
+}) {
+  return schedulerGet<{ executions?: ExecutionLog[]; total?: number }>('/schedules/executions/recent', {
+    agent_id: params?.agentId,
+    success: params?.success,
+    hours: params?.hours,
+    days: params?.days,
+    skip: params?.skip,
+    limit: params?.limit,
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Webhooks — an agent run triggered by POSTing to the webhook's `webhook_url`
+// (/webhooks/{webhook_id}/trigger); the JSON payload's `message` is sent to the agent
+// ---------------------------------------------------------------------------
+
+/** GET /webhooks/ */
+export function fetchWebhooks(params?: { agentId?: string; skip?: number; limit?: number }) {
+  return schedulerGet<{ webhooks?: Webhook[]; total?: number }>('/webhooks/', {
+    user_id: LYZR_API_KEY,
+    agent_id: params?.agentId,
+    skip: params?.skip,
+    limit: params?.limit,
+  })
+}
+
+/** POST /webhooks/ */
+export function createUpstreamWebhook(params: { agent_id: string; description: string }) {
+  return schedulerRequest<Webhook>('POST', '/webhooks/', {
+    body: { agent_id: params.agent_id, description: params.description, user_id: LYZR_API_KEY },
+  })
+}
+
+/** PATCH /webhooks/{webhook_id} */
+export function patchUpstreamWebhook(webhookId: string, fields: Partial<Pick<Webhook, 'description' | 'is_active'>>) {
+  return schedulerRequest<Webhook>('PATCH', `/webhooks/${webhookId}`, { body: fields })
+}
+
+/** DELETE /webhooks/{webhook_id} */
+export function deleteUpstreamWebhook(webhookId: string) {
+  return schedulerRequest<void>('DELETE', `/webhooks/${webhookId}`)
+}
+
+/** POST /webhooks/{webhook_id}/trigger — answers 202 and runs asynchronously */
+export function triggerUpstreamWebhook(webhookId: string, payload: Record<string, unknown>) {
+  return schedulerRequest<string>('POST', `/webhooks/${webhookId}/trigger`, { body: payload })
+}
@@ -0,0 +1,198 @@
+/**
+ * Agent Response Schema Validation
+ *
+ * Server-side utility for API routes. Loads every response_schemas/*.json file,
+ * compiles its example-style `response_schema` into a validator and looks the
+ * validators up by `agent_id`.
+ *
+ * Schema notation (as generated for each agent):
+ *   "string" | "number" | "boolean"   primitive of that type
+ *   [ <item schema> ]                 array whose items all match the item schema
+ *   { key: <schema>, ... }            object with each listed key present
+ * Keys that are not in the schema are allowed.
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SchemaValidationError {
+  /** Dotted path to the offending value, e.g. `categories[0].stories`. Empty for the root. */
+  path: string
+  expected: string
+  actual_type: string
+  actual: unknown
+}
+
+export interface SchemaValidationResult {
+  valid: boolean
+  schema: string
+  errors: SchemaValidationError[]
+}
+
+export type CompiledValidator = (value: unknown) => SchemaValidationError[]
+
+interface ResponseSchemaFile {
+  agent_name?: string
+  agent_id?: string
+  response_schema?: unknown
+}
+
+const SCHEMA_DIR = path.join(process.cwd(), 'response_schemas')
+const MAX_ACTUAL_LENGTH = 200
+
+// ---------------------------------------------------------------------------
+// Compiler
+// ---------------------------------------------------------------------------
+
+function describeType(value: unknown): string {
+  if (value === undefined) return 'missing'
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+// Keep error payloads small: strings are truncated, containers summarized
+function previewValue(value: unknown): unknown {
+  if (value === undefined) return null
+  if (typeof value === 'string') {
+    return value.length > MAX_ACTUAL_LENGTH ? `${value.slice(0, MAX_ACTUAL_LENGTH)}…` : value
+  }
+  if (Array.isArray(value)) return `[array(${value.length})]`
+  if (value && typeof value === 'object') return `{${Object.keys(value).slice(0, 10).join(', ')}}`
+  return value
+}
+
+function mismatch(path: string, expected: string, value: unknown): SchemaValidationError {
+  return { path, expected, actual_type: describeType(value), actual: previewValue(value) }
+}
+
+function joinPath(base: string, key: string) {
+  return base ? `${base}.${key}` : key
+}
+
+type NodeValidator = (value: unknown, path: string, errors: SchemaValidationError[]) => void
+
+function compileNode(schema: unknown, schemaPath: string): NodeValidator {
+  if (Array.isArray(schema)) {
+    const item = schema.length > 0 ? compileNode(schema[0], `${schemaPath}[]`) : null
+    return (value, path, errors) => {
+      if (!Array.isArray(value)) {
+        errors.push(mismatch(path, 'array', value))
+        return
+      }
+      if (item) value.forEach((entry, idx) => item(entry, `${path}[${idx}]`, errors))
+    }
+  }
+
+  if (schema && typeof schema === 'object') {
+    const fields = Object.entries(schema as Record<string, unknown>).map(
+      ([key, child]) => [key, compileNode(child, joinPath(schemaPath, key))] as const
+    )
+    return (value, path, errors) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(mismatch(path, 'object', value))
+        return
+      }
+      for (const [key, validate] of fields) {
+        validate((value as Record<string, unknown>)[key], joinPath(path, key), errors)
+      }
+    }
+  }
+
+  if (schema === 'string' || schema === 'number' || schema === 'boolean') {
+    return (value, path, errors) => {
+      const ok = schema === 'number'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === schema
+      if (!ok) errors.push(mismatch(path, schema, value))
+    }
+  }
+
+  throw new Error(`Unsupported schema type at "${schemaPath || '<root>'}": ${JSON.stringify(schema)}`)
+}
+
+/** Compile an example-style response schema into a reusable validator. */
+export function compileSchema(schema: unknown): CompiledValidator {
+  const root = compileNode(schema, '')
+  return (value) => {
+    const errors: SchemaValidationError[] = []
+    root(value, '', errors)
+    return errors
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry (keyed by agent_id)
+// ---------------------------------------------------------------------------
+
+interface RegisteredSchema {
+  name: string
+  schema: unknown
+  validate: CompiledValidator
+}
+
+let registry: Map<string, RegisteredSchema> | null = null
+
+function loadRegistry(): Map<string, RegisteredSchema> {
+  const map = new Map<string, RegisteredSchema>()
+  let files: string[] = []
+  try {
+    files = fs.readdirSync(SCHEMA_DIR).filter(f => f.endsWith('.json'))
+  } catch {
+    return map
+  }
+
+  for (const file of files) {
+    try {
+      const parsed: ResponseSchemaFile = JSON.parse(fs.readFileSync(path.join(SCHEMA_DIR, file), 'utf8'))
+      if (!parsed.agent_id || parsed.response_schema === undefined) continue
+      map.set(parsed.agent_id, {
+        name: file.replace(/\.json$/, ''),
+        schema: parsed.response_schema,
+        validate: compileSchema(parsed.response_schema),
+      })
+    } catch (error) {
+      console.error(`Failed to load response schema ${file}:`, error)
+    }
+  }
+  return map
+}
+
+function getRegistry() {
+  if (!registry) registry = loadRegistry()
+  return registry
+}
+
+/** True when a response schema is registered for the agent. */
+export function hasResponseSchema(agentId: string): boolean {
+  return getRegistry().has(agentId)
+}
+
+/** Raw response schema registered for the agent, if any. */
+export function getResponseSchema(agentId: string): unknown {
+  return getRegistry().get(agentId)?.schema ?? null
+}
+
+/**
+ * Validate an agent result against its registered response schema.
+ * Returns null when the agent has no schema.
+ */
+export function validateAgentResult(agentId: string, value: unknown): SchemaValidationResult | null {
+  const entry = getRegistry().get(agentId)
+  if (!entry) return null
+  const errors = entry.validate(value)
+  return { valid: errors.length === 0, schema: entry.name, errors }
+}
+
+/** One-line summary of validation errors, for logs and status messages. */
+export function formatValidationErrors(errors: SchemaValidationError[], max = 3): string {
+  const shown = errors
+    .slice(0, max)
+    .map(e => `${e.path || '<root>'}: expected ${e.expected}, got ${e.actual_type}`)
+  const more = errors.length > max ? ` (+${errors.length - max} more)` : ''
+  return shown.join('; ') + more
+}
@@ -0,0 +1,306 @@
+/**
+ * Digest Archive Search
+ *
+ * Server-side, in-process inverted index over every archived story (headline,
+ * summary, source, category, digest date). The index is rebuilt lazily when the
+ * archive changes.
+ *
+ * Query syntax:
+ *   anthropic funding          all words must match (any field)
+ *   "series b"                 exact phrase
+ *   category:research          story category (prefix match, quotes allowed)
+ *   source:"the verge"         story source (prefix match, quotes allowed)
+ *   after:2026-01-01           archived on or after the date
+ *   before:2026-02-01          archived before the date
+ *   date:2026-01-15            archived on that day; `date:2026-01-01..2026-01-31` for a range
+ */
+
+import { getDigestStore, MAX_PAGE_SIZE } from '@/lib/digestStore'
+import type { SearchHit, SearchQuery, SearchResponse, StoredDigest, TextRange } from '@/lib/digest'
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+function normalizeTerm(raw: string): string {
+  return raw.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+}
+
+export function tokenize(text: string): Token[] {
+  const out: Token[] = []
+  // Latin (incl. accented), Greek and Cyrillic letters plus digits
+  const pattern = /[a-z0-9\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text || '')) !== null) {
+    out.push({ term: normalizeTerm(match[0]), start: match.index, end: match.index + match[0].length })
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Query parser
+// ---------------------------------------------------------------------------
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00.000Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+export function parseQuery(q: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], phrases: [], categories: [], sources: [] }
+  const pattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(q || '')) !== null) {
+    const field = (match[1] || match[3] || '').toLowerCase()
+    const value = match[2] ?? match[4] ?? ''
+
+    if (field === 'category' || field === 'source') {
+      const normalized = tokenize(value).map(t => t.term).join(' ')
+      if (normalized) (field === 'category' ? parsed.categories : parsed.sources).push(normalized)
+    } else if (field === 'after' && DATE_RE.test(value)) {
+      parsed.after = value
+    } else if (field === 'before' && DATE_RE.test(value)) {
+      parsed.before = value
+    } else if (field === 'date') {
+      const [from, to] = value.split('..')
+      if (DATE_RE.test(from)) parsed.after = from
+      if (to === undefined && DATE_RE.test(from)) parsed.before = nextDay(from)
+      else if (to && DATE_RE.test(to)) parsed.before = nextDay(to)
+    } else if (match[5] !== undefined) {
+      const phrase = tokenize(match[5]).map(t => t.term)
+      if (phrase.length === 1) parsed.terms.push(phrase[0])
+      else if (phrase.length > 1) parsed.phrases.push(phrase)
+    } else {
+      // Unknown `field:value` pairs and bare words are searched as plain text
+      tokenize(match[0]).forEach(t => parsed.terms.push(t.term))
+    }
+  }
+  return parsed
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+type Field = 'headline' | 'summary' | 'source' | 'category'
+const FIELDS: Field[] = ['headline', 'summary', 'source', 'category']
+const FIELD_WEIGHTS: Record<Field, number> = { headline: 3, summary: 1, source: 1.5, category: 1 }
+
+interface IndexedStory {
+  digest: StoredDigest
+  category_index: number
+  story_index: number
+  fields: Record<Field, string>
+  tokens: Record<Field, Token[]>
+  /** YYYY-MM-DD of when the digest was archived */
+  day: string
+}
+
+interface SearchIndex {
+  signature: string
+  docs: IndexedStory[]
+  /** term → ids of the stories containing it in any field */
+  postings: Map<string, Set<number>>
+}
+
+let cached: SearchIndex | null = null
+
+async function loadAllDigests(): Promise<StoredDigest[]> {
+  const store = getDigestStore()
+  const all: StoredDigest[] = []
+  for (let skip = 0; ; skip += MAX_PAGE_SIZE) {
+    const page = await store.list({ skip, limit: MAX_PAGE_SIZE })
+    all.push(...page.digests)
+    if (page.digests.length < MAX_PAGE_SIZE) return all
+  }
+}
+
+function buildIndex(digests: StoredDigest[], signature: string): SearchIndex {
+  const docs: IndexedStory[] = []
+  const postings = new Map<string, Set<number>>()
+
+  digests.forEach(digest => {
+    (digest.data.categories || []).forEach((category, categoryIndex) => {
+      (category.stories || []).forEach((story, storyIndex) => {
+        if (!story) return
+        const fields: Record<Field, string> = {
+          headline: story.headline || '',
+          summary: story.summary || '',
+          source: story.source || '',
+          category: category.category_name || '',
+        }
+        const doc = docs.length
+        const tokens = {} as Record<Field, Token[]>
+        for (const field of FIELDS) {
+          tokens[field] = tokenize(fields[field])
+          tokens[field].forEach(token => {
+            const entry = postings.get(token.term) || new Set<number>()
+            entry.add(doc)
+            postings.set(token.term, entry)
+          })
+        }
+        docs.push({
+          digest,
+          category_index: categoryIndex,
+          story_index: storyIndex,
+          fields,
+          tokens,
+          day: digest.created_at.slice(0, 10),
+        })
+      })
+    })
+  })
+
+  return { signature, docs, postings }
+}
+
+async function getIndex(): Promise<SearchIndex> {
+  const digests = await loadAllDigests()
+  const signature = `${digests.length}:${digests.map(d => d.id).join(',')}`
+  if (!cached || cached.signature !== signature) {
+    cached = buildIndex(digests, signature)
+  }
+  return cached
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+// Start positions of a phrase within one field of a document
+function phraseMatches(tokens: Token[], phrase: string[]): number[] {
+  const starts: number[] = []
+  for (let i = 0; i <= tokens.length - phrase.length; i++) {
+    if (phrase.every((term, j) => tokens[i + j].term === term)) starts.push(i)
+  }
+  return starts
+}
+
+function fieldMatches(value: string, needle: string): boolean {
+  const normalized = tokenize(value).map(t => t.term).join(' ')
+  return normalized.startsWith(needle)
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start)
+  const merged: TextRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end)
+    else merged.push({ ...range })
+  }
+  return merged
+}
+
+export async function searchArchive(
+  q: string,
+  options?: { skip?: number; limit?: number; agentId?: string }
+): Promise<SearchResponse> {
+  const query = parseQuery(q)
+  const skip = Math.max(0, options?.skip ?? 0)
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, options?.limit ?? 20))
+  const index = await getIndex()
+
+  const textTerms = [...query.terms, ...query.phrases.flat()]
+  const hasFilters = query.categories.length > 0 || query.sources.length > 0 || !!query.after || !!query.before
+  if (textTerms.length === 0 && !hasFilters) {
+    return { success: true, query, results: [], total: 0, skip, limit }
+  }
+
+  // Candidate documents: intersection of every term's posting list
+  let candidates: Set<number> | null = null
+  for (const term of textTerms) {
+    const docs = index.postings.get(term) || new Set<number>()
+    candidates = candidates === null
+      ? docs
+      : new Set(Array.from(candidates).filter(doc => docs.has(doc)))
+    if (candidates.size === 0) break
+  }
+  const pool: number[] = candidates ? Array.from(candidates) : index.docs.map((_, i) => i)
+
+  const hits: Array<SearchHit & { sortKey: string }> = []
+  for (const docId of pool) {
+    const doc = index.docs[docId]
+    if (options?.agentId && doc.digest.agent_id !== options.agentId) continue
+    if (query.after && doc.day < query.after) continue
+    if (query.before && doc.day >= query.before) continue
+    if (query.categories.length && !query.categories.some(c => fieldMatches(doc.fields.category, c))) continue
+    if (query.sources.length && !query.sources.some(s => fieldMatches(doc.fields.source, s))) continue
+
+    const highlights: Record<'headline' | 'summary' | 'source', TextRange[]> = { headline: [], summary: [], source: [] }
+    let score = 0
+    let phrasesOk = true
+
+    for (const phrase of query.phrases) {
+      let found = false
+      for (const field of FIELDS) {
+        const starts = phraseMatches(doc.tokens[field], phrase)
+        if (starts.length === 0) continue
+        found = true
+        score += starts.length * FIELD_WEIGHTS[field] * phrase.length
+        if (field !== 'category') {
+          starts.forEach(start => highlights[field].push({
+            start: doc.tokens[field][start].start,
+            end: doc.tokens[field][start + phrase.length - 1].end,
+          }))
+        }
+      }
+      if (!found) {
+        phrasesOk = false
+        break
+      }
+    }
+    if (!phrasesOk) continue
+
+    for (const term of query.terms) {
+      for (const field of FIELDS) {
+        const tokens = doc.tokens[field].filter(t => t.term === term)
+        if (tokens.length === 0) continue
+        score += tokens.length * FIELD_WEIGHTS[field]
+        if (field !== 'category') tokens.forEach(t => highlights[field].push({ start: t.start, end: t.end }))
+      }
+    }
+
+    if (query.sources.length) highlights.source.push({ start: 0, end: doc.fields.source.length })
+
+    const story = doc.digest.data.categories[doc.category_index].stories[doc.story_index]
+    hits.push({
+      digest_id: doc.digest.id,
+      digest_date: doc.digest.digest_date,
+      created_at: doc.digest.created_at,
+      category: doc.fields.category,
+      category_index: doc.category_index,
+      story_index: doc.story_index,
+      story,
+      score: Math.round(score * 100) / 100,
+      highlights: {
+        headline: mergeRanges(highlights.headline),
+        summary: mergeRanges(highlights.summary),
+        source: mergeRanges(highlights.source),
+      },
+      sortKey: doc.digest.created_at,
+    })
+  }
+
+  // Best match first, newest first among equal scores
+  hits.sort((a, b) => b.score - a.score || b.sortKey.localeCompare(a.sortKey))
+
+  return {
+    success: true,
+    query,
+    results: hits.slice(skip, skip + limit).map(({ sortKey: _, ...hit }) => hit),
+    total: hits.length,
+    skip,
+    limit,
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Slack Block Kit Rendering
+ *
+ * Renders a digest as Slack messages: a header and summary line, then per
+ * category a divider and title followed by each story as a section (linked
+ * headline + summary) and a context block (source link). Pure, like
+ * lib/digestExport.ts; lib/slackDelivery.ts does the posting.
+ *
+ * Slack accepts at most 50 blocks per message, so long digests are split into
+ * several messages. Splits fall between stories; a category cut in two gets a
+ * "(continued)" title, and every message after the first starts with a
+ * "part i of n" context line.
+ */
+
+import type { DigestData, Story } from '@/lib/digest'
+
+export const MAX_BLOCKS_PER_MESSAGE = 50
+
+const DEFAULT_TITLE = 'AI News Digest'
+const HEADER_MAX_CHARS = 150
+const TEXT_MAX_CHARS = 3000
+
+export interface SlackTextObject {
+  type: 'plain_text' | 'mrkdwn'
+  text: string
+  emoji?: boolean
+}
+
+export type SlackBlock =
+  | { type: 'header'; text: SlackTextObject }
+  | { type: 'section'; text: SlackTextObject }
+  | { type: 'context'; elements: SlackTextObject[] }
+  | { type: 'divider' }
+
+export interface SlackMessage {
+  /** Notification / fallback text */
+  text: string
+  blocks: SlackBlock[]
+}
+
+export interface SlackRenderOptions {
+  title?: string
+  /** Link back to the digest in the app */
+  url?: string
+  maxBlocks?: number
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+
+/** Escape the three characters Slack mrkdwn treats as control characters. */
+export function escapeSlack(text: string): string {
+  return (text || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`
+}
+
+const URL_RE = /https?:\/\/[^\s<>|]+/
+
+/** Split a story `source` ("TechCrunch — https://…" or a bare URL) into label and link. */
+export function parseSource(source: string): { label: string; url: string | null } {
+  const match = URL_RE.exec(source || '')
+  if (!match) return { label: (source || '').trim(), url: null }
+  const url = match[0].replace(/[).,]+$/, '')
+  const label = (source.slice(0, match.index) + source.slice(match.index + match[0].length))
+    .replace(/[\s\-—–:|()[\]]+$/, '')
+    .replace(/^[\s\-—–:|()[\]]+/, '')
+    .trim()
+  if (label) return { label, url }
+  try {
+    return { label: new URL(url).hostname.replace(/^www\./, ''), url }
+  } catch {
+    return { label: url, url }
+  }
+}
+
+const mrkdwn = (text: string): SlackTextObject => ({ type: 'mrkdwn', text: truncate(text, TEXT_MAX_CHARS) })
+
+function categoryTitle(name: string): SlackBlock {
+  return { type: 'section', text: mrkdwn(`*${escapeSlack(name)}*`) }
+}
+
+function storyBlocks(story: Story): SlackBlock[] {
+  const { label, url } = parseSource(story.source)
+  const headline = escapeSlack(story.headline || 'Untitled story')
+  const title = url ? `*<${url}|${headline}>*` : `*${headline}*`
+  const blocks: SlackBlock[] = [
+    { type: 'section', text: mrkdwn(story.summary ? `${title}\n${escapeSlack(story.summary)}` : title) },
+  ]
+  const context: string[] = []
+  if (label || url) context.push(url ? `Source: <${url}|${escapeSlack(label)}>` : `Source: ${escapeSlack(label)}`)
+  if (story.dedup?.status === 'follow_up') context.push('Follow-up to an earlier story')
+  if (context.length > 0) blocks.push({ type: 'context', elements: [mrkdwn(context.join('  ·  '))] })
+  return blocks
+}
+
+// ---------------------------------------------------------------------------
+// Rendering + chunking
+// ---------------------------------------------------------------------------
+
+// Blocks that must stay in one message; a category title travels with its first story
+interface BlockUnit {
+  blocks: SlackBlock[]
+  category?: string
+  firstInCategory?: boolean
+}
+
+/** Render a digest as one or more Slack messages of at most `maxBlocks` blocks. */
+export function renderDigestMessages(data: DigestData, options?: SlackRenderOptions): SlackMessage[] {
+  const title = `${options?.title || DEFAULT_TITLE} — ${data.digest_date}`
+  const maxBlocks = Math.max(6, Math.min(MAX_BLOCKS_PER_MESSAGE, options?.maxBlocks ?? MAX_BLOCKS_PER_MESSAGE))
+  const categories = (Array.isArray(data.categories) ? data.categories : [])
+    .map(c => ({ name: c.category_name || 'Uncategorized', stories: (Array.isArray(c.stories) ? c.stories : []).filter(Boolean) }))
+    .filter(c => c.stories.length > 0)
+  const total = categories.reduce((sum, c) => sum + c.stories.length, 0)
+
+  const summary = [`${total} ${total === 1 ? 'story' : 'stories'} in ${categories.length} ${categories.length === 1 ? 'category' : 'categories'}`]
+  if (options?.url) summary.push(`<${options.url}|View in app>`)
+  const units: BlockUnit[] = [{
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: truncate(title, HEADER_MAX_CHARS), emoji: true } },
+      { type: 'context', elements: [mrkdwn(summary.join('  ·  '))] },
+    ],
+  }]
+  for (const category of categories) {
+    category.stories.forEach((story, index) => {
+      units.push({
+        category: category.name,
+        firstInCategory: index === 0,
+        blocks: index === 0
+          ? [{ type: 'divider' }, categoryTitle(category.name), ...storyBlocks(story)]
+          : storyBlocks(story),
+      })
+    })
+  }
+
+  // Pack units greedily; later messages reserve one block for the part line
+  const chunks: SlackBlock[][] = [[]]
+  for (const unit of units) {
+    let current = chunks[chunks.length - 1]
+    const reserved = chunks.length > 1 ? 1 : 0
+    if (current.length > 0 && current.length + unit.blocks.length + reserved > maxBlocks) {
+      current = []
+      chunks.push(current)
+      if (unit.category && !unit.firstInCategory) current.push(categoryTitle(`${unit.category} (continued)`))
+    }
+    current.push(...unit.blocks)
+  }
+
+  return chunks.map((blocks, index) => index === 0
+    ? { text: `${title}: ${summary[0]}`, blocks }
+    : {
+        text: `${title} (part ${index + 1} of ${chunks.length})`,
+        blocks: [{ type: 'context', elements: [mrkdwn(`${escapeSlack(title)}  ·  part ${index + 1} of ${chunks.length}`)] }, ...blocks],
+      })
+}
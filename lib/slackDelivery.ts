@@ -0,0 +1,141 @@
+/**
+ * Slack Delivery
+ *
+ * Server-side. Posts a validated digest straight to Slack through the Web API
+ * (chat.postMessage) instead of relying on the agent's Slack tool, so the
+ * delivery status reflects what Slack actually answered; the Slack channel in
+ * lib/deliveryChannels.ts posts through here. Messages come from
+ * lib/slackBlocks.ts; when a digest needs several messages the first is posted
+ * to the channel and the rest as thread replies to it.
+ *
+ * Rate limits (HTTP 429) are retried after Slack's Retry-After. With
+ * LYZR_UPSTREAM=mock the Web API is answered by the mock upstream
+ * (lib/mockUpstream.ts), which records what was posted.
+ *
+ * Environment:
+ *   SLACK_BOT_TOKEN        bot token with chat:write (direct delivery is off without it)
+ *   SLACK_DEFAULT_CHANNEL  channel used when none is given, e.g. #ai-news
+ *   SLACK_API_BASE_URL     Web API base (default https://slack.com/api)
+ */
+
+import { isMockUpstream, upstreamFetch } from '@/lib/mockUpstream'
+import { renderDigestMessages, type SlackMessage } from '@/lib/slackBlocks'
+import type { DigestData } from '@/lib/digest'
+
+const DEFAULT_API_BASE_URL = 'https://slack.com/api'
+const MAX_RATE_LIMIT_RETRIES = 2
+const MAX_RETRY_AFTER_SECONDS = 30
+const REQUEST_TIMEOUT_MS = 15000
+
+/** Outcome of posting a digest through the Slack Web API. */
+export interface SlackDeliveryRecord {
+  ok: boolean
+  channel: string
+  /** `ts` of the first message; later parts are thread replies to it */
+  ts: string | null
+  message_ts: string[]
+  posted_at: string
+  error?: string
+}
+
+/** True when digests can be posted directly (a bot token, or the mock upstream). */
+export function isSlackDeliveryConfigured(): boolean {
+  return Boolean(process.env.SLACK_BOT_TOKEN) || isMockUpstream()
+}
+
+// ---------------------------------------------------------------------------
+// Web API client
+// ---------------------------------------------------------------------------
+
+interface SlackApiResponse {
+  ok: boolean
+  error?: string
+  channel?: string
+  ts?: string
+  [key: string]: unknown
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** Call a Slack Web API method; Slack errors come back as `{ ok: false, error }`. */
+async function slackApi(method: string, body: Record<string, unknown>): Promise<SlackApiResponse> {
+  const base = (process.env.SLACK_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '')
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+    let response: Response
+    try {
+      response = await upstreamFetch(`${base}/${method}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN || ''}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'request_failed' }
+    } finally {
+      clearTimeout(timer)
+    }
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const retryAfter = parseInt(response.headers.get('retry-after') || '1', 10) || 1
+      await sleep(Math.min(retryAfter, MAX_RETRY_AFTER_SECONDS) * 1000)
+      continue
+    }
+    if (response.status === 429) return { ok: false, error: 'ratelimited' }
+
+    try {
+      return (await response.json()) as SlackApiResponse
+    } catch {
+      return { ok: false, error: `http_${response.status}` }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/**
+ * Post a digest to `channel` (default SLACK_DEFAULT_CHANNEL). The result is
+ * ok only when every part was accepted.
+ */
+export async function postDigestToSlack(
+  data: DigestData,
+  options?: { channel?: string; url?: string }
+): Promise<SlackDeliveryRecord> {
+  const channel = (options?.channel || process.env.SLACK_DEFAULT_CHANNEL || '').trim()
+  const record: SlackDeliveryRecord = { ok: false, channel, ts: null, message_ts: [], posted_at: new Date().toISOString() }
+  if (!isSlackDeliveryConfigured()) return { ...record, error: 'SLACK_BOT_TOKEN not configured on server' }
+  if (!channel) return { ...record, error: 'No Slack channel given and SLACK_DEFAULT_CHANNEL is not set' }
+
+  const messages: SlackMessage[] = renderDigestMessages(data, { url: options?.url })
+  for (let index = 0; index < messages.length; index++) {
+    const message = messages[index]
+    const result = await slackApi('chat.postMessage', {
+      channel: record.ts ? record.channel : channel,
+      text: message.text,
+      blocks: message.blocks,
+      unfurl_links: false,
+      unfurl_media: false,
+      ...(record.ts && { thread_ts: record.ts }),
+    })
+    if (!result.ok || !result.ts) {
+      const error = result.error || 'unknown_error'
+      return {
+        ...record,
+        error: messages.length > 1 ? `Posted ${index} of ${messages.length} parts: ${error}` : error,
+      }
+    }
+    // Slack answers with the channel ID; thread replies must use it
+    if (!record.ts) {
+      record.ts = result.ts
+      record.channel = result.channel || channel
+    }
+    record.message_ts.push(result.ts)
+  }
+  return { ...record, ok: true }
+}
@@ -0,0 +1,256 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Server-side plain-text/HTML mail sender on Node's net/tls, enough for alert
+ * and digest emails without a mail dependency: EHLO, STARTTLS, AUTH PLAIN or
+ * LOGIN, one message per connection.
+ *
+ * Configured from the environment:
+ *   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit TLS, e.g. 465),
+ *   SMTP_USER, SMTP_PASS, SMTP_FROM
+ */
+
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import { randomUUID } from 'crypto'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+  from?: string
+}
+
+const TIMEOUT_MS = 20000
+
+/** SMTP settings from the environment, or null when SMTP_HOST is not set. */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST
+  if (!host) return null
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || '', 10) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || `alerts@${host}`,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Connection
+// ---------------------------------------------------------------------------
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+class SmtpConnection {
+  private buffer = ''
+  private pending: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = []
+  private lines: string[] = []
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8')
+    socket.setTimeout(TIMEOUT_MS, () => this.fail(new Error('SMTP connection timed out')))
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return
+    this.failure = error
+    this.pending.splice(0).forEach(p => p.reject(error))
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line.slice(4))
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines }
+        this.lines = []
+        this.pending.shift()?.resolve(reply)
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => this.pending.push({ resolve, reject }))
+  }
+
+  async command(line: string, expect: number[]): Promise<SmtpReply> {
+    const reply = this.read()
+    this.socket.write(`${line}\r\n`)
+    const result = await reply
+    if (!expect.includes(result.code)) {
+      const shown = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0]
+      throw new Error(`SMTP ${shown} failed: ${result.code} ${result.lines.join(' ')}`)
+    }
+    return result
+  }
+
+  /** Upgrade the connection after STARTTLS. */
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data')
+      this.socket.removeAllListeners('close')
+      this.socket.removeAllListeners('error')
+      const secured = tls.connect({ socket: this.socket, servername: host }, () => resolve())
+      secured.once('error', reject)
+      this.socket = secured
+      this.attach(secured)
+    })
+  }
+
+  close() {
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig): Promise<SmtpConnection> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+    const ready = config.secure ? 'secureConnect' : 'connect'
+    socket.once(ready, () => resolve(new SmtpConnection(socket)))
+    socket.once('error', reject)
+    socket.setTimeout(TIMEOUT_MS, () => {
+      socket.destroy()
+      reject(new Error('SMTP connection timed out'))
+    })
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Message
+// ---------------------------------------------------------------------------
+
+function encodeHeader(value: string): string {
+  // RFC 2047 for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function base64Body(text: string): string {
+  return (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n')
+}
+
+function buildMessage(message: MailMessage, from: string): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${os.hostname() || 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ]
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Body(message.text),
+    ].join('\r\n')
+  }
+
+  const boundary = `alt-${randomUUID()}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+  ].join('\r\n')
+}
+
+function address(value: string): string {
+  // "Name <addr@host>" → addr@host
+  const match = /<([^>]+)>/.exec(value)
+  return (match ? match[1] : value).trim()
+}
+
+// ---------------------------------------------------------------------------
+// Send
+// ---------------------------------------------------------------------------
+
+export async function sendMail(message: MailMessage, config: SmtpConfig | null = getSmtpConfig()): Promise<void> {
+  if (!config) throw new Error('SMTP not configured (set SMTP_HOST)')
+  if (message.to.length === 0) throw new Error('No recipients')
+
+  const from = message.from || config.from
+  const conn = await connect(config)
+  try {
+    const greeting = await conn.read()
+    if (greeting.code !== 220) throw new Error(`SMTP greeting failed: ${greeting.code} ${greeting.lines.join(' ')}`)
+
+    const hostname = os.hostname() || 'localhost'
+    let ehlo = await conn.command(`EHLO ${hostname}`, [250])
+    const supports = (ext: string) => ehlo.lines.some(line => line.toUpperCase().startsWith(ext))
+
+    if (!config.secure && supports('STARTTLS')) {
+      await conn.command('STARTTLS', [220])
+      await conn.upgrade(config.host)
+      ehlo = await conn.command(`EHLO ${hostname}`, [250])
+    }
+
+    if (config.user && config.pass) {
+      const authLine = ehlo.lines.find(line => line.toUpperCase().startsWith('AUTH')) || ''
+      if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+        const token = Buffer.from(`\0${config.user}\0${config.pass}`, 'utf8').toString('base64')
+        await conn.command(`AUTH PLAIN ${token}`, [235])
+      } else {
+        await conn.command('AUTH LOGIN', [334])
+        await conn.command(Buffer.from(config.user, 'utf8').toString('base64'), [334])
+        await conn.command(Buffer.from(config.pass, 'utf8').toString('base64'), [235])
+      }
+    }
+
+    await conn.command(`MAIL FROM:<${address(from)}>`, [250])
+    for (const recipient of message.to) {
+      await conn.command(`RCPT TO:<${address(recipient)}>`, [250, 251])
+    }
+    await conn.command('DATA', [354])
+    // Dot-stuffing: lines starting with "." get an extra one
+    const body = buildMessage(message, from).replace(/\r\n\./g, '\r\n..')
+    await conn.command(`${body}\r\n.`, [250])
+    await conn.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    conn.close()
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Minimal SSE framing used both by API routes (encode / read upstream streams)
+ * and by client wrappers reading /api/* streams.
+ */
+
+export interface SSEMessage {
+  event: string
+  data: string
+}
+
+/** Format one SSE frame; `data` is JSON-encoded unless already a string. */
+export function formatSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data)
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n')
+  return `event: ${event}\n${lines}\n\n`
+}
+
+/** Read SSE frames from a byte stream as they arrive. */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const parseFrame = (frame: string): SSEMessage | null => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of frame.split('\n')) {
+      if (!line || line.startsWith(':')) continue
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      let value = colon === -1 ? '' : line.slice(colon + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+      if (field === 'event') event = value
+      else if (field === 'data') data.push(value)
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const message = parseFrame(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (message) yield message
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+
+    buffer += decoder.decode()
+    const last = parseFrame(buffer)
+    if (last) yield last
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Story Deduplication
+ *
+ * Server-side utility run when a digest is archived. Each story is compared to
+ * the other stories in the same digest and to stories archived within the
+ * lookback window:
+ *
+ *   - exact match on normalized headline + source, or near-identical text → `repeat`
+ *   - similar headline words or summary shingles (Jaccard ≥ threshold)     → `follow_up`
+ *   - the same story twice in one digest (e.g. two categories)            → `duplicate`
+ *
+ * Matches are annotated on the story (`story.dedup`). With DIGEST_DEDUP_MODE=suppress
+ * repeats and in-digest duplicates are removed instead; follow-ups are always kept.
+ */
+
+import type { DigestData, Story, StoryDedupInfo, StoredDigest, DedupSummary } from '@/lib/digest'
+
+const FOLLOW_UP_THRESHOLD = parseFloat(process.env.DEDUP_SIMILARITY_THRESHOLD || '0.5') || 0.5
+const REPEAT_THRESHOLD = 0.85
+const LOOKBACK_DAYS = parseInt(process.env.DEDUP_LOOKBACK_DAYS || '14', 10) || 14
+
+export type DedupMode = 'flag' | 'suppress'
+
+export function getDedupMode(): DedupMode {
+  return process.env.DIGEST_DEDUP_MODE === 'suppress' ? 'suppress' : 'flag'
+}
+
+export function getDedupLookbackMs(): number {
+  return LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+}
+
+// ---------------------------------------------------------------------------
+// Text normalization & similarity
+// ---------------------------------------------------------------------------
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is',
+  'it', 'its', 'new', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+])
+
+export function normalizeText(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** Exact-match key: normalized headline plus normalized source. */
+export function storyKey(story: Pick<Story, 'headline' | 'source'>): string {
+  return `${normalizeText(story.headline)}|${normalizeText(story.source)}`
+}
+
+function tokens(text: string): string[] {
+  return normalizeText(text).split(' ').filter(t => t && !STOP_WORDS.has(t))
+}
+
+/** Word k-shingles; short texts fall back to single words so they still compare. */
+export function shingles(text: string, k = 2): Set<string> {
+  const words = tokens(text)
+  const out = new Set<string>()
+  if (words.length < k) {
+    words.forEach(w => out.add(w))
+    return out
+  }
+  for (let i = 0; i <= words.length - k; i++) {
+    out.add(words.slice(i, i + k).join(' '))
+  }
+  return out
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let intersection = 0
+  a.forEach(item => {
+    if (b.has(item)) intersection++
+  })
+  return intersection / (a.size + b.size - intersection)
+}
+
+interface StoryFingerprint {
+  key: string
+  headline: Set<string>
+  text: Set<string>
+}
+
+function fingerprint(story: Story): StoryFingerprint {
+  return {
+    key: storyKey(story),
+    headline: shingles(story.headline, 1),
+    text: shingles(`${story.headline} ${story.summary}`, 3),
+  }
+}
+
+/** Similarity in [0, 1]; exact key matches score 1. */
+export function storySimilarity(a: StoryFingerprint, b: StoryFingerprint): number {
+  if (a.key === b.key) return 1
+  return Math.max(jaccard(a.headline, b.headline), jaccard(a.text, b.text))
+}
+
+// ---------------------------------------------------------------------------
+// Digest deduplication
+// ---------------------------------------------------------------------------
+
+interface PriorStory {
+  fp: StoryFingerprint
+  digest: StoredDigest
+}
+
+function collectPriorStories(previous: StoredDigest[]): PriorStory[] {
+  const prior: PriorStory[] = []
+  for (const digest of previous) {
+    for (const category of digest.data.categories || []) {
+      for (const story of category.stories || []) {
+        // In-digest duplicates are copies of a story collected just before them
+        if (story?.headline && story.dedup?.status !== 'duplicate') {
+          prior.push({ fp: fingerprint(story), digest })
+        }
+      }
+    }
+  }
+  return prior
+}
+
+/**
+ * Annotate (or suppress) repeated stories in `data` against `previous` digests.
+ * Returns a new DigestData; the input is not modified.
+ */
+export function dedupeDigest(
+  data: DigestData,
+  previous: StoredDigest[],
+  mode: DedupMode = getDedupMode()
+): { data: DigestData; summary: DedupSummary } {
+  const prior = collectPriorStories(previous)
+  const seenInDigest: Array<{ fp: StoryFingerprint; category: string }> = []
+  const summary: DedupSummary = { mode, checked: 0, repeats: 0, follow_ups: 0, duplicates: 0, suppressed: 0 }
+
+  const categories = (data.categories || []).map(category => {
+    const stories: Story[] = []
+    for (const story of category.stories || []) {
+      if (!story || typeof story !== 'object') continue
+      summary.checked++
+      const { dedup: _previous, ...clean } = story
+      const fp = fingerprint(clean)
+      let info: StoryDedupInfo | undefined
+
+      const inDigest = seenInDigest.find(s => storySimilarity(fp, s.fp) >= REPEAT_THRESHOLD)
+      if (inDigest) {
+        summary.duplicates++
+        info = { status: 'duplicate', similarity: 1, also_in: inDigest.category }
+      } else {
+        let best: PriorStory | null = null
+        let bestScore = 0
+        for (const candidate of prior) {
+          const score = storySimilarity(fp, candidate.fp)
+          // Prefer the most recent match among equally similar stories
+          if (score > bestScore || (score === bestScore && best && candidate.digest.created_at > best.digest.created_at)) {
+            best = candidate
+            bestScore = score
+          }
+        }
+        if (best && bestScore >= FOLLOW_UP_THRESHOLD) {
+          const status = bestScore >= REPEAT_THRESHOLD ? 'repeat' : 'follow_up'
+          if (status === 'repeat') summary.repeats++
+          else summary.follow_ups++
+          info = {
+            status,
+            similarity: Math.round(bestScore * 100) / 100,
+            seen_digest_id: best.digest.id,
+            seen_digest_date: best.digest.digest_date,
+            seen_at: best.digest.created_at,
+          }
+        }
+        seenInDigest.push({ fp, category: category.category_name })
+      }
+
+      if (info && mode === 'suppress' && info.status !== 'follow_up') {
+        summary.suppressed++
+        continue
+      }
+      stories.push(info ? { ...clean, dedup: info } : clean)
+    }
+    return { ...category, stories }
+  })
+
+  const total = categories.reduce((sum, c) => sum + c.stories.length, 0)
+  return {
+    data: {
+      ...data,
+      categories,
+      total_stories: summary.suppressed > 0 ? total : data.total_stories,
+    },
+    summary,
+  }
+}
@@ -23,6 +23,9 @@ const nextConfig = {
 
   // Enable experimental features for faster dev
   experimental: {
+    // Runs instrumentation.ts at server start (starts the local scheduler)
+    instrumentationHook: true,
+
     // Optimize package imports for faster builds
     optimizePackageImports: [
       'lucide-react',
@@ -0,0 +1,16 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/__tests__/**/*.test.ts'],
+    exclude: ['node_modules', '.next'],
+    setupFiles: ['./vitest.setup.ts'],
+    // Upstream calls are answered from fixtures/lyzr, never the network
+    env: { LYZR_UPSTREAM: 'mock' },
+  },
+})
@@ -0,0 +1,12 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll } from 'vitest'
+
+// Every test file gets its own DATA_DIR, so JSON stores never touch ./.data
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-news-digest-test-'))
+process.env.DATA_DIR = dataDir
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})